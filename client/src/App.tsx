@@ -5,7 +5,6 @@ import { queryClient } from "./lib/queryClient";
 import { useEffect, useState } from "react";
 import { supabase } from "./lib/supabase";
 import { type Session } from "@supabase/supabase-js";
-import { ensureStorageBucket } from "./lib/supabase-storage";
 import { debugAuth } from "./lib/debug-api"; // Import debug utility
 
 // Components
@@ -21,6 +20,9 @@ import NotFound from "./pages/not-found";
 import DebugStorage from "./pages/debug-storage";
 import ItemView from "./pages/item-view";
 import ChatSettings from "./pages/chat-settings";
+import Invite from "./pages/invite";
+import Transfer from "./pages/transfer";
+import Notifications from "./pages/notifications";
 
 // Tutorial Components
 import { TutorialProvider } from "./components/tutorial/TutorialContext";
@@ -97,9 +99,6 @@ function PublicProjectRoute({ params }: { params: { id: string } }) {
 
 function Router() {
   useEffect(() => {
-    // Ensure storage bucket exists when app initializes
-    ensureStorageBucket().catch(console.error);
-    
     // Debug auth on startup to help troubleshoot issues
     debugAuth().then(result => {
       console.log('Auth debug on startup:', result);
@@ -137,6 +136,15 @@ function Router() {
         <Route path="/item/:id">
           {(params) => <PrivateRoute component={ItemView} params={params} />}
         </Route>
+        <Route path="/invite/:token">
+          {(params) => <Invite {...params} />}
+        </Route>
+        <Route path="/transfer/:token">
+          {(params) => <Transfer {...params} />}
+        </Route>
+        <Route path="/notifications">
+          {() => <PrivateRoute component={Notifications} />}
+        </Route>
         <Route path="/performance">
           {() => <PrivateRoute component={Performance} />}
         </Route>
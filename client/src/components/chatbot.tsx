@@ -1,7 +1,7 @@
 import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
-import { apiGet, apiPost } from "@/lib/api-client";
+import { apiGet, apiPost, apiStream } from "@/lib/api-client";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -25,9 +25,20 @@ import {
   MoreVertical,
   Archive,
   Trash2,
+  Check,
+  X,
+  Wrench,
 } from "lucide-react";
 import { Link } from "wouter";
-import type { Conversation, Message } from "@shared/schema";
+import type { Conversation, Message, MessageCitation, MessageToolCall } from "@shared/schema";
+
+// Source tags the assistant cites, e.g. [S3] or [S1, S4]
+const CITATION_PATTERN = /\[(S\d+(?:\s*,\s*S\d+)*)\]/g;
+
+// Titles are generated in the background after the first reply; poll for
+// them for a while so the conversation list picks them up
+const TITLE_POLL_INTERVAL_MS = 2000;
+const TITLE_POLL_TIMEOUT_MS = 30000;
 
 interface ChatbotProps {
   projectId: string;
@@ -38,6 +49,10 @@ export default function Chatbot({ projectId }: ChatbotProps) {
   const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
   const [messageInput, setMessageInput] = useState("");
   const [isTyping, setIsTyping] = useState(false);
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+  const [streamingContent, setStreamingContent] = useState("");
+  const [titlePendingSince, setTitlePendingSince] = useState<number | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Fetch conversations
@@ -48,6 +63,10 @@ export default function Chatbot({ projectId }: ChatbotProps) {
     },
     // Ensure conversations list stays fresh  
     staleTime: 0,
+    refetchInterval: () =>
+      titlePendingSince !== null && Date.now() - titlePendingSince < TITLE_POLL_TIMEOUT_MS
+        ? TITLE_POLL_INTERVAL_MS
+        : false,
   });
 
   // Fetch messages for selected conversation
@@ -90,33 +109,74 @@ export default function Chatbot({ projectId }: ChatbotProps) {
     },
   });
 
-  // Send message
+  // Send message and render the reply as it streams in
   const sendMessageMutation = useMutation({
     mutationFn: async (content: string) => {
       if (!selectedConversation) throw new Error("No conversation selected");
-      return await apiPost(`/api/conversations/${selectedConversation}/messages`, { content });
+
+      const abortController = new AbortController();
+      streamAbortRef.current = abortController;
+      setPendingMessage(content);
+      setStreamingContent("");
+      setMessageInput("");
+
+      await apiStream(
+        `/api/conversations/${selectedConversation}/messages/stream`,
+        { content },
+        (event, data) => {
+          if (event === "delta") {
+            setStreamingContent((current) => current + data.content);
+          } else if (event === "error") {
+            throw new Error(data.message || "Failed to send message");
+          }
+        },
+        { signal: abortController.signal }
+      );
     },
-    onSuccess: () => {
+    onSuccess: async () => {
       // Force invalidate and refetch messages
-      queryClient.invalidateQueries({ queryKey: ["messages", selectedConversation] });
-      queryClient.refetchQueries({ queryKey: ["messages", selectedConversation] });
-      setMessageInput("");
-      setIsTyping(false);
+      await queryClient.invalidateQueries({ queryKey: ["messages", selectedConversation] });
+      await queryClient.refetchQueries({ queryKey: ["messages", selectedConversation] });
+
+      const conversation = conversations?.find((c) => c.id === selectedConversation);
+      if (conversation && !conversation.title_generated) {
+        setTitlePendingSince(Date.now());
+      }
     },
     onError: (error) => {
-      setIsTyping(false);
+      if (error instanceof DOMException && error.name === "AbortError") return;
       toast({
         title: "Error",
         description: error instanceof Error ? error.message : "Failed to send message",
         variant: "destructive",
       });
     },
+    onSettled: () => {
+      streamAbortRef.current = null;
+      setPendingMessage(null);
+      setStreamingContent("");
+      setIsTyping(false);
+    },
   });
 
+  // Stop polling once the title has arrived
+  useEffect(() => {
+    const conversation = conversations?.find((c) => c.id === selectedConversation);
+    if (conversation?.title_generated) {
+      setTitlePendingSince(null);
+    }
+  }, [conversations, selectedConversation]);
+
+  // Stop any in-flight stream when switching conversations or unmounting;
+  // the server saves whatever was generated so far
+  useEffect(() => {
+    return () => streamAbortRef.current?.abort();
+  }, [selectedConversation]);
+
   // Auto-scroll to bottom of messages
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, pendingMessage, streamingContent]);
 
   // Select first conversation if none selected
   useEffect(() => {
@@ -139,6 +199,36 @@ export default function Chatbot({ projectId }: ChatbotProps) {
     }
   };
 
+  // Confirm or dismiss a change the assistant proposed; the assistant then follows up
+  const resolveToolCallMutation = useMutation({
+    mutationFn: async ({ messageId, toolCallId, approved }: { messageId: string; toolCallId: string; approved: boolean }) => {
+      setIsTyping(true);
+      return await apiPost(
+        `/api/conversations/${selectedConversation}/messages/${messageId}/tool-calls/${toolCallId}`,
+        { approved }
+      );
+    },
+    onSuccess: (_, { approved }) => {
+      if (approved) {
+        // The change may have touched rooms or items shown elsewhere on the page
+        queryClient.invalidateQueries();
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["messages", selectedConversation] });
+      }
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ["messages", selectedConversation] });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to apply the change",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      setIsTyping(false);
+    },
+  });
+
   const createNewConversation = () => {
     const title = `Chat ${new Date().toLocaleTimeString()}`;
     createConversationMutation.mutate(title);
@@ -281,7 +371,30 @@ export default function Chatbot({ projectId }: ChatbotProps) {
                             : "bg-gray-100 text-gray-900"
                         }`}
                       >
-                        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                        {message.role === "assistant" ? (
+                          <>
+                            <MessageContent
+                              content={message.content}
+                              citations={getCitations(message)}
+                            />
+                            {getToolCalls(message).map((toolCall) => (
+                              <ToolCallCard
+                                key={toolCall.id}
+                                toolCall={toolCall}
+                                disabled={resolveToolCallMutation.isPending || sendMessageMutation.isPending}
+                                onResolve={(approved) =>
+                                  resolveToolCallMutation.mutate({
+                                    messageId: message.id,
+                                    toolCallId: toolCall.id,
+                                    approved,
+                                  })
+                                }
+                              />
+                            ))}
+                          </>
+                        ) : (
+                          <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                        )}
                         <div className="text-xs opacity-70 mt-1">
                           {new Date(message.created_at).toLocaleTimeString()}
                         </div>
@@ -298,6 +411,19 @@ export default function Chatbot({ projectId }: ChatbotProps) {
                   ))
                 )}
 
+                {pendingMessage && (
+                  <div className="flex gap-3 justify-end">
+                    <div className="max-w-[80%] rounded-lg p-3 bg-indigo-600 text-white">
+                      <p className="text-sm whitespace-pre-wrap">{pendingMessage}</p>
+                    </div>
+                    <Avatar className="w-8 h-8">
+                      <AvatarFallback className="bg-blue-100 text-blue-600">
+                        <User className="h-4 w-4" />
+                      </AvatarFallback>
+                    </Avatar>
+                  </div>
+                )}
+
                 {isTyping && (
                   <div className="flex gap-3">
                     <Avatar className="w-8 h-8">
@@ -305,13 +431,19 @@ export default function Chatbot({ projectId }: ChatbotProps) {
                         <Bot className="h-4 w-4" />
                       </AvatarFallback>
                     </Avatar>
-                    <div className="bg-gray-100 rounded-lg p-3">
-                      <div className="flex gap-1">
-                        <div className="w-2 h-2 bg-gray-500 rounded-full animate-pulse" />
-                        <div className="w-2 h-2 bg-gray-500 rounded-full animate-pulse delay-100" />
-                        <div className="w-2 h-2 bg-gray-500 rounded-full animate-pulse delay-200" />
+                    {streamingContent ? (
+                      <div className="max-w-[80%] rounded-lg p-3 bg-gray-100 text-gray-900">
+                        <p className="text-sm whitespace-pre-wrap">{streamingContent}</p>
                       </div>
-                    </div>
+                    ) : (
+                      <div className="bg-gray-100 rounded-lg p-3">
+                        <div className="flex gap-1">
+                          <div className="w-2 h-2 bg-gray-500 rounded-full animate-pulse" />
+                          <div className="w-2 h-2 bg-gray-500 rounded-full animate-pulse delay-100" />
+                          <div className="w-2 h-2 bg-gray-500 rounded-full animate-pulse delay-200" />
+                        </div>
+                      </div>
+                    )}
                   </div>
                 )}
 
@@ -353,3 +485,142 @@ export default function Chatbot({ projectId }: ChatbotProps) {
     </div>
   );
 }
+
+function getCitations(message: Message): MessageCitation[] {
+  const metadata = message.metadata as { citations?: MessageCitation[] } | null;
+  return metadata?.citations || [];
+}
+
+function getToolCalls(message: Message): MessageToolCall[] {
+  const metadata = message.metadata as { tool_calls?: MessageToolCall[] } | null;
+  return metadata?.tool_calls || [];
+}
+
+const TOOL_CALL_STATUS_LABELS: Record<MessageToolCall["status"], string> = {
+  pending: "Awaiting confirmation",
+  executed: "Done",
+  rejected: "Dismissed",
+  failed: "Failed",
+  cancelled: "Not confirmed",
+};
+
+// A change proposed by the assistant, with confirm/dismiss buttons while it is pending
+function ToolCallCard({
+  toolCall,
+  disabled,
+  onResolve,
+}: {
+  toolCall: MessageToolCall;
+  disabled: boolean;
+  onResolve: (approved: boolean) => void;
+}) {
+  return (
+    <div className="mt-2 rounded-md border border-gray-200 bg-white p-2 text-sm">
+      <div className="flex items-start gap-2">
+        <Wrench className="h-4 w-4 mt-0.5 text-indigo-600 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p>{toolCall.summary}</p>
+          {toolCall.status === "failed" && toolCall.error && (
+            <p className="text-xs text-red-600 mt-1">{toolCall.error}</p>
+          )}
+        </div>
+        {toolCall.status !== "pending" && (
+          <Badge variant={toolCall.status === "executed" ? "default" : "secondary"} className="text-xs">
+            {TOOL_CALL_STATUS_LABELS[toolCall.status]}
+          </Badge>
+        )}
+      </div>
+      {toolCall.status === "pending" && (
+        <div className="flex justify-end gap-2 mt-2">
+          <Button size="sm" variant="outline" disabled={disabled} onClick={() => onResolve(false)}>
+            <X className="h-3 w-3 mr-1" />
+            Dismiss
+          </Button>
+          <Button size="sm" disabled={disabled} onClick={() => onResolve(true)} className="bg-indigo-600 hover:bg-indigo-700">
+            <Check className="h-3 w-3 mr-1" />
+            Confirm
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function citationHref(citation: MessageCitation): string | null {
+  switch (citation.type) {
+    case "item":
+      return `/item/${citation.id}`;
+    case "room":
+      return `/room/${citation.id}`;
+    case "finish":
+      return citation.room_id ? `/room/${citation.room_id}` : null;
+    case "document":
+      return citation.item_id ? `/item/${citation.item_id}` : null;
+    default:
+      return null;
+  }
+}
+
+function citationLabel(citation: MessageCitation): string {
+  if (citation.type === "document" && citation.page) {
+    return `${citation.title}, page ${citation.page}`;
+  }
+  return citation.title;
+}
+
+// Assistant message text with cited source tags turned into numbered links
+function MessageContent({ content, citations }: { content: string; citations: MessageCitation[] }) {
+  const byRef = new Map(citations.map((citation, index) => [citation.ref, { citation, number: index + 1 }]));
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of Array.from(content.matchAll(CITATION_PATTERN))) {
+    const refs = match[1].split(",").map((ref) => ref.trim());
+    if (!refs.some((ref) => byRef.has(ref))) continue;
+
+    parts.push(content.slice(lastIndex, match.index));
+    refs.forEach((ref) => {
+      const cited = byRef.get(ref);
+      if (!cited) return;
+      const href = citationHref(cited.citation);
+      const marker = <sup className="text-indigo-600 font-medium">[{cited.number}]</sup>;
+      parts.push(
+        href ? (
+          <Link key={`${match.index}-${ref}`} href={href} title={citationLabel(cited.citation)} className="hover:underline">
+            {marker}
+          </Link>
+        ) : (
+          <span key={`${match.index}-${ref}`} title={citationLabel(cited.citation)}>{marker}</span>
+        )
+      );
+    });
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  parts.push(content.slice(lastIndex));
+
+  return (
+    <>
+      <p className="text-sm whitespace-pre-wrap">{parts}</p>
+      {citations.length > 0 && (
+        <div className="mt-2 pt-2 border-t border-gray-200 space-y-0.5">
+          <div className="text-xs font-medium text-gray-500">Sources</div>
+          {citations.map((citation, index) => {
+            const href = citationHref(citation);
+            return (
+              <div key={citation.ref} className="text-xs">
+                <span className="text-gray-500">[{index + 1}] </span>
+                {href ? (
+                  <Link href={href} className="text-indigo-600 hover:underline">
+                    {citationLabel(citation)}
+                  </Link>
+                ) : (
+                  <span>{citationLabel(citation)}</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+}
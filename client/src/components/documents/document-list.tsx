@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { FileText, Pencil, Trash2 } from "lucide-react";
+import { DOCUMENT_KIND_LABELS, updateDocument, deleteDocument, type StoredDocument } from "@/lib/files";
+import type { DocumentKind } from "@shared/schema";
+
+interface DocumentListProps {
+  documents: StoredDocument[];
+  // Called after a document is renamed, re-categorised or deleted
+  onChanged: () => void;
+}
+
+function formatSize(bytes: number): string {
+  // Documents carried over from before sizes were recorded have none
+  if (!bytes) return "";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function DocumentList({ documents, onChanged }: DocumentListProps) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<StoredDocument | null>(null);
+  const [filename, setFilename] = useState("");
+  const [kind, setKind] = useState<DocumentKind>("other");
+
+  const startEditing = (document: StoredDocument) => {
+    setEditing(document);
+    setFilename(document.filename);
+    setKind(document.kind);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (document: StoredDocument) => updateDocument(document.id, { filename: filename.trim(), kind }),
+    onSuccess: () => {
+      setEditing(null);
+      onChanged();
+      toast({
+        title: "Success",
+        description: "Document updated successfully"
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update document",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    // The server also drops the document from the assistant's knowledge base
+    mutationFn: (document: StoredDocument) => deleteDocument(document.id),
+    onSuccess: () => {
+      onChanged();
+      toast({
+        title: "Success",
+        description: "Document deleted successfully"
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete document",
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <>
+      <div className="grid gap-2">
+        {documents.map((doc) => (
+          <div key={doc.id} className="flex items-center justify-between gap-2 group hover:bg-white p-2 rounded-md border border-gray-200">
+            <a
+              href={doc.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 min-w-0 text-sm text-gray-700 hover:text-blue-600"
+            >
+              <FileText className="h-4 w-4 shrink-0" />
+              <span className="truncate">{doc.filename}</span>
+            </a>
+            <div className="flex items-center gap-1 shrink-0">
+              <span className="text-xs text-muted-foreground">{formatSize(doc.size)}</span>
+              <Badge variant="secondary">{DOCUMENT_KIND_LABELS[doc.kind]}</Badge>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="opacity-0 group-hover:opacity-100 transition-opacity h-6 w-6"
+                onClick={() => startEditing(doc)}
+              >
+                <Pencil className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="opacity-0 group-hover:opacity-100 transition-opacity h-6 w-6"
+                disabled={deleteMutation.isPending}
+                onClick={() => {
+                  if (confirm('Are you sure you want to delete this document?')) {
+                    deleteMutation.mutate(doc);
+                  }
+                }}
+              >
+                <Trash2 className="h-3 w-3 text-red-600" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>Edit document</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="grid gap-2">
+              <Label htmlFor="document-name">Name</Label>
+              <Input id="document-name" value={filename} onChange={(e) => setFilename(e.target.value)} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="document-edit-kind">Type</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as DocumentKind)}>
+                <SelectTrigger id="document-edit-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DOCUMENT_KIND_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={saveMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => editing && saveMutation.mutate(editing)}
+              disabled={!filename.trim() || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,269 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Finish, Room } from "@shared/schema";
+
+// Categories offered when adding a finish; anything else is listed under "Other"
+export const FINISH_CATEGORIES = ["Paint", "Flooring", "Tile", "Hardware"] as const;
+export const OTHER_CATEGORY = "Other";
+
+// Select value for finishes that apply to the whole project rather than one room
+const NO_ROOM = "none";
+
+const finishFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  category: z.string().min(1, "Category is required"),
+  room_id: z.string(),
+  manufacturer: z.string().optional(),
+  supplier: z.string().optional(),
+  color: z.string().optional(),
+  material: z.string().optional(),
+  model_number: z.string().optional(),
+  dimensions: z.string().optional(),
+  specifications: z.string().optional(),
+  maintenance_instructions: z.string().optional(),
+  warranty_info: z.string().optional(),
+  installation_date: z.string().optional(),
+  cost: z.string().optional(),
+});
+
+type FinishFormValues = z.infer<typeof finishFormSchema>;
+
+// Shape sent to the finishes API; empty fields are cleared rather than left unchanged
+export interface FinishPayload {
+  name: string;
+  category: string;
+  room_id: string | null;
+  manufacturer: string | null;
+  supplier: string | null;
+  color: string | null;
+  material: string | null;
+  model_number: string | null;
+  dimensions: string | null;
+  specifications: string | null;
+  maintenance_instructions: string | null;
+  warranty_info: string | null;
+  installation_date: string | null;
+  cost: string | null;
+}
+
+interface FinishFormProps {
+  finish?: Finish;
+  // Rooms to choose from; when omitted the finish stays in defaultRoomId
+  rooms?: Room[];
+  defaultRoomId?: string;
+  isPending: boolean;
+  onSubmit: (values: FinishPayload) => void;
+}
+
+export default function FinishForm({ finish, rooms, defaultRoomId, isPending, onSubmit }: FinishFormProps) {
+  const form = useForm<FinishFormValues>({
+    resolver: zodResolver(finishFormSchema),
+    defaultValues: {
+      name: finish?.name || "",
+      category: finish?.category || "",
+      room_id: finish?.room_id || defaultRoomId || NO_ROOM,
+      manufacturer: finish?.manufacturer || "",
+      supplier: finish?.supplier || "",
+      color: finish?.color || "",
+      material: finish?.material || "",
+      model_number: finish?.model_number || "",
+      dimensions: finish?.dimensions || "",
+      specifications: finish?.specifications || "",
+      maintenance_instructions: finish?.maintenance_instructions || "",
+      warranty_info: finish?.warranty_info || "",
+      installation_date: finish?.installation_date || "",
+      cost: finish?.cost || "",
+    },
+  });
+
+  // Keep a category from outside the standard list selectable when editing
+  const categories: string[] = [...FINISH_CATEGORIES, OTHER_CATEGORY];
+  if (finish?.category && !categories.includes(finish.category)) {
+    categories.push(finish.category);
+  }
+
+  const handleSubmit = (values: FinishFormValues) => {
+    onSubmit({
+      name: values.name,
+      category: values.category,
+      room_id: values.room_id === NO_ROOM ? null : values.room_id,
+      manufacturer: values.manufacturer || null,
+      supplier: values.supplier || null,
+      color: values.color || null,
+      material: values.material || null,
+      model_number: values.model_number || null,
+      dimensions: values.dimensions || null,
+      specifications: values.specifications || null,
+      maintenance_instructions: values.maintenance_instructions || null,
+      warranty_info: values.warranty_info || null,
+      installation_date: values.installation_date || null,
+      cost: values.cost || null,
+    });
+  };
+
+  const textField = (name: keyof FinishFormValues, label: string, placeholder: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input placeholder={placeholder} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const textAreaField = (name: keyof FinishFormValues, label: string, placeholder: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Textarea placeholder={placeholder} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <ScrollArea className="h-[65vh]">
+          <div className="space-y-4 px-4 pr-8">
+            {textField("name", "Name*", "e.g. Living room walls")}
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category*</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {categories.map((category) => (
+                          <SelectItem key={category} value={category}>
+                            {category}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {rooms && (
+                <FormField
+                  control={form.control}
+                  name="room_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Area</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select area" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_ROOM}>Whole home</SelectItem>
+                          {rooms.map((room) => (
+                            <SelectItem key={room.id} value={room.id}>
+                              {room.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {textField("color", "Color", "e.g. SW 7005 Pure White")}
+              {textField("material", "Material", "e.g. Engineered oak")}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {textField("manufacturer", "Manufacturer", "Manufacturer")}
+              {textField("model_number", "Model Number", "Model or product number")}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {textField("supplier", "Supplier", "Supplier")}
+              {textField("dimensions", "Dimensions", "e.g. 12\" x 24\"")}
+            </div>
+
+            {textAreaField("specifications", "Specifications", "Finish, sheen, grade and other details")}
+            {textAreaField("maintenance_instructions", "Maintenance Instructions", "How to clean and care for this finish")}
+            {textAreaField("warranty_info", "Warranty Information", "Warranty details")}
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="installation_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Installation Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="cost"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cost</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" placeholder="Cost" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          </div>
+        </ScrollArea>
+
+        <div className="flex justify-end gap-4 pt-4">
+          <Button type="submit" disabled={isPending}>
+            {isPending ? "Saving..." : finish ? "Save Changes" : "Add Finish"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { apiGet, apiPost, apiPut } from "@/lib/api-client";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency, formatDate } from "@/lib/format";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Plus, Pencil, Paintbrush, History } from "lucide-react";
+import FinishForm, { FINISH_CATEGORIES, OTHER_CATEGORY, type FinishPayload } from "./finish-form";
+import VersionHistory, { buildVersionTimeline, type VersionField } from "@/components/history/version-history";
+import type { Finish, FinishHistory, Room } from "@shared/schema";
+
+type CategoryFilter = "All" | (typeof FINISH_CATEGORIES)[number] | typeof OTHER_CATEGORY;
+
+const CATEGORY_FILTERS: CategoryFilter[] = ["All", ...FINISH_CATEGORIES, OTHER_CATEGORY];
+
+interface FinishesPanelProps {
+  projectId: string;
+  // Limit the panel to one room; otherwise every finish in the project is shown
+  roomId?: string;
+  // Rooms in the project, used for the area picker and labels
+  rooms?: Room[];
+  canEdit?: boolean;
+}
+
+/**
+ * Map a finish to one of the standard categories, case-insensitively
+ */
+function categoryOf(finish: Finish): CategoryFilter {
+  const match = FINISH_CATEGORIES.find(
+    (category) => category.toLowerCase() === finish.category.toLowerCase()
+  );
+  return match || OTHER_CATEGORY;
+}
+
+// Fields compared between versions in the history dialog
+function finishVersionFields(rooms?: Room[], roomId?: string): VersionField[] {
+  return [
+    { key: "name", label: "Name" },
+    { key: "category", label: "Category" },
+    {
+      key: "room_id",
+      label: "Area",
+      format: (value) =>
+        rooms?.find((room) => room.id === value)?.name || (value === roomId ? "This area" : "Another area"),
+    },
+    { key: "color", label: "Color" },
+    { key: "material", label: "Material" },
+    { key: "manufacturer", label: "Manufacturer" },
+    { key: "model_number", label: "Model Number" },
+    { key: "supplier", label: "Supplier" },
+    { key: "dimensions", label: "Dimensions" },
+    { key: "specifications", label: "Specifications" },
+    { key: "maintenance_instructions", label: "Maintenance" },
+    { key: "warranty_info", label: "Warranty" },
+    { key: "installation_date", label: "Installed", format: (value) => formatDate(value as string) },
+    { key: "cost", label: "Cost", format: (value) => formatCurrency(value as string) },
+  ];
+}
+
+export default function FinishesPanel({ projectId, roomId, rooms, canEdit = true }: FinishesPanelProps) {
+  const { toast } = useToast();
+  const [categoryFilter, setCategoryFilter] = useState<CategoryFilter>("All");
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [editingFinish, setEditingFinish] = useState<Finish | null>(null);
+  const [historyFinishId, setHistoryFinishId] = useState<string | null>(null);
+
+  const { data: finishes, isLoading, isError } = useQuery({
+    queryKey: ["finishes", projectId, roomId ?? "all"],
+    queryFn: async () => {
+      const url = roomId ? `/api/rooms/${roomId}/finishes` : `/api/projects/${projectId}/finishes`;
+      return await apiGet<Finish[]>(url);
+    },
+  });
+
+  const { data: finishHistory = [] } = useQuery({
+    queryKey: ["finish-history", historyFinishId],
+    queryFn: () => apiGet<FinishHistory[]>(`/api/finishes/${historyFinishId}/history`),
+    enabled: !!historyFinishId,
+  });
+
+  const onSaved = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ["finishes", projectId] });
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  const onSaveError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to save finish",
+      variant: "destructive",
+    });
+  };
+
+  const createFinish = useMutation({
+    mutationFn: async (values: FinishPayload) => {
+      return await apiPost<Finish>(`/api/projects/${projectId}/finishes`, values);
+    },
+    onSuccess: () => {
+      setShowAddDialog(false);
+      onSaved("Finish added successfully");
+    },
+    onError: onSaveError,
+  });
+
+  const updateFinish = useMutation({
+    mutationFn: async ({ id, values }: { id: string; values: FinishPayload }) => {
+      return await apiPut<Finish>(`/api/finishes/${id}`, values);
+    },
+    onSuccess: () => {
+      setEditingFinish(null);
+      onSaved("Finish updated successfully");
+    },
+    onError: onSaveError,
+  });
+
+  // Restore an earlier version; the server records the restore as a new version
+  const restoreVersion = useMutation({
+    mutationFn: async ({ id, version }: { id: string; version: number }) => {
+      return await apiPost<Finish>(`/api/finishes/${id}/restore`, { version });
+    },
+    onSuccess: (_, { id, version }) => {
+      queryClient.invalidateQueries({ queryKey: ["finish-history", id] });
+      onSaved(`Restored version ${version}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore version",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const historyFinish = finishes?.find((finish) => finish.id === historyFinishId);
+
+  const roomName = (finish: Finish) =>
+    finish.room_id ? rooms?.find((room) => room.id === finish.room_id)?.name : "Whole home";
+
+  const visibleFinishes = (finishes || []).filter(
+    (finish) => categoryFilter === "All" || categoryOf(finish) === categoryFilter
+  );
+
+  const countFor = (filter: CategoryFilter) =>
+    filter === "All"
+      ? finishes?.length || 0
+      : (finishes || []).filter((finish) => categoryOf(finish) === filter).length;
+
+  // Group by category so paint, flooring etc. are listed together
+  const groups = CATEGORY_FILTERS.filter((filter) => filter !== "All")
+    .map((category) => ({
+      category,
+      finishes: visibleFinishes.filter((finish) => categoryOf(finish) === category),
+    }))
+    .filter((group) => group.finishes.length > 0);
+
+  const renderDetail = (label: string, value: string | null | undefined) =>
+    value ? (
+      <div>
+        <p className="text-xs font-medium text-muted-foreground">{label}</p>
+        <p className="text-sm">{value}</p>
+      </div>
+    ) : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-2">
+          {CATEGORY_FILTERS.map((filter) => (
+            <Button
+              key={filter}
+              variant={categoryFilter === filter ? "default" : "outline"}
+              size="sm"
+              onClick={() => setCategoryFilter(filter)}
+            >
+              {filter}
+              <Badge variant="secondary" className="ml-2 rounded-md">
+                {countFor(filter)}
+              </Badge>
+            </Button>
+          ))}
+        </div>
+        {canEdit && (
+          <Button size="sm" onClick={() => setShowAddDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Finish
+          </Button>
+        )}
+      </div>
+
+      {isLoading && <p className="text-sm text-muted-foreground">Loading finishes...</p>}
+      {isError && <p className="text-sm text-destructive">Failed to load finishes.</p>}
+
+      {!isLoading && !isError && groups.length === 0 && (
+        <div className="text-center py-8 text-muted-foreground bg-muted/30 rounded-lg border">
+          <Paintbrush className="h-6 w-6 mx-auto mb-2" />
+          {categoryFilter === "All" ? "No finishes recorded yet." : `No ${categoryFilter.toLowerCase()} finishes recorded yet.`}
+        </div>
+      )}
+
+      {groups.map((group) => (
+        <div key={group.category} className="space-y-2">
+          <h3 className="text-sm font-semibold text-muted-foreground">{group.category}</h3>
+          <div className="grid md:grid-cols-2 gap-4">
+            {group.finishes.map((finish) => (
+              <Card key={finish.id} className="hover:shadow-md transition-shadow">
+                <CardHeader className="pb-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="space-y-1">
+                      <h4 className="font-semibold leading-tight">{finish.name}</h4>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="secondary" className="capitalize">
+                          {finish.category}
+                        </Badge>
+                        {!roomId && roomName(finish) && (
+                          <Badge variant="outline">{roomName(finish)}</Badge>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex">
+                      {finish.version > 1 && (
+                        <Button variant="ghost" size="icon" onClick={() => setHistoryFinishId(finish.id)}>
+                          <History className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {canEdit && (
+                        <Button variant="ghost" size="icon" onClick={() => setEditingFinish(finish)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    {renderDetail("Color", finish.color)}
+                    {renderDetail("Material", finish.material)}
+                    {renderDetail("Manufacturer", finish.manufacturer)}
+                    {renderDetail("Model Number", finish.model_number)}
+                    {renderDetail("Supplier", finish.supplier)}
+                    {renderDetail("Dimensions", finish.dimensions)}
+                    {finish.installation_date && renderDetail("Installed", formatDate(finish.installation_date))}
+                    {finish.cost && renderDetail("Cost", formatCurrency(finish.cost))}
+                  </div>
+                  {renderDetail("Specifications", finish.specifications)}
+                  {finish.maintenance_instructions && (
+                    <div className="rounded-md border bg-muted/30 p-2">
+                      <p className="text-xs font-medium text-muted-foreground">Maintenance</p>
+                      <p className="text-sm whitespace-pre-line">{finish.maintenance_instructions}</p>
+                    </div>
+                  )}
+                  {renderDetail("Warranty", finish.warranty_info)}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+        <DialogContent className="max-w-2xl max-h-[90vh] mx-4">
+          <DialogHeader>
+            <DialogTitle>Add Finish</DialogTitle>
+          </DialogHeader>
+          <FinishForm
+            rooms={roomId ? undefined : rooms}
+            defaultRoomId={roomId}
+            isPending={createFinish.isPending}
+            onSubmit={(values) => createFinish.mutate(values)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editingFinish} onOpenChange={(open) => !open && setEditingFinish(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] mx-4">
+          <DialogHeader>
+            <DialogTitle>Edit Finish</DialogTitle>
+          </DialogHeader>
+          {editingFinish && (
+            <FinishForm
+              key={editingFinish.id}
+              finish={editingFinish}
+              rooms={rooms}
+              isPending={updateFinish.isPending}
+              onSubmit={(values) => updateFinish.mutate({ id: editingFinish.id, values })}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historyFinishId} onOpenChange={(open) => !open && setHistoryFinishId(null)}>
+        <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Finish History{historyFinish ? ` - ${historyFinish.name}` : ""}</DialogTitle>
+          </DialogHeader>
+          {historyFinish && (
+            <VersionHistory
+              versions={buildVersionTimeline(
+                { version: historyFinish.version, created_at: historyFinish.created_at, data: historyFinish },
+                finishHistory.map((snapshot) => ({
+                  version: snapshot.version,
+                  data: JSON.parse(snapshot.previous_data),
+                  replacedAt: new Date(snapshot.changed_at).toISOString(),
+                  replacedBy: snapshot.changed_by,
+                  changeType: snapshot.change_type,
+                  restoredVersion: snapshot.restored_version,
+                }))
+              )}
+              fields={finishVersionFields(rooms, roomId)}
+              canRestore={canEdit}
+              isRestoring={restoreVersion.isPending}
+              onRestore={(version) => restoreVersion.mutate({ id: historyFinish.id, version })}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RotateCcw, GitCompare } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface VersionField {
+  key: string;
+  label: string;
+  format?: (value: unknown) => string;
+}
+
+/**
+ * A stored snapshot of a record, together with the change that replaced it
+ */
+export interface VersionSnapshot {
+  version: number;
+  data: Record<string, unknown>;
+  replacedAt: string;
+  // null when the change was made with the edit PIN rather than by a signed-in user
+  replacedBy: string | null;
+  changeType: string;
+  restoredVersion: number | null;
+}
+
+/**
+ * One version of a record and the change that produced it
+ */
+export interface VersionEntry {
+  version: number;
+  data: Record<string, unknown>;
+  changedAt: string | null;
+  // undefined when it is not known who made the change
+  changedBy?: string | null;
+  changeType: "created" | "update" | "restore";
+  restoredVersion: number | null;
+}
+
+/**
+ * Combine a record and its history snapshots into a timeline, newest first.
+ * Each version's change is described by the snapshot of the version before it.
+ */
+export function buildVersionTimeline(
+  current: { version: number; created_at: string | Date; data: Record<string, unknown> },
+  snapshots: VersionSnapshot[]
+): VersionEntry[] {
+  // Keep the latest snapshot for each version
+  const byVersion = new Map<number, VersionSnapshot>();
+  for (const snapshot of snapshots) {
+    const existing = byVersion.get(snapshot.version);
+    if (!existing || new Date(snapshot.replacedAt) > new Date(existing.replacedAt)) {
+      byVersion.set(snapshot.version, snapshot);
+    }
+  }
+
+  const entries: VersionEntry[] = [];
+  for (let version = current.version; version >= 1; version--) {
+    const data = version === current.version ? current.data : byVersion.get(version)?.data;
+    if (!data) continue;
+
+    const previous = byVersion.get(version - 1);
+    if (version === 1) {
+      entries.push({
+        version,
+        data,
+        changedAt: new Date(current.created_at).toISOString(),
+        changeType: "created",
+        restoredVersion: null,
+      });
+    } else {
+      entries.push({
+        version,
+        data,
+        changedAt: previous?.replacedAt ?? null,
+        changedBy: previous ? previous.replacedBy : undefined,
+        changeType: previous?.changeType === "restore" ? "restore" : "update",
+        restoredVersion: previous?.restoredVersion ?? null,
+      });
+    }
+  }
+
+  return entries;
+}
+
+interface VersionHistoryProps {
+  versions: VersionEntry[];
+  fields: VersionField[];
+  canRestore: boolean;
+  isRestoring: boolean;
+  onRestore: (version: number) => void;
+}
+
+export function formatFieldValue(field: VersionField, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field.format) return field.format(value);
+  if (Array.isArray(value)) return value.join(", ") || "—";
+  return String(value);
+}
+
+function describeChange(entry: VersionEntry): string {
+  switch (entry.changeType) {
+    case "created":
+      return "Created";
+    case "restore":
+      return entry.restoredVersion ? `Restored version ${entry.restoredVersion}` : "Restored";
+    default:
+      return "Edited";
+  }
+}
+
+export default function VersionHistory({ versions, fields, canRestore, isRestoring, onRestore }: VersionHistoryProps) {
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [fromVersion, setFromVersion] = useState<number | null>(versions[1]?.version ?? null);
+  const [toVersion, setToVersion] = useState<number | null>(versions[0]?.version ?? null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setCurrentUserId(session?.user.id ?? null);
+    });
+  }, []);
+
+  // Follow the newest version when a restore adds one
+  const latestVersion = versions[0]?.version;
+  useEffect(() => {
+    setToVersion(latestVersion ?? null);
+    setFromVersion(versions[1]?.version ?? null);
+  }, [latestVersion]);
+
+  const describeAuthor = (entry: VersionEntry): string | null => {
+    if (entry.changedBy === undefined) return null;
+    if (entry.changedBy === null) return "someone with the edit PIN";
+    return entry.changedBy === currentUserId ? "you" : "another user";
+  };
+
+  const compareWithPrevious = (version: number) => {
+    const index = versions.findIndex((entry) => entry.version === version);
+    setToVersion(version);
+    setFromVersion(versions[index + 1]?.version ?? null);
+  };
+
+  const from = versions.find((entry) => entry.version === fromVersion);
+  const to = versions.find((entry) => entry.version === toVersion);
+  const rows = fields.map((field) => {
+    const before = formatFieldValue(field, from?.data[field.key]);
+    const after = formatFieldValue(field, to?.data[field.key]);
+    return { field, before, after, changed: before !== after };
+  });
+  const changedCount = rows.filter((row) => row.changed).length;
+  const visibleRows = showUnchanged ? rows : rows.filter((row) => row.changed);
+
+  if (versions.length === 0) {
+    return <p className="text-gray-500 text-center py-8">No history available</p>;
+  }
+
+  return (
+    <div className="grid md:grid-cols-[280px_1fr] gap-6">
+      <ScrollArea className="max-h-[60vh] pr-3">
+        <ol className="relative border-l border-border ml-2 space-y-4">
+          {versions.map((entry, index) => {
+            const author = describeAuthor(entry);
+            const isSelected = entry.version === toVersion;
+            return (
+              <li key={entry.version} className="ml-4">
+                <span
+                  className={cn(
+                    "absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background",
+                    isSelected ? "bg-primary" : "bg-muted-foreground/40"
+                  )}
+                />
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">Version {entry.version}</span>
+                  {index === 0 && <Badge variant="secondary">Current</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {describeChange(entry)}
+                  {author && ` by ${author}`}
+                </p>
+                {entry.changedAt && (
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(entry.changedAt).toLocaleString()}
+                  </p>
+                )}
+                <div className="flex gap-2 mt-2">
+                  {index < versions.length - 1 && (
+                    <Button variant="outline" size="sm" onClick={() => compareWithPrevious(entry.version)}>
+                      <GitCompare className="h-3 w-3 mr-1" />
+                      Changes
+                    </Button>
+                  )}
+                  {index > 0 && canRestore && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isRestoring}
+                      onClick={() => onRestore(entry.version)}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </ScrollArea>
+
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">Compare</span>
+          <Select
+            value={fromVersion !== null ? String(fromVersion) : undefined}
+            onValueChange={(value) => setFromVersion(Number(value))}
+          >
+            <SelectTrigger className="w-[140px]">
+              <SelectValue placeholder="Version" />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((entry) => (
+                <SelectItem key={entry.version} value={String(entry.version)}>
+                  Version {entry.version}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-muted-foreground">with</span>
+          <Select
+            value={toVersion !== null ? String(toVersion) : undefined}
+            onValueChange={(value) => setToVersion(Number(value))}
+          >
+            <SelectTrigger className="w-[140px]">
+              <SelectValue placeholder="Version" />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((entry) => (
+                <SelectItem key={entry.version} value={String(entry.version)}>
+                  Version {entry.version}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2 ml-auto">
+            <Checkbox
+              id="show-unchanged"
+              checked={showUnchanged}
+              onCheckedChange={(checked) => setShowUnchanged(checked === true)}
+            />
+            <Label htmlFor="show-unchanged" className="text-sm">Show unchanged fields</Label>
+          </div>
+        </div>
+
+        {!from || !to ? (
+          <p className="text-sm text-muted-foreground">Choose two versions to compare.</p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {changedCount === 0
+                ? "No differences between these versions."
+                : `${changedCount} ${changedCount === 1 ? "field differs" : "fields differ"}.`}
+            </p>
+            {visibleRows.length > 0 && (
+              <div className="rounded-md border text-sm">
+                <div className="grid grid-cols-[140px_1fr_1fr] gap-3 border-b bg-muted/50 p-2 font-medium">
+                  <span>Field</span>
+                  <span>Version {from.version}</span>
+                  <span>Version {to.version}</span>
+                </div>
+                {visibleRows.map((row) => (
+                  <div
+                    key={row.field.key}
+                    className={cn(
+                      "grid grid-cols-[140px_1fr_1fr] gap-3 border-b last:border-b-0 p-2",
+                      row.changed && "bg-amber-50"
+                    )}
+                  >
+                    <span className="font-medium">{row.field.label}</span>
+                    <span className={cn("whitespace-pre-line break-words", row.changed && "text-red-700 line-through decoration-red-300")}>
+                      {row.before}
+                    </span>
+                    <span className={cn("whitespace-pre-line break-words", row.changed && "text-green-700")}>
+                      {row.after}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { exportToExcel, type ExportOptions } from "@/lib/format";
+import type { Room } from "@shared/schema";
+import { ITEM_FIELDS } from "./item-fields";
+
+type ExportFormat = NonNullable<ExportOptions["format"]>;
+
+// Columns that can be chosen, in spreadsheet order
+const EXPORT_COLUMNS = [{ key: "room", label: "Room" }, ...ITEM_FIELDS];
+
+const ALL = "__all__";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  projectName: string;
+  rooms: Room[];
+  // Values found on the project's items, offered as filters
+  categories: string[];
+  statuses: string[];
+}
+
+export default function ExportDialog({ open, onOpenChange, projectId, projectName, rooms, categories, statuses }: ExportDialogProps) {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<ExportFormat>("xlsx");
+  const [columns, setColumns] = useState<string[]>(EXPORT_COLUMNS.map((column) => column.key));
+  // No rooms ticked means every room
+  const [roomIds, setRoomIds] = useState<string[]>([]);
+  const [category, setCategory] = useState(ALL);
+  const [status, setStatus] = useState(ALL);
+  const [installedFrom, setInstalledFrom] = useState("");
+  const [installedTo, setInstalledTo] = useState("");
+  const [sheetPerRoom, setSheetPerRoom] = useState(false);
+  const [includeFinishes, setIncludeFinishes] = useState(false);
+  const [includeImages, setIncludeImages] = useState(false);
+
+  // A CSV file is a single table
+  const isCsv = format === "csv";
+
+  const exportMutation = useMutation({
+    mutationFn: () => exportToExcel(projectId, {
+      format,
+      columns,
+      room_id: roomIds,
+      category: category === ALL ? undefined : [category],
+      status: status === ALL ? undefined : [status],
+      installed_from: installedFrom || undefined,
+      installed_to: installedTo || undefined,
+      sheet_per_room: !isCsv && sheetPerRoom,
+      include_finishes: !isCsv && includeFinishes,
+      include_images: includeImages,
+    }, `${projectName}_items`),
+    onSuccess: () => {
+      onOpenChange(false);
+      toast({
+        title: "Success",
+        description: "Items exported successfully",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.data?.message || "Failed to export items",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (list: string[], value: string, checked: boolean) =>
+    checked ? [...list, value] : list.filter((entry) => entry !== value);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Export Items</DialogTitle>
+          <DialogDescription>Choose what to include and the file format.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="grid gap-4 content-start">
+            <div className="grid gap-2">
+              <Label htmlFor="export-format">Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+                <SelectTrigger id="export-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="json">JSON</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="grid gap-2">
+                <Label htmlFor="export-category">Category</Label>
+                <Select value={category} onValueChange={setCategory}>
+                  <SelectTrigger id="export-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All categories</SelectItem>
+                    {categories.map((value) => (
+                      <SelectItem key={value} value={value}>{value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="export-status">Status</Label>
+                <Select value={status} onValueChange={setStatus}>
+                  <SelectTrigger id="export-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All statuses</SelectItem>
+                    {statuses.map((value) => (
+                      <SelectItem key={value} value={value}>{value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="grid gap-2">
+                <Label htmlFor="export-installed-from">Installed from</Label>
+                <Input id="export-installed-from" type="date" value={installedFrom} onChange={(e) => setInstalledFrom(e.target.value)} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="export-installed-to">Installed to</Label>
+                <Input id="export-installed-to" type="date" value={installedTo} onChange={(e) => setInstalledTo(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="grid gap-3">
+              <div className="flex items-center gap-2">
+                <Switch id="export-sheet-per-room" checked={sheetPerRoom && !isCsv} onCheckedChange={setSheetPerRoom} disabled={isCsv} />
+                <Label htmlFor="export-sheet-per-room">{format === "json" ? "Group by room" : "One sheet per room"}</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="export-finishes" checked={includeFinishes && !isCsv} onCheckedChange={setIncludeFinishes} disabled={isCsv} />
+                <Label htmlFor="export-finishes">Include finishes</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="export-images" checked={includeImages} onCheckedChange={setIncludeImages} />
+                <Label htmlFor="export-images">Include image links</Label>
+              </div>
+            </div>
+          </div>
+
+          <div className="grid gap-4 content-start">
+            <div className="grid gap-2">
+              <Label>Rooms</Label>
+              <ScrollArea className="h-[130px] border rounded-md p-2">
+                {rooms.map((room) => (
+                  <div key={room.id} className="flex items-center gap-2 py-1">
+                    <Checkbox
+                      id={`export-room-${room.id}`}
+                      checked={roomIds.includes(room.id)}
+                      onCheckedChange={(checked) => setRoomIds(toggle(roomIds, room.id, checked === true))}
+                    />
+                    <Label htmlFor={`export-room-${room.id}`} className="font-normal">{room.name}</Label>
+                  </div>
+                ))}
+              </ScrollArea>
+              <p className="text-xs text-muted-foreground">Leave all unticked to export every room.</p>
+            </div>
+
+            <div className="grid gap-2">
+              <Label>Columns</Label>
+              <ScrollArea className="h-[180px] border rounded-md p-2">
+                {EXPORT_COLUMNS.map((column) => (
+                  <div key={column.key} className="flex items-center gap-2 py-1">
+                    <Checkbox
+                      id={`export-column-${column.key}`}
+                      checked={columns.includes(column.key)}
+                      onCheckedChange={(checked) => setColumns(toggle(columns, column.key, checked === true))}
+                    />
+                    <Label htmlFor={`export-column-${column.key}`} className="font-normal">{column.label}</Label>
+                  </div>
+                ))}
+              </ScrollArea>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={exportMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => exportMutation.mutate()} disabled={columns.length === 0 || exportMutation.isPending}>
+            {exportMutation.isPending ? "Exporting..." : "Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
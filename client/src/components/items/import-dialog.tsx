@@ -0,0 +1,272 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiUpload } from "@/lib/api-client";
+import { ITEM_FIELDS } from "./item-fields";
+
+type ImportMode = "skip" | "upsert";
+type ImportAction = "create" | "update" | "skip" | "error";
+
+interface ImportRow {
+  row: number;
+  action: ImportAction;
+  room: string | null;
+  name: string | null;
+  message?: string;
+  changes?: string[];
+}
+
+interface ImportResult {
+  headers: string[];
+  // Column header for each item field
+  mapping: Record<string, string>;
+  rows: ImportRow[];
+  summary: Record<ImportAction, number>;
+  new_rooms: string[];
+  applied: boolean;
+}
+
+// Fields a column can be mapped to, in the order they're shown
+const IMPORT_FIELDS = [{ key: "room", label: "Room" }, ...ITEM_FIELDS];
+
+const NOT_IMPORTED = "__none__";
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: "New",
+  update: "Update",
+  skip: "Skip",
+  error: "Error",
+};
+
+const ACTION_VARIANTS: Record<ImportAction, "default" | "secondary" | "outline" | "destructive"> = {
+  create: "default",
+  update: "secondary",
+  skip: "outline",
+  error: "destructive",
+};
+
+interface ImportDialogProps {
+  projectId: string;
+  // The spreadsheet chosen by the user; the dialog is open while there is one
+  file: File | null;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+/**
+ * Lets the user match spreadsheet columns to item fields and see what each
+ * row will do before importing anything
+ */
+export default function ImportDialog({ projectId, file, onClose, onImported }: ImportDialogProps) {
+  const { toast } = useToast();
+  const [mapping, setMapping] = useState<Record<string, string> | null>(null);
+  const [mode, setMode] = useState<ImportMode>("skip");
+  const [createRooms, setCreateRooms] = useState(true);
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+
+  const runImport = (dryRun: boolean) => {
+    const params = new URLSearchParams({
+      dry_run: String(dryRun),
+      mode,
+      create_rooms: String(createRooms),
+    });
+    // Without a mapping the server suggests one from the headers
+    if (mapping) params.set("mapping", JSON.stringify(mapping));
+    return apiUpload<ImportResult>(`/api/projects/${projectId}/items/import?${params}`, file!);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: () => runImport(true),
+    onSuccess: (result) => {
+      setPreview(result);
+      if (!mapping) setMapping(result.mapping);
+    },
+    onError: (error: any) => {
+      setPreview(null);
+      toast({
+        title: "Error",
+        description: error.data?.message || "Failed to read spreadsheet",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () => runImport(false),
+    onSuccess: (result) => {
+      onImported();
+      const { create, update, skip, error } = result.summary;
+      toast({
+        title: "Success",
+        description: `Imported ${create} new and ${update} updated items` +
+          (skip > 0 ? `, ${skip} skipped` : "") +
+          (error > 0 ? `, ${error} failed` : ""),
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.data?.message || "Failed to import items",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Start over once closed, so the next file gets its own suggested mapping
+  useEffect(() => {
+    if (!file) {
+      setMapping(null);
+      setPreview(null);
+    }
+  }, [file]);
+
+  // Refresh the preview whenever the file or the import settings change
+  useEffect(() => {
+    if (file) previewMutation.mutate();
+  }, [file, mapping, mode, createRooms]);
+
+  const setField = (field: string, header: string) => {
+    const next = { ...mapping };
+    if (header === NOT_IMPORTED) {
+      delete next[field];
+    } else {
+      next[field] = header;
+    }
+    setMapping(next);
+  };
+
+  const summary = preview?.summary;
+  const importable = summary ? summary.create + summary.update : 0;
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>Import Items</DialogTitle>
+          <DialogDescription>
+            Choose which column holds each field, then check what will happen to each row of {file?.name}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid md:grid-cols-[280px_1fr] gap-6">
+          <ScrollArea className="h-[420px] pr-3">
+            <div className="grid gap-3">
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field.key} className="grid gap-1">
+                  <Label htmlFor={`import-${field.key}`}>
+                    {field.label}{field.key === "room" || field.key === "name" ? " *" : ""}
+                  </Label>
+                  <Select
+                    value={mapping?.[field.key] ?? NOT_IMPORTED}
+                    onValueChange={(header) => setField(field.key, header)}
+                    disabled={!preview}
+                  >
+                    <SelectTrigger id={`import-${field.key}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+                      {preview?.headers.map((header) => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+
+          <div className="grid gap-4 content-start">
+            <div className="flex flex-wrap items-center gap-6">
+              <div className="flex items-center gap-2">
+                <Switch id="import-create-rooms" checked={createRooms} onCheckedChange={setCreateRooms} />
+                <Label htmlFor="import-create-rooms">Create missing rooms</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="import-mode">Existing items</Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as ImportMode)}>
+                  <SelectTrigger id="import-mode" className="w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="skip">Skip them</SelectItem>
+                    <SelectItem value="upsert">Update them</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {summary && (
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge>{summary.create} new</Badge>
+                <Badge variant="secondary">{summary.update} updated</Badge>
+                <Badge variant="outline">{summary.skip} skipped</Badge>
+                <Badge variant="destructive">{summary.error} errors</Badge>
+                {preview!.new_rooms.length > 0 && (
+                  <span className="text-muted-foreground">
+                    New rooms: {preview!.new_rooms.join(", ")}
+                  </span>
+                )}
+              </div>
+            )}
+
+            <ScrollArea className="h-[340px] border rounded-md">
+              {previewMutation.isPending && !preview ? (
+                <p className="p-4 text-sm text-muted-foreground">Reading spreadsheet...</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50 text-left">
+                    <tr>
+                      <th className="p-2 font-medium">Row</th>
+                      <th className="p-2 font-medium">Action</th>
+                      <th className="p-2 font-medium">Room</th>
+                      <th className="p-2 font-medium">Item</th>
+                      <th className="p-2 font-medium">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview?.rows.map((row) => (
+                      <tr key={row.row} className="border-t">
+                        <td className="p-2 text-muted-foreground">{row.row}</td>
+                        <td className="p-2">
+                          <Badge variant={ACTION_VARIANTS[row.action]}>{ACTION_LABELS[row.action]}</Badge>
+                        </td>
+                        <td className="p-2">{row.room}</td>
+                        <td className="p-2">{row.name}</td>
+                        <td className="p-2 text-muted-foreground">
+                          {row.message ?? (row.changes && `Changes ${row.changes.map((key) =>
+                            IMPORT_FIELDS.find((field) => field.key === key)?.label ?? key
+                          ).join(", ")}`)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </ScrollArea>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={importMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={importable === 0 || previewMutation.isPending || importMutation.isPending}
+          >
+            {importMutation.isPending ? "Importing..." : `Import ${importable} ${importable === 1 ? "Item" : "Items"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,8 @@
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
 import { useQuery } from "@tanstack/react-query";
-import { supabase } from "@/lib/supabase";
+import { fetchItemImages, type ItemImage } from "@/lib/files";
 import { Button } from "@/components/ui/button";
-import { type Item, type Image } from "@shared/schema";
+import { type Item } from "@shared/schema";
 import { Badge } from "@/components/ui/badge";
 import { ImageIcon, ChevronDown, ChevronUp, Edit, Trash2 } from "lucide-react";
 import { cn } from "@/lib/utils";
@@ -20,18 +20,9 @@ export default function ItemCard({ item, onEdit, onDelete }: ItemCardProps) {
   const [isExpanded, setIsExpanded] = useState(true);
   const [showImageDialog, setShowImageDialog] = useState(false);
 
-  const { data: images } = useQuery<Image[]>({
+  const { data: images } = useQuery<ItemImage[]>({
     queryKey: ["item-images", item.id],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("images")
-        .select("*")
-        .eq("item_id", item.id)
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      return data || [];
-    }
+    queryFn: () => fetchItemImages(item.id)
   });
 
   return (
@@ -0,0 +1,18 @@
+import { formatCurrency, formatDate } from "@/lib/format";
+import type { VersionField } from "@/components/history/version-history";
+
+// Item fields shown when comparing versions or resolving an edit conflict
+export const ITEM_FIELDS: VersionField[] = [
+  { key: "name", label: "Name" },
+  { key: "category", label: "Category" },
+  { key: "brand", label: "Brand" },
+  { key: "supplier", label: "Supplier" },
+  { key: "specifications", label: "Specifications" },
+  { key: "cost", label: "Cost", format: (value) => formatCurrency(value as string) },
+  { key: "installation_date", label: "Installed", format: (value) => formatDate(value as string) },
+  { key: "warranty_info", label: "Warranty" },
+  { key: "maintenance_notes", label: "Maintenance" },
+  { key: "status", label: "Status" },
+  { key: "link", label: "Link" },
+  { key: "notes", label: "Notes" },
+];
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
-import { supabase } from "@/lib/supabase";
+import { addItem } from "@/lib/projects";
 import { useToast } from "@/hooks/use-toast";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -20,13 +20,7 @@ export default function ItemForm({ roomId, onSuccess }: ItemFormProps) {
   const { toast } = useToast();
 
   const createItem = useMutation({
-    mutationFn: async (data: InsertItem) => {
-      const { error } = await supabase
-        .from("items")
-        .insert([data]);
-
-      if (error) throw error;
-    },
+    mutationFn: ({ room_id, ...data }: InsertItem) => addItem(room_id, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["items", roomId] });
       toast({
@@ -54,8 +48,7 @@ export default function ItemForm({ roomId, onSuccess }: ItemFormProps) {
       category: formData.get("category") as string || "uncategorized",
       maintenance_notes: null,
       installation_date: null,
-      status: 'pending',
-      document_urls: []
+      status: 'pending'
     };
 
     createItem.mutate(item);
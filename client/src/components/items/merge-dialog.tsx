@@ -0,0 +1,127 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { formatFieldValue, type VersionField } from "@/components/history/version-history";
+
+type Choice = "mine" | "theirs";
+
+interface MergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fields: VersionField[];
+  // The record as it was when the user started editing
+  base: object;
+  // The user's unsaved changes
+  mine: Record<string, unknown>;
+  // The record as it is now on the server
+  theirs: object;
+  isSaving: boolean;
+  onResolve: (merged: Record<string, unknown>) => void;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown) => (value === undefined || value === "" ? null : value);
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+/**
+ * Shown when saving fails because someone else changed the record first.
+ * Lists the fields where the user's changes and the saved record differ and
+ * lets them keep either value; fields the user didn't touch default to the
+ * saved value.
+ */
+export default function MergeDialog({ open, onOpenChange, fields, mine, isSaving, onResolve, ...props }: MergeDialogProps) {
+  const base = props.base as Record<string, unknown>;
+  const theirs = props.theirs as Record<string, unknown>;
+
+  const conflicts = fields.filter((field) =>
+    field.key in mine &&
+    formatFieldValue(field, mine[field.key]) !== formatFieldValue(field, theirs[field.key])
+  );
+
+  const defaultChoices = () => Object.fromEntries(
+    conflicts.map((field): [string, Choice] => [
+      field.key,
+      formatFieldValue(field, mine[field.key]) === formatFieldValue(field, base[field.key]) ? "theirs" : "mine",
+    ])
+  );
+
+  const [choices, setChoices] = useState<Record<string, Choice>>(defaultChoices);
+
+  // Start over whenever a new conflict comes in
+  useEffect(() => {
+    setChoices(defaultChoices());
+  }, [mine, theirs]);
+
+  const handleResolve = () => {
+    const merged: Record<string, unknown> = {};
+    for (const key of Object.keys(mine)) {
+      const field = conflicts.find((conflict) => conflict.key === key);
+      if (field) {
+        merged[key] = choices[key] === "theirs" ? theirs[key] : mine[key];
+      } else {
+        // Keep the saved value for anything the user left alone
+        merged[key] = sameValue(mine[key], base[key]) && key in theirs ? theirs[key] : mine[key];
+      }
+    }
+    onResolve(merged);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>This item was changed while you were editing</DialogTitle>
+          <DialogDescription>
+            {conflicts.length === 0
+              ? "The other changes don't overlap with yours. Save to apply both."
+              : "Choose which value to keep for each field that differs."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflicts.length > 0 && (
+          <ScrollArea className="max-h-[55vh] pr-3">
+            <div className="space-y-4">
+              {conflicts.map((field) => (
+                <div key={field.key} className="rounded-md border p-3">
+                  <p className="font-medium text-sm mb-2">{field.label}</p>
+                  <RadioGroup
+                    value={choices[field.key]}
+                    onValueChange={(value) => setChoices((prev) => ({ ...prev, [field.key]: value as Choice }))}
+                    className="grid md:grid-cols-2 gap-3"
+                  >
+                    {(["mine", "theirs"] as const).map((choice) => (
+                      <div key={choice} className="flex items-start gap-2">
+                        <RadioGroupItem value={choice} id={`${field.key}-${choice}`} className="mt-1" />
+                        <Label htmlFor={`${field.key}-${choice}`} className="font-normal space-y-1">
+                          <span className="block text-xs text-muted-foreground">
+                            {choice === "mine" ? "Your change" : "Saved value"}
+                          </span>
+                          <span className="block whitespace-pre-line break-words">
+                            {formatFieldValue(field, choice === "mine" ? mine[field.key] : theirs[field.key])}
+                          </span>
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleResolve} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save merged changes"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
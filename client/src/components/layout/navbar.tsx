@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabase";
 import { useEffect } from "react";
-import { Settings } from "lucide-react";
+import { Bell, Settings } from "lucide-react";
 
 export default function Navbar() {
   const [location] = useLocation();
@@ -47,6 +47,11 @@ export default function Navbar() {
               <Button variant="ghost" asChild>
                 <Link href="/dashboard">Dashboard</Link>
               </Button>
+              <Button variant="ghost" size="icon" asChild title="Email Notifications">
+                <Link href="/notifications">
+                  <Bell className="h-4 w-4" />
+                </Link>
+              </Button>
               <Button variant="ghost" size="icon" asChild title="Debug Storage Issues">
                 <Link href="/debug-storage">
                   <Settings className="h-4 w-4" />
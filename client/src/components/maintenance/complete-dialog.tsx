@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { describeUploadError } from "@/lib/files";
+import { formatDueDate, logCompletion, uploadCompletionPhoto, type ScheduledMaintenanceTask } from "@/lib/maintenance";
+
+interface CompleteDialogProps {
+  // The task being marked as done; the dialog is closed while null
+  task: ScheduledMaintenanceTask | null;
+  onClose: () => void;
+  onCompleted: () => void;
+}
+
+// Today as YYYY-MM-DD in the user's time zone
+function localToday(): string {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+}
+
+export default function CompleteDialog({ task, onClose, onCompleted }: CompleteDialogProps) {
+  const { toast } = useToast();
+  const [completedOn, setCompletedOn] = useState(localToday());
+  const [notes, setNotes] = useState("");
+  const [photos, setPhotos] = useState<File[]>([]);
+
+  useEffect(() => {
+    if (task) {
+      setCompletedOn(localToday());
+      setNotes("");
+      setPhotos([]);
+    }
+  }, [task]);
+
+  const completeMutation = useMutation({
+    mutationFn: async (task: ScheduledMaintenanceTask) => {
+      const { completion, task: updated } = await logCompletion(task.id, {
+        completed_on: completedOn,
+        notes: notes.trim() || null,
+      });
+      // The completion is saved either way; photos that fail are reported
+      const failures: string[] = [];
+      for (const photo of photos) {
+        try {
+          await uploadCompletionPhoto(task.id, completion.id, photo);
+        } catch (error) {
+          failures.push(describeUploadError(error, photo.name));
+        }
+      }
+      return { task: updated, failures };
+    },
+    onSuccess: ({ task, failures }) => {
+      onCompleted();
+      onClose();
+      if (failures.length > 0) {
+        toast({
+          title: "Some photos weren't saved",
+          description: failures.join("\n"),
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Success",
+        description: task.next_due_date ? `Logged. Next due ${formatDueDate(task.next_due_date)}` : "Logged as done",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.data?.message || "Failed to log maintenance",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!task} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Mark as Done</DialogTitle>
+          <DialogDescription>{task?.title}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="completed-on">Done on</Label>
+            <Input
+              id="completed-on"
+              type="date"
+              value={completedOn}
+              max={localToday()}
+              onChange={(e) => setCompletedOn(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="completion-notes">Notes</Label>
+            <Textarea
+              id="completion-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="What was done, parts used, anything to follow up"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="completion-photos">Photos</Label>
+            <Input
+              id="completion-photos"
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={(e) => setPhotos(Array.from(e.target.files || []))}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={completeMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => task && completeMutation.mutate(task)}
+            disabled={!completedOn || completeMutation.isPending}
+          >
+            {completeMutation.isPending ? "Saving..." : "Mark as Done"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { apiGet } from "@/lib/api-client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CalendarClock, CheckCircle2, History, Pencil, Plus, Trash2 } from "lucide-react";
+import { FILE_LINK_REFRESH_MS } from "@/lib/files";
+import {
+  STATUS_LABELS,
+  describeRecurrence,
+  formatDueDate,
+  fetchMaintenanceTasks,
+  createMaintenanceTask,
+  updateMaintenanceTask,
+  deleteMaintenanceTask,
+  fetchCompletions,
+  deleteCompletion,
+  type MaintenanceStatus,
+  type MaintenanceTaskInput,
+  type ScheduledMaintenanceTask,
+} from "@/lib/maintenance";
+import MaintenanceTaskForm from "./task-form";
+import CompleteDialog from "./complete-dialog";
+import type { Finish } from "@shared/schema";
+
+// Sections of the list, in order
+const SECTIONS: MaintenanceStatus[] = ["overdue", "upcoming", "scheduled", "completed"];
+
+export const STATUS_BADGE_CLASSES: Record<MaintenanceStatus, string> = {
+  overdue: "bg-red-100 text-red-800 hover:bg-red-100",
+  upcoming: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  scheduled: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  completed: "bg-green-100 text-green-800 hover:bg-green-100",
+};
+
+interface MaintenancePanelProps {
+  projectId: string;
+  // Items in the project, offered when choosing what a task is for
+  items?: { id: string; name: string }[];
+  canEdit?: boolean;
+}
+
+/**
+ * A project's maintenance schedule, grouped into overdue, due soon, later and
+ * done, with tasks to add, edit and mark as done
+ */
+export default function MaintenancePanel({ projectId, items = [], canEdit = true }: MaintenancePanelProps) {
+  const { toast } = useToast();
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [editingTask, setEditingTask] = useState<ScheduledMaintenanceTask | null>(null);
+  const [completingTask, setCompletingTask] = useState<ScheduledMaintenanceTask | null>(null);
+  const [historyTask, setHistoryTask] = useState<ScheduledMaintenanceTask | null>(null);
+
+  const tasksQueryKey = ["maintenance", projectId];
+  const { data: tasks, isLoading, isError } = useQuery({
+    queryKey: tasksQueryKey,
+    queryFn: () => fetchMaintenanceTasks(projectId),
+  });
+
+  const { data: finishes = [] } = useQuery({
+    queryKey: ["finishes", projectId, "all"],
+    queryFn: () => apiGet<Finish[]>(`/api/projects/${projectId}/finishes`),
+    enabled: canEdit,
+  });
+
+  const { data: completions = [], isLoading: isHistoryLoading } = useQuery({
+    queryKey: ["maintenance-completions", historyTask?.id],
+    queryFn: () => fetchCompletions(historyTask!.id),
+    enabled: !!historyTask,
+    refetchInterval: FILE_LINK_REFRESH_MS,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: tasksQueryKey });
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.data?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createTask = useMutation({
+    mutationFn: (values: MaintenanceTaskInput) => createMaintenanceTask(projectId, values),
+    onSuccess: () => {
+      setShowAddDialog(false);
+      refresh();
+      toast({
+        title: "Success",
+        description: "Maintenance task added",
+      });
+    },
+    onError: showError("Failed to add maintenance task"),
+  });
+
+  const updateTask = useMutation({
+    mutationFn: ({ id, values }: { id: string; values: MaintenanceTaskInput }) => updateMaintenanceTask(id, values),
+    onSuccess: () => {
+      setEditingTask(null);
+      refresh();
+      toast({
+        title: "Success",
+        description: "Maintenance task updated",
+      });
+    },
+    onError: showError("Failed to update maintenance task"),
+  });
+
+  const deleteTask = useMutation({
+    mutationFn: (task: ScheduledMaintenanceTask) => deleteMaintenanceTask(task.id),
+    onSuccess: refresh,
+    onError: showError("Failed to delete maintenance task"),
+  });
+
+  const removeCompletion = useMutation({
+    mutationFn: ({ taskId, completionId }: { taskId: string; completionId: string }) => deleteCompletion(taskId, completionId),
+    onSuccess: (_, { taskId }) => {
+      queryClient.invalidateQueries({ queryKey: ["maintenance-completions", taskId] });
+      refresh();
+    },
+    onError: showError("Failed to delete entry"),
+  });
+
+  const sections = SECTIONS
+    .map((status) => ({ status, tasks: (tasks || []).filter((task) => task.status === status) }))
+    .filter((section) => section.tasks.length > 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-2">
+          {(["overdue", "upcoming"] as const).map((status) => {
+            const count = (tasks || []).filter((task) => task.status === status).length;
+            return count > 0 ? (
+              <Badge key={status} className={STATUS_BADGE_CLASSES[status]}>
+                {count} {STATUS_LABELS[status].toLowerCase()}
+              </Badge>
+            ) : null;
+          })}
+        </div>
+        {canEdit && (
+          <Button size="sm" onClick={() => setShowAddDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Task
+          </Button>
+        )}
+      </div>
+
+      {isLoading && <p className="text-sm text-muted-foreground">Loading maintenance schedule...</p>}
+      {isError && <p className="text-sm text-destructive">Failed to load the maintenance schedule.</p>}
+
+      {!isLoading && !isError && sections.length === 0 && (
+        <div className="text-center py-8 text-muted-foreground bg-muted/30 rounded-lg border">
+          <CalendarClock className="h-6 w-6 mx-auto mb-2" />
+          No maintenance scheduled yet.
+        </div>
+      )}
+
+      {sections.map((section) => (
+        <div key={section.status} className="space-y-2">
+          <h3 className="text-sm font-semibold text-muted-foreground">{STATUS_LABELS[section.status]}</h3>
+          <div className="grid md:grid-cols-2 gap-4">
+            {section.tasks.map((task) => (
+              <Card key={task.id} className="hover:shadow-md transition-shadow">
+                <CardHeader className="pb-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="space-y-1">
+                      <h4 className="font-semibold leading-tight">{task.title}</h4>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge className={STATUS_BADGE_CLASSES[task.status]}>
+                          {task.next_due_date ? `Due ${formatDueDate(task.next_due_date)}` : STATUS_LABELS[task.status]}
+                        </Badge>
+                        <Badge variant="secondary">{describeRecurrence(task)}</Badge>
+                        {task.subject && <Badge variant="outline">{task.subject.name}</Badge>}
+                        {!task.is_public && <Badge variant="outline">Private</Badge>}
+                      </div>
+                    </div>
+                    <div className="flex">
+                      <Button variant="ghost" size="icon" title="History" onClick={() => setHistoryTask(task)}>
+                        <History className="h-4 w-4" />
+                      </Button>
+                      {canEdit && (
+                        <>
+                          <Button variant="ghost" size="icon" title="Edit" onClick={() => setEditingTask(task)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Delete"
+                            disabled={deleteTask.isPending}
+                            onClick={() => {
+                              if (confirm(`Delete "${task.title}" and its history?`)) deleteTask.mutate(task);
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {task.description && <p className="text-sm whitespace-pre-line">{task.description}</p>}
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs text-muted-foreground">
+                      {task.last_completed_on ? `Last done ${formatDueDate(task.last_completed_on)}` : "Not done yet"}
+                    </p>
+                    {canEdit && task.status !== "completed" && (
+                      <Button variant="outline" size="sm" onClick={() => setCompletingTask(task)}>
+                        <CheckCircle2 className="h-4 w-4 mr-2" />
+                        Mark as Done
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Add Maintenance Task</DialogTitle>
+          </DialogHeader>
+          <MaintenanceTaskForm
+            items={items}
+            finishes={finishes}
+            isPending={createTask.isPending}
+            onSubmit={(values) => createTask.mutate(values)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editingTask} onOpenChange={(open) => !open && setEditingTask(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Maintenance Task</DialogTitle>
+          </DialogHeader>
+          {editingTask && (
+            <MaintenanceTaskForm
+              key={editingTask.id}
+              task={editingTask}
+              items={items}
+              finishes={finishes}
+              isPending={updateTask.isPending}
+              onSubmit={(values) => updateTask.mutate({ id: editingTask.id, values })}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <CompleteDialog task={completingTask} onClose={() => setCompletingTask(null)} onCompleted={refresh} />
+
+      <Dialog open={!!historyTask} onOpenChange={(open) => !open && setHistoryTask(null)}>
+        <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>History{historyTask ? ` - ${historyTask.title}` : ""}</DialogTitle>
+          </DialogHeader>
+          {isHistoryLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+          {!isHistoryLoading && completions.length === 0 && (
+            <p className="text-sm text-muted-foreground">This task hasn't been done yet.</p>
+          )}
+          <div className="space-y-3">
+            {completions.map((completion) => (
+              <div key={completion.id} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium">{formatDueDate(completion.completed_on)}</p>
+                  {canEdit && historyTask && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Delete entry"
+                      disabled={removeCompletion.isPending}
+                      onClick={() => removeCompletion.mutate({ taskId: historyTask.id, completionId: completion.id })}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  )}
+                </div>
+                {completion.notes && <p className="text-sm whitespace-pre-line">{completion.notes}</p>}
+                {completion.photos.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {completion.photos.map((photo) => (
+                      <a key={photo.storage_path} href={photo.url} target="_blank" rel="noopener noreferrer">
+                        <img src={photo.thumbnail_url} alt={photo.filename} className="h-16 w-16 rounded object-cover border" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
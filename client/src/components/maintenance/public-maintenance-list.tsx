@@ -0,0 +1,59 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock } from "lucide-react";
+import { describeRecurrence, fetchPublicMaintenanceTasks, formatDueDate, STATUS_LABELS } from "@/lib/maintenance";
+import { STATUS_BADGE_CLASSES } from "./maintenance-panel";
+
+interface PublicMaintenanceListProps {
+  accessCode: string;
+}
+
+/**
+ * The maintenance schedule as homeowners see it on the public project page,
+ * without the controls for changing it
+ */
+export default function PublicMaintenanceList({ accessCode }: PublicMaintenanceListProps) {
+  const { data: tasks, isLoading, isError } = useQuery({
+    queryKey: ["public-maintenance", accessCode],
+    queryFn: () => fetchPublicMaintenanceTasks(accessCode),
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading maintenance schedule...</p>;
+  }
+  if (isError) {
+    return <p className="text-sm text-destructive">Failed to load the maintenance schedule.</p>;
+  }
+
+  // Finished one-off tasks aren't useful to homeowners
+  const upcoming = (tasks || []).filter((task) => task.status !== "completed");
+  if (upcoming.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground bg-muted/30 rounded-lg border">
+        <CalendarClock className="h-6 w-6 mx-auto mb-2" />
+        No maintenance scheduled.
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y rounded-lg border">
+      {upcoming.map((task) => (
+        <div key={task.id} className="flex flex-col gap-1 p-4 sm:flex-row sm:items-start sm:justify-between">
+          <div className="space-y-1">
+            <p className="font-medium">{task.title}</p>
+            <p className="text-xs text-muted-foreground">
+              {describeRecurrence(task)}
+              {task.subject && ` · ${task.subject.name}`}
+              {task.last_completed_on && ` · last done ${formatDueDate(task.last_completed_on)}`}
+            </p>
+            {task.description && <p className="text-sm whitespace-pre-line">{task.description}</p>}
+          </div>
+          <Badge className={`${STATUS_BADGE_CLASSES[task.status]} shrink-0 self-start`}>
+            {task.status === "overdue" ? STATUS_LABELS.overdue : `Due ${formatDueDate(task.next_due_date)}`}
+          </Badge>
+        </div>
+      ))}
+    </div>
+  );
+}
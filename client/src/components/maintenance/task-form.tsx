@@ -0,0 +1,267 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SEASON_LABELS, type MaintenanceTaskInput } from "@/lib/maintenance";
+import type { Finish, MaintenanceTask, Season } from "@shared/schema";
+
+// Select value for tasks that are for the home as a whole
+const NO_SUBJECT = "none";
+
+const SEASON_OPTIONS = Object.entries(SEASON_LABELS) as [Season, string][];
+
+const taskFormSchema = z.object({
+  title: z.string().trim().min(1, "Title is required"),
+  description: z.string().optional(),
+  // "item:<id>", "finish:<id>" or NO_SUBJECT
+  subject: z.string(),
+  recurrence: z.enum(["once", "interval", "seasonal"]),
+  interval_months: z.string(),
+  seasons: z.array(z.enum(["spring", "summer", "autumn", "winter"])),
+  first_due_date: z.string().optional(),
+  is_public: z.boolean(),
+}).superRefine((values, ctx) => {
+  if (values.recurrence === "interval" && !(Number(values.interval_months) >= 1)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["interval_months"], message: "Enter a number of months" });
+  }
+  if (values.recurrence === "seasonal" && values.seasons.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["seasons"], message: "Choose at least one season" });
+  }
+});
+
+type TaskFormValues = z.infer<typeof taskFormSchema>;
+
+interface MaintenanceTaskFormProps {
+  task?: MaintenanceTask;
+  // Items and finishes a task can be for
+  items: { id: string; name: string }[];
+  finishes: Finish[];
+  isPending: boolean;
+  onSubmit: (values: MaintenanceTaskInput) => void;
+}
+
+function subjectOf(task?: MaintenanceTask): string {
+  if (task?.item_id) return `item:${task.item_id}`;
+  if (task?.finish_id) return `finish:${task.finish_id}`;
+  return NO_SUBJECT;
+}
+
+export default function MaintenanceTaskForm({ task, items, finishes, isPending, onSubmit }: MaintenanceTaskFormProps) {
+  const form = useForm<TaskFormValues>({
+    resolver: zodResolver(taskFormSchema),
+    defaultValues: {
+      title: task?.title || "",
+      description: task?.description || "",
+      subject: subjectOf(task),
+      recurrence: task?.recurrence || "interval",
+      interval_months: String(task?.interval_months ?? 12),
+      seasons: task?.seasons || [],
+      first_due_date: task?.first_due_date || "",
+      is_public: task?.is_public ?? true,
+    },
+  });
+
+  const recurrence = form.watch("recurrence");
+  const subject = form.watch("subject");
+
+  const handleSubmit = (values: TaskFormValues) => {
+    const [subjectType, subjectId] = values.subject.split(":");
+    onSubmit({
+      title: values.title,
+      description: values.description || null,
+      recurrence: values.recurrence,
+      interval_months: values.recurrence === "interval" ? Number(values.interval_months) : null,
+      seasons: values.recurrence === "seasonal" ? values.seasons : null,
+      first_due_date: values.first_due_date || null,
+      item_id: subjectType === "item" ? subjectId : null,
+      finish_id: subjectType === "finish" ? subjectId : null,
+      is_public: values.is_public,
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Task*</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Replace furnace filter" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Instructions</FormLabel>
+              <FormControl>
+                <Textarea placeholder="What to do, and anything to look out for" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="subject"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>For</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NO_SUBJECT}>Whole home</SelectItem>
+                  {items.length > 0 && (
+                    <SelectGroup>
+                      <SelectLabel>Items</SelectLabel>
+                      {items.map((item) => (
+                        <SelectItem key={item.id} value={`item:${item.id}`}>{item.name}</SelectItem>
+                      ))}
+                    </SelectGroup>
+                  )}
+                  {finishes.length > 0 && (
+                    <SelectGroup>
+                      <SelectLabel>Finishes</SelectLabel>
+                      {finishes.map((finish) => (
+                        <SelectItem key={finish.id} value={`finish:${finish.id}`}>{finish.name}</SelectItem>
+                      ))}
+                    </SelectGroup>
+                  )}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="recurrence"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Repeats</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="interval">Every few months</SelectItem>
+                    <SelectItem value="seasonal">Each season</SelectItem>
+                    <SelectItem value="once">Once</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {recurrence === "interval" && (
+            <FormField
+              control={form.control}
+              name="interval_months"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Every (months)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} max={120} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        {recurrence === "seasonal" && (
+          <FormField
+            control={form.control}
+            name="seasons"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Seasons</FormLabel>
+                <div className="flex flex-wrap gap-4">
+                  {SEASON_OPTIONS.map(([season, label]) => (
+                    <label key={season} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={field.value.includes(season)}
+                        onCheckedChange={(checked) =>
+                          field.onChange(checked ? [...field.value, season] : field.value.filter((value) => value !== season))
+                        }
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                <FormDescription>Due on the first day of each season (March, June, September, December).</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="first_due_date"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{recurrence === "once" ? "Due date" : "First due"}</FormLabel>
+              <FormControl>
+                <Input type="date" {...field} />
+              </FormControl>
+              <FormDescription>
+                {subject === NO_SUBJECT
+                  ? "Leave blank to count from when the task was added."
+                  : "Leave blank to count from the installation date."}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="is_public"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <FormLabel>Show to homeowners</FormLabel>
+                <FormDescription>List this task on the public project page.</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-4 pt-2">
+          <Button type="submit" disabled={isPending}>
+            {isPending ? "Saving..." : task ? "Save Changes" : "Add Task"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,142 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarPlus, Copy, RefreshCw, X } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import {
+  fetchCalendarFeed,
+  createCalendarFeed,
+  revokeCalendarFeed,
+  calendarFeedUrl,
+  calendarSubscribeUrl,
+} from "@/lib/calendar";
+
+interface CalendarPanelProps {
+  projectId: string;
+}
+
+/**
+ * A secret link for subscribing to the project's maintenance, warranty and
+ * installation dates from a calendar app. Owners can replace or revoke it.
+ */
+export function CalendarPanel({ projectId }: CalendarPanelProps) {
+  const { toast } = useToast();
+
+  const feedQueryKey = ["calendar-feed", projectId];
+  const { data, isLoading, error } = useQuery({
+    queryKey: feedQueryKey,
+    queryFn: () => fetchCalendarFeed(projectId),
+    retry: false,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: feedQueryKey });
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.data?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Success",
+        description: "Calendar link copied to clipboard",
+      });
+    } catch {
+      window.prompt("Copy the calendar link", url);
+    }
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => createCalendarFeed(projectId),
+    onSuccess: refresh,
+    onError: showError("Failed to create calendar link"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: () => revokeCalendarFeed(projectId),
+    onSuccess: refresh,
+    onError: showError("Failed to turn off calendar link"),
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+
+  if (error) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Only project owners can manage the calendar link.
+      </p>
+    );
+  }
+
+  const feed = data?.feed;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Subscribe from Google Calendar, Apple Calendar or Outlook to see maintenance reminders, warranty
+        expiries, installation dates and the completion date. Anyone with the link can see these dates.
+      </p>
+
+      {feed ? (
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="calendar-feed-url">Calendar link</Label>
+            <div className="flex gap-2">
+              <Input id="calendar-feed-url" readOnly value={calendarFeedUrl(feed)} onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" title="Copy link" onClick={() => copyLink(calendarFeedUrl(feed))}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {feed.last_fetched_at
+                ? `Last checked by a calendar ${new Date(feed.last_fetched_at).toLocaleString()}`
+                : "Not used by a calendar yet"}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button asChild>
+              <a href={calendarSubscribeUrl(feed)}>
+                <CalendarPlus className="mr-2 h-4 w-4" />
+                Subscribe
+              </a>
+            </Button>
+            <Button
+              variant="outline"
+              disabled={createMutation.isPending}
+              onClick={() => {
+                if (confirm("Calendars using the current link will stop updating. Create a new link?")) createMutation.mutate();
+              }}
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              New Link
+            </Button>
+            <Button
+              variant="outline"
+              disabled={revokeMutation.isPending}
+              onClick={() => {
+                if (confirm("Calendars using this link will stop updating. Turn it off?")) revokeMutation.mutate();
+              }}
+            >
+              <X className="mr-2 h-4 w-4 text-red-600" />
+              Turn Off
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button type="button" variant="outline" onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+          <CalendarPlus className="mr-2 h-4 w-4" />
+          {createMutation.isPending ? "Creating..." : "Create Calendar Link"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, Link2, Mail, Trash2, UserMinus } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { queryClient } from "@/lib/queryClient";
+import {
+  ROLE_LABELS,
+  ROLE_DESCRIPTIONS,
+  fetchProjectMembers,
+  createInvitation,
+  revokeInvitation,
+  updateMemberRole,
+  removeMember,
+  inviteUrl,
+  type Invitation,
+  type Member,
+} from "@/lib/members";
+import type { ProjectRole } from "@shared/schema";
+
+interface MembersPanelProps {
+  projectId: string;
+}
+
+function RoleSelect({ id, value, onChange, disabled }: { id?: string; value: ProjectRole; onChange: (role: ProjectRole) => void; disabled?: boolean }) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as ProjectRole)} disabled={disabled}>
+      <SelectTrigger id={id} className="w-[140px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.entries(ROLE_LABELS).map(([role, label]) => (
+          <SelectItem key={role} value={role}>{label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Who has access to a project. Owners can invite people, change roles and
+ * remove members; everyone else can see the list and leave.
+ */
+export function MembersPanel({ projectId }: MembersPanelProps) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<ProjectRole>("contributor");
+
+  const { data: session } = useQuery({
+    queryKey: ["session"],
+    queryFn: async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      return session;
+    }
+  });
+
+  const membersQueryKey = ["project-members", projectId];
+  const { data, isLoading } = useQuery({
+    queryKey: membersQueryKey,
+    queryFn: () => fetchProjectMembers(projectId),
+  });
+
+  const isOwner = data?.role === "owner";
+  const refresh = () => queryClient.invalidateQueries({ queryKey: membersQueryKey });
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.data?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const copyLink = async (invitation: Invitation) => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl(invitation));
+      toast({
+        title: "Success",
+        description: "Invite link copied to clipboard",
+      });
+    } catch {
+      // Clipboard access can be blocked; the link is still shown to copy by hand
+      window.prompt("Copy the invite link", inviteUrl(invitation));
+    }
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: () => createInvitation(projectId, { email: email.trim() || undefined, role }),
+    onSuccess: (invitation) => {
+      setEmail("");
+      refresh();
+      copyLink(invitation);
+    },
+    onError: showError("Failed to create invitation"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (invitation: Invitation) => revokeInvitation(projectId, invitation.id),
+    onSuccess: refresh,
+    onError: showError("Failed to revoke invitation"),
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ member, role }: { member: Member; role: ProjectRole }) => updateMemberRole(projectId, member.id, role),
+    onSuccess: refresh,
+    onError: showError("Failed to change role"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (member: Member) => removeMember(projectId, member.id),
+    onSuccess: (_, member) => {
+      if (member.user_id === session?.user?.id) {
+        // Left the project, so it's gone from the dashboard too
+        queryClient.invalidateQueries({ queryKey: ["projects"] });
+        navigate("/dashboard");
+        return;
+      }
+      refresh();
+    },
+    onError: showError("Failed to remove member"),
+  });
+
+  if (isLoading || !data) {
+    return <p className="text-sm text-muted-foreground">Loading members...</p>;
+  }
+
+  const memberName = (member: Member) => {
+    const name = member.email || (member.is_primary_owner ? "Primary owner" : "Member");
+    return member.user_id === session?.user?.id ? `${name} (you)` : name;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        {data.members.map((member) => {
+          const isSelf = member.user_id === session?.user?.id;
+          const canRemove = !member.is_primary_owner && (isOwner || isSelf);
+          return (
+            <div key={member.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+              <span className="truncate text-sm">{memberName(member)}</span>
+              <div className="flex items-center gap-2 shrink-0">
+                {isOwner && !member.is_primary_owner ? (
+                  <RoleSelect
+                    value={member.role}
+                    onChange={(role) => roleMutation.mutate({ member, role })}
+                    disabled={roleMutation.isPending}
+                  />
+                ) : (
+                  <Badge variant="secondary">{ROLE_LABELS[member.role]}</Badge>
+                )}
+                {canRemove && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title={isSelf ? "Leave project" : "Remove member"}
+                    disabled={removeMutation.isPending}
+                    onClick={() => {
+                      const question = isSelf
+                        ? "Are you sure you want to leave this project?"
+                        : `Remove ${memberName(member)} from this project?`;
+                      if (confirm(question)) removeMutation.mutate(member);
+                    }}
+                  >
+                    <UserMinus className="h-4 w-4 text-red-600" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {isOwner && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="invite-email">Invite someone</Label>
+            <div className="flex gap-2">
+              <Input
+                id="invite-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="Email (leave blank for a link anyone can use)"
+              />
+              <RoleSelect value={role} onChange={setRole} />
+            </div>
+            <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</p>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => inviteMutation.mutate()}
+              disabled={inviteMutation.isPending}
+            >
+              {email.trim() ? <Mail className="mr-2 h-4 w-4" /> : <Link2 className="mr-2 h-4 w-4" />}
+              {inviteMutation.isPending ? "Creating..." : email.trim() ? "Create Invitation" : "Create Invite Link"}
+            </Button>
+          </div>
+
+          {data.invitations.length > 0 && (
+            <div className="space-y-2">
+              <Label>Pending invitations</Label>
+              {data.invitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm">{invitation.email || "Invite link"}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {ROLE_LABELS[invitation.role]} · expires {new Date(invitation.expires_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" title="Copy link" onClick={() => copyLink(invitation)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Revoke"
+                      disabled={revokeMutation.isPending}
+                      onClick={() => revokeMutation.mutate(invitation)}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
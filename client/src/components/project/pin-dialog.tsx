@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useCallback } from "react";
 import {
   Dialog,
   DialogContent,
@@ -8,19 +8,22 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import { apiPost, setEditToken, isPinRequired } from "@/lib/api-client";
 
 interface PinDialogProps {
+  projectId: string;
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onPinSubmit: (pin: string) => void;
+  onUnlocked: () => void;
   onCancel: () => void;
 }
 
-export function PinDialog({ open, onOpenChange, onPinSubmit, onCancel }: PinDialogProps) {
+export function PinDialog({ projectId, open, onOpenChange, onUnlocked, onCancel }: PinDialogProps) {
   const [pin, setPin] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (pin.length !== 4 || !/^\d+$/.test(pin)) {
       toast({
@@ -30,8 +33,29 @@ export function PinDialog({ open, onOpenChange, onPinSubmit, onCancel }: PinDial
       });
       return;
     }
-    onPinSubmit(pin);
-    setPin("");
+
+    setIsLoading(true);
+    try {
+      // The server checks the PIN and hands back a short-lived edit token
+      const { token, expiresAt } = await apiPost<{ token: string; expiresAt: string }>(
+        `/api/projects/${projectId}/unlock`,
+        { pin }
+      );
+      setEditToken(projectId, token, expiresAt);
+      onUnlocked();
+    } catch (error: any) {
+      const lockedOut = error?.message?.includes("429");
+      toast({
+        title: lockedOut ? "Too many attempts" : "Incorrect PIN",
+        description: lockedOut
+          ? "Editing is locked for this project. Please try again later."
+          : "The PIN you entered is not correct",
+        variant: "destructive",
+      });
+    } finally {
+      setPin("");
+      setIsLoading(false);
+    }
   };
 
   return (
@@ -54,10 +78,43 @@ export function PinDialog({ open, onOpenChange, onPinSubmit, onCancel }: PinDial
             <Button type="button" variant="outline" onClick={onCancel}>
               Cancel
             </Button>
-            <Button type="submit">Submit</Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? "Checking..." : "Submit"}
+            </Button>
           </div>
         </form>
       </DialogContent>
     </Dialog>
   );
 }
+
+/**
+ * Ask for the project's edit PIN when a write is turned down for want of it,
+ * then retry the write. Pass errors to handlePinError from a mutation's
+ * onError; it returns false for errors the PIN wouldn't fix. Render pinDialog
+ * somewhere on the page.
+ */
+export function usePinPrompt(projectId: string | undefined) {
+  const [retry, setRetry] = useState<(() => void) | null>(null);
+
+  const handlePinError = useCallback((error: unknown, retryWrite: () => void): boolean => {
+    if (!projectId || !isPinRequired(error)) return false;
+    setRetry(() => retryWrite);
+    return true;
+  }, [projectId]);
+
+  const pinDialog = projectId ? (
+    <PinDialog
+      projectId={projectId}
+      open={retry !== null}
+      onOpenChange={(open) => !open && setRetry(null)}
+      onUnlocked={() => {
+        retry?.();
+        setRetry(null);
+      }}
+      onCancel={() => setRetry(null)}
+    />
+  ) : null;
+
+  return { handlePinError, pinDialog };
+}
@@ -1,17 +1,23 @@
 import { useState, useEffect } from "react";
 import { QRCodeSVG } from "qrcode.react";
 import QRCode from "qrcode";
-import type { Project, Room } from "@shared/schema";
+import type { Room } from "@shared/schema";
+import type { ItemImage } from "@/lib/files";
+import type { PublicProject } from "@/lib/projects";
+
+// Photos shown per item; the rest are left out to keep the report short
+const MAX_IMAGES_PER_ITEM = 3;
 
 interface PrintViewProps {
-  project: Project;
+  project: PublicProject;
   rooms: Room[];
   itemCounts: Record<string, number>;
   baseUrl: string;
   items?: any[]; // Add items to props
+  images?: ItemImage[];
 }
 
-export default function PrintView({ project, rooms, itemCounts, baseUrl, items = [] }: PrintViewProps) {
+export default function PrintView({ project, rooms, itemCounts, baseUrl, items = [], images = [] }: PrintViewProps) {
   const projectUrl = `${baseUrl}/project/${project.id}`;
   const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string>('');
 
@@ -159,6 +165,21 @@ export default function PrintView({ project, rooms, itemCounts, baseUrl, items =
                             Notes: {item.notes}
                           </p>
                         )}
+                        {images.some(image => image.item_id === item.id) && (
+                          <div className="flex gap-2 mt-3">
+                            {images
+                              .filter(image => image.item_id === item.id)
+                              .slice(0, MAX_IMAGES_PER_ITEM)
+                              .map(image => (
+                                <img
+                                  key={image.id}
+                                  src={image.thumbnail_url}
+                                  alt={image.description || item.name}
+                                  className="h-32 w-auto rounded border object-contain"
+                                />
+                              ))}
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
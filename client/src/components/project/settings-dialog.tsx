@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import {
   Dialog,
   DialogContent,
@@ -9,16 +9,30 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/lib/supabase";
+import { apiPut } from "@/lib/api-client";
 import { queryClient } from "@/lib/queryClient";
+import { MembersPanel } from "./members-panel";
+import { TransferPanel } from "./transfer-panel";
+import { CalendarPanel } from "./calendar-panel";
+import type { ProjectRole } from "@shared/schema";
+
+// Tailwind needs the class names spelled out to keep them in the build
+const TAB_COLUMNS = ["grid-cols-1", "grid-cols-2", "grid-cols-3", "grid-cols-4"];
+
+export type SettingsTab = "editing" | "members" | "handover" | "calendar";
 
 interface SettingsDialogProps {
   projectId: string;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   requirePin: boolean;
-  editPin: string | null;
+  hasEditPin: boolean;
+  // The viewer's role; tabs they can't use are hidden
+  role: ProjectRole;
+  // The tab shown when the dialog opens
+  initialTab?: SettingsTab;
 }
 
 export function SettingsDialog({
@@ -26,17 +40,29 @@ export function SettingsDialog({
   open,
   onOpenChange,
   requirePin,
-  editPin,
+  hasEditPin,
+  role,
+  initialTab,
 }: SettingsDialogProps) {
+  const isOwner = role === "owner";
+  const tabCount = isOwner ? 4 : 1;
+  const defaultTab: SettingsTab = isOwner ? "editing" : "members";
+  const [tab, setTab] = useState<SettingsTab>(initialTab ?? defaultTab);
+
+  useEffect(() => {
+    if (open) setTab(initialTab ?? defaultTab);
+  }, [open, initialTab, defaultTab]);
   const [isLoading, setIsLoading] = useState(false);
   const [pinEnabled, setPinEnabled] = useState(requirePin);
-  const [pin, setPin] = useState(editPin || "");
+  const [pin, setPin] = useState("");
   const { toast } = useToast();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (pinEnabled && (pin.length !== 4 || !/^\d+$/.test(pin))) {
+    // The stored PIN is hashed, so leaving the field blank keeps the current one
+    const keepExistingPin = pinEnabled && hasEditPin && pin === "";
+    if (pinEnabled && !keepExistingPin && (pin.length !== 4 || !/^\d+$/.test(pin))) {
       toast({
         title: "Invalid PIN",
         description: "Please enter a 4-digit PIN",
@@ -47,15 +73,10 @@ export function SettingsDialog({
 
     setIsLoading(true);
     try {
-      const { error } = await supabase
-        .from("projects")
-        .update({
-          require_pin: pinEnabled,
-          edit_pin: pinEnabled ? pin : null,
-        })
-        .eq("id", projectId);
-
-      if (error) throw error;
+      await apiPut(`/api/projects/${projectId}/pin`, {
+        require_pin: pinEnabled,
+        edit_pin: pinEnabled && !keepExistingPin ? pin : null,
+      });
 
       queryClient.invalidateQueries({ queryKey: ["project", projectId] });
       toast({
@@ -80,45 +101,70 @@ export function SettingsDialog({
         <DialogHeader>
           <DialogTitle>Project Settings</DialogTitle>
         </DialogHeader>
-        <form onSubmit={handleSubmit} className="space-y-6">
-          <div className="flex items-center justify-between">
-            <Label htmlFor="pin-required">Require PIN for Editing</Label>
-            <Switch
-              id="pin-required"
-              checked={pinEnabled}
-              onCheckedChange={setPinEnabled}
-            />
-          </div>
+        <Tabs value={tab} onValueChange={(value) => setTab(value as SettingsTab)}>
+          <TabsList className={`grid w-full ${TAB_COLUMNS[tabCount - 1]}`}>
+            {isOwner && <TabsTrigger value="editing">Editing</TabsTrigger>}
+            <TabsTrigger value="members">Members</TabsTrigger>
+            {isOwner && <TabsTrigger value="handover">Handover</TabsTrigger>}
+            {isOwner && <TabsTrigger value="calendar">Calendar</TabsTrigger>}
+          </TabsList>
+          {isOwner && (
+            <TabsContent value="editing" className="pt-4">
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="pin-required">Require PIN for Editing</Label>
+                  <Switch
+                    id="pin-required"
+                    checked={pinEnabled}
+                    onCheckedChange={setPinEnabled}
+                  />
+                </div>
           
-          {pinEnabled && (
-            <div className="space-y-2">
-              <Label htmlFor="edit-pin">Edit PIN (4 digits)</Label>
-              <Input
-                id="edit-pin"
-                type="text"
-                maxLength={4}
-                pattern="\d{4}"
-                value={pin}
-                onChange={(e) => setPin(e.target.value)}
-                placeholder="Enter 4-digit PIN"
-                className="text-center text-2xl tracking-widest"
-              />
-            </div>
-          )}
+                {pinEnabled && (
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-pin">Edit PIN (4 digits)</Label>
+                    <Input
+                      id="edit-pin"
+                      type="text"
+                      maxLength={4}
+                      pattern="\d{4}"
+                      value={pin}
+                      onChange={(e) => setPin(e.target.value)}
+                      placeholder={hasEditPin ? "Leave blank to keep current PIN" : "Enter 4-digit PIN"}
+                      className="text-center text-2xl tracking-widest"
+                    />
+                  </div>
+                )}
           
-          <div className="flex justify-end space-x-2">
-            <Button
-              type="button"
-              variant="outline"
-              onClick={() => onOpenChange(false)}
-            >
-              Cancel
-            </Button>
-            <Button type="submit" disabled={isLoading}>
-              {isLoading ? "Saving..." : "Save Changes"}
-            </Button>
-          </div>
-        </form>
+                <div className="flex justify-end space-x-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => onOpenChange(false)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={isLoading}>
+                    {isLoading ? "Saving..." : "Save Changes"}
+                  </Button>
+                </div>
+              </form>
+            </TabsContent>
+          )}
+          <TabsContent value="members" className="pt-4">
+            <MembersPanel projectId={projectId} />
+          </TabsContent>
+          {isOwner && (
+            <TabsContent value="handover" className="pt-4">
+              <TransferPanel projectId={projectId} />
+            </TabsContent>
+          )}
+          {isOwner && (
+            <TabsContent value="calendar" className="pt-4">
+              <CalendarPanel projectId={projectId} />
+            </TabsContent>
+          )}
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
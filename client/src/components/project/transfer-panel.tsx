@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, KeyRound, X } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import {
+  ROLE_LABELS,
+  fetchProjectTransfer,
+  createTransfer,
+  cancelTransfer,
+  transferUrl,
+  type Transfer,
+} from "@/lib/members";
+import type { TransferKeepRole } from "@shared/schema";
+
+const NO_ACCESS = "none";
+
+interface TransferPanelProps {
+  projectId: string;
+}
+
+/**
+ * Hand a project over to its new owner, typically from the builder to the
+ * homeowner once the build is finished. Only the primary owner can do this.
+ */
+export function TransferPanel({ projectId }: TransferPanelProps) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [keepRole, setKeepRole] = useState<string>("viewer");
+
+  const transferQueryKey = ["project-transfer", projectId];
+  const { data, isLoading, error } = useQuery({
+    queryKey: transferQueryKey,
+    queryFn: () => fetchProjectTransfer(projectId),
+    retry: false,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: transferQueryKey });
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.data?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const copyLink = async (transfer: Transfer) => {
+    try {
+      await navigator.clipboard.writeText(transferUrl(transfer));
+      toast({
+        title: "Success",
+        description: "Handover link copied to clipboard",
+      });
+    } catch {
+      window.prompt("Copy the handover link", transferUrl(transfer));
+    }
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => createTransfer(projectId, {
+      email: email.trim() || undefined,
+      previous_owner_role: keepRole === NO_ACCESS ? null : keepRole as TransferKeepRole,
+    }),
+    onSuccess: (transfer) => {
+      setEmail("");
+      refresh();
+      copyLink(transfer);
+    },
+    onError: showError("Failed to create handover link"),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => cancelTransfer(projectId),
+    onSuccess: refresh,
+    onError: showError("Failed to cancel handover"),
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+
+  if (error || !data?.can_transfer) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Only the project's primary owner can hand it over to someone else.
+      </p>
+    );
+  }
+
+  const { transfer } = data;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1 text-sm text-muted-foreground">
+        <p>Handing over makes someone else the project's primary owner. When they accept:</p>
+        <ul className="list-disc pl-5 space-y-1">
+          <li>They get full control, including settings and who has access.</li>
+          <li>The edit PIN and calendar link are turned off; the public link and QR codes keep working.</li>
+          <li>Other members keep their roles and pending invitations are cancelled.</li>
+          <li>Your chat conversations are deleted if you don't keep access.</li>
+        </ul>
+      </div>
+
+      {transfer ? (
+        <div className="space-y-2">
+          <Label>Pending handover</Label>
+          <div className="flex items-center justify-between gap-2 rounded-md border p-2">
+            <div className="min-w-0">
+              <p className="truncate text-sm">{transfer.email || "Anyone with the link"}</p>
+              <p className="text-xs text-muted-foreground">
+                You keep: {transfer.previous_owner_role ? ROLE_LABELS[transfer.previous_owner_role] : "No access"}
+                {" · "}expires {new Date(transfer.expires_at).toLocaleDateString()}
+              </p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <Button variant="ghost" size="icon" className="h-8 w-8" title="Copy link" onClick={() => copyLink(transfer)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title="Cancel handover"
+                disabled={cancelMutation.isPending}
+                onClick={() => cancelMutation.mutate()}
+              >
+                <X className="h-4 w-4 text-red-600" />
+              </Button>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">Creating a new handover link replaces this one.</p>
+        </div>
+      ) : null}
+
+      <div className="space-y-2">
+        <Label htmlFor="transfer-email">New owner's email</Label>
+        <Input
+          id="transfer-email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Leave blank for a link anyone can use"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="transfer-keep-role">Your access afterwards</Label>
+        <Select value={keepRole} onValueChange={setKeepRole}>
+          <SelectTrigger id="transfer-keep-role">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="contributor">{ROLE_LABELS.contributor}</SelectItem>
+            <SelectItem value="viewer">View only</SelectItem>
+            <SelectItem value={NO_ACCESS}>No access</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => createMutation.mutate()}
+        disabled={createMutation.isPending}
+      >
+        <KeyRound className="mr-2 h-4 w-4" />
+        {createMutation.isPending ? "Creating..." : "Create Handover Link"}
+      </Button>
+    </div>
+  );
+}
@@ -1,16 +1,21 @@
 import { useState } from "react";
-import { supabase } from "@/lib/supabase";
-import { Button } from "./button";
+import { apiUpload } from "@/lib/api-client";
+import { describeUploadError, DOCUMENT_KIND_LABELS } from "@/lib/files";
+import { Label } from "./label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./select";
 import { useToast } from "@/hooks/use-toast";
 import { Upload } from "lucide-react";
+import type { DocumentKind } from "@shared/schema";
 
 interface DocumentUploadProps {
-  itemId: string;
+  // Documents endpoint of the item, room, finish or project to attach to
+  uploadUrl: string;
   onUploadComplete: () => void;
 }
 
-export function DocumentUpload({ itemId, onUploadComplete }: DocumentUploadProps) {
+export function DocumentUpload({ uploadUrl, onUploadComplete }: DocumentUploadProps) {
   const [isUploading, setIsUploading] = useState(false);
+  const [kind, setKind] = useState<DocumentKind>("other");
   const { toast } = useToast();
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -20,25 +25,11 @@ export function DocumentUpload({ itemId, onUploadComplete }: DocumentUploadProps
     setIsUploading(true);
     try {
       for (const file of Array.from(files)) {
-        const fileExt = file.name.split('.').pop();
-        const fileName = `${Math.random()}.${fileExt}`;
-        const filePath = `${itemId}/${fileName}`;
-
-        const { error: uploadError } = await supabase.storage
-          .from('item-documents')
-          .upload(filePath, file);
-
-        if (uploadError) {
-          // Provide specific error messages based on error type
-          if (uploadError.message.includes('not found') || uploadError.message.includes('does not exist')) {
-            throw new Error(`Storage bucket 'item-documents' does not exist. Please create it in your Supabase dashboard or use the debug tool to fix this.`);
-          } else if (uploadError.message.includes('policy') || uploadError.message.includes('permission')) {
-            throw new Error(`Permission denied: Please check your storage bucket policies. You may need to set up Row Level Security policies for authenticated users.`);
-          } else if (uploadError.message.includes('size')) {
-            throw new Error(`File too large: ${file.name} exceeds the bucket size limit.`);
-          } else {
-            throw new Error(`Upload failed: ${uploadError.message}`);
-          }
+        // The server stores the file and adds it to the assistant's knowledge base
+        try {
+          await apiUpload(`${uploadUrl}?kind=${kind}`, file);
+        } catch (error) {
+          throw new Error(describeUploadError(error, file.name));
         }
       }
 
@@ -60,6 +51,19 @@ export function DocumentUpload({ itemId, onUploadComplete }: DocumentUploadProps
 
   return (
     <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <Label htmlFor="document-kind" className="shrink-0">Document type</Label>
+        <Select value={kind} onValueChange={(value) => setKind(value as DocumentKind)} disabled={isUploading}>
+          <SelectTrigger id="document-kind" className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(DOCUMENT_KIND_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
       <div className="flex items-center justify-center w-full">
         <label className="flex flex-col items-center justify-center w-full h-32 border-2 border-dashed rounded-lg cursor-pointer hover:bg-muted/50">
           <div className="flex flex-col items-center justify-center pt-5 pb-6">
@@ -67,12 +71,12 @@ export function DocumentUpload({ itemId, onUploadComplete }: DocumentUploadProps
             <p className="mb-2 text-sm text-muted-foreground">
               <span className="font-semibold">Click to upload</span> or drag and drop
             </p>
-            <p className="text-xs text-muted-foreground">PDF (Max 25MB)</p>
+            <p className="text-xs text-muted-foreground">PDF, text or HTML (Max 25MB)</p>
           </div>
           <input
             type="file"
             className="hidden"
-            accept=".pdf"
+            accept=".pdf,.txt,.md,.html,.htm"
             multiple
             onChange={handleFileUpload}
             disabled={isUploading}
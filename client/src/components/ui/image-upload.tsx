@@ -2,15 +2,13 @@ import { useState, useCallback, useEffect } from "react";
 import { Button } from "./button";
 import { Input } from "./input";
 import { Label } from "./label";
-import { supabase } from "@/lib/supabase";
+import { apiUpload } from "@/lib/api-client";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Upload, X, AlertCircle } from "lucide-react";
-import { Image } from "@shared/schema";
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Upload, X } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
-import { Alert, AlertDescription, AlertTitle } from "./alert";
-import { checkStorageAccess } from "@/lib/supabase-storage";
+import { describeUploadError, type ItemImage } from "@/lib/files";
 
 interface ImageUploadProps {
   itemId: string;
@@ -23,20 +21,10 @@ export function ImageUpload({ itemId, onUploadComplete }: ImageUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const { toast } = useToast();
 
-  // Check if storage is properly configured
-  const { data: storageAccessible, isLoading: checkingStorage } = useQuery({
-    queryKey: ["storage-access"],
-    queryFn: checkStorageAccess,
-  });
-
   const uploadMutation = useMutation({
     mutationFn: async (files: File[]) => {
-      if (!storageAccessible) {
-        throw new Error("Storage bucket not configured");
-      }
-
       setUploading(true);
-      const uploadedImages: Image[] = [];
+      const uploadedImages: ItemImage[] = [];
 
       try {
         for (const file of files) {
@@ -47,43 +35,12 @@ export function ImageUpload({ itemId, onUploadComplete }: ImageUploadProps) {
             throw new Error(`${file.name} exceeds 25MB limit`);
           }
 
-          // Upload file to Supabase Storage
-          const fileExt = file.name.split('.').pop();
-          const filePath = `${itemId}/${Date.now()}.${fileExt}`;
-
-          const { data: storageData, error: storageError } = await supabase.storage
-            .from('item-images')
-            .upload(filePath, file);
-
-          if (storageError) {
-            // Provide specific error messages based on error type
-            if (storageError.message.includes('not found') || storageError.message.includes('does not exist')) {
-              throw new Error(`Storage bucket 'item-images' does not exist. Please create it in your Supabase dashboard or use the debug tool to fix this.`);
-            } else if (storageError.message.includes('policy') || storageError.message.includes('permission')) {
-              throw new Error(`Permission denied: Please check your storage bucket policies. You may need to set up Row Level Security policies for authenticated users.`);
-            } else if (storageError.message.includes('size')) {
-              throw new Error(`File too large: ${file.name} exceeds the bucket size limit.`);
-            } else {
-              throw new Error(`Upload failed: ${storageError.message}`);
-            }
+          // The server stores the file and records its metadata
+          try {
+            uploadedImages.push(await apiUpload<ItemImage>(`/api/items/${itemId}/images`, file));
+          } catch (error) {
+            throw new Error(describeUploadError(error, file.name));
           }
-
-          // Create image metadata record
-          const { data: imageData, error: dbError } = await supabase
-            .from('images')
-            .insert([{
-              item_id: itemId,
-              storage_path: filePath, // Use storage_path instead of url
-              filename: file.name,
-              size: file.size,
-              mime_type: file.type
-            }])
-            .select()
-            .single();
-
-          if (dbError) throw dbError;
-
-          uploadedImages.push(imageData);
         }
 
         return uploadedImages;
@@ -170,32 +127,6 @@ export function ImageUpload({ itemId, onUploadComplete }: ImageUploadProps) {
     }
   };
 
-  if (checkingStorage) {
-    return (
-      <div className="flex items-center justify-center p-8">
-        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-      </div>
-    );
-  }
-
-  if (!storageAccessible) {
-    return (
-      <Alert variant="destructive">
-        <AlertCircle className="h-4 w-4" />
-        <AlertTitle>Storage Not Configured</AlertTitle>
-        <AlertDescription>
-          Please create a storage bucket named 'item-images' in your Supabase dashboard with the following settings:
-          <ul className="list-disc list-inside mt-2">
-            <li>Bucket name: item-images</li>
-            <li>Public bucket: Yes</li>
-            <li>File size limit: 25MB</li>
-            <li>Allowed mime types: image/jpeg, image/png, image/gif</li>
-          </ul>
-        </AlertDescription>
-      </Alert>
-    );
-  }
-
   return (
     <div className="space-y-4">
       <div
@@ -228,7 +159,7 @@ export function ImageUpload({ itemId, onUploadComplete }: ImageUploadProps) {
             Drag & drop images here or click to select
           </p>
           <p className="text-xs text-muted-foreground">
-            Supports: JPG, PNG, GIF (up to 25MB)
+            Supports: JPG, PNG, GIF, WebP, AVIF (up to 25MB)
           </p>
         </Label>
       </div>
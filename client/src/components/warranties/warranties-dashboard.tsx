@@ -0,0 +1,356 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { apiGet } from "@/lib/api-client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileText, Pencil, Plus, ShieldCheck, Trash2 } from "lucide-react";
+import { fetchProjectDocuments, FILE_LINK_REFRESH_MS } from "@/lib/files";
+import { formatDueDate } from "@/lib/maintenance";
+import {
+  COVERAGE_LABELS,
+  WARRANTY_STATUS_LABELS,
+  describeDuration,
+  fetchWarranties,
+  fetchWarrantySuggestions,
+  createWarranty,
+  updateWarranty,
+  deleteWarranty,
+  type TrackedWarranty,
+  type WarrantyInput,
+  type WarrantyStatus,
+  type WarrantySuggestion,
+  type WarrantyTextSuggestions,
+} from "@/lib/warranties";
+import WarrantyForm, { type WarrantyDraft } from "./warranty-form";
+import type { Finish } from "@shared/schema";
+
+export const WARRANTY_BADGE_CLASSES: Record<WarrantyStatus, string> = {
+  expired: "bg-red-100 text-red-800 hover:bg-red-100",
+  expiring: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  active: "bg-green-100 text-green-800 hover:bg-green-100",
+  no_expiry: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+};
+
+type ExpiryFilter = "30" | "90" | "year" | "365" | "expired" | "all";
+
+const FILTER_LABELS: Record<ExpiryFilter, string> = {
+  "30": "Expiring in 30 days",
+  "90": "Expiring in 90 days",
+  year: "Expiring this year",
+  "365": "Expiring in 12 months",
+  expired: "Expired",
+  all: "All warranties",
+};
+
+function matchesFilter(warranty: TrackedWarranty, filter: ExpiryFilter): boolean {
+  const daysLeft = warranty.days_left;
+  switch (filter) {
+    case "all":
+      return true;
+    case "expired":
+      return warranty.status === "expired";
+    case "year":
+      return daysLeft !== null && daysLeft >= 0 && warranty.expires_on!.startsWith(String(new Date().getFullYear()));
+    default:
+      return daysLeft !== null && daysLeft >= 0 && daysLeft <= Number(filter);
+  }
+}
+
+function describeDaysLeft(warranty: TrackedWarranty): string {
+  const daysLeft = warranty.days_left;
+  if (daysLeft === null) return WARRANTY_STATUS_LABELS.no_expiry;
+  if (daysLeft < 0) return `Expired ${formatDueDate(warranty.expires_on)}`;
+  if (daysLeft === 0) return "Expires today";
+  return `${daysLeft === 1 ? "1 day" : `${daysLeft} days`} left`;
+}
+
+interface WarrantiesDashboardProps {
+  projectId: string;
+  // Items in the project, offered when choosing what a warranty is for
+  items?: { id: string; name: string }[];
+  canEdit?: boolean;
+}
+
+/**
+ * A project's warranties with the ones expiring soonest first, filtered by
+ * when they expire, and the warranty text on items and finishes that could
+ * be turned into warranty records
+ */
+export default function WarrantiesDashboard({ projectId, items = [], canEdit = true }: WarrantiesDashboardProps) {
+  const { toast } = useToast();
+  const [filter, setFilter] = useState<ExpiryFilter>("90");
+  const [draft, setDraft] = useState<WarrantyDraft | null>(null);
+  const [editingWarranty, setEditingWarranty] = useState<TrackedWarranty | null>(null);
+
+  const warrantiesQueryKey = ["warranties", projectId];
+  const { data: warranties = [], isLoading, isError } = useQuery({
+    queryKey: warrantiesQueryKey,
+    queryFn: () => fetchWarranties(projectId),
+  });
+
+  const { data: suggestions = [] } = useQuery({
+    queryKey: ["warranty-suggestions", projectId],
+    queryFn: () => fetchWarrantySuggestions(projectId),
+    enabled: canEdit,
+  });
+
+  const { data: finishes = [] } = useQuery({
+    queryKey: ["finishes", projectId, "all"],
+    queryFn: () => apiGet<Finish[]>(`/api/projects/${projectId}/finishes`),
+    enabled: canEdit,
+  });
+
+  const { data: documents = [] } = useQuery({
+    queryKey: ["project-documents", projectId],
+    queryFn: () => fetchProjectDocuments(projectId),
+    refetchInterval: FILE_LINK_REFRESH_MS,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: warrantiesQueryKey });
+    queryClient.invalidateQueries({ queryKey: ["warranty-suggestions", projectId] });
+  };
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.data?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const addWarranty = useMutation({
+    mutationFn: (values: WarrantyInput) => createWarranty(projectId, values),
+    onSuccess: () => {
+      setDraft(null);
+      refresh();
+      toast({
+        title: "Success",
+        description: "Warranty added",
+      });
+    },
+    onError: showError("Failed to add warranty"),
+  });
+
+  const saveWarranty = useMutation({
+    mutationFn: ({ id, values }: { id: string; values: WarrantyInput }) => updateWarranty(id, values),
+    onSuccess: () => {
+      setEditingWarranty(null);
+      refresh();
+      toast({
+        title: "Success",
+        description: "Warranty updated",
+      });
+    },
+    onError: showError("Failed to update warranty"),
+  });
+
+  const removeWarranty = useMutation({
+    mutationFn: (warranty: TrackedWarranty) => deleteWarranty(warranty.id),
+    onSuccess: refresh,
+    onError: showError("Failed to delete warranty"),
+  });
+
+  // Start a warranty for an item or finish from its warranty text
+  const fromSuggestion = (entry: WarrantyTextSuggestions, suggestion?: WarrantySuggestion): WarrantyDraft => {
+    return {
+      ...suggestion,
+      item_id: entry.subject.type === "item" ? entry.subject.id : null,
+      finish_id: entry.subject.type === "finish" ? entry.subject.id : null,
+      notes: entry.warranty_info,
+    };
+  };
+
+  const documentOf = (warranty: TrackedWarranty) =>
+    documents.find((document) => document.id === warranty.document_id);
+
+  const counts = warranties.reduce<Record<WarrantyStatus, number>>(
+    (totals, warranty) => ({ ...totals, [warranty.status]: totals[warranty.status] + 1 }),
+    { expired: 0, expiring: 0, active: 0, no_expiry: 0 }
+  );
+  const shown = warranties.filter((warranty) => matchesFilter(warranty, filter));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {(Object.keys(counts) as WarrantyStatus[]).map((status) => (
+          <Card key={status}>
+            <CardHeader className="pb-1">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{WARRANTY_STATUS_LABELS[status]}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-semibold">{counts[status]}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Select value={filter} onValueChange={(value) => setFilter(value as ExpiryFilter)}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.entries(FILTER_LABELS) as [ExpiryFilter, string][]).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {canEdit && (
+          <Button size="sm" onClick={() => setDraft({})}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Warranty
+          </Button>
+        )}
+      </div>
+
+      {isLoading && <p className="text-sm text-muted-foreground">Loading warranties...</p>}
+      {isError && <p className="text-sm text-destructive">Failed to load warranties.</p>}
+
+      {!isLoading && !isError && shown.length === 0 && (
+        <div className="text-center py-8 text-muted-foreground bg-muted/30 rounded-lg border">
+          <ShieldCheck className="h-6 w-6 mx-auto mb-2" />
+          {warranties.length === 0 ? "No warranties recorded yet." : "No warranties match this filter."}
+        </div>
+      )}
+
+      {shown.length > 0 && (
+        <div className="divide-y rounded-lg border">
+          {shown.map((warranty) => {
+            const document = documentOf(warranty);
+            const duration = describeDuration(warranty.duration_months);
+            return (
+              <div key={warranty.id} className="flex flex-col gap-2 p-4 sm:flex-row sm:items-start sm:justify-between">
+                <div className="space-y-1">
+                  <p className="font-medium">
+                    {warranty.subject?.name || "Whole home"}
+                    {warranty.provider && <span className="text-muted-foreground font-normal"> · {warranty.provider}</span>}
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge className={WARRANTY_BADGE_CLASSES[warranty.status]}>{describeDaysLeft(warranty)}</Badge>
+                    <Badge variant="secondary">{COVERAGE_LABELS[warranty.coverage_type]}</Badge>
+                    {duration && <Badge variant="outline">{duration}</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {warranty.start_date && `From ${formatDueDate(warranty.start_date)}`}
+                    {warranty.start_date && warranty.expires_on && " · "}
+                    {warranty.expires_on && `Until ${formatDueDate(warranty.expires_on)}`}
+                    {warranty.registration_number && ` · Reg. ${warranty.registration_number}`}
+                    {warranty.claim_contact && ` · Claims: ${warranty.claim_contact}`}
+                  </p>
+                  {warranty.notes && <p className="text-sm whitespace-pre-line">{warranty.notes}</p>}
+                  {document && (
+                    <a
+                      href={document.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                    >
+                      <FileText className="h-3 w-3" />
+                      {document.filename}
+                    </a>
+                  )}
+                </div>
+                {canEdit && (
+                  <div className="flex shrink-0">
+                    <Button variant="ghost" size="icon" title="Edit" onClick={() => setEditingWarranty(warranty)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete"
+                      disabled={removeWarranty.isPending}
+                      onClick={() => {
+                        if (confirm("Delete this warranty?")) removeWarranty.mutate(warranty);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canEdit && suggestions.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-muted-foreground">Warranty notes without a record</h3>
+          <div className="divide-y rounded-lg border">
+            {suggestions.map((entry) => (
+              <div key={entry.subject.id} className="flex flex-col gap-2 p-4 sm:flex-row sm:items-start sm:justify-between">
+                <div className="space-y-1">
+                  <p className="font-medium">{entry.subject.name}</p>
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">{entry.warranty_info}</p>
+                </div>
+                <div className="flex flex-wrap gap-2 shrink-0">
+                  {entry.suggestions.length === 0 ? (
+                    <Button variant="outline" size="sm" onClick={() => setDraft(fromSuggestion(entry))}>
+                      Add Manually
+                    </Button>
+                  ) : (
+                    entry.suggestions.map((suggestion, index) => (
+                      <Button key={index} variant="outline" size="sm" onClick={() => setDraft(fromSuggestion(entry, suggestion))}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        {[COVERAGE_LABELS[suggestion.coverage_type], describeDuration(suggestion.duration_months)]
+                          .filter(Boolean)
+                          .join(", ")}
+                      </Button>
+                    ))
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Add Warranty</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <WarrantyForm
+              projectId={projectId}
+              warranty={draft}
+              items={items}
+              finishes={finishes}
+              documents={documents}
+              isPending={addWarranty.isPending}
+              onSubmit={(values) => addWarranty.mutate(values)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editingWarranty} onOpenChange={(open) => !open && setEditingWarranty(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Warranty</DialogTitle>
+          </DialogHeader>
+          {editingWarranty && (
+            <WarrantyForm
+              key={editingWarranty.id}
+              projectId={projectId}
+              warranty={editingWarranty}
+              isEditing
+              items={items}
+              finishes={finishes}
+              documents={documents}
+              isPending={saveWarranty.isPending}
+              onSubmit={(values) => saveWarranty.mutate({ id: editingWarranty.id, values })}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,407 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Wand2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { StoredDocument } from "@/lib/files";
+import {
+  COVERAGE_LABELS,
+  parseWarrantyText,
+  type WarrantyInput,
+  type WarrantySuggestion,
+} from "@/lib/warranties";
+import type { Finish, Warranty, WarrantyCoverage } from "@shared/schema";
+
+// Select values for warranties on the home as a whole, and without a document
+const NO_SUBJECT = "none";
+const NO_DOCUMENT = "none";
+
+const COVERAGE_OPTIONS = Object.entries(COVERAGE_LABELS) as [WarrantyCoverage, string][];
+
+const warrantyFormSchema = z.object({
+  // "item:<id>", "finish:<id>" or NO_SUBJECT
+  subject: z.string(),
+  provider: z.string().optional(),
+  coverage_type: z.enum(["full", "limited", "lifetime", "parts", "labor", "parts_and_labor", "extended", "other"]),
+  start_date: z.string().optional(),
+  duration_months: z.string().optional(),
+  expires_on: z.string().optional(),
+  registration_number: z.string().optional(),
+  claim_contact: z.string().optional(),
+  document_id: z.string(),
+  notes: z.string().optional(),
+}).superRefine((values, ctx) => {
+  if (values.duration_months && !(Number(values.duration_months) >= 1)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["duration_months"], message: "Enter a number of months" });
+  }
+  if (values.start_date && values.expires_on && values.expires_on < values.start_date) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["expires_on"], message: "Expiry can't be before the start date" });
+  }
+});
+
+type WarrantyFormValues = z.infer<typeof warrantyFormSchema>;
+
+// A warranty to start the form from: an existing one, or a suggestion for an item or finish
+export type WarrantyDraft = Partial<Omit<Warranty, "id" | "project_id" | "created_at" | "updated_at">>;
+
+interface WarrantyFormProps {
+  projectId: string;
+  warranty?: WarrantyDraft;
+  isEditing?: boolean;
+  // Items, finishes and documents a warranty can be linked to
+  items: { id: string; name: string }[];
+  finishes: Finish[];
+  documents: StoredDocument[];
+  isPending: boolean;
+  onSubmit: (values: WarrantyInput) => void;
+}
+
+function subjectOf(warranty?: WarrantyDraft): string {
+  if (warranty?.item_id) return `item:${warranty.item_id}`;
+  if (warranty?.finish_id) return `finish:${warranty.finish_id}`;
+  return NO_SUBJECT;
+}
+
+function toFormValues(warranty?: WarrantyDraft): WarrantyFormValues {
+  return {
+    subject: subjectOf(warranty),
+    provider: warranty?.provider || "",
+    coverage_type: warranty?.coverage_type || "limited",
+    start_date: warranty?.start_date || "",
+    duration_months: warranty?.duration_months ? String(warranty.duration_months) : "",
+    // An expiry worked out from the duration is left blank so it follows changes to it
+    expires_on: warranty?.duration_months ? "" : warranty?.expires_on || "",
+    registration_number: warranty?.registration_number || "",
+    claim_contact: warranty?.claim_contact || "",
+    document_id: warranty?.document_id || NO_DOCUMENT,
+    notes: warranty?.notes || "",
+  };
+}
+
+export default function WarrantyForm({
+  projectId,
+  warranty,
+  isEditing = false,
+  items,
+  finishes,
+  documents,
+  isPending,
+  onSubmit,
+}: WarrantyFormProps) {
+  const { toast } = useToast();
+  const [pastedText, setPastedText] = useState("");
+
+  const form = useForm<WarrantyFormValues>({
+    resolver: zodResolver(warrantyFormSchema),
+    defaultValues: toFormValues(warranty),
+  });
+
+  const coverage = form.watch("coverage_type");
+
+  const applySuggestion = (suggestion: WarrantySuggestion) => {
+    const current = form.getValues();
+    // Keep what's already been typed where the text has nothing to say
+    form.reset({
+      ...current,
+      coverage_type: suggestion.coverage_type,
+      provider: suggestion.provider || current.provider,
+      start_date: suggestion.start_date || current.start_date,
+      duration_months: suggestion.duration_months ? String(suggestion.duration_months) : "",
+      expires_on: suggestion.duration_months ? "" : suggestion.expires_on || "",
+      registration_number: suggestion.registration_number || current.registration_number,
+      claim_contact: suggestion.claim_contact || current.claim_contact,
+    });
+  };
+
+  const parseMutation = useMutation({
+    mutationFn: () => {
+      const [subjectType, subjectId] = form.getValues("subject").split(":");
+      return parseWarrantyText(projectId, {
+        text: pastedText,
+        item_id: subjectType === "item" ? subjectId : null,
+        finish_id: subjectType === "finish" ? subjectId : null,
+      });
+    },
+    onSuccess: (suggestions) => {
+      if (suggestions.length === 0) {
+        toast({
+          title: "Nothing found",
+          description: "Couldn't find a warranty term in that text. Fill in the details below.",
+        });
+        return;
+      }
+      applySuggestion(suggestions[0]);
+      if (suggestions.length > 1) {
+        toast({
+          title: "Several terms found",
+          description: `Filled in "${suggestions[0].source_text}". Add a separate warranty for each of the others.`,
+        });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.data?.message || "Failed to read warranty text",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (values: WarrantyFormValues) => {
+    const [subjectType, subjectId] = values.subject.split(":");
+    const isLifetime = values.coverage_type === "lifetime";
+    onSubmit({
+      item_id: subjectType === "item" ? subjectId : null,
+      finish_id: subjectType === "finish" ? subjectId : null,
+      provider: values.provider?.trim() || null,
+      coverage_type: values.coverage_type,
+      start_date: values.start_date || null,
+      duration_months: !isLifetime && values.duration_months ? Number(values.duration_months) : null,
+      expires_on: values.expires_on || null,
+      registration_number: values.registration_number?.trim() || null,
+      claim_contact: values.claim_contact?.trim() || null,
+      document_id: values.document_id === NO_DOCUMENT ? null : values.document_id,
+      notes: values.notes?.trim() || null,
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        {!isEditing && (
+          <div className="space-y-2 rounded-md border bg-muted/30 p-3">
+            <label htmlFor="warranty-text" className="text-sm font-medium">Fill in from text</label>
+            <Textarea
+              id="warranty-text"
+              value={pastedText}
+              onChange={(e) => setPastedText(e.target.value)}
+              placeholder="e.g. 10 year limited warranty, registration no. AB12345, call 1-800-555-0199"
+              rows={2}
+            />
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={!pastedText.trim() || parseMutation.isPending}
+                onClick={() => parseMutation.mutate()}
+              >
+                <Wand2 className="h-4 w-4 mr-2" />
+                {parseMutation.isPending ? "Reading..." : "Fill In"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <FormField
+          control={form.control}
+          name="subject"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>For</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NO_SUBJECT}>Whole home</SelectItem>
+                  {items.length > 0 && (
+                    <SelectGroup>
+                      <SelectLabel>Items</SelectLabel>
+                      {items.map((item) => (
+                        <SelectItem key={item.id} value={`item:${item.id}`}>{item.name}</SelectItem>
+                      ))}
+                    </SelectGroup>
+                  )}
+                  {finishes.length > 0 && (
+                    <SelectGroup>
+                      <SelectLabel>Finishes</SelectLabel>
+                      {finishes.map((finish) => (
+                        <SelectItem key={finish.id} value={`finish:${finish.id}`}>{finish.name}</SelectItem>
+                      ))}
+                    </SelectGroup>
+                  )}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="provider"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Provider</FormLabel>
+                <FormControl>
+                  <Input placeholder="Manufacturer or installer" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="coverage_type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Coverage</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {COVERAGE_OPTIONS.map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="start_date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Starts</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormDescription>Blank uses the installation date.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {coverage !== "lifetime" && (
+            <FormField
+              control={form.control}
+              name="duration_months"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Length (months)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} max={1200} placeholder="e.g. 120" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="expires_on"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Expires</FormLabel>
+              <FormControl>
+                <Input type="date" {...field} />
+              </FormControl>
+              <FormDescription>
+                {coverage === "lifetime"
+                  ? "Leave blank if the warranty doesn't expire."
+                  : "Leave blank to work it out from the start date and length."}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="registration_number"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Registration number</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="claim_contact"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Claims contact</FormLabel>
+                <FormControl>
+                  <Input placeholder="Phone, email or website" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="document_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Warranty document</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NO_DOCUMENT}>None</SelectItem>
+                  {documents.map((document) => (
+                    <SelectItem key={document.id} value={document.id}>{document.filename}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Conditions, exclusions, what voids it" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-4 pt-2">
+          <Button type="submit" disabled={isPending}>
+            {isPending ? "Saving..." : isEditing ? "Save Changes" : "Add Warranty"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
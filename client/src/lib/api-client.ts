@@ -1,36 +1,87 @@
-import { authFallback } from './auth-fallback';
 import { supabase } from './supabase';
 
+// Edit token from unlocking a PIN-protected project, kept for this tab only
+const EDIT_TOKEN_KEY = 'homespec_edit_token';
+
+interface StoredEditToken {
+  projectId: string;
+  token: string;
+  expiresAt: string;
+}
+
+export function setEditToken(projectId: string, token: string, expiresAt: string) {
+  const value: StoredEditToken = { projectId, token, expiresAt };
+  sessionStorage.setItem(EDIT_TOKEN_KEY, JSON.stringify(value));
+}
+
+export function getEditToken(projectId?: string): string | null {
+  try {
+    const stored = sessionStorage.getItem(EDIT_TOKEN_KEY);
+    if (!stored) return null;
+
+    const value = JSON.parse(stored) as StoredEditToken;
+    if (new Date(value.expiresAt).getTime() < Date.now()) {
+      sessionStorage.removeItem(EDIT_TOKEN_KEY);
+      return null;
+    }
+    if (projectId && value.projectId !== projectId) return null;
+
+    return value.token;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Error thrown for a failed API request, carrying the status and any JSON body
+ * the server sent back (e.g. the current record on a 409 conflict)
+ */
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public data: any = null) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// True when the server turned down a write that the project's edit PIN would allow
+export function isPinRequired(error: unknown): boolean {
+  return error instanceof ApiError && (error.status === 401 || error.status === 403) && !!error.data?.pin_required;
+}
+
+async function toApiError(response: Response): Promise<ApiError> {
+  let data: any = null;
+  try {
+    data = await response.json();
+  } catch {
+    // Not every error response has a JSON body
+  }
+  return new ApiError(`API request failed: ${response.status} ${response.statusText}`, response.status, data);
+}
+
 /**
- * Custom fetch wrapper that automatically adds auth headers
- * including the X-User-ID header required by the server
+ * Custom fetch wrapper that automatically adds the Authorization header
+ * carrying the Supabase access token, which the server verifies
  */
 export async function apiFetch(
   url: string,
   options: RequestInit = {}
 ): Promise<Response> {
-  // Get current session from supabase first, with fallback to local storage
   const { data: { session } } = await supabase.auth.getSession();
-  const userId = session?.user?.id;
-  
-  // Use fallback if no active session
-  let authState = null;
-  if (!userId) {
-    authState = await authFallback.getAuthState();
-  }
+  const accessToken = session?.access_token;
   
   // Prepare headers
   const headers = new Headers(options.headers);
   
-  // Add user ID header - first try supabase session, then fallback
-  if (userId) {
-    headers.set('X-User-ID', userId);
-    console.log('Using Supabase session user ID:', userId);
-  } else if (authState?.isAuthenticated && authState?.user?.id) {
-    headers.set('X-User-ID', authState.user.id);
-    console.log('Using fallback auth user ID:', authState.user.id);
+  if (accessToken) {
+    headers.set('Authorization', `Bearer ${accessToken}`);
   } else {
-    console.warn('No user ID available for API request');
+    console.warn('No active session available for API request');
+  }
+  
+  // The server only honours the edit token for the project it was issued for
+  const editToken = getEditToken();
+  if (editToken) {
+    headers.set('X-Edit-Token', editToken);
   }
   
   // Create new options with updated headers
@@ -43,13 +94,14 @@ export async function apiFetch(
   try {
     console.log(`API Request: ${url}`, { 
       method: options.method || 'GET',
-      hasUserId: headers.has('X-User-ID')
+      hasToken: headers.has('Authorization')
     });
     const response = await fetch(url, newOptions);
     
     if (!response.ok) {
       console.error(`API Error: ${response.status} ${response.statusText}`, { url });
-      const errorText = await response.text();
+      // Read a copy so callers can still parse the error body
+      const errorText = await response.clone().text();
       console.error('API Error Details:', errorText);
     }
     
@@ -70,7 +122,7 @@ export async function apiGet<T = any>(url: string, options: RequestInit = {}): P
   });
   
   if (!response.ok) {
-    throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+    throw await toApiError(response);
   }
   
   return response.json();
@@ -95,7 +147,7 @@ export async function apiPost<T = any>(
   });
   
   if (!response.ok) {
-    throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+    throw await toApiError(response);
   }
   
   return response.json();
@@ -120,7 +172,32 @@ export async function apiPut<T = any>(
   });
   
   if (!response.ok) {
-    throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+    throw await toApiError(response);
+  }
+  
+  return response.json();
+}
+
+/**
+ * Helper method for PATCH requests
+ */
+export async function apiPatch<T = any>(
+  url: string, 
+  data: any,
+  options: RequestInit = {}
+): Promise<T> {
+  const response = await apiFetch(url, {
+    ...options,
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers
+    },
+    body: JSON.stringify(data)
+  });
+  
+  if (!response.ok) {
+    throw await toApiError(response);
   }
   
   return response.json();
@@ -136,8 +213,123 @@ export async function apiDelete<T = any>(url: string, options: RequestInit = {})
   });
   
   if (!response.ok) {
-    throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+    throw await toApiError(response);
+  }
+  
+  // 204 No Content has no body to parse
+  if (response.status === 204) {
+    return undefined as T;
+  }
+  
+  return response.json();
+}
+
+/**
+ * Upload a file as the raw request body; the server stores it and returns
+ * its record
+ */
+export async function apiUpload<T = any>(
+  url: string,
+  file: File,
+  options: RequestInit = {}
+): Promise<T> {
+  const response = await apiFetch(url, {
+    ...options,
+    method: 'POST',
+    headers: {
+      'Content-Type': file.type || 'application/octet-stream',
+      'X-File-Name': encodeURIComponent(file.name),
+      ...options.headers
+    },
+    body: file
+  });
+  
+  if (!response.ok) {
+    throw await toApiError(response);
   }
   
   return response.json();
 }
+
+/**
+ * Download a file the server generates (e.g. an export) and save it under
+ * the name the server suggests
+ */
+export async function apiDownload(url: string, fallbackName: string, options: RequestInit = {}): Promise<void> {
+  const response = await apiFetch(url, {
+    ...options,
+    method: 'GET'
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const fileName = disposition.match(/filename="?([^";]+)"?/)?.[1] || fallbackName;
+
+  const objectUrl = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(objectUrl);
+}
+
+/**
+ * POST a request and read the Server-Sent Events it streams back,
+ * calling onEvent for each event as it arrives
+ */
+export async function apiStream(
+  url: string,
+  data: any,
+  onEvent: (event: string, data: any) => void,
+  options: RequestInit = {}
+): Promise<void> {
+  const response = await apiFetch(url, {
+    ...options,
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      ...options.headers
+    },
+    body: JSON.stringify(data)
+  });
+  
+  if (!response.ok || !response.body) {
+    throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+  }
+  
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    
+    buffer += decoder.decode(value, { stream: true });
+    
+    // Events are separated by a blank line
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+    
+    for (const rawEvent of events) {
+      let eventName = 'message';
+      let eventData = '';
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) {
+          eventName = line.slice('event:'.length).trim();
+        } else if (line.startsWith('data:')) {
+          eventData += line.slice('data:'.length).trim();
+        }
+      }
+      if (eventData) {
+        onEvent(eventName, JSON.parse(eventData));
+      }
+    }
+  }
+}
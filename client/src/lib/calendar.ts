@@ -0,0 +1,26 @@
+import { apiGet, apiPost, apiDelete } from './api-client';
+import type { CalendarFeed } from '@shared/schema';
+
+export type CalendarFeedLink = CalendarFeed & { feed_url: string };
+
+// Full link to a feed, for calendar apps that take a URL
+export function calendarFeedUrl(feed: CalendarFeedLink): string {
+  return `${window.location.origin}${feed.feed_url}`;
+}
+
+// webcal:// links open the subscribe dialog of the user's calendar app
+export function calendarSubscribeUrl(feed: CalendarFeedLink): string {
+  return calendarFeedUrl(feed).replace(/^https?:/, 'webcal:');
+}
+
+export function fetchCalendarFeed(projectId: string): Promise<{ feed: CalendarFeedLink | null }> {
+  return apiGet(`/api/projects/${projectId}/calendar-feed`);
+}
+
+export function createCalendarFeed(projectId: string): Promise<CalendarFeedLink> {
+  return apiPost<CalendarFeedLink>(`/api/projects/${projectId}/calendar-feed`, {});
+}
+
+export function revokeCalendarFeed(projectId: string): Promise<void> {
+  return apiDelete(`/api/projects/${projectId}/calendar-feed`);
+}
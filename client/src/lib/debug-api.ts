@@ -47,15 +47,14 @@ export async function debugAuth() {
 export async function testApiEndpoints() {
   console.group('API Endpoint Tests');
   
-  // Get userId for headers
+  // Get access token for headers
   const { data: { session } } = await supabase.auth.getSession();
-  const authState = await authFallback.getAuthState();
-  const userId = session?.user?.id || authState.user?.id;
+  const accessToken = session?.access_token;
   
-  if (!userId) {
-    console.error('No user ID available for API tests');
+  if (!accessToken) {
+    console.error('No access token available for API tests');
     console.groupEnd();
-    return { success: false, error: 'No user ID available' };
+    return { success: false, error: 'No access token available' };
   }
   
   // Define test endpoints
@@ -71,7 +70,7 @@ export async function testApiEndpoints() {
       console.log(`Testing endpoint: ${endpoint}`);
       const response = await fetch(endpoint, {
         headers: {
-          'X-User-ID': userId,
+          'Authorization': `Bearer ${accessToken}`,
         },
       });
       
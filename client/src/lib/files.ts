@@ -0,0 +1,58 @@
+import { apiGet, apiPatch, apiDelete, ApiError } from './api-client';
+import type { Image, Document, DocumentKind } from '@shared/schema';
+
+// Images and documents are served from signed links that expire after an
+// hour; queries holding them refetch before then so open pages keep working
+export const FILE_LINK_REFRESH_MS = 50 * 60 * 1000;
+
+// url is the original upload; thumbnail_url and medium_url are resized copies
+export type ItemImage = Image & { url: string; thumbnail_url: string; medium_url: string };
+
+export type StoredDocument = Document & { url: string };
+
+export const DOCUMENT_KIND_LABELS: Record<DocumentKind, string> = {
+  manual: 'Manual',
+  warranty: 'Warranty',
+  receipt: 'Receipt',
+  permit: 'Permit',
+  invoice: 'Invoice',
+  drawing: 'Drawing',
+  other: 'Other',
+};
+
+export function fetchItemImages(itemId: string): Promise<ItemImage[]> {
+  return apiGet<ItemImage[]>(`/api/items/${itemId}/images`);
+}
+
+export function fetchProjectImages(projectId: string): Promise<ItemImage[]> {
+  return apiGet<ItemImage[]>(`/api/projects/${projectId}/images`);
+}
+
+export function fetchItemDocuments(itemId: string): Promise<StoredDocument[]> {
+  return apiGet<StoredDocument[]>(`/api/items/${itemId}/documents`);
+}
+
+export function fetchProjectDocuments(projectId: string): Promise<StoredDocument[]> {
+  return apiGet<StoredDocument[]>(`/api/projects/${projectId}/documents`);
+}
+
+export function updateDocument(documentId: string, updates: { filename?: string; kind?: DocumentKind }): Promise<StoredDocument> {
+  return apiPatch<StoredDocument>(`/api/documents/${documentId}`, updates);
+}
+
+export function deleteDocument(documentId: string): Promise<void> {
+  return apiDelete(`/api/documents/${documentId}`);
+}
+
+/**
+ * Message to show when uploading a file fails
+ */
+export function describeUploadError(error: unknown, fileName: string): string {
+  if (error instanceof ApiError) {
+    if (error.status === 413) {
+      return `File too large: ${fileName} exceeds the upload size limit.`;
+    }
+    return `Upload failed: ${error.data?.message || error.message}`;
+  }
+  return `Upload failed: ${error instanceof Error ? error.message : String(error)}`;
+}
@@ -1,3 +1,5 @@
+import { apiDownload } from './api-client';
+
 // Basic formatting utilities for displaying data
 
 /**
@@ -58,11 +60,30 @@ export const truncateText = (text: string | null | undefined, maxLength: number
   return text.slice(0, maxLength) + '...';
 };
 
+// Options for the server-side item export; list filters match any of their values
+export interface ExportOptions {
+  format?: 'xlsx' | 'csv' | 'json';
+  // Item columns, all of them by default
+  columns?: string[];
+  room_id?: string[];
+  category?: string[];
+  status?: string[];
+  // Installation date range, as YYYY-MM-DD
+  installed_from?: string;
+  installed_to?: string;
+  sheet_per_room?: boolean;
+  include_finishes?: boolean;
+  include_images?: boolean;
+}
+
 /**
- * Export a data array to Excel file
+ * Export a project's items to an Excel (or CSV/JSON) file and download it
  */
-export const exportToExcel = (data: any[], filename: string = 'export'): void => {
-  // This is a placeholder - in a real implementation, you'd use a library like xlsx
-  console.log('Exporting data to Excel:', data, filename);
-  alert('Excel export functionality will be implemented soon.');
+export const exportToExcel = async (projectId: string, options: ExportOptions = {}, filename: string = 'export'): Promise<void> => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(options)) {
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) continue;
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+  await apiDownload(`/api/projects/${projectId}/items/export?${params}`, `${filename}.${options.format || 'xlsx'}`);
 };
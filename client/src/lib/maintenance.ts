@@ -0,0 +1,117 @@
+import { apiGet, apiPost, apiPut, apiDelete, apiUpload } from './api-client';
+import { formatDate } from './format';
+import type { MaintenanceCompletion, MaintenancePhoto, MaintenanceRecurrence, MaintenanceTask, Season } from '@shared/schema';
+
+export type MaintenanceStatus = 'overdue' | 'upcoming' | 'scheduled' | 'completed';
+
+export interface MaintenanceSubject {
+  type: 'item' | 'finish';
+  id: string;
+  name: string;
+}
+
+// A task with its schedule worked out by the server
+export interface ScheduledMaintenanceTask extends MaintenanceTask {
+  // null once a one-off task is done
+  next_due_date: string | null;
+  status: MaintenanceStatus;
+  last_completed_on: string | null;
+  subject: MaintenanceSubject | null;
+}
+
+// What the public project page gets of a task
+export type PublicMaintenanceTask = Pick<ScheduledMaintenanceTask,
+  'id' | 'title' | 'description' | 'recurrence' | 'interval_months' | 'seasons' |
+  'next_due_date' | 'status' | 'last_completed_on' | 'subject'>;
+
+export type CompletionPhoto = MaintenancePhoto & { url: string; thumbnail_url: string };
+export type Completion = Omit<MaintenanceCompletion, 'photos'> & { photos: CompletionPhoto[] };
+
+export interface MaintenanceTaskInput {
+  title: string;
+  description?: string | null;
+  recurrence: MaintenanceRecurrence;
+  interval_months?: number | null;
+  seasons?: Season[] | null;
+  first_due_date?: string | null;
+  item_id?: string | null;
+  finish_id?: string | null;
+  is_public: boolean;
+}
+
+export const SEASON_LABELS: Record<Season, string> = {
+  spring: 'Spring',
+  summer: 'Summer',
+  autumn: 'Autumn',
+  winter: 'Winter',
+};
+
+export const STATUS_LABELS: Record<MaintenanceStatus, string> = {
+  overdue: 'Overdue',
+  upcoming: 'Due soon',
+  scheduled: 'Scheduled',
+  completed: 'Done',
+};
+
+/**
+ * How often a task repeats, e.g. "Every 6 months" or "Spring and autumn"
+ */
+export function describeRecurrence(task: Pick<MaintenanceTask, 'recurrence' | 'interval_months' | 'seasons'>): string {
+  if (task.recurrence === 'interval') {
+    const months = task.interval_months ?? 12;
+    if (months % 12 === 0) {
+      return months === 12 ? 'Every year' : `Every ${months / 12} years`;
+    }
+    return months === 1 ? 'Every month' : `Every ${months} months`;
+  }
+  if (task.recurrence === 'seasonal') {
+    const seasons = (task.seasons ?? []).map((season) => SEASON_LABELS[season]);
+    if (seasons.length === 4) return 'Every season';
+    const joined = seasons.length > 1
+      ? `${seasons.slice(0, -1).join(', ')} and ${seasons[seasons.length - 1].toLowerCase()}`
+      : seasons[0];
+    return `Each ${joined.toLowerCase()}`;
+  }
+  return 'Once';
+}
+
+// Due dates are calendar days; parsed as UTC they'd show a day early west of Greenwich
+export function formatDueDate(date: string | null): string {
+  return date ? formatDate(`${date}T00:00:00`) : 'N/A';
+}
+
+export function fetchMaintenanceTasks(projectId: string): Promise<ScheduledMaintenanceTask[]> {
+  return apiGet<ScheduledMaintenanceTask[]>(`/api/projects/${projectId}/maintenance`);
+}
+
+export function fetchPublicMaintenanceTasks(accessCode: string): Promise<PublicMaintenanceTask[]> {
+  return apiGet<PublicMaintenanceTask[]>(`/api/public/projects/${accessCode}/maintenance`);
+}
+
+export function createMaintenanceTask(projectId: string, task: MaintenanceTaskInput): Promise<ScheduledMaintenanceTask> {
+  return apiPost<ScheduledMaintenanceTask>(`/api/projects/${projectId}/maintenance`, task);
+}
+
+export function updateMaintenanceTask(taskId: string, task: MaintenanceTaskInput): Promise<ScheduledMaintenanceTask> {
+  return apiPut<ScheduledMaintenanceTask>(`/api/maintenance/${taskId}`, task);
+}
+
+export function deleteMaintenanceTask(taskId: string): Promise<void> {
+  return apiDelete(`/api/maintenance/${taskId}`);
+}
+
+export function fetchCompletions(taskId: string): Promise<Completion[]> {
+  return apiGet<Completion[]>(`/api/maintenance/${taskId}/completions`);
+}
+
+export function logCompletion(taskId: string, completion: { completed_on: string; notes?: string | null }): Promise<{ completion: Completion; task: ScheduledMaintenanceTask }> {
+  return apiPost(`/api/maintenance/${taskId}/completions`, completion);
+}
+
+export function uploadCompletionPhoto(taskId: string, completionId: string, file: File): Promise<Completion> {
+  return apiUpload<Completion>(`/api/maintenance/${taskId}/completions/${completionId}/photos`, file);
+}
+
+export function deleteCompletion(taskId: string, completionId: string): Promise<ScheduledMaintenanceTask> {
+  return apiDelete<ScheduledMaintenanceTask>(`/api/maintenance/${taskId}/completions/${completionId}`);
+}
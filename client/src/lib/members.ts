@@ -0,0 +1,128 @@
+import { apiGet, apiPost, apiPatch, apiDelete } from './api-client';
+import type { Project, ProjectMember, ProjectInvitation, ProjectRole, ProjectTransfer, TransferKeepRole } from '@shared/schema';
+
+// is_primary_owner marks the member the project belongs to (its creator until
+// it is handed over), who is always an owner
+export type Member = ProjectMember & { is_primary_owner: boolean };
+
+// invite_url is relative to the app's origin
+export type Invitation = ProjectInvitation & { invite_url: string };
+
+export interface ProjectMembers {
+  // The current user's role
+  role: ProjectRole;
+  members: Member[];
+  // Only sent to owners
+  invitations: Invitation[];
+}
+
+export interface InvitationPreview {
+  project: Pick<Project, 'id' | 'name' | 'address'>;
+  role: ProjectRole;
+  email: string | null;
+  // The user's role if they're already a member
+  current_role: ProjectRole | null;
+}
+
+// transfer_url is relative to the app's origin
+export type Transfer = ProjectTransfer & { transfer_url: string };
+
+export interface ProjectTransferState {
+  // Only the primary owner can hand the project over
+  can_transfer: boolean;
+  transfer: Transfer | null;
+}
+
+export interface TransferPreview {
+  project: Pick<Project, 'id' | 'name' | 'address' | 'builder_name'>;
+  email: string | null;
+  previous_owner_role: TransferKeepRole | null;
+  // Set when the link is opened by the person handing the project over
+  is_current_owner: boolean;
+}
+
+export const ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  contributor: 'Contributor',
+  viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<ProjectRole, string> = {
+  owner: 'Can change anything, including settings and who has access',
+  editor: 'Can add, change and delete rooms, items and files',
+  contributor: 'Can add and change items and files, but not delete them',
+  viewer: 'Can view the project',
+};
+
+export function inviteUrl(invitation: Invitation): string {
+  return `${window.location.origin}${invitation.invite_url}`;
+}
+
+export function fetchProjectMembers(projectId: string): Promise<ProjectMembers> {
+  return apiGet<ProjectMembers>(`/api/projects/${projectId}/members`);
+}
+
+// Without an email this creates an invite link anyone can use
+export function createInvitation(projectId: string, invitation: { email?: string; role: ProjectRole }): Promise<Invitation> {
+  return apiPost<Invitation>(`/api/projects/${projectId}/invitations`, invitation);
+}
+
+export function revokeInvitation(projectId: string, invitationId: string): Promise<void> {
+  return apiDelete(`/api/projects/${projectId}/invitations/${invitationId}`);
+}
+
+export function updateMemberRole(projectId: string, memberId: string, role: ProjectRole): Promise<ProjectMember> {
+  return apiPatch<ProjectMember>(`/api/projects/${projectId}/members/${memberId}`, { role });
+}
+
+export function removeMember(projectId: string, memberId: string): Promise<void> {
+  return apiDelete(`/api/projects/${projectId}/members/${memberId}`);
+}
+
+export function fetchInvitation(token: string): Promise<InvitationPreview> {
+  return apiGet<InvitationPreview>(`/api/invitations/${token}`);
+}
+
+export function acceptInvitation(token: string): Promise<{ project: Project; role: ProjectRole }> {
+  return apiPost(`/api/invitations/${token}/accept`, {});
+}
+
+export function fetchProjectTransfer(projectId: string): Promise<ProjectTransferState> {
+  return apiGet<ProjectTransferState>(`/api/projects/${projectId}/transfer`);
+}
+
+// previous_owner_role is what the current owner keeps; null means no access
+export function createTransfer(projectId: string, transfer: { email?: string; previous_owner_role: TransferKeepRole | null }): Promise<Transfer> {
+  return apiPost<Transfer>(`/api/projects/${projectId}/transfer`, transfer);
+}
+
+export function cancelTransfer(projectId: string): Promise<void> {
+  return apiDelete(`/api/projects/${projectId}/transfer`);
+}
+
+export function transferUrl(transfer: Transfer): string {
+  return `${window.location.origin}${transfer.transfer_url}`;
+}
+
+export function fetchTransfer(token: string): Promise<TransferPreview> {
+  return apiGet<TransferPreview>(`/api/transfers/${token}`);
+}
+
+export function acceptTransfer(token: string): Promise<{ project: Project }> {
+  return apiPost(`/api/transfers/${token}/accept`, {});
+}
+
+// Invite and handover links can be opened before signing in; the link's path
+// is kept until the user is back from the login page (possibly in another tab)
+const PENDING_LINK_KEY = 'homespec.pendingLink';
+
+export function rememberPendingLink(path: string): void {
+  localStorage.setItem(PENDING_LINK_KEY, path);
+}
+
+export function takePendingLink(): string | null {
+  const path = localStorage.getItem(PENDING_LINK_KEY);
+  localStorage.removeItem(PENDING_LINK_KEY);
+  return path;
+}
@@ -0,0 +1,48 @@
+import { apiGet, apiPut, apiPost } from './api-client';
+import type { DigestFrequency } from '@shared/schema';
+
+export interface NotificationSettings {
+  email: string | null;
+  digest_frequency: DigestFrequency;
+  include_maintenance: boolean;
+  include_warranties: boolean;
+  include_item_status: boolean;
+  include_activity: boolean;
+}
+
+export interface NotificationPreferencesResponse extends NotificationSettings {
+  // Whether the owner of email followed the link mailed to it; digests only go there once they have
+  email_confirmed: boolean;
+  // Where digests go when email is empty or not confirmed yet
+  default_email: string | null;
+  last_digest_at: string | null;
+}
+
+export const DIGEST_FREQUENCY_LABELS: Record<DigestFrequency, string> = {
+  off: 'Never',
+  daily: 'Daily',
+  weekly: 'Weekly'
+};
+
+export const DIGEST_SECTIONS: { key: keyof Omit<NotificationSettings, 'email' | 'digest_frequency'>; label: string; description: string }[] = [
+  { key: 'include_maintenance', label: 'Maintenance', description: 'Tasks that are overdue or coming up soon' },
+  { key: 'include_warranties', label: 'Warranties', description: 'Warranties expiring in the next 90 days' },
+  { key: 'include_item_status', label: 'Item status', description: 'Items whose status changed, e.g. ordered to installed' },
+  { key: 'include_activity', label: 'Collaborator activity', description: 'Edits, uploads and new members from other people on your projects' }
+];
+
+export function fetchNotificationPreferences(): Promise<NotificationPreferencesResponse> {
+  return apiGet('/api/notifications/preferences');
+}
+
+export function saveNotificationPreferences(settings: NotificationSettings): Promise<NotificationPreferencesResponse> {
+  return apiPut<NotificationPreferencesResponse>('/api/notifications/preferences', settings);
+}
+
+export function resendEmailConfirmation(): Promise<{ email: string }> {
+  return apiPost<{ email: string }>('/api/notifications/email/resend', {});
+}
+
+export function sendTestDigest(): Promise<{ email: string }> {
+  return apiPost<{ email: string }>('/api/notifications/digest/test', {});
+}
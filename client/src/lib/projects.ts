@@ -0,0 +1,53 @@
+import { apiGet, apiPost, apiPut, apiDelete } from './api-client';
+import type { Project, Room, Item, InsertRoom, InsertItem } from '@shared/schema';
+
+// A project as the API returns it, without the edit PIN
+export type PublicProject = Omit<Project, 'edit_pin'> & { has_edit_pin: boolean };
+
+export type RoomInput = Omit<InsertRoom, 'project_id'>;
+
+// The item forms send cost as a number; the server stores it as numeric text
+export type ItemInput = Omit<InsertItem, 'room_id' | 'cost'> & { cost?: string | number | null };
+
+// An item on the project page, with the room it is in
+export type ProjectItem = Item & { rooms: { name: string; project_id: string } };
+
+export type RoomWithProject = Room & { projects: { id: string; name: string } };
+
+export function fetchProject(projectId: string): Promise<PublicProject> {
+  return apiGet(`/api/public/projects/${projectId}`);
+}
+
+export function fetchProjectRooms(projectId: string): Promise<Room[]> {
+  return apiGet(`/api/public/projects/${projectId}/rooms`);
+}
+
+export function fetchProjectItems(projectId: string): Promise<ProjectItem[]> {
+  return apiGet(`/api/public/projects/${projectId}/items`);
+}
+
+// The room page is for members only, so these need the caller to be one
+export function fetchRoom(roomId: string): Promise<RoomWithProject> {
+  return apiGet(`/api/rooms/${roomId}`);
+}
+
+export function fetchRoomItems(roomId: string): Promise<Item[]> {
+  return apiGet(`/api/rooms/${roomId}/items`);
+}
+
+export function addRoom(projectId: string, room: RoomInput): Promise<Room> {
+  return apiPost<Room>(`/api/projects/${projectId}/rooms`, room);
+}
+
+export function editRoom(roomId: string, updates: Partial<RoomInput>): Promise<Room> {
+  return apiPut<Room>(`/api/rooms/${roomId}`, updates);
+}
+
+// Deletes the room's items too; its finishes stay in the project
+export function removeRoom(roomId: string): Promise<void> {
+  return apiDelete(`/api/rooms/${roomId}`);
+}
+
+export function addItem(roomId: string, item: ItemInput): Promise<Item> {
+  return apiPost<Item>(`/api/rooms/${roomId}/items`, item);
+}
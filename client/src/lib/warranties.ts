@@ -0,0 +1,109 @@
+import { apiGet, apiPost, apiPut, apiDelete } from './api-client';
+import type { Warranty, WarrantyCoverage } from '@shared/schema';
+
+export type WarrantyStatus = 'expired' | 'expiring' | 'active' | 'no_expiry';
+
+export interface WarrantySubject {
+  type: 'item' | 'finish';
+  id: string;
+  name: string;
+  room_id: string | null;
+}
+
+// A warranty with its status worked out by the server
+export interface TrackedWarranty extends Warranty {
+  status: WarrantyStatus;
+  // Negative once expired; null without an expiry date
+  days_left: number | null;
+  subject: WarrantySubject | null;
+}
+
+// A warranty record suggested from free text, for the user to check
+export interface WarrantySuggestion {
+  provider: string | null;
+  coverage_type: WarrantyCoverage;
+  start_date: string | null;
+  duration_months: number | null;
+  expires_on: string | null;
+  registration_number: string | null;
+  claim_contact: string | null;
+  source_text: string;
+}
+
+// An item or finish whose warranty text has no warranty record yet
+export interface WarrantyTextSuggestions {
+  subject: WarrantySubject;
+  warranty_info: string;
+  suggestions: WarrantySuggestion[];
+}
+
+export interface WarrantyInput {
+  provider?: string | null;
+  coverage_type: WarrantyCoverage;
+  start_date?: string | null;
+  duration_months?: number | null;
+  // Worked out from the start date and duration when left out
+  expires_on?: string | null;
+  registration_number?: string | null;
+  claim_contact?: string | null;
+  document_id?: string | null;
+  item_id?: string | null;
+  finish_id?: string | null;
+  notes?: string | null;
+}
+
+export const COVERAGE_LABELS: Record<WarrantyCoverage, string> = {
+  full: 'Full',
+  limited: 'Limited',
+  lifetime: 'Lifetime',
+  parts: 'Parts',
+  labor: 'Labor',
+  parts_and_labor: 'Parts & labor',
+  extended: 'Extended',
+  other: 'Other',
+};
+
+export const WARRANTY_STATUS_LABELS: Record<WarrantyStatus, string> = {
+  expired: 'Expired',
+  expiring: 'Expiring soon',
+  active: 'Active',
+  no_expiry: 'No expiry',
+};
+
+/**
+ * How long a warranty runs for, e.g. "10 years" or "18 months"
+ */
+export function describeDuration(months: number | null): string | null {
+  if (!months) return null;
+  if (months % 12 === 0) {
+    return months === 12 ? '1 year' : `${months / 12} years`;
+  }
+  return months === 1 ? '1 month' : `${months} months`;
+}
+
+export function fetchWarranties(projectId: string): Promise<TrackedWarranty[]> {
+  return apiGet<TrackedWarranty[]>(`/api/projects/${projectId}/warranties`);
+}
+
+export function fetchWarrantySuggestions(projectId: string): Promise<WarrantyTextSuggestions[]> {
+  return apiGet<WarrantyTextSuggestions[]>(`/api/projects/${projectId}/warranties/suggestions`);
+}
+
+export function parseWarrantyText(
+  projectId: string,
+  request: { text: string; item_id?: string | null; finish_id?: string | null }
+): Promise<WarrantySuggestion[]> {
+  return apiPost<WarrantySuggestion[]>(`/api/projects/${projectId}/warranties/parse`, request);
+}
+
+export function createWarranty(projectId: string, warranty: WarrantyInput): Promise<TrackedWarranty> {
+  return apiPost<TrackedWarranty>(`/api/projects/${projectId}/warranties`, warranty);
+}
+
+export function updateWarranty(warrantyId: string, warranty: WarrantyInput): Promise<TrackedWarranty> {
+  return apiPut<TrackedWarranty>(`/api/warranties/${warrantyId}`, warranty);
+}
+
+export function deleteWarranty(warrantyId: string): Promise<void> {
+  return apiDelete(`/api/warranties/${warrantyId}`);
+}
@@ -3,7 +3,7 @@ import { useLocation, Link } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { supabase } from "@/lib/supabase";
-import { Plus, Pencil, Trash2, Home, User, Settings, LogOut, Clock } from "lucide-react";
+import { Plus, Pencil, Trash2, Home, User, Settings, LogOut, Clock, ArchiveRestore } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -31,10 +31,16 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { apiGet, apiUpload } from "@/lib/api-client";
+import { ROLE_LABELS, takePendingLink } from "@/lib/members";
+import { describeUploadError } from "@/lib/files";
 import { Card, CardHeader, CardTitle, CardContent, CardFooter } from "@/components/ui/card";
 import { motion } from "framer-motion";
-import type { Project } from "@shared/schema";
+import type { Project, ProjectRole } from "@shared/schema";
+
+type DashboardProject = Project & { role: ProjectRole };
 
 interface ProjectFormData {
   name: string;
@@ -63,24 +69,24 @@ export default function Dashboard() {
     }
   });
 
-  const { data: projects, isLoading: isProjectsLoading } = useQuery<Project[]>({
+  // Projects the user created or was invited to, newest first
+  const { data: projects, isLoading: isProjectsLoading } = useQuery<DashboardProject[]>({
     queryKey: ["projects"],
     queryFn: async () => {
-      if (!session?.user?.id) return [];
-      const { data, error } = await supabase
-        .from("projects")
-        .select("*")
-        .eq('user_id', session.user.id)
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      return data || [];
+      const projects = await apiGet<DashboardProject[]>("/api/projects");
+      return projects.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
     },
     enabled: !!session?.user?.id
   });
 
   // Effect hooks - removed redundant auth check since PrivateRoute handles it
 
+  // Pick up an invite or handover link that was opened before signing in
+  useEffect(() => {
+    const path = takePendingLink();
+    if (path) navigate(path);
+  }, [navigate]);
+
   // Mutation hooks
   const createProject = useMutation({
     mutationFn: async (data: ProjectFormData) => {
@@ -99,7 +105,7 @@ export default function Dashboard() {
           completion_date: data.completion_date || null,
           access_code,
         }])
-        .select()
+        .select("id")
         .single();
 
       if (error) throw error;
@@ -134,7 +140,7 @@ export default function Dashboard() {
           completion_date: data.completion_date || null,
         })
         .eq('id', data.id)
-        .select()
+        .select("id")
         .single();
 
       if (error) throw error;
@@ -185,6 +191,32 @@ export default function Dashboard() {
     }
   });
 
+  // Recreate a project from a backup downloaded from project management
+  const importProject = useMutation({
+    mutationFn: async (file: File) => {
+      try {
+        return await apiUpload<Project>("/api/projects/import", file);
+      } catch (error) {
+        throw new Error(describeUploadError(error, file.name));
+      }
+    },
+    onSuccess: (newProject) => {
+      queryClient.invalidateQueries({ queryKey: ["projects"] });
+      toast({
+        title: "Success",
+        description: `Project "${newProject.name}" restored from backup`
+      });
+      navigate(`/project/${newProject.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
   // Event handlers
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>, isEdit: boolean = false) => {
     e.preventDefault();
@@ -325,26 +357,46 @@ export default function Dashboard() {
               Manage and track your home renovation projects
             </p>
           </div>
-          <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
-            <DialogTrigger asChild>
-              <Button
-                size="lg"
-                className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 text-white shadow-lg shadow-blue-500/20 transition-all duration-300"
-              >
-                <Plus className="mr-2 h-5 w-5" />
-                Add Project
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Create New Project</DialogTitle>
-                <DialogDescription>
-                  Add a new home project to document its finishes and materials.
-                </DialogDescription>
-              </DialogHeader>
-              <ProjectForm />
-            </DialogContent>
-          </Dialog>
+          <div className="flex items-center gap-3">
+            <input
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              id="project-backup-upload"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importProject.mutate(file);
+                e.target.value = "";
+              }}
+              disabled={importProject.isPending}
+            />
+            <Button variant="outline" size="lg" asChild disabled={importProject.isPending}>
+              <label htmlFor="project-backup-upload" className="cursor-pointer">
+                <ArchiveRestore className="mr-2 h-5 w-5" />
+                {importProject.isPending ? "Restoring..." : "Restore Backup"}
+              </label>
+            </Button>
+            <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button
+                  size="lg"
+                  className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 text-white shadow-lg shadow-blue-500/20 transition-all duration-300"
+                >
+                  <Plus className="mr-2 h-5 w-5" />
+                  Add Project
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Create New Project</DialogTitle>
+                  <DialogDescription>
+                    Add a new home project to document its finishes and materials.
+                  </DialogDescription>
+                </DialogHeader>
+                <ProjectForm />
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -360,6 +412,9 @@ export default function Dashboard() {
                 <CardHeader className="bg-gradient-to-r from-blue-50 to-indigo-50/30 pb-4">
                   <CardTitle className="text-xl flex items-center justify-between">
                     <span className="font-semibold text-slate-800">{project.name}</span>
+                    {project.role !== "owner" && (
+                      <Badge variant="secondary">Shared · {ROLE_LABELS[project.role]}</Badge>
+                    )}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="pt-5">
@@ -388,30 +443,32 @@ export default function Dashboard() {
                   >
                     <Link href={`/project/${project.id}`}>View Details</Link>
                   </Button>
-                  <div className="flex gap-2">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={(e) => {
-                        e.preventDefault();
-                        handleEdit(project);
-                      }}
-                      className="hover:bg-blue-50/80 text-blue-600 hover:text-blue-700 transition-colors duration-200"
-                    >
-                      <Pencil className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={(e) => {
-                        e.preventDefault();
-                        handleDelete(project);
-                      }}
-                      className="hover:bg-red-50/80 text-red-500 hover:text-red-600 transition-colors duration-200"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
+                  {project.role === "owner" && (
+                    <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={(e) => {
+                          e.preventDefault();
+                          handleEdit(project);
+                        }}
+                        className="hover:bg-blue-50/80 text-blue-600 hover:text-blue-700 transition-colors duration-200"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={(e) => {
+                          e.preventDefault();
+                          handleDelete(project);
+                        }}
+                        className="hover:bg-red-50/80 text-red-500 hover:text-red-600 transition-colors duration-200"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
                 </CardFooter>
               </Card>
             </motion.div>
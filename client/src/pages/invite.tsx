@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AlertCircle, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/lib/supabase";
+import { queryClient } from "@/lib/queryClient";
+import { ApiError } from "@/lib/api-client";
+import {
+  ROLE_LABELS,
+  ROLE_DESCRIPTIONS,
+  fetchInvitation,
+  acceptInvitation,
+  rememberPendingLink,
+} from "@/lib/members";
+
+interface InvitePageProps {
+  token: string;
+}
+
+export default function InvitePage({ token }: InvitePageProps) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [isSignedIn, setIsSignedIn] = useState<boolean | null>(null);
+
+  // Send people who aren't signed in to log in first, then bring them back here
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        rememberPendingLink(`/invite/${token}`);
+        navigate("/login");
+        return;
+      }
+      setIsSignedIn(true);
+    });
+  }, [token, navigate]);
+
+  const { data: invitation, error, isLoading } = useQuery({
+    queryKey: ["invitation", token],
+    queryFn: () => fetchInvitation(token),
+    enabled: !!isSignedIn,
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: () => acceptInvitation(token),
+    onSuccess: ({ project }) => {
+      queryClient.invalidateQueries({ queryKey: ["projects"] });
+      toast({
+        title: "Success",
+        description: `You've joined ${project.name}`,
+      });
+      navigate(`/project/${project.id}`);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.data?.message || "Failed to accept invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!isSignedIn || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30">
+        <p>Loading invitation...</p>
+      </div>
+    );
+  }
+
+  if (error || !invitation) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30">
+        <Card className="w-full max-w-md mx-4">
+          <CardContent className="pt-6">
+            <div className="flex mb-4 gap-2">
+              <AlertCircle className="h-8 w-8 text-red-500" />
+              <h1 className="text-2xl font-bold text-gray-900">Invitation Unavailable</h1>
+            </div>
+            <p className="mt-4 text-sm text-gray-600">
+              {(error instanceof ApiError && error.data?.message) || "This invitation could not be found."}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/30">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-6 w-6 text-blue-600" />
+            Join {invitation.project.name}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <p className="text-muted-foreground">{invitation.project.address}</p>
+          <p>
+            You've been invited as <span className="font-semibold">{ROLE_LABELS[invitation.role]}</span>.
+          </p>
+          <p className="text-sm text-muted-foreground">{ROLE_DESCRIPTIONS[invitation.role]}</p>
+          {invitation.current_role && (
+            <p className="text-sm text-muted-foreground">
+              You're already a member of this project as {ROLE_LABELS[invitation.current_role]}.
+            </p>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => navigate("/dashboard")}>
+            Not Now
+          </Button>
+          <Button onClick={() => acceptMutation.mutate()} disabled={acceptMutation.isPending}>
+            {acceptMutation.isPending ? "Joining..." : "Accept Invitation"}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { supabase } from "@/lib/supabase";
+import { apiGet, apiPatch, apiPost, ApiError } from "@/lib/api-client";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
@@ -36,7 +37,11 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { formatCurrency, formatDate } from "@/lib/format";
-import type { Item, ItemHistory, Image } from "@shared/schema";
+import type { Item, ItemHistory } from "@shared/schema";
+import VersionHistory, { buildVersionTimeline } from "@/components/history/version-history";
+import { ITEM_FIELDS } from "@/components/items/item-fields";
+import { fetchItemImages, FILE_LINK_REFRESH_MS, type ItemImage } from "@/lib/files";
+import MergeDialog from "@/components/items/merge-dialog";
 
 // Form schema for editing
 const itemFormSchema = z.object({
@@ -63,6 +68,9 @@ interface ItemViewPageProps {
 export default function ItemViewPage({ id }: ItemViewPageProps) {
   const [, navigate] = useLocation();
   const [isEditing, setIsEditing] = useState(false);
+  // The item as it was when editing started, so saves can detect changes made in the meantime
+  const [editBase, setEditBase] = useState<Item | null>(null);
+  const [conflict, setConflict] = useState<{ base: Item; mine: Record<string, unknown>; current: Item } | null>(null);
   const [showHistory, setShowHistory] = useState(false);
   const [showShareDialog, setShowShareDialog] = useState(false);
   const { toast } = useToast();
@@ -90,33 +98,17 @@ export default function ItemViewPage({ id }: ItemViewPageProps) {
   });
 
   // Fetch item images
-  const { data: images = [] } = useQuery<Image[]>({
+  const { data: images = [] } = useQuery<ItemImage[]>({
     queryKey: ["item-images", id],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("images")
-        .select("*")
-        .eq("item_id", id);
-
-      if (error) throw error;
-      return data || [];
-    },
+    queryFn: () => fetchItemImages(id),
+    refetchInterval: FILE_LINK_REFRESH_MS,
     enabled: !!id,
   });
 
   // Fetch item history
   const { data: itemHistory = [] } = useQuery<ItemHistory[]>({
     queryKey: ["item-history", id],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("item_history")
-        .select("*")
-        .eq("item_id", id)
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      return data || [];
-    },
+    queryFn: () => apiGet<ItemHistory[]>(`/api/items/${id}/history`),
     enabled: !!id,
   });
 
@@ -161,68 +153,28 @@ export default function ItemViewPage({ id }: ItemViewPageProps) {
 
   // Update item mutation
   const updateItem = useMutation({
-    mutationFn: async (values: ItemFormValues) => {
-      const timestamp = new Date().toISOString();
-
-      // Insert current state into history first
-      if (item) {
-        const { error: historyError } = await supabase
-          .from("item_history")
-          .insert([{
-            item_id: item.id,
-            room_id: item.room_id,
-            name: item.name,
-            brand: item.brand,
-            supplier: item.supplier,
-            specifications: item.specifications,
-            cost: item.cost,
-            warranty_info: item.warranty_info,
-            installation_date: item.installation_date,
-            maintenance_notes: item.maintenance_notes,
-            category: item.category,
-            status: item.status,
-            document_urls: item.document_urls,
-            link: item.link,
-            notes: item.notes,
-            created_at: timestamp,
-            updated_at: timestamp
-          }]);
-
-        if (historyError) throw historyError;
-      }
-
-      // Update the item
-      const { error: updateError } = await supabase
-        .from("items")
-        .update({
-          name: values.name,
-          brand: values.brand || null,
-          supplier: values.supplier || null,
-          specifications: values.specifications || null,
-          cost: values.cost || null,
-          warranty_info: values.warranty_info || null,
-          maintenance_notes: values.maintenance_notes || null,
-          installation_date: values.installation_date || null,
-          category: values.category,
-          status: values.status || null,
-          link: values.link || null,
-          notes: values.notes || null,
-          updated_at: timestamp
-        })
-        .eq('id', id);
-
-      if (updateError) throw updateError;
+    mutationFn: async ({ changes, base }: { changes: Record<string, unknown>; base: Item }) => {
+      // The server snapshots the current state into item_history and bumps the version,
+      // rejecting the save if the item has moved on from the version being edited
+      await apiPatch(`/api/items/${id}`, { ...changes, version: base.version });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["item", id] });
       queryClient.invalidateQueries({ queryKey: ["item-history", id] });
       setIsEditing(false);
+      setConflict(null);
       toast({
         title: "Success",
         description: "Item updated successfully"
       });
     },
-    onError: (error: Error) => {
+    onError: (error: Error, { changes, base }) => {
+      if (error instanceof ApiError && error.status === 409 && error.data?.current) {
+        setConflict({ base, mine: changes, current: error.data.current });
+        queryClient.invalidateQueries({ queryKey: ["item", id] });
+        queryClient.invalidateQueries({ queryKey: ["item-history", id] });
+        return;
+      }
       toast({
         title: "Error",
         description: error.message || "Failed to update item",
@@ -231,8 +183,48 @@ export default function ItemViewPage({ id }: ItemViewPageProps) {
     }
   });
 
+  // Restore an earlier version; the server records the restore as a new version
+  const restoreVersion = useMutation({
+    mutationFn: async (version: number) => {
+      await apiPost(`/api/items/${id}/restore`, { version });
+    },
+    onSuccess: (_, version) => {
+      queryClient.invalidateQueries({ queryKey: ["item", id] });
+      queryClient.invalidateQueries({ queryKey: ["item-history", id] });
+      toast({
+        title: "Success",
+        description: `Restored version ${version}`
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore version",
+        variant: "destructive"
+      });
+    }
+  });
+
   const handleSubmit = (values: ItemFormValues) => {
-    updateItem.mutate(values);
+    const base = editBase ?? item;
+    if (!base) return;
+    updateItem.mutate({
+      changes: {
+        name: values.name,
+        brand: values.brand || null,
+        supplier: values.supplier || null,
+        specifications: values.specifications || null,
+        cost: values.cost || null,
+        warranty_info: values.warranty_info || null,
+        maintenance_notes: values.maintenance_notes || null,
+        installation_date: values.installation_date || null,
+        category: values.category,
+        status: values.status || null,
+        link: values.link || null,
+        notes: values.notes || null
+      },
+      base
+    });
   };
 
   const handleShare = () => {
@@ -365,7 +357,10 @@ export default function ItemViewPage({ id }: ItemViewPageProps) {
               ) : (
                 <Button
                   size="sm"
-                  onClick={() => setIsEditing(true)}
+                  onClick={() => {
+                    setEditBase(item ?? null);
+                    setIsEditing(true);
+                  }}
                 >
                   <Edit className="h-4 w-4 mr-2" />
                   Edit Item
@@ -448,7 +443,7 @@ export default function ItemViewPage({ id }: ItemViewPageProps) {
                             <Card>
                               <CardContent className="flex aspect-square items-center justify-center p-2">
                                 <img
-                                  src={`${supabase.storage.from('item-images').getPublicUrl(image.storage_path).data.publicUrl}`}
+                                  src={image.medium_url}
                                   alt={image.filename}
                                   className="w-full h-full object-cover rounded-lg"
                                 />
@@ -802,48 +797,40 @@ export default function ItemViewPage({ id }: ItemViewPageProps) {
           <DialogHeader>
             <DialogTitle>Item History</DialogTitle>
           </DialogHeader>
-          <div className="space-y-4">
-            {itemHistory.length === 0 ? (
-              <p className="text-gray-500 text-center py-8">No history available</p>
-            ) : (
-              itemHistory.map((historyItem, index) => (
-                <Card key={historyItem.id}>
-                  <CardHeader className="pb-3">
-                    <div className="flex items-center justify-between">
-                      <CardTitle className="text-lg">
-                        Version {itemHistory.length - index}
-                      </CardTitle>
-                      <span className="text-sm text-gray-500">
-                        {formatDate(historyItem.created_at)}
-                      </span>
-                    </div>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="grid grid-cols-2 gap-4 text-sm">
-                      <div>
-                        <span className="font-medium">Name:</span> {historyItem.name}
-                      </div>
-                      {historyItem.brand && (
-                        <div>
-                          <span className="font-medium">Brand:</span> {historyItem.brand}
-                        </div>
-                      )}
-                      {historyItem.cost && (
-                        <div>
-                          <span className="font-medium">Cost:</span> {formatCurrency(historyItem.cost)}
-                        </div>
-                      )}
-                      <div>
-                        <span className="font-medium">Category:</span> {historyItem.category}
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))
-            )}
-          </div>
+          {item && (
+            <VersionHistory
+              versions={buildVersionTimeline(
+                { version: item.version, created_at: item.created_at, data: item },
+                itemHistory.map((snapshot) => ({
+                  version: snapshot.version,
+                  data: snapshot,
+                  replacedAt: new Date(snapshot.created_at).toISOString(),
+                  replacedBy: snapshot.changed_by,
+                  changeType: snapshot.change_type,
+                  restoredVersion: snapshot.restored_version,
+                }))
+              )}
+              fields={ITEM_FIELDS}
+              canRestore
+              isRestoring={restoreVersion.isPending}
+              onRestore={(version) => restoreVersion.mutate(version)}
+            />
+          )}
         </DialogContent>
       </Dialog>
+
+      {conflict && (
+        <MergeDialog
+          open
+          onOpenChange={(open) => !open && setConflict(null)}
+          fields={ITEM_FIELDS}
+          base={conflict.base}
+          mine={conflict.mine}
+          theirs={conflict.current}
+          isSaving={updateItem.isPending}
+          onResolve={(merged) => updateItem.mutate({ changes: merged, base: conflict.current })}
+        />
+      )}
     </div>
   );
 }
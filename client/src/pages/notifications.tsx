@@ -0,0 +1,230 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Bell, Save, Send } from "lucide-react";
+import { Link } from "wouter";
+import type { DigestFrequency } from "@shared/schema";
+import {
+  fetchNotificationPreferences,
+  saveNotificationPreferences,
+  resendEmailConfirmation,
+  sendTestDigest,
+  DIGEST_FREQUENCY_LABELS,
+  DIGEST_SECTIONS,
+  type NotificationSettings,
+} from "@/lib/notifications";
+
+const preferencesQueryKey = ["notification-preferences"];
+
+export default function NotificationsPage() {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+
+  const { data: preferences, isLoading } = useQuery({
+    queryKey: preferencesQueryKey,
+    queryFn: fetchNotificationPreferences,
+  });
+
+  useEffect(() => {
+    if (preferences) {
+      const { email_confirmed, default_email, last_digest_at, ...current } = preferences;
+      setSettings(current);
+    }
+  }, [preferences]);
+
+  // Back from the link in the confirmation email
+  useEffect(() => {
+    const confirmed = new URLSearchParams(window.location.search).get("email_confirmed");
+    if (confirmed === null) return;
+    window.history.replaceState(null, "", window.location.pathname);
+    toast(confirmed === "1"
+      ? { title: "Success", description: "Email confirmed" }
+      : { title: "Error", description: "That confirmation link has expired", variant: "destructive" });
+  }, [toast]);
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.data?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (updated: NotificationSettings) => saveNotificationPreferences(updated),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(preferencesQueryKey, saved);
+      toast({
+        title: "Success",
+        description: saved.email && !saved.email_confirmed
+          ? `Notification settings saved. Check ${saved.email} for a link to confirm it.`
+          : "Notification settings saved",
+      });
+    },
+    onError: showError("Failed to save notification settings"),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: sendTestDigest,
+    onSuccess: ({ email }) => {
+      toast({
+        title: "Success",
+        description: `Test digest sent to ${email}`,
+      });
+    },
+    onError: showError("Failed to send test digest"),
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: resendEmailConfirmation,
+    onSuccess: ({ email }) => {
+      toast({
+        title: "Success",
+        description: `Confirmation link sent to ${email}`,
+      });
+    },
+    onError: showError("Failed to send confirmation email"),
+  });
+
+  if (isLoading || !settings) {
+    return (
+      <div className="container mx-auto p-4 max-w-2xl">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-gray-200 rounded w-1/3"></div>
+          <div className="h-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const update = (changes: Partial<NotificationSettings>) => setSettings({ ...settings, ...changes });
+  const enabled = settings.digest_frequency !== "off";
+  const awaitingConfirmation = !!preferences?.email && !preferences.email_confirmed && settings.email === preferences.email;
+
+  return (
+    <div className="container mx-auto p-4 max-w-2xl space-y-6">
+      <div className="flex items-center gap-4">
+        <Link href="/dashboard">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </Link>
+        <div className="flex items-center gap-2">
+          <Bell className="h-6 w-6 text-primary" />
+          <h1 className="text-2xl font-bold">Email Notifications</h1>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Project digest</CardTitle>
+          <CardDescription>
+            A summary of what's coming up and what changed across all your projects.
+            Digests are only sent when there's something to report.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="digest-frequency">How often</Label>
+              <Select
+                value={settings.digest_frequency}
+                onValueChange={(value) => update({ digest_frequency: value as DigestFrequency })}
+              >
+                <SelectTrigger id="digest-frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DIGEST_FREQUENCY_LABELS) as DigestFrequency[]).map((frequency) => (
+                    <SelectItem key={frequency} value={frequency}>
+                      {DIGEST_FREQUENCY_LABELS[frequency]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="digest-email">Send to</Label>
+              <Input
+                id="digest-email"
+                type="email"
+                value={settings.email ?? ""}
+                placeholder={preferences?.default_email || "you@example.com"}
+                onChange={(e) => update({ email: e.target.value || null })}
+              />
+              {awaitingConfirmation && (
+                <p className="text-sm text-muted-foreground">
+                  Not confirmed yet; digests go to {preferences.default_email || "your account email"} until you follow the link we sent.{" "}
+                  <button
+                    type="button"
+                    className="underline"
+                    onClick={() => resendMutation.mutate()}
+                    disabled={resendMutation.isPending}
+                  >
+                    {resendMutation.isPending ? "Sending..." : "Resend link"}
+                  </button>
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <p className="text-sm font-medium">Include</p>
+            {DIGEST_SECTIONS.map((section) => (
+              <div key={section.key} className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor={section.key}>{section.label}</Label>
+                  <p className="text-sm text-muted-foreground">{section.description}</p>
+                </div>
+                <Switch
+                  id={section.key}
+                  checked={settings[section.key]}
+                  disabled={!enabled}
+                  onCheckedChange={(checked) => update({ [section.key]: checked })}
+                />
+              </div>
+            ))}
+          </div>
+
+          {preferences?.last_digest_at && (
+            <p className="text-sm text-muted-foreground">
+              Last digest sent {new Date(preferences.last_digest_at).toLocaleString()}
+            </p>
+          )}
+
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => testMutation.mutate()}
+              disabled={testMutation.isPending}
+            >
+              <Send className="h-4 w-4 mr-2" />
+              {testMutation.isPending ? "Sending..." : "Send test digest"}
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate(settings)}
+              disabled={saveMutation.isPending}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { supabase } from "@/lib/supabase";
+import { fetchProject } from "@/lib/projects";
 import { QRCodeSVG } from "qrcode.react";
 import QRCode from "qrcode";
 import {
@@ -12,6 +13,7 @@ import {
   User,
   AlertCircle,
   ArrowLeft,
+  Archive,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -25,10 +27,13 @@ import { useToast } from "@/hooks/use-toast";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Link } from "wouter";
 import type { Project, Room } from "@shared/schema";
-import * as XLSX from "xlsx";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import PrintView from "@/components/project/print-view";
+import ImportDialog from "@/components/items/import-dialog";
+import ExportDialog from "@/components/items/export-dialog";
+import { fetchProjectImages } from "@/lib/files";
+import { apiDownload } from "@/lib/api-client";
 import { NavBreadcrumb } from "@/components/layout/nav-breadcrumb";
 
 interface Item {
@@ -49,12 +54,20 @@ interface Item {
   rooms: Room;
 }
 
+// Distinct non-empty values, sorted, for filter options
+function uniqueValues(values: (string | undefined)[] = []): string[] {
+  return Array.from(new Set(values.filter((value): value is string => !!value))).sort();
+}
+
 interface ProjectManagementPageProps {
   id: string;
 }
 
 export default function ProjectManagementPage({ id }: ProjectManagementPageProps) {
   const [showPrintDialog, setShowPrintDialog] = useState(false);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [showExportDialog, setShowExportDialog] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string>('');
 
@@ -95,13 +108,7 @@ export default function ProjectManagementPage({ id }: ProjectManagementPageProps
     queryKey: ["project", id],
     queryFn: async () => {
       if (!id) throw new Error("No project ID provided");
-      const { data, error } = await supabase
-        .from("projects")
-        .select("*")
-        .eq("id", id)
-        .single();
-      if (error) throw error;
-      return data;
+      return fetchProject(id);
     },
   });
 
@@ -144,206 +151,38 @@ export default function ProjectManagementPage({ id }: ProjectManagementPageProps
     enabled: !!id,
   });
 
-  const handleFileUpload = async (
-    event: React.ChangeEvent<HTMLInputElement>,
-  ) => {
-    const file = event.target.files?.[0];
-    if (!file || !rooms) return;
-
-    try {
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        const data = e.target?.result;
-        const workbook = XLSX.read(data, { type: "binary" });
-        const sheetName = workbook.SheetNames[0];
-        const sheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json<{
-          area: string;
-          name: string;
-          category: string;
-          brand?: string;
-          supplier?: string;
-          specifications?: string;
-          cost?: number;
-          warranty_info?: string;
-          installation_date?: string | number;
-          maintenance_notes?: string;
-          status?: string;
-        }>(sheet);
-
-        const importedAreas = new Set(
-          jsonData.map((item) => item.area?.toLowerCase()).filter(Boolean),
-        );
-        const existingRoomNames = new Set(
-          rooms.map((room) => room.name.toLowerCase()),
-        );
-
-        // Create new rooms for areas that don't exist
-        const newAreas = Array.from(importedAreas).filter(
-          (area) => !existingRoomNames.has(area),
-        );
-
-        for (const areaName of newAreas) {
-          const { error } = await supabase.from("rooms").insert([
-            {
-              name: areaName.charAt(0).toUpperCase() + areaName.slice(1),
-              project_id: id,
-            },
-          ]);
-          if (error) {
-            console.error("Error creating room:", error);
-            throw error;
-          }
-        }
-
-        // Refresh rooms data if new areas were created
-        if (newAreas.length > 0) {
-          await queryClient.invalidateQueries({ queryKey: ["rooms", id] });
-        }
-
-        // Get updated rooms list
-        const { data: updatedRooms, error: roomsError } = await supabase
-          .from("rooms")
-          .select("*")
-          .eq("project_id", id);
-
-        if (roomsError) throw roomsError;
-
-        const roomNameToId = updatedRooms?.reduce((acc, room) => {
-          acc[room.name.toLowerCase()] = room.id;
-          return acc;
-        }, {} as Record<string, string>) || {};
-
-        // Get existing items to check for duplicates
-        const { data: existingItems, error: existingItemsError } = await supabase
-          .from("items")
-          .select("name, room_id")
-          .in("room_id", Object.values(roomNameToId));
-
-        if (existingItemsError) throw existingItemsError;
-
-        const existingItemsSet = new Set(
-          existingItems?.map((item) => `${item.name.toLowerCase()}-${item.room_id}`) || []
-        );
-
-        // Process items
-        const validItems = jsonData
-          .filter((item) => item.area && item.name)
-          .map((item) => {
-            const roomId = roomNameToId[item.area.toLowerCase()];
-            const itemKey = `${item.name.toLowerCase()}-${roomId}`;
-            
-            // Skip if duplicate
-            if (existingItemsSet.has(itemKey)) {
-              return null;
-            }
-
-            let installationDate = null;
-            if (item.installation_date) {
-              if (typeof item.installation_date === "number") {
-                // Excel date serial number
-                const excelDate = new Date((item.installation_date - 25569) * 86400 * 1000);
-                installationDate = excelDate.toISOString().split("T")[0];
-              } else if (typeof item.installation_date === "string") {
-                const parsedDate = new Date(item.installation_date);
-                if (!isNaN(parsedDate.getTime())) {
-                  installationDate = parsedDate.toISOString().split("T")[0];
-                }
-              }
-            }
-
-            return {
-              room_id: roomId,
-              name: item.name,
-              category: item.category || "Uncategorized",
-              brand: item.brand || null,
-              supplier: item.supplier || null,
-              specifications: item.specifications || null,
-              cost: item.cost || null,
-              warranty_info: item.warranty_info || null,
-              installation_date: installationDate,
-              maintenance_notes: item.maintenance_notes || null,
-              status: item.status || null,
-            };
-          })
-          .filter(Boolean);
-
-        const skippedCount = jsonData.length - validItems.length;
-
-        if (validItems.length > 0) {
-          const { error: insertError } = await supabase
-            .from("items")
-            .insert(validItems);
-
-          if (insertError) throw insertError;
-        }
-
-        queryClient.invalidateQueries({ queryKey: ["project-items", id] });
-        queryClient.invalidateQueries({ queryKey: ["rooms", id] });
+  // Only needed for the printable report
+  const { data: images } = useQuery({
+    queryKey: ["project-images", id],
+    queryFn: () => fetchProjectImages(id!),
+    enabled: !!id && showPrintDialog,
+  });
 
-        toast({
-          title: "Success",
-          description: `Imported ${validItems.length} items successfully${
-            skippedCount > 0 ? ` (${skippedCount} duplicates skipped)` : ""
-          }`,
-        });
-      };
-      reader.readAsBinaryString(file);
-    } catch (error: any) {
-      console.error("Import error:", error);
-      toast({
-        title: "Error",
-        description: error.message || "Failed to import items",
-        variant: "destructive",
-      });
-    }
+  const handleFileChosen = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setImportFile(event.target.files?.[0] ?? null);
+    // Let the same file be chosen again after closing the dialog
+    event.target.value = "";
   };
 
-  const handleExport = () => {
-    if (!items) {
-      toast({
-        title: "Error",
-        description: "No items to export",
-        variant: "destructive",
-      });
-      return;
-    }
-
+  // Download the whole project, files included, as an archive that can be imported again
+  const handleBackup = async () => {
+    if (isBackingUp) return;
+    setIsBackingUp(true);
     try {
-      const exportData = (items || []).map((item) => ({
-        area: item.rooms.name,
-        name: item.name,
-        category: item.category,
-        brand: item.brand || "",
-        supplier: item.supplier || "",
-        specifications: item.specifications || "",
-        cost: item.cost?.toString() || "",
-        warranty_info: item.warranty_info || "",
-        installation_date: item.installation_date || "",
-        maintenance_notes: item.maintenance_notes || "",
-        status: item.status || "",
-        notes: item.notes || "",
-        links: item.link || "",
-      }));
-
-      const wb = XLSX.utils.book_new();
-      const ws = XLSX.utils.json_to_sheet(exportData);
-      XLSX.utils.book_append_sheet(wb, ws, "Items");
-
-      const fileName = `${project?.name || "project"}_items.xlsx`;
-      XLSX.writeFile(wb, fileName);
-
+      await apiDownload(`/api/projects/${id}/export`, `${project?.name || "project"}.zip`);
       toast({
         title: "Success",
-        description: "Items exported successfully",
+        description: "Project backup downloaded",
       });
     } catch (error: any) {
-      console.error("Export error:", error);
+      console.error("Backup error:", error);
       toast({
         title: "Error",
-        description: error.message || "Failed to export items",
+        description: error.data?.message || "Failed to back up project",
         variant: "destructive",
       });
+    } finally {
+      setIsBackingUp(false);
     }
   };
 
@@ -458,7 +297,7 @@ export default function ProjectManagementPage({ id }: ProjectManagementPageProps
             <CardTitle>Management Actions</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid md:grid-cols-3 gap-4">
+            <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
               {/* Print Project */}
               <Card className="p-4 hover:shadow-md transition-shadow cursor-pointer" onClick={() => setShowPrintDialog(true)}>
                 <div className="flex flex-col items-center text-center space-y-3">
@@ -480,12 +319,12 @@ export default function ProjectManagementPage({ id }: ProjectManagementPageProps
                   </div>
                   <div>
                     <h3 className="font-semibold">Import Items</h3>
-                    <p className="text-sm text-muted-foreground">Upload items from CSV or Excel file</p>
+                    <p className="text-sm text-muted-foreground">Upload items from a CSV or Excel file and preview the changes</p>
                   </div>
                   <input
                     type="file"
                     accept=".csv,.xlsx,.xls"
-                    onChange={handleFileUpload}
+                    onChange={handleFileChosen}
                     className="hidden"
                     id="file-upload"
                   />
@@ -498,14 +337,27 @@ export default function ProjectManagementPage({ id }: ProjectManagementPageProps
               </Card>
 
               {/* Export Items */}
-              <Card className="p-4 hover:shadow-md transition-shadow cursor-pointer" onClick={handleExport}>
+              <Card className="p-4 hover:shadow-md transition-shadow cursor-pointer" onClick={() => setShowExportDialog(true)}>
                 <div className="flex flex-col items-center text-center space-y-3">
                   <div className="p-3 bg-purple-100 rounded-full">
                     <Download className="h-6 w-6 text-purple-600" />
                   </div>
                   <div>
                     <h3 className="font-semibold">Export Items</h3>
-                    <p className="text-sm text-muted-foreground">Download all items as Excel file</p>
+                    <p className="text-sm text-muted-foreground">Download items as Excel, CSV or JSON, filtered and split by room</p>
+                  </div>
+                </div>
+              </Card>
+
+              {/* Back Up Project */}
+              <Card className="p-4 hover:shadow-md transition-shadow cursor-pointer" onClick={handleBackup}>
+                <div className="flex flex-col items-center text-center space-y-3">
+                  <div className="p-3 bg-orange-100 rounded-full">
+                    <Archive className="h-6 w-6 text-orange-600" />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold">{isBackingUp ? "Preparing Backup..." : "Back Up Project"}</h3>
+                    <p className="text-sm text-muted-foreground">Download everything, including images and documents, as a zip archive</p>
                   </div>
                 </div>
               </Card>
@@ -569,11 +421,32 @@ export default function ProjectManagementPage({ id }: ProjectManagementPageProps
                 itemCounts={itemCounts} 
                 baseUrl={baseUrl}
                 items={items || []}
+                images={images || []}
               />
             )}
           </div>
         </DialogContent>
       </Dialog>
+
+      <ExportDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        projectId={id}
+        projectName={project.name}
+        rooms={rooms || []}
+        categories={uniqueValues(items?.map((item) => item.category))}
+        statuses={uniqueValues(items?.map((item) => item.status))}
+      />
+
+      <ImportDialog
+        projectId={id}
+        file={importFile}
+        onClose={() => setImportFile(null)}
+        onImported={() => {
+          queryClient.invalidateQueries({ queryKey: ["project-items", id] });
+          queryClient.invalidateQueries({ queryKey: ["rooms", id] });
+        }}
+      />
     </div>
   );
 }
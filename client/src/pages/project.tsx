@@ -2,6 +2,11 @@ import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { supabase } from "@/lib/supabase";
+import { fetchProject, fetchProjectRooms, fetchProjectItems, addRoom, editRoom, removeRoom } from "@/lib/projects";
+import { fetchProjectMembers } from "@/lib/members";
+import { ApiError } from "@/lib/api-client";
+import { usePinPrompt } from "@/components/project/pin-dialog";
+import { SettingsDialog, type SettingsTab } from "@/components/project/settings-dialog";
 import {
   Plus,
   Pencil,
@@ -15,6 +20,9 @@ import {
   AlertCircle,
   MoreVertical,
   Settings,
+  Users,
+  KeyRound,
+  CalendarPlus,
   Bot,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -65,27 +73,11 @@ import { Label } from "@/components/ui/label";
 import { cn } from "@/lib/utils";
 import { NavBreadcrumb } from "@/components/layout/nav-breadcrumb";
 import Chatbot from "@/components/chatbot";
-
-interface Item {
-  id: string;
-  name: string;
-  category: string;
-  brand: string | null;
-  supplier: string | null;
-  specifications: string | null;
-  cost: number | null;
-  warranty_info: string | null;
-  installation_date: string | null;
-  maintenance_notes: string | null;
-  status: string | null;
-  notes: string | null;
-  link: string | null;
-  room_id: string;
-  rooms: {
-    name: string;
-    project_id: string;
-  };
-}
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import FinishesPanel from "@/components/finishes/finishes-panel";
+import MaintenancePanel from "@/components/maintenance/maintenance-panel";
+import PublicMaintenanceList from "@/components/maintenance/public-maintenance-list";
+import WarrantiesDashboard from "@/components/warranties/warranties-dashboard";
 
 interface ProjectPageProps {
   id?: string;
@@ -99,8 +91,11 @@ export default function ProjectPage({ id }: ProjectPageProps) {
   const [showPrintDialog, setShowPrintDialog] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string>('');
+  // The settings tab to open with, or null while the dialog is closed
+  const [settingsTab, setSettingsTab] = useState<SettingsTab | null>(null);
 
   const { toast } = useToast();
+  const { handlePinError, pinDialog } = usePinPrompt(id);
 
   useEffect(() => {
     const checkAuth = async () => {
@@ -114,27 +109,23 @@ export default function ProjectPage({ id }: ProjectPageProps) {
     queryKey: ["project", id],
     queryFn: async () => {
       if (!id) throw new Error("No project ID provided");
-      const { data, error } = await supabase
-        .from("projects")
-        .select("*")
-        .eq("id", id)
-        .single();
-      if (error) throw error;
-      return data;
+      return fetchProject(id);
     },
   });
 
+  // Only members get a role; visitors following a shared link see the page read-only
+  const { data: membership } = useQuery({
+    queryKey: ["project-members", id],
+    queryFn: () => fetchProjectMembers(id!),
+    enabled: isAuthenticated && !!id,
+    retry: false,
+  });
+
   const { data: rooms } = useQuery<Room[]>({
     queryKey: ["rooms", id],
     queryFn: async () => {
       if (!id) throw new Error("No project ID provided");
-      const { data, error } = await supabase
-        .from("rooms")
-        .select("*")
-        .eq("project_id", id)
-        .order("created_at", { ascending: false });
-      if (error) throw error;
-      return data || [];
+      return fetchProjectRooms(id);
     },
     enabled: !!id,
   });
@@ -143,35 +134,7 @@ export default function ProjectPage({ id }: ProjectPageProps) {
     queryKey: ["project-items", id],
     queryFn: async () => {
       if (!id) throw new Error("No project ID provided");
-      const { data, error } = await supabase
-        .from("items")
-        .select(`
-          id,
-          name,
-          category,
-          brand,
-          supplier,
-          specifications,
-          cost,
-          warranty_info,
-          installation_date,
-          maintenance_notes,
-          status,
-          notes,
-          link,
-          room_id,
-          rooms!inner (
-            name,
-            project_id
-          )
-        `)
-        .eq('rooms.project_id', id)
-        .order("created_at", { ascending: false });
-      if (error) throw error;
-      return (data || []).map(item => ({
-        ...item,
-        rooms: Array.isArray(item.rooms) ? item.rooms[0] : item.rooms
-      })) as Item[];
+      return fetchProjectItems(id);
     },
     enabled: !!id,
   });
@@ -184,10 +147,7 @@ export default function ProjectPage({ id }: ProjectPageProps) {
       dimensions?: string;
     }) => {
       if (!id) throw new Error("No project ID provided");
-      const { error } = await supabase
-        .from("rooms")
-        .insert([{ ...data, project_id: id }]);
-      if (error) throw error;
+      await addRoom(id, data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["rooms", id] });
@@ -198,6 +158,14 @@ export default function ProjectPage({ id }: ProjectPageProps) {
         description: "Area added successfully",
       });
     },
+    onError: (error: Error, variables) => {
+      if (handlePinError(error, () => createRoom.mutate(variables))) return;
+      toast({
+        title: "Error",
+        description: (error instanceof ApiError && error.data?.message) || "Failed to add area",
+        variant: "destructive",
+      });
+    },
   });
 
   const updateRoom = useMutation({
@@ -208,16 +176,12 @@ export default function ProjectPage({ id }: ProjectPageProps) {
       floor_number?: number;
       dimensions?: string;
     }) => {
-      const { error } = await supabase
-        .from("rooms")
-        .update({
-          name: data.name,
-          description: data.description,
-          floor_number: data.floor_number,
-          dimensions: data.dimensions,
-        })
-        .eq("id", data.id);
-      if (error) throw error;
+      await editRoom(data.id, {
+        name: data.name,
+        description: data.description,
+        floor_number: data.floor_number,
+        dimensions: data.dimensions,
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["rooms", id] });
@@ -226,16 +190,18 @@ export default function ProjectPage({ id }: ProjectPageProps) {
         description: "Area updated successfully",
       });
     },
+    onError: (error: Error, variables) => {
+      if (handlePinError(error, () => updateRoom.mutate(variables))) return;
+      toast({
+        title: "Error",
+        description: (error instanceof ApiError && error.data?.message) || "Failed to update area",
+        variant: "destructive",
+      });
+    },
   });
 
   const deleteRoom = useMutation({
-    mutationFn: async (roomId: string) => {
-      const { error } = await supabase
-        .from("rooms")
-        .delete()
-        .eq("id", roomId);
-      if (error) throw error;
-    },
+    mutationFn: (roomId: string) => removeRoom(roomId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["rooms", id] });
       queryClient.invalidateQueries({ queryKey: ["project-items", id] });
@@ -244,6 +210,14 @@ export default function ProjectPage({ id }: ProjectPageProps) {
         description: "Area and all related items deleted successfully",
       });
     },
+    onError: (error: Error, variables) => {
+      if (handlePinError(error, () => deleteRoom.mutate(variables))) return;
+      toast({
+        title: "Error",
+        description: (error instanceof ApiError && error.data?.message) || "Failed to delete area",
+        variant: "destructive",
+      });
+    },
   });
 
   if (isProjectLoading) {
@@ -536,12 +510,6 @@ export default function ProjectPage({ id }: ProjectPageProps) {
                     <span>Expected completion: {new Date(project.completion_date).toLocaleDateString()}</span>
                   </div>
                 )}
-                {project?.status && (
-                  <div className="flex items-center gap-2 text-muted-foreground">
-                    <AlertCircle className="h-4 w-4" />
-                    <span>Status: {project.status}</span>
-                  </div>
-                )}
               </div>
             </div>
           </div>
@@ -565,6 +533,24 @@ export default function ProjectPage({ id }: ProjectPageProps) {
                       Project Management
                     </Link>
                   </DropdownMenuItem>
+                  {membership && (
+                    <DropdownMenuItem onSelect={() => setSettingsTab("members")}>
+                      <Users className="mr-2 h-4 w-4" />
+                      Members & Settings
+                    </DropdownMenuItem>
+                  )}
+                  {membership?.role === "owner" && (
+                    <DropdownMenuItem onSelect={() => setSettingsTab("handover")}>
+                      <KeyRound className="mr-2 h-4 w-4" />
+                      Hand Over Project
+                    </DropdownMenuItem>
+                  )}
+                  {membership?.role === "owner" && (
+                    <DropdownMenuItem onSelect={() => setSettingsTab("calendar")}>
+                      <CalendarPlus className="mr-2 h-4 w-4" />
+                      Calendar Feed
+                    </DropdownMenuItem>
+                  )}
                 </DropdownMenuContent>
               </DropdownMenu>
             </div>
@@ -697,12 +683,37 @@ export default function ProjectPage({ id }: ProjectPageProps) {
             </div>
           </div>
         )}        {!searchQuery.trim() && (
-          <div className="mt-8 grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {rooms?.map((room) => {
-              const itemCount = itemCounts[room.id] || 0;
-              return <AreaCard key={room.id} room={room} itemCount={itemCount} />;
-            })}
-          </div>
+          <Tabs defaultValue="areas" className="mt-8">
+            <TabsList>
+              <TabsTrigger value="areas">Areas</TabsTrigger>
+              {isAuthenticated && id && <TabsTrigger value="finishes">Finishes</TabsTrigger>}
+              <TabsTrigger value="maintenance">Maintenance</TabsTrigger>
+              {isAuthenticated && id && <TabsTrigger value="warranties">Warranties</TabsTrigger>}
+            </TabsList>
+            <TabsContent value="areas" className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {rooms?.map((room) => {
+                const itemCount = itemCounts[room.id] || 0;
+                return <AreaCard key={room.id} room={room} itemCount={itemCount} />;
+              })}
+            </TabsContent>
+            {isAuthenticated && id && (
+              <TabsContent value="finishes">
+                <FinishesPanel projectId={id} rooms={rooms} />
+              </TabsContent>
+            )}
+            <TabsContent value="maintenance">
+              {isAuthenticated && id ? (
+                <MaintenancePanel projectId={id} items={items} />
+              ) : (
+                project && <PublicMaintenanceList accessCode={project.access_code} />
+              )}
+            </TabsContent>
+            {isAuthenticated && id && (
+              <TabsContent value="warranties">
+                <WarrantiesDashboard projectId={id} items={items} />
+              </TabsContent>
+            )}
+          </Tabs>
         )}
       </div>
 
@@ -722,6 +733,19 @@ export default function ProjectPage({ id }: ProjectPageProps) {
           </Card>
         </div>
       )}
+
+      {pinDialog}
+      {membership && id && (
+        <SettingsDialog
+          projectId={id}
+          open={settingsTab !== null}
+          onOpenChange={(open) => !open && setSettingsTab(null)}
+          initialTab={settingsTab ?? undefined}
+          requirePin={project.require_pin}
+          hasEditPin={project.has_edit_pin}
+          role={membership.role}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
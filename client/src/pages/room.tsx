@@ -2,6 +2,9 @@ import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { supabase } from "@/lib/supabase";
+import { apiGet, apiPut, apiDelete, ApiError, isPinRequired } from "@/lib/api-client";
+import { fetchRoom, fetchRoomItems, addItem, removeRoom } from "@/lib/projects";
+import { usePinPrompt } from "@/components/project/pin-dialog";
 import { Plus, ChevronDown, ChevronUp, Pencil, Trash2, Home, ChevronRight, ChevronLeft, Search, Check, ChevronsUpDown, ImageIcon, Printer, Upload, FileText, History, X, Eye, Link2, Copy } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -13,7 +16,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import type { Room } from "@shared/schema";
+import type { Item } from "@shared/schema";
 import { cn } from "@/lib/utils";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Link, useLocation } from "wouter";
@@ -24,37 +27,12 @@ import {Popover, PopoverContent, PopoverTrigger} from "@/components/ui/popover";
 import {Command, CommandEmpty, CommandGroup, CommandInput, CommandItem} from "@/components/ui/command";
 import { NavBreadcrumb } from "@/components/layout/nav-breadcrumb";
 import { DocumentUpload } from "@/components/ui/document-upload";
-
-// Update interface to match database schema without version
-interface Item {
-  id: string;
-  room_id: string;
-  name: string;
-  category: string;
-  brand?: string;
-  supplier?: string;
-  specifications?: string;
-  cost?: number;
-  warranty_info?: string;
-  installation_date?: string;
-  maintenance_notes?: string;
-  status?: string;
-  image_url?: string;
-  document_urls?: string[];
-  created_at?: string;
-  updated_at?: string;
-  link?: string;
-  notes?: string;
-}
-
-// Update interface to match database schema
-interface Image {
-  id: string;
-  item_id: string;
-  storage_path: string;
-  filename: string;
-  created_at: string;
-}
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import FinishesPanel from "@/components/finishes/finishes-panel";
+import { fetchItemImages, fetchItemDocuments, FILE_LINK_REFRESH_MS, type ItemImage, type StoredDocument } from "@/lib/files";
+import DocumentList from "@/components/documents/document-list";
+import MergeDialog from "@/components/items/merge-dialog";
+import { ITEM_FIELDS } from "@/components/items/item-fields";
 
 // Add a History interface to match the database schema
 interface ItemHistory {
@@ -72,7 +50,6 @@ interface ItemHistory {
   category: string;
   status?: string;
   image_url?: string;
-  document_urls?: string[];
   link?: string;
   notes?: string;
   created_at: string;
@@ -92,7 +69,6 @@ const itemFormSchema = z.object({
   category: z.string().min(1, "Category is required"),
   status: z.string().optional(),
   image_url: z.string().optional(),
-  document_urls: z.array(z.string()).optional(),
   link: z.string().url("Please enter a valid URL").optional().or(z.literal('')),
   notes: z.string().optional(),
 });
@@ -100,44 +76,32 @@ const itemFormSchema = z.object({
 type ItemFormValues = z.infer<typeof itemFormSchema>;
 
 // ItemCard component to handle individual item state
-const ItemCard = ({ item, onDelete }: { item: Item; onDelete: (id: string) => void }) => {
+const ItemCard = ({ item, onDelete, onPinRequired }: {
+  item: Item;
+  onDelete: (id: string) => void;
+  // Returns true when the edit was blocked for a PIN and will be retried once it's entered
+  onPinRequired?: (error: unknown, retry: () => void) => boolean;
+}) => {
   const [isDetailsVisible, setIsDetailsVisible] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
+  // The item as it was when editing started, so saves can detect changes made in the meantime
+  const [editBase, setEditBase] = useState<Item>(item);
+  const [conflict, setConflict] = useState<{ base: Item; mine: Record<string, unknown>; current: Item } | null>(null);
   const [showImageDialog, setShowImageDialog] = useState(false);
   const [showDocumentDialog, setShowDocumentDialog] = useState(false);
   const [showHistoryDialog, setShowHistoryDialog] = useState(false);
   // Add state for full image view
   const [showFullImageDialog, setShowFullImageDialog] = useState(false);
-  const [selectedImage, setSelectedImage] = useState<Image | null>(null);
+  const [selectedImage, setSelectedImage] = useState<ItemImage | null>(null);
   const [, navigate] = useLocation();
   const { toast } = useToast();
 
   // Delete image mutation
   const deleteImage = useMutation({
     mutationFn: async (imageId: string) => {
-      const { data, error } = await supabase
-        .from('images')
-        .select('storage_path')
-        .eq('id', imageId)
-        .single();
-
-      if (error) throw error;
-
-      // Delete from storage
-      const { error: storageError } = await supabase.storage
-        .from('item-images')
-        .remove([data.storage_path]);
-
-      if (storageError) throw storageError;
-
-      // Delete from database
-      const { error: dbError } = await supabase
-        .from('images')
-        .delete()
-        .eq('id', imageId);
-
-      if (dbError) throw dbError;
+      // Removes both the stored file and its metadata
+      await apiDelete(`/api/items/${item.id}/images/${imageId}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["item-images", item.id] });
@@ -146,7 +110,8 @@ const ItemCard = ({ item, onDelete }: { item: Item; onDelete: (id: string) => vo
         description: "Image deleted successfully"
       });
     },
-    onError: (error: Error) => {
+    onError: (error: Error, imageId) => {
+      if (onPinRequired?.(error, () => deleteImage.mutate(imageId))) return;
       toast({
         title: "Error",
         description: error.message || "Failed to delete image",
@@ -155,168 +120,70 @@ const ItemCard = ({ item, onDelete }: { item: Item; onDelete: (id: string) => vo
     }
   });
 
-  // Delete document mutation
-  const deleteDocument = useMutation({
-    mutationFn: async (fileName: string) => {
-      const { error } = await supabase.storage
-        .from('item-documents')
-        .remove([`${item.id}/${fileName}`]);
-
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["item-documents", item.id] });
-      toast({
-        title: "Success",
-        description: "Document deleted successfully"
-      });
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to delete document",
-        variant: "destructive"
-      });
-    }
+  // Initialize form
+  const toFormValues = (current: Item): ItemFormValues => ({
+    name: current.name,
+    brand: current.brand || "",
+    supplier: current.supplier || "",
+    specifications: current.specifications || "",
+    cost: current.cost ? Number(current.cost) : undefined,
+    warranty_info: current.warranty_info || "",
+    maintenance_notes: current.maintenance_notes || "",
+    installation_date: current.installation_date || "",
+    category: current.category,
+    status: current.status || "",
+    link: current.link || "",
+    notes: current.notes || "",
   });
 
-  // Initialize form
   const form = useForm<ItemFormValues>({
     resolver: zodResolver(itemFormSchema),
-    defaultValues: {
-      name: item.name,
-      brand: item.brand || "",
-      supplier: item.supplier || "",
-      specifications: item.specifications || "",
-      cost: item.cost || undefined,
-      warranty_info: item.warranty_info || "",
-      maintenance_notes: item.maintenance_notes || "",
-      installation_date: item.installation_date || "",
-      category: item.category,
-      status: item.status || "",
-      document_urls: item.document_urls || [],
-      link: item.link || "",
-      notes: item.notes || "",
-    },
+    defaultValues: toFormValues(item),
   });
 
   // Query to fetch images for this item
-  const { data: images = [] } = useQuery<Image[]>({
+  const { data: images = [] } = useQuery<ItemImage[]>({
     queryKey: ["item-images", item.id],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("images")
-        .select("*")
-        .eq("item_id", item.id);
-
-      if (error) throw error;
-      return data || [];
-    }
+    queryFn: () => fetchItemImages(item.id),
+    refetchInterval: FILE_LINK_REFRESH_MS
   });
 
-  const { data: documents = [] } = useQuery<{ name: string, url: string }[]>({
+  const { data: documents = [] } = useQuery<StoredDocument[]>({
     queryKey: ["item-documents", item.id],
-    queryFn: async () => {
-      const { data: files, error } = await supabase.storage
-        .from('item-documents')
-        .list(item.id);
-
-      if (error) throw error;
-
-      const docs = await Promise.all(
-        (files || []).map(async (file) => {
-          const { data } = supabase.storage
-            .from('item-documents')
-            .getPublicUrl(`${item.id}/${file.name}`);
-
-          return {
-            name: file.name,
-            url: data.publicUrl
-          };
-        })
-      );
-
-      return docs;
-    }
+    queryFn: () => fetchItemDocuments(item.id),
+    refetchInterval: FILE_LINK_REFRESH_MS
   });
 
   // Add history query
   const { data: itemHistory = [] } = useQuery<ItemHistory[]>({
     queryKey: ["item-history", item.id],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("item_history")
-        .select("*")
-        .eq("item_id", item.id);
-
-      if (error) throw error;
-      return data || [];
-    }
+    queryFn: () => apiGet<ItemHistory[]>(`/api/items/${item.id}/history`)
   });
 
   const updateItem = useMutation({
-    mutationFn: async (values: ItemFormValues) => {
-      const timestamp = new Date().toISOString();
-
-      // Insert current state into history first
-      const { error: historyError } = await supabase
-        .from("item_history")
-        .insert([{
-          item_id: item.id,
-          room_id: item.room_id,
-          name: item.name,
-          brand: item.brand,
-          supplier: item.supplier,
-          specifications: item.specifications,
-          cost: item.cost,
-          warranty_info: item.warranty_info,
-          installation_date: item.installation_date,
-          maintenance_notes: item.maintenance_notes,
-          category: item.category,
-          status: item.status,
-          image_url: item.image_url,
-          document_urls: item.document_urls,
-          link: item.link,
-          notes: item.notes,
-          created_at: timestamp,
-          updated_at: timestamp
-        }]);
-
-      if (historyError) throw historyError;
-
-      // Now update the item with new values and current timestamp
-      const { error: updateError } = await supabase
-        .from("items")
-        .update({
-          name: values.name,
-          brand: values.brand || null,
-          supplier: values.supplier || null,
-          specifications: values.specifications || null,
-          cost: values.cost || null,
-          warranty_info: values.warranty_info || null,
-          maintenance_notes: values.maintenance_notes || null,
-          installation_date: values.installation_date || null,
-          category: values.category,
-          status: values.status || null,
-          document_urls: values.document_urls || [],
-          link: values.link || null,
-          notes: values.notes || null,
-          updated_at: timestamp
-        })
-        .eq('id', item.id);
-
-      if (updateError) throw updateError;
+    mutationFn: async ({ changes, base }: { changes: Record<string, unknown>; base: Item }) => {
+      // The server snapshots the current state into item_history and bumps the version,
+      // rejecting the save if the item has moved on from the version being edited
+      await apiPut(`/api/items/${item.id}`, { ...changes, version: base.version });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["items", item.room_id] });
       queryClient.invalidateQueries({ queryKey: ["item-history", item.id] });
       setShowEditDialog(false);
+      setConflict(null);
       toast({
         title: "Success",
         description: "Item updated successfully"
       });
     },
-    onError: (error: Error) => {
+    onError: (error: Error, { changes, base }) => {
+      if (error instanceof ApiError && error.status === 409 && error.data?.current) {
+        setConflict({ base, mine: changes, current: error.data.current });
+        queryClient.invalidateQueries({ queryKey: ["items", item.room_id] });
+        queryClient.invalidateQueries({ queryKey: ["item-history", item.id] });
+        return;
+      }
+      if (onPinRequired?.(error, () => updateItem.mutate({ changes, base }))) return;
       toast({
         title: "Error",
         description: error.message || "Failed to update item",
@@ -325,8 +192,31 @@ const ItemCard = ({ item, onDelete }: { item: Item; onDelete: (id: string) => vo
     }
   });
 
+  const startEditing = () => {
+    form.reset(toFormValues(item));
+    setEditBase(item);
+    setShowEditDialog(true);
+  };
+
   const onSubmit = (values: ItemFormValues) => {
-    updateItem.mutate(values);
+    updateItem.mutate({
+      changes: {
+        room_id: editBase.room_id,
+        name: values.name,
+        brand: values.brand || null,
+        supplier: values.supplier || null,
+        specifications: values.specifications || null,
+        cost: values.cost || null,
+        warranty_info: values.warranty_info || null,
+        maintenance_notes: values.maintenance_notes || null,
+        installation_date: values.installation_date || null,
+        category: values.category,
+        status: values.status || null,
+        link: values.link || null,
+        notes: values.notes || null
+      },
+      base: editBase
+    });
   };
 
   const Label = ({htmlFor, children}: {htmlFor: string, children: React.ReactNode}) => (
@@ -402,6 +292,7 @@ const ItemCard = ({ item, onDelete }: { item: Item; onDelete: (id: string) => vo
             .label { font-weight: bold; color: #555; }
             .value { margin-left: 10px; }
             .category { background: #f0f0f0; padding: 2px 8px; border-radius: 4px; display: inline-block; }
+            .images img { max-width: 45%; max-height: 300px; margin: 0 10px 10px 0; object-fit: contain; }
             @media print { body { margin: 0; } }
           </style>
         </head>
@@ -424,6 +315,7 @@ const ItemCard = ({ item, onDelete }: { item: Item; onDelete: (id: string) => vo
           ${item.status ? `<div class="section"><span class="label">Status:</span><div class="value">${item.status}</div></div>` : ''}
           ${item.notes ? `<div class="section"><span class="label">Notes:</span><div class="value">${item.notes}</div></div>` : ''}
           ${item.link ? `<div class="section"><span class="label">Product Link:</span><div class="value">${item.link}</div></div>` : ''}
+          ${images.length > 0 ? `<div class="section images">${images.map(image => `<img src="${window.location.origin}${image.medium_url}" alt="${item.name}" />`).join('')}</div>` : ''}
           
           <div class="section">
             <small>Generated on ${new Date().toLocaleDateString()}</small>
@@ -432,9 +324,10 @@ const ItemCard = ({ item, onDelete }: { item: Item; onDelete: (id: string) => vo
       </html>
     `);
     
+    // Wait for the photos to load before printing
+    printWindow.onload = () => printWindow.print();
     printWindow.document.close();
     printWindow.focus();
-    printWindow.print();
   };
 
   return (
@@ -495,7 +388,7 @@ const ItemCard = ({ item, onDelete }: { item: Item; onDelete: (id: string) => vo
                   size="icon"
                   onClick={(e) => {
                     e.stopPropagation();
-                    setShowEditDialog(true);
+                    startEditing();
                   }}
                   className="h-9 w-9"
                 >
@@ -581,7 +474,7 @@ const ItemCard = ({ item, onDelete }: { item: Item; onDelete: (id: string) => vo
               <Button
                 variant="ghost"
                 size="icon"
-                onClick={() => setShowEditDialog(true)}
+                onClick={startEditing}
                 className="h-8 w-8"
               >
                 <Pencil className="h-4 w-4" />
@@ -744,7 +637,7 @@ const ItemCard = ({ item, onDelete }: { item: Item; onDelete: (id: string) => vo
                         <CarouselItem key={image.id}>
                           <div className="relative aspect-video w-full">
                             <img
-                              src={`${supabase.storage.from('item-images').getPublicUrl(image.storage_path).data?.publicUrl}`}
+                              src={image.thumbnail_url}
                               alt={`${item.name} image`}
                               className="object-contain w-full h-full rounded-md cursor-pointer border border-gray-200"
                               onClick={() => {
@@ -779,33 +672,10 @@ const ItemCard = ({ item, onDelete }: { item: Item; onDelete: (id: string) => vo
             {documents && documents.length > 0 && (
               <div className="mt-6">
                 <h4 className="font-medium text-gray-900 mb-3">Documents</h4>
-                <div className="grid gap-2">
-                  {documents.map((doc) => (
-                    <div key={doc.name} className="flex items-center justify-between group hover:bg-white p-2 rounded-md border border-gray-200">
-                      <a
-                        href={doc.url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="flex items-center gap-2 text-sm text-gray-700 hover:text-blue-600"
-                      >
-                        <FileText className="h-4 w-4" />
-                        {doc.name}
-                      </a>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="opacity-0 group-hover:opacity-100 transition-opacity h-6 w-6"
-                        onClick={() => {
-                          if (confirm('Are you sure you want to delete this document?')) {
-                            deleteDocument.mutate(doc.name);
-                          }
-                        }}
-                      >
-                        <Trash2 className="h-3 w-3 text-red-600" />
-                      </Button>
-                    </div>
-                  ))}
-                </div>
+                <DocumentList
+                  documents={documents}
+                  onChanged={() => queryClient.invalidateQueries({ queryKey: ["item-documents", item.id] })}
+                />
               </div>
             )}
           </div>
@@ -953,7 +823,7 @@ const ItemCard = ({ item, onDelete }: { item: Item; onDelete: (id: string) => vo
           </DialogHeader>
           <div className="grid gap-4 py-4">
             <DocumentUpload
-              itemId={item.id}
+              uploadUrl={`/api/items/${item.id}/documents`}
               onUploadComplete={() => {
                 queryClient.invalidateQueries({ queryKey: ["item-documents", item.id] });
                 setShowDocumentDialog(false);
@@ -1032,10 +902,18 @@ const ItemCard = ({ item, onDelete }: { item: Item; onDelete: (id: string) => vo
           <DialogContent className="max-w-4xl max-h-[90vh] p-0 overflow-hidden">
             <div className="relative h-full w-full flex items-center justify-center bg-black/80">
               <img
-                src={`${supabase.storage.from('item-images').getPublicUrl(selectedImage.storage_path).data?.publicUrl}`}
+                src={selectedImage.medium_url}
                 alt={`${item.name} full view`}
                 className="max-h-[80vh] max-w-full object-contain"
               />
+              <a
+                href={selectedImage.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="absolute bottom-4 right-4 bg-black/50 text-white px-3 py-1 rounded-full text-sm hover:bg-black/70"
+              >
+                Full size
+              </a>
               <Button
                 variant="ghost"
                 size="icon"
@@ -1085,6 +963,19 @@ const ItemCard = ({ item, onDelete }: { item: Item; onDelete: (id: string) => vo
           </DialogContent>
         </Dialog>
       )}
+
+      {conflict && (
+        <MergeDialog
+          open
+          onOpenChange={(open) => !open && setConflict(null)}
+          fields={ITEM_FIELDS}
+          base={conflict.base}
+          mine={conflict.mine}
+          theirs={conflict.current}
+          isSaving={updateItem.isPending}
+          onResolve={(merged) => updateItem.mutate({ changes: merged, base: conflict.current })}
+        />
+      )}
     </>
   );
 };
@@ -1146,59 +1037,25 @@ export default function RoomPage({ id }: RoomPageProps) {
       category: "",
       status: "",
       image_url: "",
-      document_urls: [],
       link: "",
       notes: "",
     },
   });
 
-  const { data: room } = useQuery<Room & { projects: { name: string; id: string } }>({
+  const { data: room } = useQuery({
     queryKey: ["room", id],
     queryFn: async () => {
       if (!id) throw new Error("No room ID provided");
-
-      const { data, error } = await supabase
-        .from("rooms")
-        .select(`
-          *,
-          projects (
-            id,
-            name
-          )
-        `)
-        .eq("id", id)
-        .single();
-
-      if (error) throw error;
-      return data;
+      return fetchRoom(id);
     },
     enabled: !!id
   });
 
-  // Update the items query to properly include project context
   const { data: items } = useQuery({
     queryKey: ["items", id],
     queryFn: async () => {
       if (!id) throw new Error("No room ID provided");
-
-      // Get items with room and project context
-      const { data, error } = await supabase
-        .from("items")
-        .select(`
-          *,
-          rooms (
-            name,
-            projects (
-              name,
-              user_id
-            )
-          )
-        `)
-        .eq("room_id", id)
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      return data;
+      return fetchRoomItems(id);
     },
     enabled: !!id
   });
@@ -1265,47 +1122,31 @@ export default function RoomPage({ id }: RoomPageProps) {
     }
   };
 
+  const { handlePinError, pinDialog } = usePinPrompt(room?.project_id);
+
   const createItem = useMutation({
     mutationFn: async (values: ItemFormValues) => {
       if (!id || !room) throw new Error("No room ID provided");
 
-            try {
-        const { data: session } = await supabase.auth.getSession();
-        if (!session?.session?.access_token) {
-          throw new Error("No authenticated session found");
-        }
-
-        const { data, error } = await supabase
-          .from("items")
-          .insert([{
-            room_id: id,
-            name: values.name,
-            category: values.category,
-            brand: values.brand || null,
-            supplier: values.supplier || null,
-            specifications: values.specifications || null,
-            cost: values.cost || null,
-            warranty_info: values.warranty_info || null,
-            maintenance_notes: values.maintenance_notes || null,
-            installation_date: values.installation_date || null,
-            status: values.status || null,
-            image_url: values.image_url || null,
-            document_urls: values.document_urls || [],
-            created_at: new Date().toISOString(),
-            link: values.link || null,
-            notes: values.notes || null,
-          }])
-          .select();
-
-        if (error) throw error;
-        return data[0];
-      } catch (error: any) {
-        console.error("Error creating item:", {
-          error,
-          message: error?.message,
-          details: error?.details
+      try {
+        return await addItem(id, {
+          name: values.name,
+          category: values.category,
+          brand: values.brand || null,
+          supplier: values.supplier || null,
+          specifications: values.specifications || null,
+          cost: values.cost || null,
+          warranty_info: values.warranty_info || null,
+          maintenance_notes: values.maintenance_notes || null,
+          installation_date: values.installation_date || null,
+          status: values.status || null,
+          link: values.link || null,
+          notes: values.notes || null,
         });
-        throw new Error(error?.message || "Failed to save item");
+      } catch (error: any) {
+        console.error("Error creating item:", error);
+        if (isPinRequired(error)) throw error;
+        throw new Error(error?.data?.message || "Failed to save item");
       }
     },
     onSuccess: (data) => {
@@ -1317,7 +1158,8 @@ export default function RoomPage({ id }: RoomPageProps) {
         description: "Item added successfully"
       });
     },
-    onError: (error: Error) => {
+    onError: (error: Error, values) => {
+      if (handlePinError(error, () => createItem.mutate(values))) return;
       toast({
         title: "Error",
         description: error.message || "Failed to save item",
@@ -1330,21 +1172,8 @@ export default function RoomPage({ id }: RoomPageProps) {
   const deleteItem = useMutation({
     mutationFn: async (itemId: string) => {
       try {
-        // First delete the item history records
-        const { error: historyError } = await supabase
-          .from("item_history")
-          .delete()
-          .eq("item_id", itemId);
-
-        if (historyError) throw historyError;
-
-        // Then delete the item itself
-        const { error: itemError } = await supabase
-          .from("items")
-          .delete()
-          .eq("id", itemId);
-
-        if (itemError) throw itemError;
+        // The server removes the item history records along with the item
+        await apiDelete(`/api/items/${itemId}`);
       } catch (error) {
         console.error('Delete error:', error);
         throw error;
@@ -1357,7 +1186,8 @@ export default function RoomPage({ id }: RoomPageProps) {
         description: "Item deleted successfully"
       });
     },
-    onError: (error: Error) => {
+    onError: (error: Error, itemId) => {
+      if (handlePinError(error, () => deleteItem.mutate(itemId))) return;
       toast({
         title: "Error",
         description: error.message || "Failed to delete item",
@@ -1370,21 +1200,7 @@ export default function RoomPage({ id }: RoomPageProps) {
   const bulkDeleteItems = useMutation({
     mutationFn: async (itemIds: string[]) => {
       try {
-        // First delete all history records for these items
-        const { error: historyError } = await supabase
-          .from("item_history")
-          .delete()
-          .in("item_id", itemIds);
-
-        if (historyError) throw historyError;
-
-        // Then delete the items
-        const { error: itemsError } = await supabase
-          .from("items")
-          .delete()
-          .in("id", itemIds);
-
-        if (itemsError) throw itemsError;
+        await Promise.all(itemIds.map(itemId => apiDelete(`/api/items/${itemId}`)));
       } catch (error) {
         console.error('Bulk delete error:', error);
         throw error;
@@ -1399,7 +1215,8 @@ export default function RoomPage({ id }: RoomPageProps) {
         description: "Items deleted successfully"
       });
     },
-    onError: (error: Error) => {
+    onError: (error: Error, itemIds) => {
+      if (handlePinError(error, () => bulkDeleteItems.mutate(itemIds))) return;
       toast({
         title: "Error",
         description: error.message || "Failed to delete items",
@@ -1421,15 +1238,8 @@ export default function RoomPage({ id }: RoomPageProps) {
 
   // Update the deleteRoom mutation in the component to handle the deletion
   const deleteRoom = useMutation({
-    mutationFn: async (roomId: string) => {
-      // The deletion will cascade through items and item_history
-      const { error } = await supabase
-        .from("rooms")
-        .delete()
-        .eq("id", roomId);
-
-      if (error) throw error;
-    },
+    // The server deletes the room's items, their history and their files with it
+    mutationFn: (roomId: string) => removeRoom(roomId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["rooms"] });
       toast({
@@ -1439,7 +1249,8 @@ export default function RoomPage({ id }: RoomPageProps) {
       // Navigate back to the project page
       setLocation("/project");
     },
-    onError: (error: Error) => {
+    onError: (error: Error, roomId) => {
+      if (handlePinError(error, () => deleteRoom.mutate(roomId))) return;
       toast({
         title: "Error",
         description: error.message || "Failed to delete area",
@@ -1816,8 +1627,14 @@ export default function RoomPage({ id }: RoomPageProps) {
         </div>
       </div>
 
+      <Tabs defaultValue="items" className="flex-1 flex flex-col overflow-hidden">
+        <TabsList className="self-start">
+          <TabsTrigger value="items">Items</TabsTrigger>
+          <TabsTrigger value="finishes">Finishes</TabsTrigger>
+        </TabsList>
+
       {/* Item list - Scrollable area */}
-      <div className="flex-1 overflow-hidden">
+      <TabsContent value="items" className="flex-1 overflow-hidden mt-0">
         <div className="h-full overflow-y-auto py-2 px-1">
           {/* Header Row */}
           <div className="hidden md:block bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-100 rounded-lg mb-3 p-3 shadow-sm">
@@ -1903,6 +1720,7 @@ export default function RoomPage({ id }: RoomPageProps) {
                   <ItemCard
                     item={item}
                     onDelete={handleDelete}
+                    onPinRequired={handlePinError}
                   />
                 </div>
               </div>
@@ -1914,7 +1732,12 @@ export default function RoomPage({ id }: RoomPageProps) {
             )}
           </div>
         </div>
-      </div>
+      </TabsContent>
+
+      <TabsContent value="finishes" className="flex-1 overflow-y-auto py-2 px-1 mt-0">
+        <FinishesPanel projectId={room.projects.id} roomId={room.id} />
+      </TabsContent>
+      </Tabs>
 
       {/* Bulk Delete Dialog */}
       <AlertDialog open={showBulkDeleteDialog} onOpenChange={setShowBulkDeleteDialog}>
@@ -1937,6 +1760,8 @@ export default function RoomPage({ id }: RoomPageProps) {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {pinDialog}
     </div>
   );
 }
\ No newline at end of file
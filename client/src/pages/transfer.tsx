@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AlertCircle, KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/lib/supabase";
+import { queryClient } from "@/lib/queryClient";
+import { ApiError } from "@/lib/api-client";
+import {
+  ROLE_LABELS,
+  fetchTransfer,
+  acceptTransfer,
+  rememberPendingLink,
+} from "@/lib/members";
+
+interface TransferPageProps {
+  token: string;
+}
+
+export default function TransferPage({ token }: TransferPageProps) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [isSignedIn, setIsSignedIn] = useState<boolean | null>(null);
+
+  // Send people who aren't signed in to log in first, then bring them back here
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        rememberPendingLink(`/transfer/${token}`);
+        navigate("/login");
+        return;
+      }
+      setIsSignedIn(true);
+    });
+  }, [token, navigate]);
+
+  const { data: transfer, error, isLoading } = useQuery({
+    queryKey: ["transfer", token],
+    queryFn: () => fetchTransfer(token),
+    enabled: !!isSignedIn,
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: () => acceptTransfer(token),
+    onSuccess: ({ project }) => {
+      queryClient.invalidateQueries({ queryKey: ["projects"] });
+      queryClient.invalidateQueries({ queryKey: ["project", project.id] });
+      toast({
+        title: "Success",
+        description: `You now own ${project.name}`,
+      });
+      navigate(`/project/${project.id}`);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.data?.message || "Failed to accept handover",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!isSignedIn || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30">
+        <p>Loading handover...</p>
+      </div>
+    );
+  }
+
+  if (error || !transfer) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30">
+        <Card className="w-full max-w-md mx-4">
+          <CardContent className="pt-6">
+            <div className="flex mb-4 gap-2">
+              <AlertCircle className="h-8 w-8 text-red-500" />
+              <h1 className="text-2xl font-bold text-gray-900">Handover Unavailable</h1>
+            </div>
+            <p className="mt-4 text-sm text-gray-600">
+              {(error instanceof ApiError && error.data?.message) || "This handover could not be found."}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/30">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-6 w-6 text-blue-600" />
+            Take over {transfer.project.name}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <p className="text-muted-foreground">{transfer.project.address}</p>
+          {transfer.is_current_owner ? (
+            <p>
+              This is your own handover link. Send it to the project's new owner so they can accept it.
+            </p>
+          ) : (
+            <>
+              <p>
+                {transfer.project.builder_name} is handing this project over to you. You'll become its owner,
+                with full control over its details, settings and who has access.
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {transfer.previous_owner_role
+                  ? `${transfer.project.builder_name} will stay on the project as ${ROLE_LABELS[transfer.previous_owner_role]}.`
+                  : `${transfer.project.builder_name} will no longer have access.`}
+              </p>
+            </>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => navigate("/dashboard")}>
+            Not Now
+          </Button>
+          {!transfer.is_current_owner && (
+            <Button onClick={() => acceptMutation.mutate()} disabled={acceptMutation.isPending}>
+              {acceptMutation.isPending ? "Accepting..." : "Accept Project"}
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+-- Edit PINs are now hashed and checked by the API server (POST /api/projects/:id/unlock).
+-- The old policy compared edit_pin as plain text and would no longer match.
+DROP POLICY IF EXISTS "Users can edit projects with correct PIN" ON public.projects;
+
+-- Only the owner may update a project directly; PIN holders edit through the API
+CREATE POLICY "Owners can edit projects"
+  ON public.projects FOR UPDATE
+  USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN public.projects.edit_pin IS 'scrypt hash of the 4-digit edit PIN (legacy plain-text values are rehashed on first unlock)';
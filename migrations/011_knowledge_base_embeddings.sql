@@ -0,0 +1,13 @@
+-- Index project records (items, rooms, finishes) into the knowledge base
+ALTER TYPE content_type ADD VALUE IF NOT EXISTS 'item';
+ALTER TYPE content_type ADD VALUE IF NOT EXISTS 'room';
+ALTER TYPE content_type ADD VALUE IF NOT EXISTS 'finish';
+
+-- Embeddings are produced by pluggable providers with different dimensions,
+-- so store them as JSON text (matching the drizzle schema) instead of vector(1536)
+DROP INDEX IF EXISTS idx_knowledge_base_embedding;
+ALTER TABLE knowledge_base ALTER COLUMN embedding TYPE text USING embedding::text;
+
+-- Look up the entry for a given source record when it changes
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_source
+  ON knowledge_base ((metadata->>'source_type'), (metadata->>'source_id'));
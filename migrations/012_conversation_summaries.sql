@@ -0,0 +1,4 @@
+-- Generated conversation titles and a rolling summary of older messages
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS title_generated boolean NOT NULL DEFAULT false;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summary text;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summary_message_count integer NOT NULL DEFAULT 0;
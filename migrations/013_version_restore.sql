@@ -0,0 +1,6 @@
+-- Record who replaced each item version and how, so versions can be compared and restored
+ALTER TABLE item_history ADD COLUMN IF NOT EXISTS change_type text NOT NULL DEFAULT 'update';
+ALTER TABLE item_history ADD COLUMN IF NOT EXISTS changed_by uuid;
+ALTER TABLE item_history ADD COLUMN IF NOT EXISTS restored_version integer;
+
+ALTER TABLE finish_history ADD COLUMN IF NOT EXISTS restored_version integer;
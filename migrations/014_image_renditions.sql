@@ -0,0 +1,4 @@
+-- Storage paths of the resized copies generated when an image is uploaded;
+-- images uploaded before processing was added have none and use the original
+ALTER TABLE images ADD COLUMN IF NOT EXISTS thumbnail_path text;
+ALTER TABLE images ADD COLUMN IF NOT EXISTS medium_path text;
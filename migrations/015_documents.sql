@@ -0,0 +1,107 @@
+-- Documents become rows of their own, attachable to an item, a room, a finish
+-- or the whole project, instead of bare paths in document_urls arrays
+CREATE TABLE IF NOT EXISTS documents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    item_id UUID REFERENCES items(id) ON DELETE CASCADE,
+    room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+    finish_id UUID REFERENCES finishes(id) ON DELETE CASCADE,
+    storage_path TEXT NOT NULL,
+    filename TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    mime_type TEXT NOT NULL,
+    kind TEXT NOT NULL DEFAULT 'other',
+    uploaded_by UUID,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_documents_project_id ON documents(project_id);
+CREATE INDEX IF NOT EXISTS idx_documents_item_id ON documents(item_id);
+CREATE INDEX IF NOT EXISTS idx_documents_room_id ON documents(room_id);
+CREATE INDEX IF NOT EXISTS idx_documents_finish_id ON documents(finish_id);
+
+CREATE TRIGGER update_documents_updated_at
+    BEFORE UPDATE ON documents
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- document_urls held either a storage path or a full storage URL; both end
+-- in the path within the item-documents bucket
+CREATE OR REPLACE FUNCTION pg_temp.document_path(url TEXT) RETURNS TEXT AS $$
+    SELECT regexp_replace(split_part(url, '?', 1), '^.*/item-documents/', '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Uploads were stored as <timestamp>-<original name>
+CREATE OR REPLACE FUNCTION pg_temp.document_filename(path TEXT) RETURNS TEXT AS $$
+    SELECT regexp_replace(regexp_replace(path, '^.*/', ''), '^[0-9]+-', '');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION pg_temp.document_mime_type(path TEXT) RETURNS TEXT AS $$
+    SELECT CASE lower(substring(path FROM '\.([^./]+)$'))
+        WHEN 'pdf' THEN 'application/pdf'
+        WHEN 'txt' THEN 'text/plain'
+        WHEN 'md' THEN 'text/markdown'
+        WHEN 'csv' THEN 'text/csv'
+        WHEN 'html' THEN 'text/html'
+        WHEN 'htm' THEN 'text/html'
+        WHEN 'doc' THEN 'application/msword'
+        WHEN 'docx' THEN 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+        WHEN 'xls' THEN 'application/vnd.ms-excel'
+        WHEN 'xlsx' THEN 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        ELSE 'application/octet-stream'
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Carry over the paths recorded on items. Their sizes were never recorded, so
+-- they start at 0.
+INSERT INTO documents (project_id, item_id, storage_path, filename, size, mime_type, created_at)
+SELECT DISTINCT ON (i.id, pg_temp.document_path(url))
+    r.project_id,
+    i.id,
+    pg_temp.document_path(url),
+    pg_temp.document_filename(pg_temp.document_path(url)),
+    0,
+    pg_temp.document_mime_type(pg_temp.document_path(url)),
+    i.created_at
+FROM items i
+JOIN rooms r ON r.id = i.room_id
+CROSS JOIN LATERAL unnest(i.document_urls) AS url
+WHERE url IS NOT NULL AND url <> '';
+
+-- Most item documents were only ever listed from the bucket, stored under
+-- <item id>/. On Supabase the bucket contents can be read from storage.objects.
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'storage' AND table_name = 'objects'
+    ) THEN
+        EXECUTE $sql$
+            INSERT INTO documents (project_id, item_id, storage_path, filename, size, mime_type, created_at)
+            SELECT
+                r.project_id,
+                i.id,
+                o.name,
+                pg_temp.document_filename(o.name),
+                COALESCE((o.metadata->>'size')::integer, 0),
+                COALESCE(o.metadata->>'mimetype', pg_temp.document_mime_type(o.name)),
+                COALESCE(o.created_at, NOW())
+            FROM storage.objects o
+            JOIN items i ON i.id::text = split_part(o.name, '/', 1)
+            JOIN rooms r ON r.id = i.room_id
+            WHERE o.bucket_id = 'item-documents'
+              AND o.name NOT LIKE '%/.emptyFolderPlaceholder'
+              AND NOT EXISTS (
+                  SELECT 1 FROM documents d
+                  WHERE d.item_id = i.id AND d.storage_path = o.name
+              )
+        $sql$;
+    END IF;
+END
+$$;
+
+ALTER TABLE items DROP COLUMN IF EXISTS document_urls;
+
+-- finishes.document_urls stays: it points into the finish-attachments bucket,
+-- which the app never uploaded to
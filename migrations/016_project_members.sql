@@ -0,0 +1,56 @@
+-- Projects can be shared with other users, each with a role, instead of only
+-- through the public access code
+CREATE TABLE IF NOT EXISTS project_members (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    email TEXT,
+    role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'contributor', 'viewer')),
+    invited_by UUID,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    UNIQUE (project_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_members_user_id ON project_members(user_id);
+
+CREATE TRIGGER update_project_members_updated_at
+    BEFORE UPDATE ON project_members
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS project_invitations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    email TEXT,
+    role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'contributor', 'viewer')),
+    token TEXT NOT NULL UNIQUE,
+    invited_by UUID NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    accepted_at TIMESTAMPTZ,
+    accepted_by UUID,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_invitations_project_id ON project_invitations(project_id);
+
+-- Every project's creator is an owner. Projects are still created straight
+-- from the client as well as through the API, so a trigger covers both.
+CREATE OR REPLACE FUNCTION add_project_creator_as_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO project_members (project_id, user_id, role)
+    VALUES (NEW.id, NEW.user_id, 'owner')
+    ON CONFLICT (project_id, user_id) DO NOTHING;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER add_project_creator_as_owner
+    AFTER INSERT ON projects
+    FOR EACH ROW
+    EXECUTE FUNCTION add_project_creator_as_owner();
+
+INSERT INTO project_members (project_id, user_id, role, created_at)
+SELECT id, user_id, 'owner', created_at FROM projects
+ON CONFLICT (project_id, user_id) DO NOTHING;
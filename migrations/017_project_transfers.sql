@@ -0,0 +1,16 @@
+-- Handing a project over to a new primary owner, e.g. from the builder to the
+-- homeowner, instead of projects.user_id being fixed at creation
+CREATE TABLE IF NOT EXISTS project_transfers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE,
+    from_user_id UUID NOT NULL,
+    email TEXT,
+    previous_owner_role TEXT CHECK (previous_owner_role IN ('contributor', 'viewer')),
+    expires_at TIMESTAMPTZ NOT NULL,
+    accepted_at TIMESTAMPTZ,
+    accepted_by UUID,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_transfers_project_id ON project_transfers(project_id);
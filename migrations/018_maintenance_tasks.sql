@@ -0,0 +1,40 @@
+-- Scheduled upkeep for a home, so maintenance isn't only free text in
+-- items.maintenance_notes and finishes.maintenance_instructions
+CREATE TABLE IF NOT EXISTS maintenance_tasks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    item_id UUID REFERENCES items(id) ON DELETE CASCADE,
+    finish_id UUID REFERENCES finishes(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    description TEXT,
+    recurrence TEXT NOT NULL CHECK (recurrence IN ('once', 'interval', 'seasonal')),
+    interval_months INTEGER CHECK (interval_months > 0),
+    seasons TEXT[],
+    first_due_date DATE,
+    is_public BOOLEAN DEFAULT TRUE NOT NULL,
+    created_by UUID,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    CHECK (item_id IS NULL OR finish_id IS NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_tasks_project_id ON maintenance_tasks(project_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_tasks_item_id ON maintenance_tasks(item_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_tasks_finish_id ON maintenance_tasks(finish_id);
+
+CREATE TRIGGER update_maintenance_tasks_updated_at
+    BEFORE UPDATE ON maintenance_tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS maintenance_completions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    task_id UUID NOT NULL REFERENCES maintenance_tasks(id) ON DELETE CASCADE,
+    completed_on DATE NOT NULL,
+    notes TEXT,
+    photos JSON DEFAULT '[]' NOT NULL,
+    completed_by UUID,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_completions_task_id ON maintenance_completions(task_id, completed_on DESC);
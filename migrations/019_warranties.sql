@@ -0,0 +1,29 @@
+-- Structured warranty records, so expiry dates can be queried instead of
+-- being buried in the free-text warranty_info of items and finishes
+CREATE TABLE IF NOT EXISTS warranties (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    item_id UUID REFERENCES items(id) ON DELETE CASCADE,
+    finish_id UUID REFERENCES finishes(id) ON DELETE CASCADE,
+    provider TEXT,
+    coverage_type TEXT NOT NULL DEFAULT 'other',
+    start_date DATE,
+    duration_months INTEGER CHECK (duration_months > 0),
+    expires_on DATE,
+    registration_number TEXT,
+    claim_contact TEXT,
+    document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    CHECK (item_id IS NULL OR finish_id IS NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_warranties_project_id ON warranties(project_id, expires_on);
+CREATE INDEX IF NOT EXISTS idx_warranties_item_id ON warranties(item_id);
+CREATE INDEX IF NOT EXISTS idx_warranties_finish_id ON warranties(finish_id);
+
+CREATE TRIGGER update_warranties_updated_at
+    BEFORE UPDATE ON warranties
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,10 @@
+-- Secret per-project iCalendar feed links. The token is the only credential,
+-- so revoking a feed deletes its row and regenerating replaces the token.
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL UNIQUE REFERENCES projects(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE,
+    created_by UUID NOT NULL,
+    last_fetched_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
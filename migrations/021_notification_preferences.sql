@@ -0,0 +1,22 @@
+-- Per-user email digest settings. Users without a row get the defaults;
+-- last_digest_at is claimed atomically so one server instance sends each digest.
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    user_id UUID PRIMARY KEY,
+    email TEXT,
+    digest_frequency TEXT NOT NULL DEFAULT 'weekly' CHECK (digest_frequency IN ('off', 'daily', 'weekly')),
+    include_maintenance BOOLEAN NOT NULL DEFAULT TRUE,
+    include_warranties BOOLEAN NOT NULL DEFAULT TRUE,
+    include_item_status BOOLEAN NOT NULL DEFAULT TRUE,
+    include_activity BOOLEAN NOT NULL DEFAULT TRUE,
+    last_digest_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- For the digest's item status changes and collaborator activity
+CREATE INDEX IF NOT EXISTS idx_item_history_created_at ON item_history(created_at);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+    BEFORE UPDATE ON notification_preferences
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,11 @@
+-- Projects are readable by anyone through Supabase, and with only 10,000
+-- possible PINs the edit_pin hash can be cracked offline in seconds. Keep the
+-- rows public but withhold the column; the client loads projects through
+-- GET /api/public/projects/:id, and the API server connects as the table
+-- owner so it still sees edit_pin.
+REVOKE SELECT ON public.projects FROM anon, authenticated;
+GRANT SELECT (id, user_id, name, address, builder_name, access_code, require_pin, completion_date, created_at)
+  ON public.projects TO anon, authenticated;
+
+-- Same rule as "Anyone can view projects with access code" (001/002)
+DROP POLICY IF EXISTS "Anyone can view projects" ON public.projects;
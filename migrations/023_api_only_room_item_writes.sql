@@ -0,0 +1,15 @@
+-- Rooms, items and finishes are written only through the API server, which
+-- checks member roles and the edit PIN. Browsers keep read access but can no
+-- longer write these tables through Supabase directly. The API server
+-- connects as the table owner and is not subject to these policies.
+DROP POLICY IF EXISTS "Users can CRUD rooms in their projects" ON public.rooms;
+DROP POLICY IF EXISTS "Users can CRUD finishes in their projects" ON public.finishes;
+
+ALTER TABLE public.items ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Anyone can view items with project access" ON public.items;
+CREATE POLICY "Anyone can view items with project access"
+  ON public.items FOR SELECT
+  USING (true);
+
+-- Item history is only read through the API
+ALTER TABLE public.item_history ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,7 @@
+-- Wrong PIN unlock attempts were counted in server memory per project and
+-- client address, so a restart or a new address reset them. Count them on
+-- the project instead. Not granted to browsers (see 022).
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS pin_failed_attempts integer DEFAULT 0 NOT NULL,
+  ADD COLUMN IF NOT EXISTS pin_first_failed_at timestamp,
+  ADD COLUMN IF NOT EXISTS pin_locked_until timestamp;
@@ -0,0 +1,9 @@
+-- Anyone signed in could point digests at any address and send test digests
+-- to it on demand. Only mail a preference address once its owner follows the
+-- link sent to it, and space out the mail users can trigger themselves.
+-- Addresses saved before this go unconfirmed, so those digests fall back to
+-- the account email until the owner confirms.
+ALTER TABLE notification_preferences
+  ADD COLUMN IF NOT EXISTS email_confirmed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS email_confirmation_token TEXT UNIQUE,
+  ADD COLUMN IF NOT EXISTS last_requested_mail_at TIMESTAMPTZ;
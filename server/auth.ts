@@ -0,0 +1,449 @@
+import type { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+import { getStorage } from "./storage";
+import type { Project, Conversation, ProjectRole } from "@shared/schema";
+
+// Issuer claim used for tokens signed by this server rather than Supabase
+const LOCAL_TOKEN_ISSUER = "homespec-local";
+
+// Default lifetime for locally issued tokens (24 hours)
+const LOCAL_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+// Issuer claim and lifetime for edit tokens handed out by the PIN unlock endpoint
+const EDIT_TOKEN_ISSUER = "homespec-edit";
+export const EDIT_TOKEN_TTL_SECONDS = 30 * 60;
+
+// Issuer claim and lifetime for signed file download links
+const FILE_TOKEN_ISSUER = "homespec-file";
+export const FILE_TOKEN_TTL_SECONDS = 60 * 60;
+// Links written into exported spreadsheets have to outlive the download
+export const EXPORT_FILE_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Signs edit tokens and file links, including the month-long links in exports.
+// A per-process secret would break them all on restart, so production must set one.
+function loadEditTokenSecret(): string {
+  const secret = process.env.EDIT_TOKEN_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("EDIT_TOKEN_SECRET must be set in production: it signs edit tokens and file download links");
+  }
+  console.warn("EDIT_TOKEN_SECRET is not set; using a random secret, so edit tokens and file links lapse on restart");
+  return crypto.randomBytes(32).toString("hex");
+}
+
+const editTokenSecret = loadEditTokenSecret();
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+  source: "supabase" | "local";
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthUser;
+      editToken?: boolean;
+      project?: Project;
+      // Unset when access comes from the edit PIN rather than membership
+      projectRole?: ProjectRole;
+      conversation?: Conversation;
+    }
+  }
+}
+
+function base64UrlEncode(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+function base64UrlDecode(value: string): string {
+  return Buffer.from(value, "base64url").toString("utf8");
+}
+
+function sign(data: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+/**
+ * Verify an HS256 JWT and return its claims, or null if the signature,
+ * algorithm or expiry do not check out
+ */
+function verifyHS256(token: string, secret: string): Record<string, any> | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+
+  const [encodedHeader, encodedPayload, signature] = parts;
+  const expected = Buffer.from(sign(`${encodedHeader}.${encodedPayload}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const header = JSON.parse(base64UrlDecode(encodedHeader));
+    if (header.alg !== "HS256") return null;
+
+    const claims = JSON.parse(base64UrlDecode(encodedPayload));
+    if (typeof claims.exp === "number" && claims.exp * 1000 < Date.now()) {
+      return null;
+    }
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+function readIssuer(token: string): string | undefined {
+  try {
+    return JSON.parse(base64UrlDecode(token.split(".")[1] || "")).iss;
+  } catch {
+    return undefined;
+  }
+}
+
+function createToken(claims: Record<string, any>, secret: string, ttlSeconds: number): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64UrlEncode(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64UrlEncode(JSON.stringify({
+    ...claims,
+    iat: now,
+    exp: now + ttlSeconds
+  }));
+
+  return `${header}.${payload}.${sign(`${header}.${payload}`, secret)}`;
+}
+
+/**
+ * Issue a token for local development, signed with LOCAL_AUTH_SECRET
+ */
+export function issueLocalToken(userId: string, email?: string, ttlSeconds = LOCAL_TOKEN_TTL_SECONDS): string {
+  const secret = process.env.LOCAL_AUTH_SECRET;
+  if (!secret) {
+    throw new Error("LOCAL_AUTH_SECRET is not configured");
+  }
+
+  return createToken({ sub: userId, email, iss: LOCAL_TOKEN_ISSUER }, secret, ttlSeconds);
+}
+
+/**
+ * Issue a short-lived token allowing edits to a PIN-protected project
+ */
+export function issueEditToken(projectId: string): string {
+  return createToken({ sub: projectId, iss: EDIT_TOKEN_ISSUER }, editTokenSecret, EDIT_TOKEN_TTL_SECONDS);
+}
+
+function verifyEditToken(token: string, projectId: string): boolean {
+  const claims = verifyHS256(token, editTokenSecret);
+  return !!claims && claims.iss === EDIT_TOKEN_ISSUER && claims.sub === projectId;
+}
+
+/**
+ * Issue a token for downloading one stored file. Images and documents are
+ * loaded by <img> tags and links, which can't send an Authorization header.
+ */
+export function issueFileToken(bucket: string, path: string, ttlSeconds = FILE_TOKEN_TTL_SECONDS): string {
+  return createToken({ sub: `${bucket}/${path}`, iss: FILE_TOKEN_ISSUER }, editTokenSecret, ttlSeconds);
+}
+
+export function verifyFileToken(token: string, bucket: string, path: string): boolean {
+  const claims = verifyHS256(token, editTokenSecret);
+  return !!claims && claims.iss === FILE_TOKEN_ISSUER && claims.sub === `${bucket}/${path}`;
+}
+
+/**
+ * Resolve the user for a bearer token. Supabase access tokens are verified
+ * with SUPABASE_JWT_SECRET, local tokens with LOCAL_AUTH_SECRET.
+ */
+export function verifyToken(token: string): AuthUser | null {
+  const isLocal = readIssuer(token) === LOCAL_TOKEN_ISSUER;
+  const secret = isLocal ? process.env.LOCAL_AUTH_SECRET : process.env.SUPABASE_JWT_SECRET;
+  if (!secret) return null;
+
+  const claims = verifyHS256(token, secret);
+  if (!claims || typeof claims.sub !== "string") return null;
+
+  return {
+    id: claims.sub,
+    email: typeof claims.email === "string" ? claims.email : undefined,
+    source: isLocal ? "local" : "supabase"
+  };
+}
+
+function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith("Bearer ")) return null;
+  return header.slice("Bearer ".length).trim() || null;
+}
+
+function authenticate(req: Request): AuthUser | null {
+  const token = getBearerToken(req);
+  return token ? verifyToken(token) : null;
+}
+
+/**
+ * Require a valid bearer token and attach the user to req.auth
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const token = getBearerToken(req);
+  if (!token) {
+    return res.status(401).json({
+      message: "Unauthorized",
+      details: "Missing bearer token",
+      help: "Send the session access token in the Authorization header"
+    });
+  }
+
+  const user = verifyToken(token);
+  if (!user) {
+    return res.status(401).json({
+      message: "Unauthorized",
+      details: "Invalid or expired token"
+    });
+  }
+
+  req.auth = user;
+  next();
+}
+
+// Each role can do everything the roles after it can
+const ROLE_RANK: Record<ProjectRole, number> = { owner: 3, editor: 2, contributor: 1, viewer: 0 };
+
+export function hasProjectRole(role: ProjectRole | null | undefined, required: ProjectRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * A user's role in a project, or null if they aren't a member. The
+ * project's primary owner is always an owner.
+ */
+export async function getProjectRole(project: Project, userId: string): Promise<ProjectRole | null> {
+  if (project.user_id === userId) return "owner";
+  const storage = await getStorage();
+  const member = await storage.getProjectMember(project.id, userId);
+  return member?.role ?? null;
+}
+
+/**
+ * Load a project and check that the authenticated user has at least the
+ * required role in it
+ */
+async function authorizeProject(req: Request, res: Response, next: NextFunction, projectId: string | undefined, required: ProjectRole) {
+  if (!req.auth) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  if (!projectId) {
+    return res.status(404).json({ message: "Project not found" });
+  }
+
+  const storage = await getStorage();
+  const project = await storage.getProject(projectId);
+  if (!project) {
+    return res.status(404).json({ message: "Project not found" });
+  }
+
+  const role = await getProjectRole(project, req.auth.id);
+  if (!hasProjectRole(role, required)) {
+    console.log(`Access denied for project ${projectId}: user ${req.auth.id} has role ${role ?? "none"}, needs ${required}`);
+    return res.status(403).json({ message: "Access denied" });
+  }
+
+  req.project = project;
+  req.projectRole = role!;
+  next();
+}
+
+/**
+ * Allow writes from members with at least the required role, or from anyone
+ * holding an edit token when the project requires a PIN for editing
+ */
+async function authorizeProjectEdit(req: Request, res: Response, next: NextFunction, projectId: string | undefined, required: ProjectRole) {
+  if (!projectId) {
+    return res.status(404).json({ message: "Project not found" });
+  }
+
+  const storage = await getStorage();
+  const project = await storage.getProject(projectId);
+  if (!project) {
+    return res.status(404).json({ message: "Project not found" });
+  }
+
+  const user = req.auth || authenticate(req);
+  if (user) {
+    req.auth = user;
+  }
+
+  const role = user ? await getProjectRole(project, user.id) : null;
+  if (hasProjectRole(role, required)) {
+    req.project = project;
+    req.projectRole = role!;
+    return next();
+  }
+
+  // The PIN unlocks editing for people without an account, as an editor
+  const pinUnlocks = project.require_pin && hasProjectRole("editor", required);
+  const editToken = req.headers["x-edit-token"];
+  if (pinUnlocks && typeof editToken === "string" && verifyEditToken(editToken, project.id)) {
+    req.project = project;
+    req.editToken = true;
+    return next();
+  }
+
+  // pin_required tells the client to ask for the PIN and try again
+  if (!user) {
+    return res.status(401).json({
+      message: "Unauthorized",
+      details: project.require_pin ? "Sign in as a project member or unlock the project with its PIN" : "Missing bearer token",
+      ...(pinUnlocks && { pin_required: true })
+    });
+  }
+
+  console.log(`Edit denied for project ${projectId}: user ${user.id} has role ${role ?? "none"}, needs ${required}`);
+  return res.status(403).json({ message: "Access denied", ...(pinUnlocks && { pin_required: true }) });
+}
+
+type Guard = (req: Request, res: Response, next: NextFunction) => Promise<void>;
+
+// Finds the project a route's resource belongs to. Responds with a 404 and
+// returns null when the resource doesn't exist.
+type ProjectLookup = (req: Request, res: Response) => Promise<string | undefined | null>;
+
+const projectFromParams: ProjectLookup = async (req) => req.params.projectId;
+
+const projectOfRoom: ProjectLookup = async (req, res) => {
+  const storage = await getStorage();
+  const room = await storage.getRoom(req.params.roomId);
+  if (!room) {
+    res.status(404).json({ message: "Room not found" });
+    return null;
+  }
+  return room.project_id;
+};
+
+const projectOfItem: ProjectLookup = async (req, res) => {
+  const storage = await getStorage();
+  const item = await storage.getItem(req.params.id);
+  if (!item) {
+    res.status(404).json({ message: "Item not found" });
+    return null;
+  }
+  const room = await storage.getRoom(item.room_id);
+  return room?.project_id;
+};
+
+const projectOfFinish: ProjectLookup = async (req, res) => {
+  const storage = await getStorage();
+  const finish = await storage.getFinish(req.params.finishId);
+  if (!finish) {
+    res.status(404).json({ message: "Finish not found" });
+    return null;
+  }
+  return finish.project_id;
+};
+
+const projectOfDocument: ProjectLookup = async (req, res) => {
+  const storage = await getStorage();
+  const document = await storage.getDocument(req.params.documentId);
+  if (!document) {
+    res.status(404).json({ message: "Document not found" });
+    return null;
+  }
+  return document.project_id;
+};
+
+const projectOfMaintenanceTask: ProjectLookup = async (req, res) => {
+  const storage = await getStorage();
+  const task = await storage.getMaintenanceTask(req.params.taskId);
+  if (!task) {
+    res.status(404).json({ message: "Maintenance task not found" });
+    return null;
+  }
+  return task.project_id;
+};
+
+const projectOfWarranty: ProjectLookup = async (req, res) => {
+  const storage = await getStorage();
+  const warranty = await storage.getWarranty(req.params.warrantyId);
+  if (!warranty) {
+    res.status(404).json({ message: "Warranty not found" });
+    return null;
+  }
+  return warranty.project_id;
+};
+
+// Read guard: needs a signed-in member with at least the given role
+function memberGuard(lookup: ProjectLookup, required: ProjectRole): Guard {
+  return async (req, res, next) => {
+    try {
+      const projectId = await lookup(req, res);
+      if (projectId === null) return;
+      await authorizeProject(req, res, next, projectId, required);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Write guard: also lets the edit PIN through, for roles it covers
+function editGuard(lookup: ProjectLookup, required: ProjectRole): Guard {
+  return async (req, res, next) => {
+    try {
+      const projectId = await lookup(req, res);
+      if (projectId === null) return;
+      await authorizeProjectEdit(req, res, next, projectId, required);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Guards for /api/projects/:projectId/* routes
+export const requireProjectMember = memberGuard(projectFromParams, "viewer");
+export const requireProjectOwner = memberGuard(projectFromParams, "owner");
+export const requireProjectContributor = editGuard(projectFromParams, "contributor");
+export const requireProjectEditor = editGuard(projectFromParams, "editor");
+
+// Guards for /api/rooms/:roomId/* routes
+export const requireRoomMember = memberGuard(projectOfRoom, "viewer");
+export const requireRoomContributor = editGuard(projectOfRoom, "contributor");
+export const requireRoomEditor = editGuard(projectOfRoom, "editor");
+
+// Guards for /api/items/:id/* routes
+export const requireItemMember = memberGuard(projectOfItem, "viewer");
+export const requireItemContributor = editGuard(projectOfItem, "contributor");
+export const requireItemEditor = editGuard(projectOfItem, "editor");
+
+// Guards for /api/finishes/:finishId/* routes
+export const requireFinishMember = memberGuard(projectOfFinish, "viewer");
+export const requireFinishContributor = editGuard(projectOfFinish, "contributor");
+
+// Guards for /api/documents/:documentId routes
+export const requireDocumentContributor = editGuard(projectOfDocument, "contributor");
+export const requireDocumentEditor = editGuard(projectOfDocument, "editor");
+
+// Guards for /api/maintenance/:taskId/* routes
+export const requireMaintenanceTaskMember = memberGuard(projectOfMaintenanceTask, "viewer");
+export const requireMaintenanceTaskContributor = editGuard(projectOfMaintenanceTask, "contributor");
+export const requireMaintenanceTaskEditor = editGuard(projectOfMaintenanceTask, "editor");
+export const requireWarrantyContributor = editGuard(projectOfWarranty, "contributor");
+export const requireWarrantyEditor = editGuard(projectOfWarranty, "editor");
+
+/**
+ * Guard for /api/conversations/:conversationId/* routes. Conversations are
+ * private to the user who started them, within a project they're a member of.
+ */
+export async function requireConversationOwner(req: Request, res: Response, next: NextFunction) {
+  try {
+    const storage = await getStorage();
+    const conversation = await storage.getConversation(req.params.conversationId);
+    if (!conversation || conversation.user_id !== req.auth?.id) {
+      console.log(`Access denied for conversation ${req.params.conversationId}: conversation user ${conversation?.user_id} != request user ${req.auth?.id}`);
+      return res.status(403).json({ message: "Access denied" });
+    }
+    req.conversation = conversation;
+    await authorizeProject(req, res, next, conversation.project_id, "viewer");
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,198 @@
+import type { Project } from "@shared/schema";
+import { storage } from "./storage";
+import { addDays } from "./dates";
+import { MaintenanceSchedule, SEASON_START_MONTH, type ScheduledMaintenanceTask } from "./maintenance-schedule";
+import { WarrantyTracker, type TrackedWarranty } from "./warranties";
+
+// Days before a warranty expires that calendar apps show a reminder
+const WARRANTY_REMINDER_DAYS = 30;
+
+/**
+ * An all-day event in a project's calendar. uid stays the same for the same
+ * task, warranty or item so calendar apps update events instead of adding
+ * duplicates each time they refresh the feed.
+ */
+export interface CalendarEvent {
+  uid: string;
+  date: string;
+  summary: string;
+  description?: string;
+  // Recurrence rule without the "RRULE:" prefix
+  rrule?: string;
+  reminderDays?: number;
+}
+
+// Escape a value for a TEXT property (RFC 5545 section 3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function toICalDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function toICalTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Render events as an iCalendar (.ics) document
+ */
+export function toICalendar(name: string, events: CalendarEvent[], generatedAt: Date = new Date()): string {
+  const stamp = toICalTimestamp(generatedAt);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//HomeSpec//Project Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    // Ask subscribed calendars to refresh a few times a day
+    "REFRESH-INTERVAL;VALUE=DURATION:PT6H",
+    "X-PUBLISHED-TTL:PT6H"
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toICalDate(event.date)}`,
+      `DTEND;VALUE=DATE:${toICalDate(addDays(event.date, 1))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      "TRANSP:TRANSPARENT"
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+    if (event.reminderDays !== undefined) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(event.summary)}`,
+        `TRIGGER:-P${event.reminderDays}D`,
+        "END:VALARM"
+      );
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// How a maintenance task repeats, from the next time it's due
+function maintenanceRule(task: ScheduledMaintenanceTask): string | undefined {
+  if (task.recurrence === "interval" && task.interval_months) {
+    return task.interval_months % 12 === 0
+      ? `FREQ=YEARLY;INTERVAL=${task.interval_months / 12}`
+      : `FREQ=MONTHLY;INTERVAL=${task.interval_months}`;
+  }
+  if (task.recurrence === "seasonal" && task.seasons?.length) {
+    const months = task.seasons.map(season => SEASON_START_MONTH[season]).sort((a, b) => a - b);
+    return `FREQ=YEARLY;BYMONTH=${months.join(",")};BYMONTHDAY=1`;
+  }
+  return undefined;
+}
+
+function maintenanceEvent(task: ScheduledMaintenanceTask, domain: string): CalendarEvent | null {
+  // Done one-off tasks have nothing left to schedule
+  if (!task.next_due_date) return null;
+  const details = [task.subject && `For: ${task.subject.name}`, task.description].filter(Boolean);
+  return {
+    uid: `maintenance-${task.id}@${domain}`,
+    date: task.next_due_date,
+    summary: task.subject ? `${task.title} (${task.subject.name})` : task.title,
+    description: details.join("\n\n") || undefined,
+    rrule: maintenanceRule(task),
+    reminderDays: 1
+  };
+}
+
+function warrantyEvent(warranty: TrackedWarranty, domain: string): CalendarEvent | null {
+  if (!warranty.expires_on) return null;
+  const details = [
+    warranty.provider && `Provider: ${warranty.provider}`,
+    warranty.registration_number && `Registration number: ${warranty.registration_number}`,
+    warranty.claim_contact && `Claims: ${warranty.claim_contact}`,
+    warranty.notes
+  ].filter(Boolean);
+  return {
+    uid: `warranty-${warranty.id}@${domain}`,
+    date: warranty.expires_on,
+    summary: `Warranty expires: ${warranty.subject?.name || warranty.provider || "Home"}`,
+    description: details.join("\n") || undefined,
+    reminderDays: WARRANTY_REMINDER_DAYS
+  };
+}
+
+export class ProjectCalendar {
+  /**
+   * Everything dated in a project as calendar events: maintenance (repeating
+   * from when it's next due), warranty expiries, installation dates and the
+   * completion date. domain makes the event UIDs globally unique.
+   */
+  static async events(project: Project, domain: string): Promise<CalendarEvent[]> {
+    const events: CalendarEvent[] = [];
+
+    if (project.completion_date) {
+      events.push({
+        uid: `project-${project.id}-completion@${domain}`,
+        date: project.completion_date,
+        summary: `${project.name} completed`,
+        description: project.address || undefined
+      });
+    }
+
+    for (const room of await storage.getRoomsByProjectId(project.id)) {
+      for (const item of await storage.getItemsByRoomId(room.id)) {
+        if (!item.installation_date) continue;
+        events.push({
+          uid: `item-${item.id}-installed@${domain}`,
+          date: item.installation_date,
+          summary: `Installed: ${item.name}`,
+          description: [room.name, item.brand].filter(Boolean).join(" · ") || undefined
+        });
+      }
+    }
+
+    for (const task of await MaintenanceSchedule.forProject(project.id)) {
+      const event = maintenanceEvent(task, domain);
+      if (event) events.push(event);
+    }
+
+    for (const warranty of await WarrantyTracker.forProject(project.id)) {
+      const event = warrantyEvent(warranty, domain);
+      if (event) events.push(event);
+    }
+
+    return events;
+  }
+
+  static async toICalendar(project: Project, domain: string): Promise<string> {
+    return toICalendar(project.name, await this.events(project, domain));
+  }
+}
@@ -1,8 +1,83 @@
 import { LLMFactory } from "./llm/factory";
-import { LLMMessage, LLMConfig } from "./llm/types";
+import { LLMMessage, LLMConfig, LLMResponse, LLMStreamChunk, LLMToolCall, LLMToolDefinition, BaseLLMProvider } from "./llm/types";
 import { storage } from "./storage";
+import { KnowledgeIndexer, type RetrievedChunk } from "./knowledge-indexer";
+import { ChatTools, type ToolContext } from "./chat-tools";
+import { getContextWindow, countTokens, countMessageTokens, countMessagesTokens, countToolTokens } from "./llm/tokenizer";
+import type { ChatSettings, Conversation, Message, MessageCitation, MessageToolCall, ProjectRole } from "@shared/schema";
+
+// Number of knowledge base records retrieved for each message
+const RETRIEVAL_TOP_K = 8;
+
+// Fraction of the context window held back because token counts for
+// providers without a published tokenizer are estimates
+const CONTEXT_SAFETY_MARGIN = 0.05;
+
+// The project context gets this share of the tokens left after the required
+// messages, up to a fixed cap so large windows don't fill with marginal records
+const CONTEXT_BUDGET_SHARE = 0.4;
+const MAX_CONTEXT_TOKENS = 4000;
+
+// Token budget for the summary that stands in for history that doesn't fit
+const HISTORY_SUMMARY_TOKENS = 300;
+const TOKENS_PER_SUMMARY_MESSAGE = 4;
+
+// Source tags in responses, e.g. [S3] or [S1, S4]
+const CITATION_PATTERN = /\[(S\d+(?:\s*,\s*S\d+)*)\]/g;
+
+const CITATION_INSTRUCTIONS = 'Each record above is tagged with a source reference such as [S1]. ' +
+  'When your answer uses a record, cite its tag in square brackets right after the statement, ' +
+  'e.g. "The countertops are quartz [S3]." For document excerpts also name the document and page in words, ' +
+  'e.g. "page 4 of the dishwasher manual". Only cite tags that appear in this context.';
+
+// Maximum model round trips for one response while the model keeps calling tools
+const MAX_TOOL_ROUNDS = 5;
+
+const TOOL_INSTRUCTIONS = 'You can look up and change the home record with the tools provided. ' +
+  'Changes are shown to the user to confirm before they are made, so call the tool directly ' +
+  'instead of asking for permission first. Use search_items to find item IDs.';
+
+// Saved as the assistant's reply when it proposes changes without any text
+const CONFIRMATION_PROMPT = 'Please confirm the change below.';
+
+const TITLE_PROMPT = 'Write a short title, at most six words, for a conversation about a home project ' +
+  'that starts with the exchange below. Reply with the title only, without quotes.';
+const TITLE_MAX_TOKENS = 50;
+const MAX_TITLE_LENGTH = 80;
+
+const SUMMARY_PROMPT = 'You maintain a running summary of a conversation between a homeowner and an assistant ' +
+  'about their home project. Merge the new messages into the current summary. Keep the facts, decisions, ' +
+  'item and room names, changes made and open questions; drop small talk. ' +
+  'Reply with the updated summary only, in under 250 words.';
+const SUMMARY_MAX_TOKENS = 500;
+
+// Characters of each message passed to the model when titling or summarizing
+const MAX_TRANSCRIPT_MESSAGE_CHARS = 2000;
+
+interface ProjectContext {
+  text: string;
+  sources: MessageCitation[];
+}
+
+interface PreparedConversation {
+  provider: BaseLLMProvider;
+  llmConfig: LLMConfig;
+  conversationMessages: LLMMessage[];
+  sources: MessageCitation[];
+  tools?: LLMToolDefinition[];
+}
+
+// A read-only tool the assistant ran while answering, recorded in messages.metadata.tools_used
+interface ToolUse {
+  name: string;
+  arguments: Record<string, any>;
+}
 
 export class ChatService {
+  // Serializes confirmations for the same message so their updates don't overwrite each other
+  private static toolCallLocks: Map<string, Promise<unknown>> = new Map();
+  private static upkeepInFlight: Map<string, Promise<void>> = new Map();
+
   /**
    * Process a chat message and generate AI response
    */
@@ -10,125 +85,678 @@ export class ChatService {
     conversationId: string,
     userMessage: string,
     userId: string,
-    projectId: string
+    projectId: string,
+    role: ProjectRole
   ) {
     try {
-      // Get chat settings for the user/project, create default if none exist
-      let settings = await storage.getChatSettings(projectId, userId);
-      if (!settings) {
-        console.log(`🔧 Creating default chat settings for user ${userId} in project ${projectId}`);          // Create default chat settings
-        const defaultSettings = {
-          project_id: projectId,
-          user_id: userId,
-          provider: 'openai' as const,
-          model: 'gpt-4o-mini',
-          temperature: '0.7',
-          max_tokens: 1000,
-          system_prompt: 'You are a helpful AI assistant for home construction and renovation projects. Use the project context provided to answer questions about specific items, materials, and rooms in the user\'s project. When asked about specific items like "what kind of countertops do I have?", refer to the project data to give accurate, detailed answers including brands, specifications, suppliers, and status information.',
-          restrict_to_project_data: true,
-          enable_web_search: false,
-          max_conversation_length: 50
-        };
-        
-        try {
-          settings = await storage.createChatSettings(defaultSettings);
-          console.log('✅ Default chat settings created successfully');
-        } catch (error) {
-          console.error('❌ Failed to create default chat settings:', error);
-          throw new Error('Failed to initialize chat settings. Please try again.');
+      const prepared = await this.prepareConversation(conversationId, userMessage, userId, projectId, role);
+      return await this.respond(conversationId, prepared, { projectId, userId, role });
+    } catch (error) {
+      console.error('Chat service error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Process a chat message, passing the AI response to onDelta as it is generated.
+   * The assistant message is saved once the stream ends; if the signal aborts
+   * (e.g. the client disconnected) whatever was generated so far is saved.
+   */
+  static async streamMessage(
+    conversationId: string,
+    userMessage: string,
+    userId: string,
+    projectId: string,
+    role: ProjectRole,
+    onDelta: (content: string) => void,
+    signal?: AbortSignal
+  ) {
+    const prepared = await this.prepareConversation(conversationId, userMessage, userId, projectId, role);
+    const { provider, llmConfig, tools, sources } = prepared;
+    const conversationMessages = [...prepared.conversationMessages];
+    const toolContext: ToolContext = { projectId, userId, role };
+
+    let content = '';
+    let needsSeparator = false;
+    let finalChunk: LLMStreamChunk | undefined;
+    let streamError: unknown;
+    let usage: LLMResponse['usage'];
+    let pendingCalls: MessageToolCall[] = [];
+    const toolsUsed: ToolUse[] = [];
+
+    const emit = (delta: string) => {
+      // Keep text from separate tool rounds in separate paragraphs
+      if (needsSeparator) {
+        delta = `\n\n${delta}`;
+        needsSeparator = false;
+      }
+      content += delta;
+      onDelta(delta);
+    };
+
+    for (let round = 1; round <= MAX_TOOL_ROUNDS; round++) {
+      let roundContent = '';
+      finalChunk = undefined;
+      needsSeparator = content.length > 0;
+
+      try {
+        for await (const chunk of provider.generateStream(conversationMessages, signal, tools)) {
+          if (chunk.done) {
+            finalChunk = chunk;
+            break;
+          }
+          if (chunk.content) {
+            roundContent += chunk.content;
+            emit(chunk.content);
+          }
+        }
+      } catch (error) {
+        if (!signal?.aborted) {
+          streamError = error;
         }
       }
 
-      // Get conversation history - use unified storage
-      const messages = await storage.getConversationMessages(conversationId);
-      
-      // Limit conversation history based on settings
-      const limitedMessages = messages.slice(-settings.max_conversation_length);
+      if (!finalChunk) break;
+      usage = this.addUsage(usage, finalChunk.usage);
 
-      // Build LLM configuration
-      const llmConfig: LLMConfig = {
-        provider: settings.provider,
-        model: settings.model,
-        apiKey: this.getApiKeyForProvider(settings.provider),
-        temperature: parseFloat(settings.temperature),
-        maxTokens: settings.max_tokens
-      };
+      const toolCalls = finalChunk.tool_calls || [];
+      if (toolCalls.length === 0 || round === MAX_TOOL_ROUNDS) break;
 
-      // Build conversation context
-      const conversationMessages: LLMMessage[] = [];
+      pendingCalls = await this.runToolCalls(toolCalls, roundContent, conversationMessages, toolContext, toolsUsed);
+      if (pendingCalls.length > 0) break;
+    }
 
-      // Add system prompt if configured
-      if (settings.system_prompt) {
-        conversationMessages.push({
-          role: 'system',
-          content: settings.system_prompt
-        });
+    const interrupted = !finalChunk;
+    if (interrupted && !content) {
+      if (streamError) {
+        console.error('Chat stream error:', streamError);
+        throw streamError;
       }
+      // Aborted before the model produced anything, so there is nothing to save
+      return { message: null, usage: undefined };
+    }
 
-      // Add project context if enabled
-      if (settings.restrict_to_project_data) {
-        const projectContext = await this.getProjectContext(projectId, userMessage);
-        if (projectContext) {
-          conversationMessages.push({
-            role: 'system',
-            content: `Project Context:\n${projectContext}`
-          });
+    if (!content && pendingCalls.length > 0) {
+      content = CONFIRMATION_PROMPT;
+      onDelta(content);
+    }
+
+    // Save AI response to database - use unified storage
+    const assistantMessage = await storage.createMessage({
+      conversation_id: conversationId,
+      role: 'assistant',
+      content,
+      token_count: usage?.completion_tokens || this.countTokens(content, llmConfig),
+      metadata: {
+        model: finalChunk?.model || llmConfig.model,
+        usage,
+        finish_reason: interrupted
+          ? (signal?.aborted ? 'client_disconnected' : 'error')
+          : finalChunk?.finish_reason,
+        interrupted,
+        citations: this.extractCitations(content, sources),
+        ...(pendingCalls.length > 0 && { tool_calls: pendingCalls }),
+        ...(toolsUsed.length > 0 && { tools_used: toolsUsed })
+      }
+    });
+
+    this.scheduleConversationUpkeep(conversationId, toolContext);
+
+    return {
+      message: assistantMessage,
+      usage
+    };
+  }
+
+  /**
+   * Confirm or reject a change the assistant proposed. Once every change in
+   * the message has been decided, the model is asked to follow up on the
+   * outcome. Returns null if the message or tool call does not exist.
+   */
+  static async resolveToolCall(
+    conversationId: string,
+    messageId: string,
+    toolCallId: string,
+    approved: boolean,
+    userId: string,
+    projectId: string,
+    role: ProjectRole
+  ): Promise<{ message: Message; followUp: Message | null; alreadyResolved: boolean } | null> {
+    const previous = this.toolCallLocks.get(messageId) || Promise.resolve();
+    const decision = previous.then(() => this.applyToolDecision(conversationId, messageId, toolCallId, approved, { projectId, userId, role }));
+
+    const lock = decision.catch(() => undefined);
+    this.toolCallLocks.set(messageId, lock);
+    lock.then(() => {
+      if (this.toolCallLocks.get(messageId) === lock) {
+        this.toolCallLocks.delete(messageId);
+      }
+    });
+
+    const result = await decision;
+    if (!result || result.alreadyResolved || result.hasPending) {
+      return result && { message: result.message, followUp: null, alreadyResolved: result.alreadyResolved };
+    }
+
+    // Let the model report back on what happened
+    let followUp: Message | null = null;
+    try {
+      const prepared = await this.prepareConversation(conversationId, null, userId, projectId, role);
+      const response = await this.respond(conversationId, prepared, { projectId, userId, role });
+      followUp = response.message;
+    } catch (error) {
+      console.error('Failed to generate follow-up after tool call:', error);
+    }
+
+    return { message: result.message, followUp, alreadyResolved: false };
+  }
+
+  private static async applyToolDecision(
+    conversationId: string,
+    messageId: string,
+    toolCallId: string,
+    approved: boolean,
+    context: ToolContext
+  ): Promise<{ message: Message; alreadyResolved: boolean; hasPending: boolean } | null> {
+    const message = await storage.getMessage(messageId);
+    if (!message || message.conversation_id !== conversationId) return null;
+
+    const metadata = (message.metadata || {}) as Record<string, any>;
+    const toolCalls: MessageToolCall[] = metadata.tool_calls || [];
+    const call = toolCalls.find(c => c.id === toolCallId);
+    if (!call) return null;
+
+    if (call.status !== 'pending') {
+      return { message, alreadyResolved: true, hasPending: false };
+    }
+
+    let resolved: MessageToolCall;
+    if (!approved) {
+      resolved = { ...call, status: 'rejected' };
+    } else {
+      try {
+        const result = await ChatTools.execute(call, context);
+        resolved = { ...call, status: 'executed', result };
+      } catch (error) {
+        console.error(`Tool ${call.name} failed:`, error);
+        resolved = { ...call, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    }
+
+    const updatedCalls = toolCalls.map(c => c.id === toolCallId ? resolved : c);
+    const updated = await storage.updateMessage(messageId, {
+      metadata: { ...metadata, tool_calls: updatedCalls }
+    });
+
+    return {
+      message: updated,
+      alreadyResolved: false,
+      hasPending: updatedCalls.some(c => c.status === 'pending')
+    };
+  }
+
+  /**
+   * Generate and save an assistant response, running read-only tools as the
+   * model calls them and stopping at the first change that needs confirmation
+   */
+  private static async respond(conversationId: string, prepared: PreparedConversation, toolContext: ToolContext) {
+    const { provider, tools, sources } = prepared;
+    const conversationMessages = [...prepared.conversationMessages];
+
+    let content = '';
+    let response: LLMResponse | undefined;
+    let usage: LLMResponse['usage'];
+    let pendingCalls: MessageToolCall[] = [];
+    const toolsUsed: ToolUse[] = [];
+
+    for (let round = 1; round <= MAX_TOOL_ROUNDS; round++) {
+      response = await provider.generateResponse(conversationMessages, tools);
+      usage = this.addUsage(usage, response.usage);
+      if (response.content) {
+        content = content ? `${content}\n\n${response.content}` : response.content;
+      }
+
+      const toolCalls = response.tool_calls || [];
+      if (toolCalls.length === 0 || round === MAX_TOOL_ROUNDS) break;
+
+      pendingCalls = await this.runToolCalls(toolCalls, response.content, conversationMessages, toolContext, toolsUsed);
+      if (pendingCalls.length > 0) break;
+    }
+
+    if (!content && pendingCalls.length > 0) {
+      content = CONFIRMATION_PROMPT;
+    }
+
+    // Save AI response to database - use unified storage
+    const assistantMessage = await storage.createMessage({
+      conversation_id: conversationId,
+      role: 'assistant',
+      content,
+      token_count: usage?.completion_tokens || this.countTokens(content, prepared.llmConfig),
+      metadata: {
+        model: response?.model,
+        usage,
+        finish_reason: response?.finish_reason,
+        citations: this.extractCitations(content, sources),
+        ...(pendingCalls.length > 0 && { tool_calls: pendingCalls }),
+        ...(toolsUsed.length > 0 && { tools_used: toolsUsed })
+      }
+    });
+
+    // Update conversation timestamp
+    // TODO: Fix this TypeScript error in schema
+    // await storage.updateConversation(conversationId, {
+    //   updated_at: new Date().toISOString()
+    // });
+
+    this.scheduleConversationUpkeep(conversationId, toolContext);
+
+    return {
+      message: assistantMessage,
+      usage
+    };
+  }
+
+  /**
+   * Handle one round of tool calls. Read-only tools run straight away and
+   * their results are added to the conversation for the next round; tools
+   * that change the project are returned as pending for the user to confirm.
+   */
+  private static async runToolCalls(
+    toolCalls: LLMToolCall[],
+    roundContent: string,
+    conversationMessages: LLMMessage[],
+    context: ToolContext,
+    toolsUsed: ToolUse[]
+  ): Promise<MessageToolCall[]> {
+    const results: LLMMessage[] = [];
+    const pending: MessageToolCall[] = [];
+
+    for (const call of toolCalls) {
+      if (ChatTools.requiresConfirmation(call.name)) {
+        try {
+          const summary = await ChatTools.summarize(call, context);
+          pending.push({ id: call.id, name: call.name, arguments: call.arguments, summary, status: 'pending' });
+        } catch (error) {
+          // Invalid proposals go back to the model to correct instead of to the user
+          results.push(this.toolResultMessage(call, `Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
         }
+        continue;
       }
 
-      // Add conversation history
-      limitedMessages.forEach(msg => {
-        conversationMessages.push({
-          role: msg.role as 'user' | 'assistant' | 'system',
-          content: msg.content
-        });
+      let output: string;
+      try {
+        output = await ChatTools.execute(call, context);
+        toolsUsed.push({ name: call.name, arguments: call.arguments });
+      } catch (error) {
+        output = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+      results.push(this.toolResultMessage(call, output));
+    }
+
+    if (pending.length === 0) {
+      conversationMessages.push({ role: 'assistant', content: roundContent, tool_calls: toolCalls }, ...results);
+    }
+
+    return pending;
+  }
+
+  private static toolResultMessage(call: LLMToolCall, content: string): LLMMessage {
+    return { role: 'tool', tool_call_id: call.id, name: call.name, content };
+  }
+
+  /**
+   * Describe the outcome of a proposed change for the model
+   */
+  private static describeToolOutcome(call: MessageToolCall): string {
+    switch (call.status) {
+      case 'executed':
+        return call.result || 'Done.';
+      case 'rejected':
+        return 'The user declined this change.';
+      case 'failed':
+        return `Error: ${call.error || 'The change failed.'}`;
+      case 'cancelled':
+        return 'The user moved on without confirming this change, so it was not made.';
+      default:
+        return 'Waiting for the user to confirm this change.';
+    }
+  }
+
+  private static addUsage(total: LLMResponse['usage'], usage: LLMResponse['usage']): LLMResponse['usage'] {
+    if (!usage) return total;
+    if (!total) return usage;
+    return {
+      prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+      completion_tokens: total.completion_tokens + usage.completion_tokens,
+      total_tokens: total.total_tokens + usage.total_tokens
+    };
+  }
+
+  /**
+   * Load settings and build the prompt for the model. When userMessage is
+   * given it is added and saved; otherwise the model continues from the
+   * saved history (e.g. after the user confirms a change).
+   */
+  private static async prepareConversation(
+    conversationId: string,
+    userMessage: string | null,
+    userId: string,
+    projectId: string,
+    role: ProjectRole
+  ): Promise<PreparedConversation> {
+    // Get chat settings for the user/project, create default if none exist
+    let settings = await storage.getChatSettings(projectId, userId);
+    if (!settings) {
+      console.log(`🔧 Creating default chat settings for user ${userId} in project ${projectId}`);          // Create default chat settings
+      const defaultSettings = {
+        project_id: projectId,
+        user_id: userId,
+        provider: 'openai' as const,
+        model: 'gpt-4o-mini',
+        temperature: '0.7',
+        max_tokens: 1000,
+        system_prompt: 'You are a helpful AI assistant for home construction and renovation projects. Use the project context provided to answer questions about specific items, materials, and rooms in the user\'s project. When asked about specific items like "what kind of countertops do I have?", refer to the project data to give accurate, detailed answers including brands, specifications, suppliers, and status information.',
+        restrict_to_project_data: true,
+        enable_web_search: false,
+        max_conversation_length: 50
+      };
+      
+      try {
+        settings = await storage.createChatSettings(defaultSettings);
+        console.log('✅ Default chat settings created successfully');
+      } catch (error) {
+        console.error('❌ Failed to create default chat settings:', error);
+        throw new Error('Failed to initialize chat settings. Please try again.');
+      }
+    }
+
+    // Get conversation history - use unified storage
+    const messages = await storage.getConversationMessages(conversationId);
+
+    // Replying instead of confirming cancels any changes still awaiting confirmation
+    if (userMessage !== null) {
+      await this.cancelPendingToolCalls(messages);
+    }
+    
+    // Messages folded into the rolling summary are replaced by it; the rest
+    // are limited based on settings
+    const conversation = await storage.getConversation(conversationId);
+    const summary = conversation?.summary || null;
+    const summarizedCount = summary ? conversation!.summary_message_count : 0;
+    const limitedMessages = messages.slice(summarizedCount).slice(-settings.max_conversation_length);
+
+    // Build LLM configuration
+    const llmConfig = this.buildLLMConfig(settings);
+    const provider = LLMFactory.getProvider(llmConfig);
+    const tools = provider.supportsTools() ? ChatTools.getDefinitions(role) : undefined;
+
+    // Build conversation context. Everything except the history is required;
+    // the history gets whatever token budget the rest leaves over.
+    const systemMessages: LLMMessage[] = [];
+
+    // Add system prompt if configured
+    if (settings.system_prompt) {
+      systemMessages.push({
+        role: 'system',
+        content: settings.system_prompt
       });
+    }
 
-      // Add current user message
-      conversationMessages.push({
-        role: 'user',
-        content: userMessage
+    if (tools) {
+      systemMessages.push({
+        role: 'system',
+        content: TOOL_INSTRUCTIONS
       });
+    }
+
+    if (summary) {
+      systemMessages.push({
+        role: 'system',
+        content: `Summary of the earlier conversation:\n${summary}`
+      });
+    }
 
+    const newTurn: LLMMessage[] = userMessage !== null ? [{ role: 'user', content: userMessage }] : [];
+
+    const count = (text: string) => this.countTokens(text, llmConfig);
+    const contextWindow = getContextWindow(llmConfig.provider, llmConfig.model);
+    const inputBudget = Math.floor(contextWindow * (1 - CONTEXT_SAFETY_MARGIN)) - (llmConfig.maxTokens || 1000);
+    let remaining = inputBudget -
+      countMessagesTokens([...systemMessages, ...newTurn], llmConfig.provider, llmConfig.model) -
+      countToolTokens(tools, llmConfig.provider, llmConfig.model);
+
+    if (remaining < 0) {
+      throw new Error(`Message is too long for ${llmConfig.model}'s context window. Please shorten it and try again.`);
+    }
+
+    // Add project context if enabled
+    let sources: MessageCitation[] = [];
+    if (settings.restrict_to_project_data) {
+      const lastUserMessage = [...messages].reverse().find(msg => msg.role === 'user');
+      const query = userMessage ?? lastUserMessage?.content ?? '';
+      const contextBudget = Math.min(MAX_CONTEXT_TOKENS, Math.floor(remaining * CONTEXT_BUDGET_SHARE));
+      const projectContext = await this.getProjectContext(projectId, query, contextBudget, count);
+      if (projectContext) {
+        sources = projectContext.sources;
+        const contextMessage: LLMMessage = {
+          role: 'system',
+          content: `Project Context:\n${projectContext.text}`
+        };
+        systemMessages.push(contextMessage);
+        remaining -= countMessageTokens(contextMessage, llmConfig.provider, llmConfig.model);
+      }
+    }
+
+    // Add as much recent history as fits, including the outcome of any changes the assistant proposed
+    const history = this.fitHistory(limitedMessages, remaining, !!tools, llmConfig);
+    const conversationMessages: LLMMessage[] = [...systemMessages, ...history, ...newTurn];
+
+    console.log(`🧮 Prompt budget for ${llmConfig.model}: ${inputBudget} tokens, ` +
+      `${countMessagesTokens(conversationMessages, llmConfig.provider, llmConfig.model)} used`);
+
+    if (userMessage !== null) {
       // Save user message to database - use unified storage
       await storage.createMessage({
         conversation_id: conversationId,
         role: 'user',
         content: userMessage,
-        token_count: this.estimateTokens(userMessage)
+        token_count: count(userMessage)
       });
+    }
 
-      // Generate AI response
-      const provider = LLMFactory.getProvider(llmConfig);
-      const response = await provider.generateResponse(conversationMessages);
+    return { provider, llmConfig, conversationMessages, sources, tools };
+  }
 
-      // Save AI response to database - use unified storage
-      const assistantMessage = await storage.createMessage({
-        conversation_id: conversationId,
-        role: 'assistant',
-        content: response.content,
-        token_count: response.usage?.completion_tokens || this.estimateTokens(response.content),
-        metadata: {
-          model: response.model,
-          usage: response.usage,
-          finish_reason: response.finish_reason
-        }
+  /**
+   * Select the newest history that fits in the token budget, keeping whole
+   * messages. Older messages that don't fit are replaced by a short summary.
+   */
+  private static fitHistory(messages: Message[], budget: number, includeToolCalls: boolean, llmConfig: LLMConfig): LLMMessage[] {
+    // Each stored message becomes a group: the message plus the results of its tool calls
+    const groups = messages.map(msg => {
+      const toolCalls: MessageToolCall[] = includeToolCalls ? ((msg.metadata as any)?.tool_calls || []) : [];
+      const group: LLMMessage[] = [{
+        role: msg.role as 'user' | 'assistant' | 'system',
+        content: msg.content,
+        tool_calls: toolCalls.length > 0
+          ? toolCalls.map(call => ({ id: call.id, name: call.name, arguments: call.arguments }))
+          : undefined
+      }];
+      toolCalls.forEach(call => {
+        group.push(this.toolResultMessage(call, this.describeToolOutcome(call)));
       });
-
-      // Update conversation timestamp
-      // TODO: Fix this TypeScript error in schema
-      // await storage.updateConversation(conversationId, {
-      //   updated_at: new Date().toISOString()
-      // });
-
       return {
-        message: assistantMessage,
-        usage: response.usage
+        messages: group,
+        tokens: group.reduce((total, m) => total + countMessageTokens(m, llmConfig.provider, llmConfig.model), 0)
       };
+    });
 
-    } catch (error) {
-      console.error('Chat service error:', error);
-      throw error;
+    const total = groups.reduce((sum, group) => sum + group.tokens, 0);
+    if (total <= budget) {
+      return groups.flatMap(group => group.messages);
+    }
+
+    // Leave room for the summary of what gets dropped
+    const summaryBudget = Math.min(HISTORY_SUMMARY_TOKENS, Math.floor(budget / 4));
+    let available = budget - summaryBudget;
+    let firstKept = groups.length;
+    while (firstKept > 0 && groups[firstKept - 1].tokens <= available) {
+      firstKept--;
+      available -= groups[firstKept].tokens;
+    }
+
+    const kept = groups.slice(firstKept).flatMap(group => group.messages);
+    const summary = this.summarizeOmittedHistory(messages.slice(0, firstKept), summaryBudget, llmConfig);
+    console.log(`✂️ ${firstKept} older messages did not fit in the context window`);
+
+    return summary ? [summary, ...kept] : kept;
+  }
+
+  /**
+   * List the user's earlier questions, newest first until the budget runs out,
+   * so the model knows what was discussed before the history it can see
+   */
+  private static summarizeOmittedHistory(omitted: Message[], budget: number, llmConfig: LLMConfig): LLMMessage | null {
+    const header = `Earlier in this conversation (${omitted.length} messages not shown), the user asked:`;
+    let used = TOKENS_PER_SUMMARY_MESSAGE + this.countTokens(header, llmConfig);
+    const lines: string[] = [];
+
+    const questions = omitted.filter(msg => msg.role === 'user').reverse();
+    for (const question of questions) {
+      const text = question.content.replace(/\s+/g, ' ').trim();
+      const line = `- ${text.length > 200 ? `${text.slice(0, 200)}…` : text}`;
+      const tokens = this.countTokens(`${line}\n`, llmConfig);
+      if (used + tokens > budget) break;
+      lines.unshift(line);
+      used += tokens;
+    }
+
+    if (lines.length === 0) return null;
+    return { role: 'system', content: `${header}\n${lines.join('\n')}` };
+  }
+
+  /**
+   * Title the conversation after its first exchange and fold messages beyond
+   * the history limit into its rolling summary. Runs in the background after
+   * each reply; a failed step is retried after the next one.
+   */
+  private static scheduleConversationUpkeep(conversationId: string, context: ToolContext): void {
+    if (this.upkeepInFlight.has(conversationId)) return;
+
+    const job = this.runConversationUpkeep(conversationId, context)
+      .catch(error => {
+        console.error(`Conversation upkeep failed for ${conversationId}:`, error);
+      })
+      .finally(() => {
+        this.upkeepInFlight.delete(conversationId);
+      });
+    this.upkeepInFlight.set(conversationId, job);
+  }
+
+  private static async runConversationUpkeep(conversationId: string, context: ToolContext): Promise<void> {
+    const conversation = await storage.getConversation(conversationId);
+    const settings = await storage.getChatSettings(context.projectId, context.userId);
+    if (!conversation || !settings) return;
+
+    const messages = await storage.getConversationMessages(conversationId);
+    const llmConfig = this.buildLLMConfig(settings);
+
+    if (!conversation.title_generated) {
+      await this.generateTitle(conversation, messages, llmConfig);
+    }
+    await this.updateSummary(conversation, messages, settings.max_conversation_length, llmConfig);
+  }
+
+  private static async generateTitle(conversation: Conversation, messages: Message[], llmConfig: LLMConfig): Promise<void> {
+    const question = messages.find(msg => msg.role === 'user');
+    const answer = messages.find(msg => msg.role === 'assistant');
+    if (!question || !answer) return;
+
+    const provider = LLMFactory.getProvider({ ...llmConfig, temperature: 0.3, maxTokens: TITLE_MAX_TOKENS });
+    const response = await provider.generateResponse([
+      { role: 'system', content: TITLE_PROMPT },
+      { role: 'user', content: this.formatTranscript([question, answer]) }
+    ]);
+
+    const title = response.content
+      .split('\n')[0]
+      .replace(/^title:\s*/i, '')
+      .replace(/^["'*]+|["'*.]+$/g, '')
+      .trim()
+      .slice(0, MAX_TITLE_LENGTH);
+    if (!title) return;
+
+    await storage.updateConversation(conversation.id, { title, title_generated: true });
+    console.log(`🏷️ Titled conversation ${conversation.id}: "${title}"`);
+  }
+
+  /**
+   * Once more than maxLength messages are outside the summary, fold the
+   * oldest of them in until half the limit remains, so the summary is
+   * regenerated every few exchanges rather than on every message
+   */
+  private static async updateSummary(
+    conversation: Conversation,
+    messages: Message[],
+    maxLength: number,
+    llmConfig: LLMConfig
+  ): Promise<void> {
+    const summarizedCount = conversation.summary ? conversation.summary_message_count : 0;
+    if (messages.length - summarizedCount <= maxLength) return;
+
+    const foldUntil = messages.length - Math.max(1, Math.floor(maxLength / 2));
+    const current = conversation.summary ? `Current summary:\n${conversation.summary}\n\n` : '';
+
+    // Fold as many of the messages as fit in the model's context window; the rest wait for the next pass
+    const inputBudget = Math.floor(getContextWindow(llmConfig.provider, llmConfig.model) * (1 - CONTEXT_SAFETY_MARGIN)) -
+      SUMMARY_MAX_TOKENS -
+      this.countTokens(`${SUMMARY_PROMPT}\n${current}New messages:\n`, llmConfig);
+    let folded = summarizedCount;
+    let used = 0;
+    while (folded < foldUntil) {
+      const tokens = this.countTokens(this.formatTranscript([messages[folded]]), llmConfig);
+      if (used + tokens > inputBudget) break;
+      used += tokens;
+      folded++;
+    }
+    if (folded === summarizedCount) return;
+
+    const provider = LLMFactory.getProvider({ ...llmConfig, temperature: 0.2, maxTokens: SUMMARY_MAX_TOKENS });
+    const response = await provider.generateResponse([
+      { role: 'system', content: SUMMARY_PROMPT },
+      { role: 'user', content: `${current}New messages:\n${this.formatTranscript(messages.slice(summarizedCount, folded))}` }
+    ]);
+
+    const summary = response.content.trim();
+    if (!summary) return;
+
+    await storage.updateConversation(conversation.id, { summary, summary_message_count: folded });
+    console.log(`🗜️ Summarized ${folded} messages of conversation ${conversation.id}`);
+  }
+
+  private static formatTranscript(messages: Message[]): string {
+    return messages.map(msg => {
+      const speaker = msg.role === 'user' ? 'User' : msg.role === 'assistant' ? 'Assistant' : 'System';
+      const content = msg.content.length > MAX_TRANSCRIPT_MESSAGE_CHARS
+        ? `${msg.content.slice(0, MAX_TRANSCRIPT_MESSAGE_CHARS)}…`
+        : msg.content;
+      return `${speaker}: ${content}`;
+    }).join('\n\n');
+  }
+
+  private static async cancelPendingToolCalls(messages: Message[]): Promise<void> {
+    for (const message of messages) {
+      const metadata = (message.metadata || {}) as Record<string, any>;
+      const toolCalls: MessageToolCall[] = metadata.tool_calls || [];
+      if (!toolCalls.some(call => call.status === 'pending')) continue;
+
+      const updatedCalls = toolCalls.map(call =>
+        call.status === 'pending' ? { ...call, status: 'cancelled' as const } : call
+      );
+      const updatedMetadata = { ...metadata, tool_calls: updatedCalls };
+      message.metadata = updatedMetadata;
+      await storage.updateMessage(message.id, { metadata: updatedMetadata });
     }
   }
 
@@ -144,9 +772,16 @@ export class ChatService {
   }
 
   /**
-   * Get project context for AI responses
+   * Get project context for AI responses, within a token budget. Every record
+   * is tagged (e.g. [S1]) so the model can cite it; the tags are returned
+   * alongside the text. Records are added whole or not at all.
    */
-  private static async getProjectContext(projectId: string, query: string): Promise<string | null> {
+  private static async getProjectContext(
+    projectId: string,
+    query: string,
+    tokenBudget: number,
+    countTokens: (text: string) => number
+  ): Promise<ProjectContext | null> {
     try {
       console.log(`🔍 Getting project context for project ${projectId} with query: "${query}"`);
       
@@ -169,89 +804,199 @@ export class ChatService {
       } catch (error) {
         console.warn('Error fetching rooms:', error);
       }
-      
-      // Get all items for the project (we use items instead of finishes)
-      const allItems: any[] = [];
-      
-      for (const room of rooms) {
-        try {
-          const roomItems = await storage.getItemsByRoomId(room.id);
-          
-          console.log(`🏠 Room "${room.name}": ${roomItems.length} items`);
-          
-          // Add room context to items
-          roomItems.forEach(item => {
-            allItems.push({
-              ...item,
-              room_name: room.name
-            });
-          });
-        } catch (roomError) {
-          console.warn(`Error fetching data for room ${room.id}:`, roomError);
-        }
-      }
 
-      console.log(`📋 Total items: ${allItems.length}`);
+      // Tag each record once, reusing the tag if it appears again
+      const sources: MessageCitation[] = [];
+      const tag = (source: Omit<MessageCitation, 'ref'>): string => {
+        const existing = sources.find(s => s.type === source.type && s.id === source.id && s.page === source.page);
+        if (existing) return existing.ref;
+        const ref = `S${sources.length + 1}`;
+        sources.push({ ref, ...source });
+        return ref;
+      };
 
+      // Add whole lines while they fit, keeping room for the citation instructions
+      let context = '';
+      let remaining = tokenBudget - countTokens(CITATION_INSTRUCTIONS);
+      const addLine = (line: string): boolean => {
+        const tokens = countTokens(`${line}\n`);
+        if (tokens > remaining) return false;
+        context += `${line}\n`;
+        remaining -= tokens;
+        return true;
+      };
+      
       // Build comprehensive context
-      let context = `Project: ${project.name || projectId}\n`;
+      addLine(`Project: ${project.name || projectId}`);
       if (project.address) {
-        context += `Address: ${project.address}\n`;
+        addLine(`Address: ${project.address}`);
       }
       if (project.builder_name) {
-        context += `Builder: ${project.builder_name}\n`;
+        addLine(`Builder: ${project.builder_name}`);
       }
 
       // Add rooms information
       if (rooms.length > 0) {
-        context += `\nRooms (${rooms.length}):\n`;
-        rooms.forEach(room => {
-          context += `- ${room.name}`;
-          if (room.description) context += ` - ${room.description}`;
-          if (room.dimensions) context += ` (${room.dimensions})`;
-          if (room.floor_number) context += ` - Floor ${room.floor_number}`;
-          context += `\n`;
-        });
+        addLine(`\nRooms (${rooms.length}):`);
+        for (const room of rooms) {
+          let line = `- [ref] ${room.name}`;
+          if (room.description) line += ` - ${room.description}`;
+          if (room.dimensions) line += ` (${room.dimensions})`;
+          if (room.floor_number) line += ` - Floor ${room.floor_number}`;
+          if (!this.addTaggedLine(line, { type: 'room', id: room.id, title: room.name }, tag, sources, addLine)) break;
+        }
       }
 
-      // Add items information with intelligent filtering based on query
-      if (allItems.length > 0) {
-        context += `\nItems and Materials:\n`;
-        
-        // Filter items relevant to the query if possible
-        const relevantItems = this.filterRelevantData(allItems, query);
-        const itemsToShow = relevantItems.length > 0 ? relevantItems : allItems.slice(0, 10); // Show max 10 if no filtering
-        
-        console.log(`🎯 Filtered to ${itemsToShow.length} relevant items`);
-        
-        itemsToShow.forEach(item => {
-          context += `- ${item.name}`;
-          if (item.room_name) context += ` (in ${item.room_name})`;
-          if (item.brand) context += ` - Brand: ${item.brand}`;
-          if (item.specifications) context += ` - Specs: ${item.specifications}`;
-          if (item.category) context += ` - Category: ${item.category}`;
-          if (item.status) context += ` - Status: ${item.status}`;
-          if (item.supplier) context += ` - Supplier: ${item.supplier}`;
-          if (item.notes) context += ` - Notes: ${item.notes}`;
-          context += `\n`;
-        });
+      // Add the records most similar to the query, falling back to keyword matching
+      try {
+        const chunks = await KnowledgeIndexer.search(projectId, query, RETRIEVAL_TOP_K);
+        console.log(`🎯 Retrieved ${chunks.length} relevant records`);
+
+        if (chunks.length > 0 && addLine(`\nRelevant project records:`)) {
+          for (const chunk of chunks) {
+            const line = chunk.contentType === 'document'
+              ? `- [ref] ${chunk.title}: ${chunk.content}`
+              : `- [ref] ${chunk.content}`;
+            // Skip records that don't fit; a shorter one further down may still fit
+            this.addTaggedLine(line, this.chunkToSource(chunk), tag, sources, addLine);
+          }
+        }
+      } catch (retrievalError) {
+        console.warn('Embedding retrieval failed, falling back to keyword matching:', retrievalError);
+        await this.addKeywordContext(rooms, query, tag, sources, addLine);
       }
 
-      // Limit context size to prevent token overflow
-      if (context.length > 3000) {
-        context = context.substring(0, 3000) + '...\n[Context truncated for length]';
+      if (sources.length > 0) {
+        context += `\n${CITATION_INSTRUCTIONS}\n`;
       }
 
-      console.log(`📝 Final context length: ${context.length} characters`);
+      console.log(`📝 Final context: ${tokenBudget - remaining} of ${tokenBudget} tokens, ${sources.length} sources`);
       console.log(`📋 Context preview:\n${context.substring(0, 500)}...`);
 
-      return context;
+      return { text: context, sources };
     } catch (error) {
       console.error('Error getting project context:', error);
-      return `Project: ${projectId} (Error loading details: ${error instanceof Error ? error.message : 'Unknown error'})`;
+      return {
+        text: `Project: ${projectId} (Error loading details: ${error instanceof Error ? error.message : 'Unknown error'})`,
+        sources: []
+      };
+    }
+  }
+
+  /**
+   * Add a line whose "[ref]" placeholder becomes the record's tag. The tag is
+   * only kept if the line fits, so the model never sees an unused source.
+   */
+  private static addTaggedLine(
+    line: string,
+    source: Omit<MessageCitation, 'ref'>,
+    tag: (source: Omit<MessageCitation, 'ref'>) => string,
+    sources: MessageCitation[],
+    addLine: (line: string) => boolean
+  ): boolean {
+    const sourceCount = sources.length;
+    const ref = tag(source);
+    if (addLine(line.replace('[ref]', `[${ref}]`))) return true;
+
+    // Drop the tag again if it was created just for this line
+    if (sources.length > sourceCount) sources.pop();
+    return false;
+  }
+
+  /**
+   * Describe a retrieved knowledge base chunk as a citable source
+   */
+  private static chunkToSource(chunk: RetrievedChunk): Omit<MessageCitation, 'ref'> {
+    const metadata = chunk.metadata;
+    switch (chunk.contentType) {
+      case 'item':
+      case 'room':
+      case 'finish':
+        return { type: chunk.contentType, id: metadata.source_id, title: chunk.title, room_id: metadata.room_id };
+      case 'document':
+        return {
+          type: 'document',
+          id: metadata.source_id || chunk.id,
+          title: metadata.document_name || chunk.title,
+          item_id: metadata.item_id,
+          room_id: metadata.room_id,
+          page: metadata.page ?? null
+        };
+      default:
+        return { type: 'note', id: chunk.id, title: chunk.title };
     }
   }
 
+  /**
+   * Build the items section by keyword matching, used when retrieval is unavailable
+   */
+  private static async addKeywordContext(
+    rooms: any[],
+    query: string,
+    tag: (source: Omit<MessageCitation, 'ref'>) => string,
+    sources: MessageCitation[],
+    addLine: (line: string) => boolean
+  ): Promise<void> {
+    // Get all items for the project (we use items instead of finishes)
+    const allItems: any[] = [];
+
+    for (const room of rooms) {
+      try {
+        const roomItems = await storage.getItemsByRoomId(room.id);
+
+        // Add room context to items
+        roomItems.forEach(item => {
+          allItems.push({
+            ...item,
+            room_name: room.name
+          });
+        });
+      } catch (roomError) {
+        console.warn(`Error fetching data for room ${room.id}:`, roomError);
+      }
+    }
+
+    if (allItems.length === 0 || !addLine(`\nItems and Materials:`)) return;
+
+    // Filter items relevant to the query if possible
+    const relevantItems = this.filterRelevantData(allItems, query);
+    const itemsToShow = relevantItems.length > 0 ? relevantItems : allItems.slice(0, 10); // Show max 10 if no filtering
+
+    console.log(`🎯 Filtered to ${itemsToShow.length} relevant items`);
+
+    for (const item of itemsToShow) {
+      let line = `- [ref] ${item.name}`;
+      if (item.room_name) line += ` (in ${item.room_name})`;
+      if (item.brand) line += ` - Brand: ${item.brand}`;
+      if (item.specifications) line += ` - Specs: ${item.specifications}`;
+      if (item.category) line += ` - Category: ${item.category}`;
+      if (item.status) line += ` - Status: ${item.status}`;
+      if (item.supplier) line += ` - Supplier: ${item.supplier}`;
+      if (item.notes) line += ` - Notes: ${item.notes}`;
+      this.addTaggedLine(line, { type: 'item', id: item.id, title: item.name, room_id: item.room_id }, tag, sources, addLine);
+    }
+  }
+
+  /**
+   * Resolve the source tags cited in a response, in order of first use.
+   * Tags that were not in the context are ignored.
+   */
+  private static extractCitations(content: string, sources: MessageCitation[]): MessageCitation[] {
+    const byRef = new Map(sources.map(source => [source.ref, source]));
+    const cited: MessageCitation[] = [];
+
+    for (const match of Array.from(content.matchAll(CITATION_PATTERN))) {
+      for (const ref of match[1].split(',').map(r => r.trim())) {
+        const source = byRef.get(ref);
+        if (source && !cited.includes(source)) {
+          cited.push(source);
+        }
+      }
+    }
+
+    return cited;
+  }
+
   /**
    * Filter data based on query relevance
    */
@@ -314,13 +1059,21 @@ export class ChatService {
     }
   }
 
+  private static buildLLMConfig(settings: ChatSettings): LLMConfig {
+    return {
+      provider: settings.provider,
+      model: settings.model,
+      apiKey: this.getApiKeyForProvider(settings.provider),
+      temperature: parseFloat(settings.temperature),
+      maxTokens: settings.max_tokens
+    };
+  }
+
   /**
-   * Estimate token count for a text string
-   * This is a rough approximation - for production use a proper tokenizer
+   * Count tokens for a text string with the configured model's tokenizer
    */
-  private static estimateTokens(text: string): number {
-    // Rough approximation: 1 token ≈ 4 characters for English text
-    return Math.ceil(text.length / 4);
+  private static countTokens(text: string, llmConfig: LLMConfig): number {
+    return countTokens(text, llmConfig.provider, llmConfig.model);
   }
 
   /**
@@ -0,0 +1,320 @@
+import { insertItemSchema, insertRoomSchema } from "@shared/schema";
+import type { Item, Room, ProjectRole } from "@shared/schema";
+import type { LLMToolCall, LLMToolDefinition } from "./llm/types";
+import { KnowledgeIndexer } from "./knowledge-indexer";
+import { storage } from "./storage";
+import { hasProjectRole } from "./auth";
+
+export interface ToolContext {
+  projectId: string;
+  userId: string;
+  // The user's role on the project, which limits the tools they get
+  role: ProjectRole;
+}
+
+interface ChatTool {
+  definition: LLMToolDefinition;
+  // The role the matching API route requires
+  minimumRole: ProjectRole;
+  // Tools that change the project only run after the user confirms them
+  requiresConfirmation: boolean;
+  // One-line description of the call, shown to the user when asking for confirmation
+  summarize(args: Record<string, any>, context: ToolContext): Promise<string>;
+  // Run the tool and return text for the model
+  execute(args: Record<string, any>, context: ToolContext): Promise<string>;
+}
+
+// Maximum number of items returned by search_items
+const MAX_SEARCH_RESULTS = 20;
+
+function requireString(args: Record<string, any>, key: string): string {
+  const value = args[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`Missing required argument "${key}"`);
+  }
+  return value.trim();
+}
+
+function optionalString(args: Record<string, any>, key: string): string | null {
+  const value = args[key];
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+/**
+ * Find a room in the project by ID or (case-insensitive) name
+ */
+async function findRoom(reference: string, context: ToolContext): Promise<Room> {
+  const rooms = await storage.getRoomsByProjectId(context.projectId);
+  const room = rooms.find(r => r.id === reference) ||
+    rooms.find(r => r.name.toLowerCase() === reference.toLowerCase());
+
+  if (!room) {
+    const names = rooms.map(r => r.name).join(", ") || "none";
+    throw new Error(`Room "${reference}" not found. Rooms in this project: ${names}`);
+  }
+  return room;
+}
+
+/**
+ * Load an item, making sure it belongs to the project
+ */
+async function findItem(itemId: string, context: ToolContext): Promise<Item> {
+  const item = await storage.getItem(itemId);
+  const room = item ? await storage.getRoom(item.room_id) : undefined;
+  if (!item || !room || room.project_id !== context.projectId) {
+    throw new Error(`Item ${itemId} not found in this project`);
+  }
+  return item;
+}
+
+const tools: Record<string, ChatTool> = {
+  search_items: {
+    definition: {
+      name: "search_items",
+      description: "Search the items in the home record by name, brand, category, specifications, status or notes. Returns item IDs for use with other tools.",
+      parameters: {
+        type: "object",
+        properties: {
+          query: { type: "string", description: "Words to search for, e.g. \"dishwasher\" or \"Benjamin Moore\"" },
+          room: { type: "string", description: "Optional room name to limit the search to" }
+        },
+        required: ["query"]
+      }
+    },
+    minimumRole: "viewer",
+    requiresConfirmation: false,
+    async summarize(args) {
+      return `Search items for "${args.query}"`;
+    },
+    async execute(args, context) {
+      const query = requireString(args, "query").toLowerCase();
+      const roomFilter = optionalString(args, "room");
+      const keywords = query.split(/\s+/).filter(word => word.length > 2);
+
+      let rooms = await storage.getRoomsByProjectId(context.projectId);
+      if (roomFilter) {
+        rooms = rooms.filter(room => room.id === roomFilter || room.name.toLowerCase() === roomFilter.toLowerCase());
+      }
+
+      const results: Record<string, any>[] = [];
+      for (const room of rooms) {
+        const roomItems = await storage.getItemsByRoomId(room.id);
+        for (const item of roomItems) {
+          const searchText = [
+            item.name,
+            item.brand,
+            item.category,
+            item.specifications,
+            item.supplier,
+            item.status,
+            item.notes,
+            room.name
+          ].join(" ").toLowerCase();
+
+          const matches = keywords.length > 0
+            ? keywords.some(keyword => searchText.includes(keyword))
+            : searchText.includes(query);
+          if (matches) {
+            results.push({
+              id: item.id,
+              name: item.name,
+              room: room.name,
+              category: item.category,
+              brand: item.brand,
+              status: item.status
+            });
+          }
+        }
+      }
+
+      if (results.length === 0) {
+        return "No matching items found.";
+      }
+      return JSON.stringify(results.slice(0, MAX_SEARCH_RESULTS));
+    }
+  },
+
+  create_item: {
+    definition: {
+      name: "create_item",
+      description: "Add a new item (appliance, fixture, material, etc.) to a room in the home record.",
+      parameters: {
+        type: "object",
+        properties: {
+          room: { type: "string", description: "Name or ID of the room the item is in" },
+          name: { type: "string", description: "Item name, e.g. \"Dishwasher\"" },
+          category: { type: "string", description: "Item category, e.g. \"Appliances\"" },
+          brand: { type: "string" },
+          supplier: { type: "string" },
+          specifications: { type: "string", description: "Model number, size, colour and other specifications" },
+          cost: { type: "number" },
+          status: { type: "string" },
+          installation_date: { type: "string", description: "Installation date as YYYY-MM-DD" },
+          notes: { type: "string" }
+        },
+        required: ["room", "name", "category"]
+      }
+    },
+    minimumRole: "contributor",
+    requiresConfirmation: true,
+    async summarize(args, context) {
+      const room = await findRoom(requireString(args, "room"), context);
+      return `Add item "${requireString(args, "name")}" (${requireString(args, "category")}) to ${room.name}`;
+    },
+    async execute(args, context) {
+      const room = await findRoom(requireString(args, "room"), context);
+      const itemData = insertItemSchema.parse({
+        room_id: room.id,
+        name: requireString(args, "name"),
+        category: requireString(args, "category"),
+        brand: optionalString(args, "brand"),
+        supplier: optionalString(args, "supplier"),
+        specifications: optionalString(args, "specifications"),
+        cost: typeof args.cost === "number" ? String(args.cost) : null,
+        status: optionalString(args, "status"),
+        installation_date: optionalString(args, "installation_date"),
+        notes: optionalString(args, "notes")
+      });
+
+      const item = await storage.createItem(itemData);
+      KnowledgeIndexer.scheduleSync(context.projectId);
+      return `Created item "${item.name}" (id ${item.id}) in ${room.name}.`;
+    }
+  },
+
+  update_item_status: {
+    definition: {
+      name: "update_item_status",
+      description: "Change the status of an existing item, e.g. to \"Ordered\", \"Installed\" or \"Needs repair\". Use search_items first to find the item ID.",
+      parameters: {
+        type: "object",
+        properties: {
+          item_id: { type: "string", description: "ID of the item" },
+          status: { type: "string", description: "The new status" }
+        },
+        required: ["item_id", "status"]
+      }
+    },
+    minimumRole: "contributor",
+    requiresConfirmation: true,
+    async summarize(args, context) {
+      const item = await findItem(requireString(args, "item_id"), context);
+      return `Change the status of "${item.name}" from "${item.status || "none"}" to "${requireString(args, "status")}"`;
+    },
+    async execute(args, context) {
+      const item = await findItem(requireString(args, "item_id"), context);
+      const status = requireString(args, "status");
+
+      await storage.updateItem(item.id, { status }, { changedBy: context.userId, expectedVersion: item.version });
+      KnowledgeIndexer.scheduleSync(context.projectId);
+      return `Updated the status of "${item.name}" to "${status}".`;
+    }
+  },
+
+  add_room: {
+    definition: {
+      name: "add_room",
+      description: "Add a new room or area to the home record.",
+      parameters: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "Room name, e.g. \"Guest Bathroom\"" },
+          description: { type: "string" },
+          floor_number: { type: "integer" },
+          dimensions: { type: "string", description: "e.g. \"12ft x 10ft\"" }
+        },
+        required: ["name"]
+      }
+    },
+    minimumRole: "editor",
+    requiresConfirmation: true,
+    async summarize(args) {
+      return `Add room "${requireString(args, "name")}"`;
+    },
+    async execute(args, context) {
+      const roomData = insertRoomSchema.parse({
+        project_id: context.projectId,
+        name: requireString(args, "name"),
+        description: optionalString(args, "description"),
+        floor_number: Number.isInteger(args.floor_number) ? args.floor_number : null,
+        dimensions: optionalString(args, "dimensions")
+      });
+
+      const room = await storage.createRoom(roomData);
+      KnowledgeIndexer.scheduleSync(context.projectId);
+      return `Created room "${room.name}" (id ${room.id}).`;
+    }
+  },
+
+  log_maintenance: {
+    definition: {
+      name: "log_maintenance",
+      description: "Record maintenance done on an item (e.g. a filter change or service visit) in its maintenance notes. Use search_items first to find the item ID.",
+      parameters: {
+        type: "object",
+        properties: {
+          item_id: { type: "string", description: "ID of the item" },
+          note: { type: "string", description: "What was done" },
+          date: { type: "string", description: "Date of the work as YYYY-MM-DD; defaults to today" }
+        },
+        required: ["item_id", "note"]
+      }
+    },
+    minimumRole: "contributor",
+    requiresConfirmation: true,
+    async summarize(args, context) {
+      const item = await findItem(requireString(args, "item_id"), context);
+      return `Log maintenance on "${item.name}" (${optionalString(args, "date") || today()}): ${requireString(args, "note")}`;
+    },
+    async execute(args, context) {
+      const item = await findItem(requireString(args, "item_id"), context);
+      const entry = `${optionalString(args, "date") || today()}: ${requireString(args, "note")}`;
+      const maintenanceNotes = item.maintenance_notes ? `${item.maintenance_notes}\n${entry}` : entry;
+
+      await storage.updateItem(item.id, { maintenance_notes: maintenanceNotes }, { changedBy: context.userId, expectedVersion: item.version });
+      KnowledgeIndexer.scheduleSync(context.projectId);
+      return `Logged maintenance on "${item.name}": ${entry}`;
+    }
+  }
+};
+
+export class ChatTools {
+  // Tools the role can't run are left out, so the model never offers them
+  static getDefinitions(role: ProjectRole): LLMToolDefinition[] {
+    return Object.values(tools)
+      .filter(tool => hasProjectRole(role, tool.minimumRole))
+      .map(tool => tool.definition);
+  }
+
+  static requiresConfirmation(name: string): boolean {
+    // Unknown tools are treated as mutating so they never run unconfirmed
+    return tools[name]?.requiresConfirmation ?? true;
+  }
+
+  static async summarize(call: LLMToolCall, context: ToolContext): Promise<string> {
+    const tool = this.findTool(call, context);
+    return tool.summarize(call.arguments, context);
+  }
+
+  static async execute(call: LLMToolCall, context: ToolContext): Promise<string> {
+    const tool = this.findTool(call, context);
+    console.log(`🛠️ Running tool ${call.name} for project ${context.projectId}`);
+    return tool.execute(call.arguments, context);
+  }
+
+  // Looks the tool up, refusing it if the user's role is too low for it
+  private static findTool(call: LLMToolCall, context: ToolContext): ChatTool {
+    const tool = tools[call.name];
+    if (!tool) {
+      throw new Error(`Unknown tool "${call.name}"`);
+    }
+    if (!hasProjectRole(context.role, tool.minimumRole)) {
+      throw new Error(`Only a project ${tool.minimumRole} or above can use "${call.name}"`);
+    }
+    return tool;
+  }
+}
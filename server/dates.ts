@@ -0,0 +1,32 @@
+// Calendar dates are handled as YYYY-MM-DD strings, as date columns are stored
+
+export function parseDate(value: string): Date {
+  return new Date(`${value}T00:00:00Z`);
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(value: string, days: number): string {
+  const date = parseDate(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatDate(date);
+}
+
+// Month ends are clamped, so 31 January plus a month is 28 or 29 February
+export function addMonths(value: string, months: number): string {
+  const date = parseDate(value);
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDay));
+  return formatDate(date);
+}
+
+// Today in the server's time zone
+export function today(): string {
+  const now = new Date();
+  return formatDate(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())));
+}
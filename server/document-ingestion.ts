@@ -0,0 +1,306 @@
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { KnowledgeIndexer } from "./knowledge-indexer";
+import { storage } from "./storage";
+import { FileStoreFactory } from "./files/factory";
+import { DOCUMENT_BUCKET } from "./files/types";
+import type { Document, Item, Room } from "@shared/schema";
+
+// Source type recorded in knowledge_base metadata for document chunks
+const DOCUMENT_SOURCE_TYPE = "document";
+
+// Chunk size in characters, with some overlap so sentences are not cut off from their context
+const CHUNK_SIZE = 800;
+const CHUNK_OVERLAP = 100;
+
+// Files larger than the bucket limit (25MB) are skipped
+const MAX_DOCUMENT_BYTES = 25 * 1024 * 1024;
+
+export type DocumentFormat = "pdf" | "text" | "html";
+
+export interface DocumentPage {
+  // 1-based page number for PDFs; null for formats without pages
+  page: number | null;
+  text: string;
+}
+
+export interface IngestionResult {
+  ingested: string[];
+  removed: string[];
+  skipped: { file: string; reason: string }[];
+}
+
+export class DocumentIngestion {
+  private static jobsInFlight: Map<string, Promise<IngestionResult>> = new Map();
+
+  /**
+   * Bring the knowledge base in line with the documents attached to an item:
+   * extract and chunk documents that are new or renamed and drop chunks for
+   * documents that have been deleted. Concurrent calls for the same item
+   * share one job.
+   */
+  static async syncItemDocuments(item: Item, room: Room): Promise<IngestionResult> {
+    const inFlight = this.jobsInFlight.get(item.id);
+    if (inFlight) return inFlight;
+
+    const job = this.runItemSync(item, room).finally(() => {
+      this.jobsInFlight.delete(item.id);
+    });
+    this.jobsInFlight.set(item.id, job);
+    return job;
+  }
+
+  private static async runItemSync(item: Item, room: Room): Promise<IngestionResult> {
+    const result: IngestionResult = { ingested: [], removed: [], skipped: [] };
+    const fileStore = FileStoreFactory.getStore();
+    const documents = await storage.getDocumentsByItemId(item.id);
+    const storedPaths = new Set(documents.map(document => document.storage_path));
+
+    // Work out which files already have chunks, and under which name
+    const entries = await storage.getKnowledgeBaseByProjectId(room.project_id);
+    const indexedNames = new Map<string, string>();
+    for (const entry of entries) {
+      const metadata = (entry.metadata || {}) as Record<string, any>;
+      if (metadata.source_type === DOCUMENT_SOURCE_TYPE && metadata.item_id === item.id) {
+        indexedNames.set(metadata.source_id, metadata.document_name);
+      }
+    }
+
+    for (const path of Array.from(indexedNames.keys())) {
+      if (!storedPaths.has(path)) {
+        await KnowledgeIndexer.removeSource(DOCUMENT_SOURCE_TYPE, path);
+        result.removed.push(path);
+      }
+    }
+
+    for (const document of documents) {
+      const path = document.storage_path;
+      // Renamed documents are ingested again so citations use the new name
+      if (indexedNames.get(path) === document.filename) continue;
+
+      // Go by the stored file, as a rename can drop the extension
+      const format = detectFormat(path);
+      if (!format) {
+        result.skipped.push({ file: document.filename, reason: "Unsupported file type" });
+        continue;
+      }
+
+      if (document.size > MAX_DOCUMENT_BYTES) {
+        result.skipped.push({ file: document.filename, reason: "File too large" });
+        continue;
+      }
+
+      try {
+        const content = await fileStore.get(DOCUMENT_BUCKET, path);
+        if (!content) {
+          throw new Error("File not found");
+        }
+
+        const chunkCount = await this.ingestDocument(item, room, document, format, content.data);
+        if (chunkCount === 0) {
+          result.skipped.push({ file: document.filename, reason: "No extractable text" });
+        } else {
+          result.ingested.push(path);
+        }
+      } catch (fileError) {
+        console.error(`Failed to ingest document ${path}:`, fileError);
+        result.skipped.push({
+          file: document.filename,
+          reason: fileError instanceof Error ? fileError.message : "Extraction failed"
+        });
+      }
+    }
+
+    if (result.ingested.length > 0 || result.removed.length > 0) {
+      console.log(`📄 Documents for item ${item.id}: ${result.ingested.length} ingested, ${result.removed.length} removed, ${result.skipped.length} skipped`);
+      // Embed the new chunks
+      await KnowledgeIndexer.syncProject(room.project_id);
+    }
+
+    return result;
+  }
+
+  /**
+   * Extract, chunk and store one document. Returns the number of chunks written.
+   */
+  static async ingestDocument(
+    item: Item,
+    room: Room,
+    document: Document,
+    format: DocumentFormat,
+    buffer: Buffer
+  ): Promise<number> {
+    const pages = await extractDocumentText(format, buffer);
+    const path = document.storage_path;
+    const documentName = document.filename;
+
+    // Replace chunks from an earlier ingestion of the same file
+    await KnowledgeIndexer.removeSource(DOCUMENT_SOURCE_TYPE, path);
+
+    let chunkCount = 0;
+    for (const page of pages) {
+      const chunks = chunkText(page.text);
+      for (let i = 0; i < chunks.length; i++) {
+        await storage.createKnowledgeBaseEntry({
+          project_id: room.project_id,
+          content_type: "document",
+          title: page.page ? `${documentName} (${item.name}), page ${page.page}` : `${documentName} (${item.name})`,
+          content: chunks[i],
+          metadata: {
+            source_type: DOCUMENT_SOURCE_TYPE,
+            source_id: path,
+            bucket: DOCUMENT_BUCKET,
+            file_path: path,
+            document_id: document.id,
+            document_name: documentName,
+            document_kind: document.kind,
+            format,
+            page: page.page,
+            chunk_index: i,
+            item_id: item.id,
+            item_name: item.name,
+            room_id: room.id,
+            room_name: room.name
+          }
+        });
+        chunkCount++;
+      }
+    }
+
+    return chunkCount;
+  }
+}
+
+function detectFormat(path: string): DocumentFormat | null {
+  const extension = path.split(".").pop()?.toLowerCase();
+  switch (extension) {
+    case "pdf":
+      return "pdf";
+    case "txt":
+    case "md":
+    case "csv":
+      return "text";
+    case "html":
+    case "htm":
+      return "html";
+    default:
+      return null;
+  }
+}
+
+async function extractDocumentText(format: DocumentFormat, buffer: Buffer): Promise<DocumentPage[]> {
+  switch (format) {
+    case "pdf":
+      return extractPdfText(buffer);
+    case "html":
+      return [{ page: null, text: htmlToText(buffer.toString("utf8")) }];
+    case "text":
+      return [{ page: null, text: buffer.toString("utf8") }];
+  }
+}
+
+async function extractPdfText(buffer: Buffer): Promise<DocumentPage[]> {
+  if (buffer.subarray(0, 5).toString("latin1") !== "%PDF-") {
+    throw new Error("File is not a valid PDF");
+  }
+
+  const pdf = await getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    useSystemFonts: true
+  }).promise;
+
+  const pages: DocumentPage[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+
+      let text = "";
+      for (const item of textContent.items) {
+        if (!("str" in item)) continue;
+        text += item.str;
+        text += item.hasEOL ? "\n" : " ";
+      }
+
+      pages.push({ page: pageNumber, text });
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: " "
+};
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<(br|\/p|\/div|\/li|\/tr|\/h[1-6])[^>]*>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+      if (entity.startsWith("#")) {
+        const hex = entity[1] === "x" || entity[1] === "X";
+        const codePoint = parseInt(entity.slice(hex ? 2 : 1), hex ? 16 : 10);
+        // fromCodePoint throws past 0x10FFFF, and "&#abc;" parses as NaN; keep those as written
+        return Number.isNaN(codePoint) || codePoint > 0x10ffff ? match : String.fromCodePoint(codePoint);
+      }
+      return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+/**
+ * Split text into chunks of about CHUNK_SIZE characters, breaking at
+ * paragraph, sentence or word boundaries where possible
+ */
+function chunkText(text: string): string[] {
+  const normalized = text
+    .replace(/[ \t\f\v]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim();
+  if (!normalized) return [];
+
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length) {
+    let end = Math.min(start + CHUNK_SIZE, normalized.length);
+
+    if (end < normalized.length) {
+      const window = normalized.slice(start, end);
+      const breakAt = Math.max(
+        window.lastIndexOf("\n"),
+        window.lastIndexOf(". "),
+        window.lastIndexOf("? "),
+        window.lastIndexOf("! ")
+      );
+      if (breakAt > CHUNK_SIZE / 2) {
+        end = start + breakAt + 1;
+      } else {
+        const space = window.lastIndexOf(" ");
+        if (space > CHUNK_SIZE / 2) end = start + space;
+      }
+    }
+
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+
+    if (end >= normalized.length) break;
+    start = Math.max(end - CHUNK_OVERLAP, start + 1);
+
+    // Start the overlap on a word boundary
+    const nextSpace = normalized.indexOf(" ", start);
+    if (nextSpace !== -1 && nextSpace < end) start = nextSpace + 1;
+  }
+
+  return chunks;
+}
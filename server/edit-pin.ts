@@ -0,0 +1,110 @@
+import crypto from "crypto";
+import { promisify } from "util";
+import type { PinAttempts } from "@shared/schema";
+import { storage } from "./storage";
+
+// Prefix marking an edit PIN that has been hashed with scrypt
+const HASH_PREFIX = "scrypt";
+const KEY_LENGTH = 32;
+
+// scrypt is slow on purpose, so it runs off the event loop
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keyLength: number) => Promise<Buffer>;
+
+// Lock out unlock attempts after this many failures within the window
+const MAX_FAILED_ATTEMPTS = 5;
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+export function isValidPin(pin: unknown): pin is string {
+  return typeof pin === "string" && /^\d{4}$/.test(pin);
+}
+
+export function isHashedPin(stored: string): boolean {
+  return stored.startsWith(`${HASH_PREFIX}$`);
+}
+
+/**
+ * Hash a PIN for storage in projects.edit_pin
+ */
+export async function hashPin(pin: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = (await scrypt(pin, salt, KEY_LENGTH)).toString("hex");
+  return `${HASH_PREFIX}$${salt}$${hash}`;
+}
+
+/**
+ * Check a PIN against the stored value. PINs saved before hashing was
+ * introduced are still plain text and are compared directly.
+ */
+export async function verifyPin(pin: string, stored: string | null): Promise<boolean> {
+  if (!stored) return false;
+
+  if (!isHashedPin(stored)) {
+    const expected = Buffer.from(stored);
+    const actual = Buffer.from(pin);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  const [, salt, hash] = stored.split("$");
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scrypt(pin, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Milliseconds until the project's PIN may be tried again, or 0 if it is not locked
+ */
+function getLockoutRemaining(project: PinAttempts): number {
+  if (!project.pin_locked_until) return 0;
+  return Math.max(0, project.pin_locked_until.getTime() - Date.now());
+}
+
+export interface PinAttempt {
+  // Set when the project is locked and the PIN must not be checked
+  lockoutRemaining: number;
+  // Attempts left before lockout if this one turns out to be wrong
+  attemptsRemaining: number;
+}
+
+/**
+ * Count an unlock attempt against the project before its PIN is checked, so
+ * parallel requests can't all slip in under the limit. The check and the count
+ * happen with the project row locked. A correct PIN then clears the count.
+ * Counted per project rather than per client, so switching addresses doesn't
+ * buy more guesses.
+ */
+export async function reserveAttempt(projectId: string): Promise<PinAttempt> {
+  const now = new Date();
+  let lockoutRemaining = 0;
+
+  const attempts = await storage.updatePinAttempts(projectId, (current) => {
+    lockoutRemaining = getLockoutRemaining(current);
+    if (lockoutRemaining > 0) return current;
+
+    const windowExpired = !current.pin_first_failed_at ||
+      now.getTime() - current.pin_first_failed_at.getTime() > FAILURE_WINDOW_MS;
+    const failures = windowExpired ? 1 : current.pin_failed_attempts + 1;
+
+    if (failures >= MAX_FAILED_ATTEMPTS) {
+      return { pin_failed_attempts: 0, pin_first_failed_at: null, pin_locked_until: new Date(now.getTime() + LOCKOUT_MS) };
+    }
+    return {
+      pin_failed_attempts: failures,
+      pin_first_failed_at: windowExpired ? now : current.pin_first_failed_at,
+      pin_locked_until: null
+    };
+  });
+
+  return {
+    lockoutRemaining,
+    attemptsRemaining: getLockoutRemaining(attempts) > 0 ? 0 : MAX_FAILED_ATTEMPTS - attempts.pin_failed_attempts
+  };
+}
+
+export async function clearFailedAttempts(projectId: string): Promise<void> {
+  await storage.updatePinAttempts(projectId, () => ({
+    pin_failed_attempts: 0,
+    pin_first_failed_at: null,
+    pin_locked_until: null
+  }));
+}
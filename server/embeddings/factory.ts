@@ -0,0 +1,99 @@
+import { BaseEmbeddingProvider, EmbeddingConfig, EmbeddingProviderName } from './types';
+import { OpenAIEmbeddingProvider } from './providers/openai';
+import { GeminiEmbeddingProvider } from './providers/gemini';
+import { OllamaEmbeddingProvider } from './providers/ollama';
+import { LocalHashingEmbeddingProvider } from './providers/local';
+
+export class EmbeddingFactory {
+  private static instance: BaseEmbeddingProvider | null = null;
+
+  /**
+   * Get the embedding provider configured through the environment
+   */
+  static getProvider(): BaseEmbeddingProvider {
+    if (!this.instance) {
+      this.instance = this.createProvider(this.getConfigFromEnv());
+    }
+    return this.instance;
+  }
+
+  /**
+   * Creates a new provider instance without caching
+   */
+  static createProvider(config: EmbeddingConfig): BaseEmbeddingProvider {
+    switch (config.provider) {
+      case 'openai':
+        return new OpenAIEmbeddingProvider(config);
+
+      case 'gemini':
+        return new GeminiEmbeddingProvider(config);
+
+      case 'ollama':
+        return new OllamaEmbeddingProvider(config);
+
+      case 'local':
+        return new LocalHashingEmbeddingProvider(config);
+
+      default:
+        throw new Error(`Unsupported embedding provider: ${config.provider}`);
+    }
+  }
+
+  /**
+   * Read EMBEDDING_PROVIDER / EMBEDDING_MODEL, defaulting to OpenAI when a key
+   * is configured and to the local hashing embedder otherwise
+   */
+  static getConfigFromEnv(): EmbeddingConfig {
+    const provider = (process.env.EMBEDDING_PROVIDER ||
+      (process.env.OPENAI_API_KEY ? 'openai' : 'local')) as EmbeddingProviderName;
+
+    switch (provider) {
+      case 'openai':
+        return {
+          provider,
+          model: process.env.EMBEDDING_MODEL || this.getDefaultModels().openai,
+          apiKey: process.env.OPENAI_API_KEY
+        };
+
+      case 'gemini':
+        return {
+          provider,
+          model: process.env.EMBEDDING_MODEL || this.getDefaultModels().gemini,
+          apiKey: process.env.GEMINI_API_KEY
+        };
+
+      case 'ollama':
+        return {
+          provider,
+          model: process.env.EMBEDDING_MODEL || this.getDefaultModels().ollama,
+          baseURL: process.env.OLLAMA_BASE_URL
+        };
+
+      default:
+        return {
+          provider: 'local',
+          model: this.getDefaultModels().local,
+          dimensions: process.env.EMBEDDING_DIMENSIONS ? parseInt(process.env.EMBEDDING_DIMENSIONS, 10) : undefined
+        };
+    }
+  }
+
+  /**
+   * Clear the cached provider (e.g. after changing the environment)
+   */
+  static clearCache(): void {
+    this.instance = null;
+  }
+
+  /**
+   * Get default embedding models for each provider
+   */
+  static getDefaultModels(): Record<EmbeddingProviderName, string> {
+    return {
+      openai: 'text-embedding-3-small',
+      gemini: 'text-embedding-004',
+      ollama: 'nomic-embed-text',
+      local: 'hashing-v1'
+    };
+  }
+}
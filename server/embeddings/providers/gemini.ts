@@ -0,0 +1,31 @@
+import { BaseEmbeddingProvider } from '../types';
+
+export class GeminiEmbeddingProvider extends BaseEmbeddingProvider {
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.config.apiKey) {
+      throw new Error('Gemini API key is required');
+    }
+
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${this.config.model}:batchEmbedContents?key=${this.config.apiKey}`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        requests: texts.map(text => ({
+          model: `models/${this.config.model}`,
+          content: { parts: [{ text }] }
+        }))
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Gemini embeddings error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return (data.embeddings || []).map((entry: { values: number[] }) => entry.values);
+  }
+}
@@ -0,0 +1,52 @@
+import { BaseEmbeddingProvider } from '../types';
+
+const DEFAULT_DIMENSIONS = 512;
+
+// Common words that would otherwise dominate short texts
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'what', 'which', 'with', 'this', 'that',
+  'from', 'have', 'has', 'how', 'where', 'when', 'who', 'does', 'did', 'our', 'you'
+]);
+
+/**
+ * Deterministic embedder that hashes words and word pairs into a fixed-size
+ * vector. Needs no network or API key, which makes it useful for tests and
+ * offline installs; retrieval quality is keyword-level rather than semantic.
+ */
+export class LocalHashingEmbeddingProvider extends BaseEmbeddingProvider {
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const dimensions = this.config.dimensions || DEFAULT_DIMENSIONS;
+    const vector: number[] = new Array(dimensions).fill(0);
+
+    const words = (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+    const features = [
+      ...words,
+      ...words.slice(1).map((word, i) => `${words[i]} ${word}`)
+    ];
+
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      // Use the top bit for the sign so colliding features tend to cancel out
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % dimensions] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+}
+
+// 32-bit FNV-1a hash
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,25 @@
+import { BaseEmbeddingProvider } from '../types';
+
+export class OllamaEmbeddingProvider extends BaseEmbeddingProvider {
+  async embed(texts: string[]): Promise<number[][]> {
+    const url = `${this.config.baseURL || 'http://localhost:11434'}/api/embed`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        input: texts
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama embeddings error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.embeddings || [];
+  }
+}
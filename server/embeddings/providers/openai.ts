@@ -0,0 +1,34 @@
+import { BaseEmbeddingProvider } from '../types';
+
+export class OpenAIEmbeddingProvider extends BaseEmbeddingProvider {
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.config.apiKey) {
+      throw new Error('OpenAI API key is required');
+    }
+
+    const url = this.config.baseURL || 'https://api.openai.com/v1/embeddings';
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.config.apiKey}`
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        input: texts
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI embeddings error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    // Results may come back out of order, so sort by input index
+    return [...data.data]
+      .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+      .map((entry: { embedding: number[] }) => entry.embedding);
+  }
+}
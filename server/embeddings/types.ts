@@ -0,0 +1,46 @@
+// Embedding Provider Types and Interfaces
+export type EmbeddingProviderName = 'openai' | 'gemini' | 'ollama' | 'local';
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName;
+  model: string;
+  apiKey?: string;
+  baseURL?: string; // For Ollama or custom endpoints
+  dimensions?: number; // Used by the local hashing embedder
+}
+
+export abstract class BaseEmbeddingProvider {
+  protected config: EmbeddingConfig;
+
+  constructor(config: EmbeddingConfig) {
+    this.config = config;
+  }
+
+  abstract embed(texts: string[]): Promise<number[][]>;
+
+  /**
+   * Identifies the vector space, so entries embedded by another model get re-indexed
+   */
+  get modelId(): string {
+    return `${this.config.provider}:${this.config.model}`;
+  }
+}
+
+/**
+ * Cosine similarity between two vectors of the same length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
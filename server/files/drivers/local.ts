@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FileStore, FileBucket, FileContent, StoredFile, assertSafePath, contentTypeFor } from '../types';
+
+const DEFAULT_ROOT_DIR = 'uploads';
+
+/**
+ * Keeps files on the local disk under <root>/<bucket>/<path>. Needs no
+ * external service, which suits self-hosted installs and tests.
+ */
+export class LocalFileStore extends FileStore {
+  async put(bucket: FileBucket, filePath: string, data: Buffer, contentType: string): Promise<StoredFile> {
+    const fullPath = this.resolve(bucket, filePath);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, data);
+
+    return {
+      path: filePath,
+      name: path.basename(filePath),
+      size: data.length,
+      contentType,
+      updatedAt: new Date()
+    };
+  }
+
+  async get(bucket: FileBucket, filePath: string): Promise<FileContent | null> {
+    try {
+      const data = await fs.readFile(this.resolve(bucket, filePath));
+      return { data, contentType: contentTypeFor(filePath) };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async list(bucket: FileBucket, prefix: string): Promise<StoredFile[]> {
+    const directory = this.resolve(bucket, prefix);
+    let entries;
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const files: StoredFile[] = [];
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+      const stats = await fs.stat(path.join(directory, entry.name));
+      files.push({
+        path: `${prefix}/${entry.name}`,
+        name: entry.name,
+        size: stats.size,
+        contentType: contentTypeFor(entry.name),
+        updatedAt: stats.mtime
+      });
+    }
+    return files.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async remove(bucket: FileBucket, paths: string[]): Promise<void> {
+    for (const filePath of paths) {
+      await fs.rm(this.resolve(bucket, filePath), { force: true });
+    }
+  }
+
+  private resolve(bucket: FileBucket, filePath: string): string {
+    assertSafePath(filePath);
+    return path.resolve(this.config.rootDir || DEFAULT_ROOT_DIR, bucket, filePath);
+  }
+}
@@ -0,0 +1,95 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { FileStore, FileBucket, FileContent, StoredFile, FileStoreConfig, assertSafePath, contentTypeFor } from '../types';
+
+// The HTTP status of a storage error, which depending on the client version
+// arrives as status or statusCode, and as a number or a string
+function errorStatus(error: unknown): string | undefined {
+  if (typeof error !== 'object' || !error) return undefined;
+  const status = 'statusCode' in error ? error.statusCode : 'status' in error ? error.status : undefined;
+  return status === undefined || status === null ? undefined : String(status);
+}
+
+/**
+ * Keeps files in Supabase Storage buckets (which also speak the S3 protocol).
+ * The server holds the service role key, so the browser no longer needs
+ * bucket access of its own.
+ */
+export class SupabaseFileStore extends FileStore {
+  private client: SupabaseClient;
+
+  constructor(config: FileStoreConfig) {
+    super(config);
+    if (!config.url || !config.apiKey) {
+      throw new Error('Supabase file storage is not configured (VITE_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY)');
+    }
+    this.client = createClient(config.url, config.apiKey);
+  }
+
+  async put(bucket: FileBucket, path: string, data: Buffer, contentType: string): Promise<StoredFile> {
+    assertSafePath(path);
+    const { error } = await this.client.storage
+      .from(bucket)
+      .upload(path, data, { contentType, upsert: true });
+    if (error) {
+      throw new Error(`Failed to store ${bucket}/${path}: ${error.message}`);
+    }
+
+    return {
+      path,
+      name: path.split('/').pop() || path,
+      size: data.length,
+      contentType,
+      updatedAt: new Date()
+    };
+  }
+
+  async get(bucket: FileBucket, path: string): Promise<FileContent | null> {
+    assertSafePath(path);
+    const { data: blob, error } = await this.client.storage
+      .from(bucket)
+      .download(path);
+    if (error || !blob) {
+      // The client reports a missing object as a 400/404 storage error
+      const status = errorStatus(error);
+      if (!error || status === '404' || status === '400') return null;
+      throw new Error(`Failed to read ${bucket}/${path}: ${error.message}`);
+    }
+
+    return {
+      data: Buffer.from(await blob.arrayBuffer()),
+      contentType: blob.type || contentTypeFor(path)
+    };
+  }
+
+  async list(bucket: FileBucket, prefix: string): Promise<StoredFile[]> {
+    assertSafePath(prefix);
+    const { data: files, error } = await this.client.storage
+      .from(bucket)
+      .list(prefix);
+    if (error) {
+      throw new Error(`Failed to list ${bucket}/${prefix}: ${error.message}`);
+    }
+
+    // Folders come back without an id
+    return (files || [])
+      .filter(file => file.id)
+      .map(file => ({
+        path: `${prefix}/${file.name}`,
+        name: file.name,
+        size: typeof file.metadata?.size === 'number' ? file.metadata.size : 0,
+        contentType: file.metadata?.mimetype || contentTypeFor(file.name),
+        updatedAt: file.updated_at ? new Date(file.updated_at) : null
+      }));
+  }
+
+  async remove(bucket: FileBucket, paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+    paths.forEach(assertSafePath);
+    const { error } = await this.client.storage
+      .from(bucket)
+      .remove(paths);
+    if (error) {
+      throw new Error(`Failed to delete from ${bucket}: ${error.message}`);
+    }
+  }
+}
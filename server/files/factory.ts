@@ -0,0 +1,69 @@
+import { FileStore, FileStoreConfig, FileStoreDriver } from './types';
+import { LocalFileStore } from './drivers/local';
+import { SupabaseFileStore } from './drivers/supabase';
+
+export class FileStoreFactory {
+  private static instance: FileStore | null = null;
+
+  /**
+   * Get the file store configured through the environment
+   */
+  static getStore(): FileStore {
+    if (!this.instance) {
+      this.instance = this.createStore(this.getConfigFromEnv());
+    }
+    return this.instance;
+  }
+
+  /**
+   * Creates a new store instance without caching
+   */
+  static createStore(config: FileStoreConfig): FileStore {
+    switch (config.driver) {
+      case 'local':
+        return new LocalFileStore(config);
+
+      case 'supabase':
+        return new SupabaseFileStore(config);
+
+      default:
+        throw new Error(`Unsupported file store driver: ${config.driver}`);
+    }
+  }
+
+  /**
+   * Read FILE_STORE_DRIVER, defaulting to Supabase when it is configured (so
+   * existing uploads stay reachable) and to the local disk otherwise. Storage
+   * needs the service role key; the public anon key is never used here.
+   */
+  static getConfigFromEnv(): FileStoreConfig {
+    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!process.env.FILE_STORE_DRIVER && process.env.VITE_SUPABASE_URL && !supabaseKey) {
+      console.warn('SUPABASE_SERVICE_ROLE_KEY is not set, so uploads are kept on the local disk instead of Supabase Storage');
+    }
+    const driver = (process.env.FILE_STORE_DRIVER ||
+      (process.env.VITE_SUPABASE_URL && supabaseKey ? 'supabase' : 'local')) as FileStoreDriver;
+
+    switch (driver) {
+      case 'supabase':
+        return {
+          driver,
+          url: process.env.VITE_SUPABASE_URL,
+          apiKey: supabaseKey
+        };
+
+      default:
+        return {
+          driver: 'local',
+          rootDir: process.env.FILE_STORE_PATH
+        };
+    }
+  }
+
+  /**
+   * Clear the cached store (e.g. after changing the environment)
+   */
+  static clearCache(): void {
+    this.instance = null;
+  }
+}
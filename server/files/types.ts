@@ -0,0 +1,132 @@
+// File Store Types and Interfaces
+export type FileStoreDriver = 'local' | 'supabase';
+
+// Buckets files are kept in; the names match the Supabase buckets used before uploads moved to the server
+export const IMAGE_BUCKET = 'item-images';
+export const DOCUMENT_BUCKET = 'item-documents';
+export const FILE_BUCKETS = [IMAGE_BUCKET, DOCUMENT_BUCKET] as const;
+export type FileBucket = typeof FILE_BUCKETS[number];
+
+export interface FileStoreConfig {
+  driver: FileStoreDriver;
+  rootDir?: string; // Directory the local driver writes to
+  url?: string; // Supabase project URL or S3-compatible endpoint
+  apiKey?: string;
+}
+
+export interface StoredFile {
+  // Path within the bucket, e.g. "<item id>/<file name>"
+  path: string;
+  name: string;
+  size: number;
+  contentType: string;
+  updatedAt: Date | null;
+}
+
+export interface FileContent {
+  data: Buffer;
+  contentType: string;
+}
+
+export abstract class FileStore {
+  protected config: FileStoreConfig;
+
+  constructor(config: FileStoreConfig) {
+    this.config = config;
+  }
+
+  abstract put(bucket: FileBucket, path: string, data: Buffer, contentType: string): Promise<StoredFile>;
+
+  /**
+   * Read a file, or null if it does not exist
+   */
+  abstract get(bucket: FileBucket, path: string): Promise<FileContent | null>;
+
+  /**
+   * List the files directly inside a folder of the bucket
+   */
+  abstract list(bucket: FileBucket, prefix: string): Promise<StoredFile[]>;
+
+  /**
+   * Delete files; paths that don't exist are ignored
+   */
+  abstract remove(bucket: FileBucket, paths: string[]): Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  html: 'text/html',
+  htm: 'text/html'
+};
+
+export function contentTypeFor(fileName: string): string {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  return CONTENT_TYPES[extension] || 'application/octet-stream';
+}
+
+// HEIF brands that mark a HEIC photo, as written by phones
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'mif1', 'msf1'];
+
+/**
+ * The type of an image or PDF, read from the file's own bytes. These are the
+ * only files shown inline; anything else (including whatever the uploader
+ * named it) is downloaded, so an uploaded page can't run on our origin.
+ */
+export function sniffInlineContentType(data: Buffer): string | null {
+  const startsWith = (signature: number[] | string, offset = 0) => {
+    const bytes = typeof signature === 'string' ? Buffer.from(signature, 'latin1') : Buffer.from(signature);
+    return data.length >= offset + bytes.length && data.subarray(offset, offset + bytes.length).equals(bytes);
+  };
+
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith('GIF87a') || startsWith('GIF89a')) return 'image/gif';
+  if (startsWith('RIFF') && startsWith('WEBP', 8)) return 'image/webp';
+  if (startsWith('ftyp', 4) && HEIC_BRANDS.includes(data.subarray(8, 12).toString('latin1'))) return 'image/heic';
+  if (startsWith('%PDF-')) return 'application/pdf';
+  return null;
+}
+
+// Keep file names readable but safe to use as a storage path segment
+export function toSafeFileName(fileName: string): string {
+  return fileName.replace(/[^a-zA-Z0-9._-]+/g, '-');
+}
+
+// What a document is attached to; none of the IDs set means the project itself
+export interface DocumentTarget {
+  project_id: string;
+  item_id?: string | null;
+  room_id?: string | null;
+  finish_id?: string | null;
+}
+
+// Folder a document is stored under. Item documents stay directly under the
+// item ID, where they were kept before the documents table existed.
+export function documentFolder(target: DocumentTarget): string {
+  if (target.item_id) return target.item_id;
+  if (target.finish_id) return `finishes/${target.finish_id}`;
+  if (target.room_id) return `rooms/${target.room_id}`;
+  return `projects/${target.project_id}`;
+}
+
+export function isFileBucket(value: string): value is FileBucket {
+  return (FILE_BUCKETS as readonly string[]).includes(value);
+}
+
+/**
+ * Reject paths that could escape the bucket or its folders
+ */
+export function assertSafePath(path: string): void {
+  const segments = path.split('/');
+  if (!path || path.startsWith('/') || segments.some(segment => !segment || segment === '.' || segment === '..')) {
+    throw new Error(`Invalid file path: ${path}`);
+  }
+}
@@ -0,0 +1,136 @@
+import sharp from "sharp";
+
+// Longest edge, in pixels, of the renditions generated for each upload
+const THUMBNAIL_SIZE = 480;
+const MEDIUM_SIZE = 1600;
+
+// Renditions are WebP, which every supported browser can show
+const RENDITION_FORMAT = "webp";
+const RENDITION_CONTENT_TYPE = "image/webp";
+const RENDITION_QUALITY = 80;
+
+// Quality used when an original has to be re-encoded to drop its EXIF data
+const ORIGINAL_QUALITY = 90;
+
+// Refuse images that would take too much memory to decode
+const MAX_INPUT_PIXELS = 100_000_000;
+
+export type ImageFormat = "jpeg" | "png" | "gif" | "webp" | "avif";
+
+const IMAGE_TYPES: Record<ImageFormat, { contentType: string; extension: string }> = {
+  jpeg: { contentType: "image/jpeg", extension: "jpg" },
+  png: { contentType: "image/png", extension: "png" },
+  gif: { contentType: "image/gif", extension: "gif" },
+  webp: { contentType: "image/webp", extension: "webp" },
+  avif: { contentType: "image/avif", extension: "avif" },
+};
+
+export interface Rendition {
+  data: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+export interface ProcessedImage {
+  original: Rendition;
+  thumbnail: Rendition;
+  medium: Rendition;
+  width: number;
+  height: number;
+}
+
+/**
+ * Thrown when an upload is not an image we accept, whatever its name or
+ * Content-Type claim
+ */
+export class InvalidImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidImageError";
+  }
+}
+
+function startsWith(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  return buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, char => char.charCodeAt(0));
+}
+
+/**
+ * Identify an image from its leading bytes
+ */
+export function detectImageFormat(buffer: Buffer): ImageFormat | null {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return "jpeg";
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "png";
+  if (startsWith(buffer, ascii("GIF87a")) || startsWith(buffer, ascii("GIF89a"))) return "gif";
+  if (startsWith(buffer, ascii("RIFF")) && startsWith(buffer, ascii("WEBP"), 8)) return "webp";
+  if (startsWith(buffer, ascii("ftyp"), 4) && (startsWith(buffer, ascii("avif"), 8) || startsWith(buffer, ascii("avis"), 8))) {
+    return "avif";
+  }
+  return null;
+}
+
+export class ImageProcessor {
+  /**
+   * Check an upload is a real image, drop its EXIF data (which can carry the
+   * GPS location of the home) and generate the thumbnail and medium renditions
+   */
+  static async process(buffer: Buffer): Promise<ProcessedImage> {
+    const format = detectImageFormat(buffer);
+    if (!format) {
+      throw new InvalidImageError("File is not a JPEG, PNG, GIF, WebP or AVIF image");
+    }
+
+    try {
+      const metadata = await sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+      const original = await this.stripMetadata(buffer, format, metadata);
+
+      // Renditions are rotated to match the EXIF orientation before it is dropped
+      const oriented = sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+      const [thumbnail, medium] = await Promise.all([
+        this.resize(oriented.clone(), THUMBNAIL_SIZE),
+        this.resize(oriented.clone(), MEDIUM_SIZE),
+      ]);
+
+      return {
+        original,
+        thumbnail,
+        medium,
+        // Dimensions as displayed, i.e. after applying the EXIF orientation
+        width: metadata.autoOrient.width,
+        height: metadata.autoOrient.height,
+      };
+    } catch (error) {
+      // Corrupt or truncated files pass the magic byte check but fail to decode
+      console.error('Error processing image:', error);
+      throw new InvalidImageError("Image could not be read");
+    }
+  }
+
+  /**
+   * Originals are kept byte for byte unless they carry EXIF data, in which
+   * case they are re-encoded (rotated upright) without it
+   */
+  private static async stripMetadata(buffer: Buffer, format: ImageFormat, metadata: sharp.Metadata): Promise<Rendition> {
+    const { contentType, extension } = IMAGE_TYPES[format];
+    if (!metadata.exif) {
+      return { data: buffer, contentType, extension };
+    }
+
+    const image = sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS }).rotate().keepIccProfile();
+    const data = await image
+      .toFormat(format, format === "png" || format === "gif" ? {} : { quality: ORIGINAL_QUALITY })
+      .toBuffer();
+    return { data, contentType, extension };
+  }
+
+  private static async resize(image: sharp.Sharp, size: number): Promise<Rendition> {
+    const data = await image
+      .resize(size, size, { fit: "inside", withoutEnlargement: true })
+      .toFormat(RENDITION_FORMAT, { quality: RENDITION_QUALITY })
+      .toBuffer();
+    return { data, contentType: RENDITION_CONTENT_TYPE, extension: RENDITION_FORMAT };
+  }
+}
@@ -4,6 +4,7 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { initializeStorage, storageMode } from "./storage";
 import { initializeDatabase, connectionState } from "./db";
+import { NotificationDigests } from "./notifications";
 import 'dotenv/config';
 
 // Uncaught exception handler
@@ -51,11 +52,14 @@ async function startServer() {
         'Content-Type',
         'Authorization',
         'X-Client-Info',
-        'X-User-ID',
+        'X-Edit-Token',
+        'X-File-Name',
         'apikey',
         'X-Supabase-Auth',
         'Range'
-      ]
+      ],
+      // Lets the client name downloaded exports
+      exposedHeaders: ['Content-Disposition']
     }));
 
     app.use(express.json());
@@ -69,12 +73,12 @@ async function startServer() {
            req.path.includes('/messages') || 
            req.path.includes('/chat-settings'))) {
         
-        const userId = req.headers["x-user-id"];
+        const authorization = req.headers.authorization;
         
-        if (!userId || typeof userId !== "string") {
-          console.log(`🔒 AUTH WARNING: Missing user ID header for ${req.method} ${req.path}`);
+        if (!authorization || !authorization.startsWith("Bearer ")) {
+          console.log(`🔒 AUTH WARNING: Missing bearer token for ${req.method} ${req.path}`);
         } else {
-          console.log(`🔒 AUTH OK: User ${userId.substring(0, 8)}... accessing ${req.method} ${req.path}`);
+          console.log(`🔒 AUTH: Bearer token present for ${req.method} ${req.path}`);
         }
       }
       next();
@@ -151,6 +155,7 @@ async function startServer() {
     
     server.listen(PORT, "0.0.0.0", () => {
       log(`✅ Server running on http://localhost:${PORT}`);
+      NotificationDigests.start();
     });
   } catch (error) {
     console.error('❌ Failed to start server:', error);
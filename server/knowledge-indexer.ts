@@ -0,0 +1,297 @@
+import { EmbeddingFactory } from "./embeddings/factory";
+import { cosineSimilarity } from "./embeddings/types";
+import { storage } from "./storage";
+import type { Item, Room, Finish, KnowledgeBase } from "@shared/schema";
+
+export type KnowledgeSourceType = "item" | "room" | "finish";
+
+export interface RetrievedChunk {
+  id: string;
+  title: string;
+  content: string;
+  contentType: KnowledgeBase["content_type"];
+  metadata: Record<string, any>;
+  similarity: number;
+}
+
+interface KnowledgeSource {
+  type: KnowledgeSourceType;
+  id: string;
+  title: string;
+  content: string;
+  metadata: Record<string, any>;
+}
+
+// Source types whose entries are generated from project records by this indexer
+const RECORD_SOURCE_TYPES: string[] = ["item", "room", "finish"];
+
+// Number of texts sent to the embedding provider per request
+const EMBEDDING_BATCH_SIZE = 64;
+
+// Delay before re-indexing after a change, so bursts of edits share one pass
+const SYNC_DEBOUNCE_MS = 2000;
+
+export class KnowledgeIndexer {
+  private static syncsInFlight: Map<string, Promise<void>> = new Map();
+  private static scheduledSyncs: Map<string, NodeJS.Timeout> = new Map();
+
+  /**
+   * Re-index a project shortly after one of its records changed
+   */
+  static scheduleSync(projectId: string): void {
+    const existing = this.scheduledSyncs.get(projectId);
+    if (existing) clearTimeout(existing);
+
+    this.scheduledSyncs.set(projectId, setTimeout(() => {
+      this.scheduledSyncs.delete(projectId);
+      this.syncProject(projectId).catch(error => {
+        console.error(`Knowledge base sync failed for project ${projectId}:`, error);
+      });
+    }, SYNC_DEBOUNCE_MS));
+  }
+
+  /**
+   * Bring the project's knowledge base in line with its rooms, items and finishes:
+   * embed new or changed records, drop entries whose record is gone, and embed
+   * any other entries (notes, documents) that have not been indexed yet
+   */
+  static async syncProject(projectId: string): Promise<void> {
+    const inFlight = this.syncsInFlight.get(projectId);
+    if (inFlight) return inFlight;
+
+    const sync = this.runSync(projectId).finally(() => {
+      this.syncsInFlight.delete(projectId);
+    });
+    this.syncsInFlight.set(projectId, sync);
+    return sync;
+  }
+
+  /**
+   * Remove the knowledge base entries for a deleted record or document
+   */
+  static async removeSource(type: string, id: string): Promise<void> {
+    const entries = await storage.getKnowledgeBaseEntriesBySource(type, id);
+    for (const entry of entries) {
+      await storage.deleteKnowledgeBaseEntry(entry.id);
+    }
+  }
+
+  /**
+   * Return the top-k knowledge base chunks for a query by cosine similarity
+   */
+  static async search(projectId: string, query: string, topK: number): Promise<RetrievedChunk[]> {
+    await this.syncProject(projectId);
+
+    const provider = EmbeddingFactory.getProvider();
+    const [queryEmbedding] = await provider.embed([query]);
+
+    const entries = await storage.getKnowledgeBaseByProjectId(projectId);
+    const scored: RetrievedChunk[] = [];
+
+    for (const entry of entries) {
+      const metadata = (entry.metadata || {}) as Record<string, any>;
+      if (metadata.embedding_model !== provider.modelId) continue;
+
+      const embedding = parseEmbedding(entry.embedding);
+      if (!embedding) continue;
+
+      scored.push({
+        id: entry.id,
+        title: entry.title,
+        content: entry.content,
+        contentType: entry.content_type,
+        metadata,
+        similarity: cosineSimilarity(queryEmbedding, embedding)
+      });
+    }
+
+    return scored
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, topK);
+  }
+
+  private static async runSync(projectId: string): Promise<void> {
+    const provider = EmbeddingFactory.getProvider();
+    const sources = await this.collectSources(projectId);
+    const entries = await storage.getKnowledgeBaseByProjectId(projectId);
+
+    const entriesBySource = new Map<string, KnowledgeBase>();
+    const pendingEntries: KnowledgeBase[] = [];
+
+    for (const entry of entries) {
+      const metadata = (entry.metadata || {}) as Record<string, any>;
+      if (RECORD_SOURCE_TYPES.includes(metadata.source_type) && metadata.source_id) {
+        entriesBySource.set(`${metadata.source_type}:${metadata.source_id}`, entry);
+      } else if (!entry.embedding || metadata.embedding_model !== provider.modelId) {
+        pendingEntries.push(entry);
+      }
+    }
+
+    // Records that are new, edited since they were indexed, or embedded by another model
+    const staleSources = sources.filter(source => {
+      const entry = entriesBySource.get(`${source.type}:${source.id}`);
+      const metadata = (entry?.metadata || {}) as Record<string, any>;
+      return !entry ||
+        !entry.embedding ||
+        entry.content !== source.content ||
+        metadata.embedding_model !== provider.modelId;
+    });
+
+    // Entries whose record has been deleted
+    const sourceKeys = new Set(sources.map(source => `${source.type}:${source.id}`));
+    const orphanedEntries = Array.from(entriesBySource.entries())
+      .filter(([key]) => !sourceKeys.has(key))
+      .map(([, entry]) => entry);
+
+    for (const entry of orphanedEntries) {
+      await storage.deleteKnowledgeBaseEntry(entry.id);
+    }
+
+    if (staleSources.length === 0 && pendingEntries.length === 0) {
+      return;
+    }
+
+    console.log(`🧠 Indexing project ${projectId}: ${staleSources.length} records, ${pendingEntries.length} other entries`);
+
+    for (let i = 0; i < staleSources.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = staleSources.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const embeddings = await provider.embed(batch.map(source => `${source.title}\n${source.content}`));
+
+      for (let j = 0; j < batch.length; j++) {
+        const source = batch[j];
+        const values = {
+          project_id: projectId,
+          content_type: source.type,
+          title: source.title,
+          content: source.content,
+          metadata: {
+            ...source.metadata,
+            source_type: source.type,
+            source_id: source.id,
+            embedding_model: provider.modelId
+          },
+          embedding: JSON.stringify(embeddings[j]),
+          indexed_at: new Date()
+        };
+
+        const existing = entriesBySource.get(`${source.type}:${source.id}`);
+        if (existing) {
+          await storage.updateKnowledgeBaseEntry(existing.id, values);
+        } else {
+          await storage.createKnowledgeBaseEntry(values);
+        }
+      }
+    }
+
+    for (let i = 0; i < pendingEntries.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = pendingEntries.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const embeddings = await provider.embed(batch.map(entry => `${entry.title}\n${entry.content}`));
+
+      for (let j = 0; j < batch.length; j++) {
+        const entry = batch[j];
+        await storage.updateKnowledgeBaseEntry(entry.id, {
+          metadata: {
+            ...((entry.metadata || {}) as Record<string, any>),
+            embedding_model: provider.modelId
+          },
+          embedding: JSON.stringify(embeddings[j]),
+          indexed_at: new Date()
+        });
+      }
+    }
+  }
+
+  /**
+   * Turn the project's rooms, items and finishes into indexable text
+   */
+  private static async collectSources(projectId: string): Promise<KnowledgeSource[]> {
+    const sources: KnowledgeSource[] = [];
+    const rooms = await storage.getRoomsByProjectId(projectId);
+
+    for (const room of rooms) {
+      sources.push(this.roomToSource(room));
+
+      const roomItems = await storage.getItemsByRoomId(room.id);
+      for (const item of roomItems) {
+        sources.push(this.itemToSource(item, room));
+      }
+    }
+
+    const roomNames = new Map(rooms.map(room => [room.id, room.name]));
+    const finishes = await storage.getFinishesByProjectId(projectId);
+    for (const finish of finishes) {
+      sources.push(this.finishToSource(finish, finish.room_id ? roomNames.get(finish.room_id) : undefined));
+    }
+
+    return sources;
+  }
+
+  private static roomToSource(room: Room): KnowledgeSource {
+    let content = `Room: ${room.name}`;
+    if (room.description) content += ` - ${room.description}`;
+    if (room.dimensions) content += ` (${room.dimensions})`;
+    if (room.floor_number) content += ` - Floor ${room.floor_number}`;
+
+    return {
+      type: "room",
+      id: room.id,
+      title: room.name,
+      content,
+      metadata: { room_id: room.id }
+    };
+  }
+
+  private static itemToSource(item: Item, room: Room): KnowledgeSource {
+    let content = `Item: ${item.name} (in ${room.name})`;
+    if (item.category) content += ` - Category: ${item.category}`;
+    if (item.brand) content += ` - Brand: ${item.brand}`;
+    if (item.specifications) content += ` - Specs: ${item.specifications}`;
+    if (item.status) content += ` - Status: ${item.status}`;
+    if (item.supplier) content += ` - Supplier: ${item.supplier}`;
+    if (item.cost) content += ` - Cost: ${item.cost}`;
+    if (item.installation_date) content += ` - Installed: ${item.installation_date}`;
+    if (item.warranty_info) content += ` - Warranty: ${item.warranty_info}`;
+    if (item.maintenance_notes) content += ` - Maintenance: ${item.maintenance_notes}`;
+    if (item.notes) content += ` - Notes: ${item.notes}`;
+
+    return {
+      type: "item",
+      id: item.id,
+      title: item.name,
+      content,
+      metadata: { room_id: room.id, room_name: room.name }
+    };
+  }
+
+  private static finishToSource(finish: Finish, roomName?: string): KnowledgeSource {
+    let content = `Finish: ${finish.name}`;
+    if (roomName) content += ` (in ${roomName})`;
+    if (finish.category) content += ` - Category: ${finish.category}`;
+    if (finish.manufacturer) content += ` - Manufacturer: ${finish.manufacturer}`;
+    if (finish.color) content += ` - Color: ${finish.color}`;
+    if (finish.material) content += ` - Material: ${finish.material}`;
+    if (finish.model_number) content += ` - Model: ${finish.model_number}`;
+    if (finish.specifications) content += ` - Specs: ${finish.specifications}`;
+    if (finish.supplier) content += ` - Supplier: ${finish.supplier}`;
+    if (finish.warranty_info) content += ` - Warranty: ${finish.warranty_info}`;
+    if (finish.maintenance_instructions) content += ` - Maintenance: ${finish.maintenance_instructions}`;
+
+    return {
+      type: "finish",
+      id: finish.id,
+      title: finish.name,
+      content,
+      metadata: { room_id: finish.room_id, room_name: roomName }
+    };
+  }
+}
+
+function parseEmbedding(value: string | null): number[] | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
@@ -1,29 +1,18 @@
-import { BaseLLMProvider, LLMMessage, LLMResponse } from '../types';
+import { BaseLLMProvider, LLMMessage, LLMResponse, LLMStreamChunk, LLMToolCall, LLMToolDefinition } from '../types';
 
 export class AnthropicProvider extends BaseLLMProvider {
-  async generateResponse(messages: LLMMessage[]): Promise<LLMResponse> {
+  supportsTools(): boolean {
+    return true;
+  }
+
+  async generateResponse(messages: LLMMessage[], tools?: LLMToolDefinition[]): Promise<LLMResponse> {
     if (!this.config.apiKey) {
       throw new Error('Anthropic API key is required');
     }
 
     const url = this.config.baseURL || 'https://api.anthropic.com/v1/messages';
     
-    // Convert messages format for Anthropic
-    const systemMessage = messages.find(m => m.role === 'system')?.content || '';
-    const conversationMessages = messages
-      .filter(m => m.role !== 'system')
-      .map(msg => ({
-        role: msg.role,
-        content: msg.content
-      }));
-
-    const requestBody = {
-      model: this.config.model,
-      max_tokens: this.config.maxTokens || 1000,
-      temperature: this.config.temperature || 0.7,
-      system: systemMessage,
-      messages: conversationMessages
-    };
+    const requestBody = this.buildRequestBody(messages, tools);
 
     try {
       const response = await fetch(url, {
@@ -41,12 +30,20 @@ export class AnthropicProvider extends BaseLLMProvider {
       }
 
       const data = await response.json();
+      const blocks: any[] = data.content || [];
+      const toolCalls: LLMToolCall[] = blocks
+        .filter(block => block.type === 'tool_use')
+        .map(block => ({ id: block.id, name: block.name, arguments: block.input || {} }));
       
       return {
-        content: data.content[0]?.text || '',
+        content: blocks
+          .filter(block => block.type === 'text')
+          .map(block => block.text)
+          .join(''),
         model: data.model,
         usage: data.usage,
-        finish_reason: data.stop_reason
+        finish_reason: data.stop_reason,
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined
       };
     } catch (error) {
       console.error('Anthropic API error:', error);
@@ -54,6 +51,152 @@ export class AnthropicProvider extends BaseLLMProvider {
     }
   }
 
+  async *generateStream(messages: LLMMessage[], signal?: AbortSignal, tools?: LLMToolDefinition[]): AsyncGenerator<LLMStreamChunk> {
+    if (!this.config.apiKey) {
+      throw new Error('Anthropic API key is required');
+    }
+
+    const url = this.config.baseURL || 'https://api.anthropic.com/v1/messages';
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.config.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({ ...this.buildRequestBody(messages, tools), stream: true }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error: ${response.status} ${response.statusText}`);
+    }
+
+    let model = this.config.model;
+    let finishReason: string | undefined;
+    let promptTokens = 0;
+    let completionTokens = 0;
+    // Tool use blocks stream their input as partial JSON, keyed by block index
+    const toolBlocks: Map<number, { id: string; name: string; input: string }> = new Map();
+
+    for await (const event of this.readServerSentEvents(response)) {
+      switch (event.type) {
+        case 'message_start':
+          model = event.message?.model || model;
+          promptTokens = event.message?.usage?.input_tokens || 0;
+          break;
+
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            toolBlocks.set(event.index, {
+              id: event.content_block.id,
+              name: event.content_block.name,
+              input: ''
+            });
+          }
+          break;
+
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) {
+            yield { content: event.delta.text, done: false };
+          } else if (event.delta?.type === 'input_json_delta') {
+            const block = toolBlocks.get(event.index);
+            if (block) block.input += event.delta.partial_json || '';
+          }
+          break;
+
+        case 'message_delta':
+          finishReason = event.delta?.stop_reason || finishReason;
+          completionTokens = event.usage?.output_tokens || completionTokens;
+          break;
+
+        case 'error':
+          throw new Error(`Anthropic API error: ${event.error?.message || 'stream error'}`);
+      }
+    }
+
+    const toolCalls: LLMToolCall[] = Array.from(toolBlocks.values()).map(block => ({
+      id: block.id,
+      name: block.name,
+      arguments: this.parseToolArguments(block.input)
+    }));
+
+    yield {
+      content: '',
+      done: true,
+      model,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens
+      },
+      finish_reason: finishReason,
+      tool_calls: toolCalls.length > 0 ? toolCalls : undefined
+    };
+  }
+
+  private buildRequestBody(messages: LLMMessage[], tools?: LLMToolDefinition[]) {
+    // Convert messages format for Anthropic
+    const systemMessage = this.getSystemPrompt(messages);
+    const conversationMessages: { role: string; content: any }[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'system') continue;
+
+      if (msg.role === 'tool') {
+        // Tool results go back as user content; consecutive results share one message
+        const result = { type: 'tool_result', tool_use_id: msg.tool_call_id, content: msg.content };
+        const previous = conversationMessages[conversationMessages.length - 1];
+        if (previous?.role === 'user' && Array.isArray(previous.content)) {
+          previous.content.push(result);
+        } else {
+          conversationMessages.push({ role: 'user', content: [result] });
+        }
+        continue;
+      }
+
+      if (msg.role === 'assistant' && msg.tool_calls?.length) {
+        conversationMessages.push({
+          role: 'assistant',
+          content: [
+            ...(msg.content ? [{ type: 'text', text: msg.content }] : []),
+            ...msg.tool_calls.map(call => ({
+              type: 'tool_use',
+              id: call.id,
+              name: call.name,
+              input: call.arguments
+            }))
+          ]
+        });
+        continue;
+      }
+
+      conversationMessages.push({
+        role: msg.role,
+        content: msg.content
+      });
+    }
+
+    const requestBody: any = {
+      model: this.config.model,
+      max_tokens: this.config.maxTokens || 1000,
+      temperature: this.config.temperature || 0.7,
+      system: systemMessage,
+      messages: conversationMessages
+    };
+
+    if (tools && tools.length > 0) {
+      requestBody.tools = tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters
+      }));
+    }
+
+    return requestBody;
+  }
+
   async validateConfig(): Promise<boolean> {
     try {
       // Simple validation request to Anthropic
@@ -1,37 +1,19 @@
-import { BaseLLMProvider, LLMMessage, LLMResponse } from '../types';
+import { randomUUID } from 'crypto';
+import { BaseLLMProvider, LLMMessage, LLMResponse, LLMStreamChunk, LLMToolCall, LLMToolDefinition } from '../types';
 
 export class GeminiProvider extends BaseLLMProvider {
-  async generateResponse(messages: LLMMessage[]): Promise<LLMResponse> {
+  supportsTools(): boolean {
+    return true;
+  }
+
+  async generateResponse(messages: LLMMessage[], tools?: LLMToolDefinition[]): Promise<LLMResponse> {
     if (!this.config.apiKey) {
       throw new Error('Gemini API key is required');
     }
 
     const url = `https://generativelanguage.googleapis.com/v1beta/models/${this.config.model}:generateContent?key=${this.config.apiKey}`;
     
-    // Convert messages to Gemini format
-    const contents = messages
-      .filter(m => m.role !== 'system')
-      .map(msg => ({
-        role: msg.role === 'assistant' ? 'model' : 'user',
-        parts: [{ text: msg.content }]
-      }));
-
-    // Add system instruction if present
-    const systemMessage = messages.find(m => m.role === 'system')?.content;
-    
-    const requestBody: any = {
-      contents,
-      generationConfig: {
-        temperature: this.config.temperature || 0.7,
-        maxOutputTokens: this.config.maxTokens || 1000,
-      }
-    };
-
-    if (systemMessage) {
-      requestBody.systemInstruction = {
-        parts: [{ text: systemMessage }]
-      };
-    }
+    const requestBody = this.buildRequestBody(messages, tools);
 
     try {
       const response = await fetch(url, {
@@ -47,16 +29,19 @@ export class GeminiProvider extends BaseLLMProvider {
       }
 
       const data = await response.json();
+      const parts = data.candidates?.[0]?.content?.parts || [];
+      const toolCalls = this.readFunctionCalls(parts);
       
       return {
-        content: data.candidates?.[0]?.content?.parts?.[0]?.text || '',
+        content: parts.map((part: { text?: string }) => part.text || '').join(''),
         model: this.config.model,
         usage: data.usageMetadata ? {
           prompt_tokens: data.usageMetadata.promptTokenCount || 0,
           completion_tokens: data.usageMetadata.candidatesTokenCount || 0,
           total_tokens: data.usageMetadata.totalTokenCount || 0
         } : undefined,
-        finish_reason: data.candidates?.[0]?.finishReason
+        finish_reason: data.candidates?.[0]?.finishReason,
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined
       };
     } catch (error) {
       console.error('Gemini API error:', error);
@@ -64,6 +49,139 @@ export class GeminiProvider extends BaseLLMProvider {
     }
   }
 
+  async *generateStream(messages: LLMMessage[], signal?: AbortSignal, tools?: LLMToolDefinition[]): AsyncGenerator<LLMStreamChunk> {
+    if (!this.config.apiKey) {
+      throw new Error('Gemini API key is required');
+    }
+
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${this.config.model}:streamGenerateContent?alt=sse&key=${this.config.apiKey}`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(this.buildRequestBody(messages, tools)),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Gemini API error: ${response.status} ${response.statusText}`);
+    }
+
+    let finishReason: string | undefined;
+    let usage: LLMResponse['usage'];
+    const toolCalls: LLMToolCall[] = [];
+
+    for await (const event of this.readServerSentEvents(response)) {
+      const candidate = event.candidates?.[0];
+      if (candidate?.finishReason) {
+        finishReason = candidate.finishReason;
+      }
+      if (event.usageMetadata) {
+        usage = {
+          prompt_tokens: event.usageMetadata.promptTokenCount || 0,
+          completion_tokens: event.usageMetadata.candidatesTokenCount || 0,
+          total_tokens: event.usageMetadata.totalTokenCount || 0
+        };
+      }
+
+      const parts = candidate?.content?.parts || [];
+      toolCalls.push(...this.readFunctionCalls(parts));
+
+      const text = parts
+        .map((part: { text?: string }) => part.text || '')
+        .join('');
+      if (text) {
+        yield { content: text, done: false };
+      }
+    }
+
+    yield {
+      content: '',
+      done: true,
+      model: this.config.model,
+      usage,
+      finish_reason: finishReason,
+      tool_calls: toolCalls.length > 0 ? toolCalls : undefined
+    };
+  }
+
+  /**
+   * Gemini function calls carry no ID, so one is generated for matching results
+   */
+  private readFunctionCalls(parts: any[]): LLMToolCall[] {
+    return parts
+      .filter(part => part.functionCall)
+      .map(part => ({
+        id: `call_${randomUUID()}`,
+        name: part.functionCall.name,
+        arguments: part.functionCall.args || {}
+      }));
+  }
+
+  private buildRequestBody(messages: LLMMessage[], tools?: LLMToolDefinition[]) {
+    // Convert messages to Gemini format
+    const contents: { role: string; parts: any[] }[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'system') continue;
+
+      if (msg.role === 'tool') {
+        // Function results go back as user parts; consecutive results share one turn
+        const part = { functionResponse: { name: msg.name, response: { content: msg.content } } };
+        const previous = contents[contents.length - 1];
+        if (previous?.role === 'user' && previous.parts.every(p => p.functionResponse)) {
+          previous.parts.push(part);
+        } else {
+          contents.push({ role: 'user', parts: [part] });
+        }
+        continue;
+      }
+
+      const parts: any[] = msg.content ? [{ text: msg.content }] : [];
+      if (msg.role === 'assistant' && msg.tool_calls?.length) {
+        parts.push(...msg.tool_calls.map(call => ({
+          functionCall: { name: call.name, args: call.arguments }
+        })));
+      }
+
+      contents.push({
+        role: msg.role === 'assistant' ? 'model' : 'user',
+        parts: parts.length > 0 ? parts : [{ text: '' }]
+      });
+    }
+
+    // Add system instruction if present
+    const systemMessage = this.getSystemPrompt(messages);
+    
+    const requestBody: any = {
+      contents,
+      generationConfig: {
+        temperature: this.config.temperature || 0.7,
+        maxOutputTokens: this.config.maxTokens || 1000,
+      }
+    };
+
+    if (systemMessage) {
+      requestBody.systemInstruction = {
+        parts: [{ text: systemMessage }]
+      };
+    }
+
+    if (tools && tools.length > 0) {
+      requestBody.tools = [{
+        functionDeclarations: tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters
+        }))
+      }];
+    }
+
+    return requestBody;
+  }
+
   async validateConfig(): Promise<boolean> {
     try {
       const url = `https://generativelanguage.googleapis.com/v1beta/models?key=${this.config.apiKey}`;
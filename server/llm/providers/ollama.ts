@@ -1,21 +1,10 @@
-import { BaseLLMProvider, LLMMessage, LLMResponse } from '../types';
+import { BaseLLMProvider, LLMMessage, LLMResponse, LLMStreamChunk } from '../types';
 
 export class OllamaProvider extends BaseLLMProvider {
   async generateResponse(messages: LLMMessage[]): Promise<LLMResponse> {
     const url = `${this.config.baseURL || 'http://localhost:11434'}/api/chat`;
     
-    const requestBody = {
-      model: this.config.model,
-      messages: messages.map(msg => ({
-        role: msg.role,
-        content: msg.content
-      })),
-      stream: false,
-      options: {
-        temperature: this.config.temperature || 0.7,
-        num_predict: this.config.maxTokens || 1000,
-      }
-    };
+    const requestBody = this.buildRequestBody(messages, false);
 
     try {
       const response = await fetch(url, {
@@ -48,6 +37,67 @@ export class OllamaProvider extends BaseLLMProvider {
     }
   }
 
+  async *generateStream(messages: LLMMessage[], signal?: AbortSignal): AsyncGenerator<LLMStreamChunk> {
+    const url = `${this.config.baseURL || 'http://localhost:11434'}/api/chat`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(this.buildRequestBody(messages, true)),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+    }
+
+    // Ollama streams newline-delimited JSON rather than SSE
+    for await (const line of this.readLines(response)) {
+      if (!line.trim()) continue;
+
+      const data = JSON.parse(line);
+      if (data.error) {
+        throw new Error(`Ollama API error: ${data.error}`);
+      }
+
+      if (data.message?.content) {
+        yield { content: data.message.content, done: false };
+      }
+
+      if (data.done) {
+        yield {
+          content: '',
+          done: true,
+          model: data.model || this.config.model,
+          usage: data.prompt_eval_count ? {
+            prompt_tokens: data.prompt_eval_count || 0,
+            completion_tokens: data.eval_count || 0,
+            total_tokens: (data.prompt_eval_count || 0) + (data.eval_count || 0)
+          } : undefined,
+          finish_reason: data.done_reason || 'stop'
+        };
+        return;
+      }
+    }
+  }
+
+  private buildRequestBody(messages: LLMMessage[], stream: boolean) {
+    return {
+      model: this.config.model,
+      messages: messages.map(msg => ({
+        role: msg.role,
+        content: msg.content
+      })),
+      stream,
+      options: {
+        temperature: this.config.temperature || 0.7,
+        num_predict: this.config.maxTokens || 1000,
+      }
+    };
+  }
+
   async validateConfig(): Promise<boolean> {
     try {
       const url = `${this.config.baseURL || 'http://localhost:11434'}/api/tags`;
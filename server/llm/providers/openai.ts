@@ -1,7 +1,11 @@
-import { BaseLLMProvider, LLMMessage, LLMResponse } from '../types';
+import { BaseLLMProvider, LLMMessage, LLMResponse, LLMStreamChunk, LLMToolCall, LLMToolDefinition } from '../types';
 
 export class OpenAIProvider extends BaseLLMProvider {
-  async generateResponse(messages: LLMMessage[]): Promise<LLMResponse> {
+  supportsTools(): boolean {
+    return true;
+  }
+
+  async generateResponse(messages: LLMMessage[], tools?: LLMToolDefinition[]): Promise<LLMResponse> {
     // Always require an API key, regardless of environment
     if (!this.config.apiKey) {
       throw new Error('OpenAI API key is required');
@@ -12,14 +16,7 @@ export class OpenAIProvider extends BaseLLMProvider {
 
     const url = this.config.baseURL || 'https://api.openai.com/v1/chat/completions';
     
-    const requestBody = {
-      model: this.config.model,
-      messages: messages.map(msg => ({
-        role: msg.role,
-        content: msg.content
-      })),
-      ...this.getBaseConfig()
-    };
+    const requestBody = this.buildRequestBody(messages, tools);
 
     try {
       const response = await fetch(url, {
@@ -36,12 +33,18 @@ export class OpenAIProvider extends BaseLLMProvider {
       }
 
       const data = await response.json();
+      const toolCalls = (data.choices[0]?.message?.tool_calls || []).map((call: any) => ({
+        id: call.id,
+        name: call.function?.name,
+        arguments: this.parseToolArguments(call.function?.arguments)
+      }));
       
       return {
         content: data.choices[0]?.message?.content || '',
         model: data.model,
         usage: data.usage,
-        finish_reason: data.choices[0]?.finish_reason
+        finish_reason: data.choices[0]?.finish_reason,
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined
       };
     } catch (error) {
       console.error('OpenAI API error:', error);
@@ -49,6 +52,120 @@ export class OpenAIProvider extends BaseLLMProvider {
     }
   }
 
+  async *generateStream(messages: LLMMessage[], signal?: AbortSignal, tools?: LLMToolDefinition[]): AsyncGenerator<LLMStreamChunk> {
+    if (!this.config.apiKey) {
+      throw new Error('OpenAI API key is required');
+    }
+
+    const url = this.config.baseURL || 'https://api.openai.com/v1/chat/completions';
+
+    const requestBody = {
+      ...this.buildRequestBody(messages, tools),
+      stream: true,
+      stream_options: { include_usage: true }
+    };
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.config.apiKey}`
+      },
+      body: JSON.stringify(requestBody),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
+    }
+
+    let model = this.config.model;
+    let finishReason: string | undefined;
+    let usage: LLMResponse['usage'];
+    // Tool calls arrive in pieces, keyed by their index in the response
+    const toolCallParts: { id: string; name: string; arguments: string }[] = [];
+
+    for await (const event of this.readServerSentEvents(response)) {
+      model = event.model || model;
+      if (event.usage) {
+        usage = event.usage;
+      }
+
+      const choice = event.choices?.[0];
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+      if (choice?.delta?.content) {
+        yield { content: choice.delta.content, done: false };
+      }
+      for (const part of choice?.delta?.tool_calls || []) {
+        if (!toolCallParts[part.index]) {
+          toolCallParts[part.index] = { id: '', name: '', arguments: '' };
+        }
+        const call = toolCallParts[part.index];
+        if (part.id) call.id = part.id;
+        if (part.function?.name) call.name += part.function.name;
+        if (part.function?.arguments) call.arguments += part.function.arguments;
+      }
+    }
+
+    const toolCalls: LLMToolCall[] = toolCallParts.filter(Boolean).map(call => ({
+      id: call.id,
+      name: call.name,
+      arguments: this.parseToolArguments(call.arguments)
+    }));
+
+    yield {
+      content: '',
+      done: true,
+      model,
+      usage,
+      finish_reason: finishReason,
+      tool_calls: toolCalls.length > 0 ? toolCalls : undefined
+    };
+  }
+
+  private buildRequestBody(messages: LLMMessage[], tools?: LLMToolDefinition[]) {
+    const requestBody: any = {
+      model: this.config.model,
+      messages: messages.map(msg => this.toOpenAIMessage(msg)),
+      ...this.getBaseConfig()
+    };
+
+    if (tools && tools.length > 0) {
+      requestBody.tools = tools.map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters
+        }
+      }));
+    }
+
+    return requestBody;
+  }
+
+  private toOpenAIMessage(msg: LLMMessage) {
+    if (msg.role === 'tool') {
+      return { role: 'tool', tool_call_id: msg.tool_call_id, content: msg.content };
+    }
+
+    if (msg.role === 'assistant' && msg.tool_calls?.length) {
+      return {
+        role: 'assistant',
+        content: msg.content || null,
+        tool_calls: msg.tool_calls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+        }))
+      };
+    }
+
+    return { role: msg.role, content: msg.content };
+  }
+
   async validateConfig(): Promise<boolean> {
     try {
       const response = await fetch('https://api.openai.com/v1/models', {
@@ -0,0 +1,116 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import o200k_base from 'js-tiktoken/ranks/o200k_base';
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base';
+import type { LLMMessage, LLMProvider, LLMToolDefinition } from './types';
+
+// Context window sizes in tokens, matched by longest model name prefix
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-4o': 128000,
+  'gpt-4.1': 1047576,
+  'gpt-4-turbo': 128000,
+  'gpt-4': 8192,
+  'gpt-3.5-turbo': 16385,
+  'o1': 200000,
+  'o3': 200000,
+  'o4-mini': 200000,
+  'claude-3': 200000,
+  'claude-sonnet-4': 200000,
+  'claude-opus-4': 200000,
+  'gemini-1.5-pro': 2097152,
+  'gemini-1.5-flash': 1048576,
+  'gemini-2.0-flash': 1048576,
+  'gemini-2.5': 1048576,
+  'gemini-pro': 32760,
+  'llama3.1': 131072,
+  'llama3.2': 131072,
+  'llama3': 8192,
+  'llama2': 4096,
+  'mistral': 32768,
+  'mixtral': 32768,
+  'codellama': 16384,
+};
+
+// Used when the model is not in the table. Ollama defaults to a small
+// context unless num_ctx is raised, so assume little for local models.
+const DEFAULT_CONTEXT_WINDOWS: Record<LLMProvider, number> = {
+  openai: 128000,
+  anthropic: 200000,
+  gemini: 1048576,
+  ollama: 4096,
+};
+
+// Providers other than OpenAI don't publish a local tokenizer; count with the
+// closest OpenAI encoding and scale up so the estimate errs on the high side
+const TOKEN_SCALE: Record<LLMProvider, number> = {
+  openai: 1,
+  anthropic: 1.2,
+  gemini: 1.1,
+  ollama: 1.25,
+};
+
+// Formatting tokens added per message by the chat format, plus reply priming
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_REPLY = 3;
+
+let o200k: Tiktoken | null = null;
+let cl100k: Tiktoken | null = null;
+
+/**
+ * gpt-4o and newer OpenAI models use o200k_base; older ones and the
+ * estimates for other providers use cl100k_base
+ */
+function getEncoding(provider: LLMProvider, model: string): Tiktoken {
+  const usesO200k = provider === 'gemini' ||
+    (provider === 'openai' && /^(gpt-4o|gpt-4\.1|o\d)/.test(model));
+
+  if (usesO200k) {
+    o200k = o200k || new Tiktoken(o200k_base);
+    return o200k;
+  }
+  cl100k = cl100k || new Tiktoken(cl100k_base);
+  return cl100k;
+}
+
+export function getContextWindow(provider: LLMProvider, model: string): number {
+  const name = model.toLowerCase();
+  let match = '';
+  for (const prefix of Object.keys(MODEL_CONTEXT_WINDOWS)) {
+    if (name.startsWith(prefix) && prefix.length > match.length) {
+      match = prefix;
+    }
+  }
+  return match ? MODEL_CONTEXT_WINDOWS[match] : DEFAULT_CONTEXT_WINDOWS[provider];
+}
+
+export function countTokens(text: string, provider: LLMProvider, model: string): number {
+  if (!text) return 0;
+  const tokens = getEncoding(provider, model).encode(text, [], []).length;
+  return Math.ceil(tokens * TOKEN_SCALE[provider]);
+}
+
+/**
+ * Tokens a single message takes up in a request, including tool calls and
+ * the chat format's per-message overhead
+ */
+export function countMessageTokens(message: LLMMessage, provider: LLMProvider, model: string): number {
+  let tokens = TOKENS_PER_MESSAGE + countTokens(message.content, provider, model);
+  if (message.tool_calls?.length) {
+    tokens += countTokens(JSON.stringify(message.tool_calls), provider, model);
+  }
+  if (message.name) {
+    tokens += countTokens(message.name, provider, model);
+  }
+  return tokens;
+}
+
+export function countMessagesTokens(messages: LLMMessage[], provider: LLMProvider, model: string): number {
+  return messages.reduce(
+    (total, message) => total + countMessageTokens(message, provider, model),
+    TOKENS_PER_REPLY
+  );
+}
+
+export function countToolTokens(tools: LLMToolDefinition[] | undefined, provider: LLMProvider, model: string): number {
+  if (!tools || tools.length === 0) return 0;
+  return countTokens(JSON.stringify(tools), provider, model);
+}
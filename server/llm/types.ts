@@ -2,9 +2,29 @@
 export type LLMProvider = 'openai' | 'anthropic' | 'gemini' | 'ollama';
 
 export interface LLMMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
   timestamp?: Date;
+  tool_calls?: LLMToolCall[]; // Tools the assistant asked to run
+  tool_call_id?: string; // For role 'tool': the call this message answers
+  name?: string; // For role 'tool': the tool that was run
+}
+
+// A function the model may call, described with a JSON Schema for its arguments
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, any>;
+    required?: string[];
+  };
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
 }
 
 export interface LLMResponse {
@@ -16,6 +36,16 @@ export interface LLMResponse {
     total_tokens: number;
   };
   finish_reason?: string;
+  tool_calls?: LLMToolCall[];
+}
+
+export interface LLMStreamChunk {
+  content: string; // Text generated since the previous chunk
+  done: boolean;
+  model?: string;
+  usage?: LLMResponse['usage'];
+  finish_reason?: string;
+  tool_calls?: LLMToolCall[]; // Set on the final chunk
 }
 
 export interface LLMConfig {
@@ -37,9 +67,90 @@ export abstract class BaseLLMProvider {
     this.config = config;
   }
 
-  abstract generateResponse(messages: LLMMessage[]): Promise<LLMResponse>;
+  abstract generateResponse(messages: LLMMessage[], tools?: LLMToolDefinition[]): Promise<LLMResponse>;
+  abstract generateStream(messages: LLMMessage[], signal?: AbortSignal, tools?: LLMToolDefinition[]): AsyncGenerator<LLMStreamChunk>;
   abstract validateConfig(): Promise<boolean>;
+
+  /**
+   * Whether the provider passes tools to the model. Providers that do not
+   * ignore the tools argument and never return tool calls.
+   */
+  supportsTools(): boolean {
+    return false;
+  }
+
+  /**
+   * Combine all system messages, for APIs that take a single system prompt
+   */
+  protected getSystemPrompt(messages: LLMMessage[]): string {
+    return messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+  }
+
+  /**
+   * Parse tool call arguments sent as a JSON string
+   */
+  protected parseToolArguments(value: string | undefined): Record<string, any> {
+    if (!value) return {};
+    try {
+      const parsed = JSON.parse(value);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      console.warn('Could not parse tool call arguments:', value);
+      return {};
+    }
+  }
   
+  /**
+   * Read a streaming response body line by line
+   */
+  protected async *readLines(response: Response): AsyncGenerator<string> {
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          yield line.replace(/\r$/, '');
+        }
+      }
+
+      buffer += decoder.decode();
+      if (buffer) yield buffer;
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Read the JSON payloads of a Server-Sent Events response
+   */
+  protected async *readServerSentEvents(response: Response): AsyncGenerator<any> {
+    for await (const line of this.readLines(response)) {
+      if (!line.startsWith('data:')) continue;
+
+      const data = line.slice('data:'.length).trim();
+      if (!data || data === '[DONE]') continue;
+
+      try {
+        yield JSON.parse(data);
+      } catch {
+        console.warn('Skipping malformed stream event:', data);
+      }
+    }
+  }
+
   protected getBaseConfig() {
     return {
       temperature: this.config.temperature || 0.7,
@@ -0,0 +1,16 @@
+import { MailTransport, MailMessage } from '../types';
+
+/**
+ * Prints messages to the server log instead of sending them. The default
+ * when no SMTP server is configured, so nothing is sent by accident.
+ */
+export class ConsoleMailTransport extends MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log([
+      `📧 Mail to ${message.to} (from ${this.config.from})`,
+      `Subject: ${message.subject}`,
+      '',
+      message.text
+    ].join('\n'));
+  }
+}
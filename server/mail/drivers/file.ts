@@ -0,0 +1,22 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { MailTransport, MailMessage, toMimeMessage } from '../types';
+
+const DEFAULT_OUTPUT_DIR = 'mail';
+
+/**
+ * Writes each message to <dir>/<timestamp>-<id>.eml instead of sending it,
+ * so digests can be checked locally by opening the files in a mail client
+ */
+export class FileMailTransport extends MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    const outputDir = path.resolve(this.config.outputDir || DEFAULT_OUTPUT_DIR);
+    await fs.mkdir(outputDir, { recursive: true });
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const filePath = path.join(outputDir, `${timestamp}-${crypto.randomBytes(4).toString('hex')}.eml`);
+    await fs.writeFile(filePath, toMimeMessage(this.config.from, message));
+    console.log(`📧 Mail to ${message.to} written to ${filePath}`);
+  }
+}
@@ -0,0 +1,173 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import { MailTransport, MailMessage, MailTransportConfig, addressOf, toMimeMessage } from '../types';
+
+// How long to wait for the server before giving up on a message
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * One SMTP session. Replies are read in order as the server sends them;
+ * multi-line replies ("250-...") are collected until their last line.
+ */
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = '';
+  private replies: SmtpReply[] = [];
+  private partial: string[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  static connect(host: string, port: number, secure: boolean): Promise<SmtpSession> {
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(new SmtpSession(socket)))
+        : net.connect({ host, port }, () => resolve(new SmtpSession(socket)));
+      socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error(`SMTP connection to ${host}:${port} timed out`)));
+      socket.once('error', reject);
+    });
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 2);
+      this.partial.push(line.slice(4));
+      // "250-" continues the reply, "250 " ends it
+      if (line.charAt(3) !== '-') {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.partial });
+        this.partial = [];
+      }
+    }
+    this.deliver();
+  }
+
+  private fail(error: Error): void {
+    if (!this.failure) this.failure = error;
+    this.deliver();
+  }
+
+  private deliver(): void {
+    if (!this.waiting) return;
+    const reply = this.replies.shift();
+    if (reply) {
+      this.waiting.resolve(reply);
+      this.waiting = null;
+    } else if (this.failure) {
+      this.waiting.reject(this.failure);
+      this.waiting = null;
+    }
+  }
+
+  /**
+   * Wait for the next reply, failing unless its code is one of those expected
+   */
+  read(expected: number[]): Promise<SmtpReply> {
+    return new Promise<SmtpReply>((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.deliver();
+    }).then(reply => {
+      if (!expected.includes(reply.code)) {
+        throw new Error(`SMTP server replied ${reply.code}: ${reply.lines.join(' ')}`);
+      }
+      return reply;
+    });
+  }
+
+  command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.read(expected);
+  }
+
+  /**
+   * Switch the connection to TLS after a STARTTLS reply
+   */
+  upgrade(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername: host }, () => {
+        this.socket = secure;
+        this.attach(secure);
+        resolve();
+      });
+      secure.once('error', reject);
+    });
+  }
+
+  writeData(data: string): Promise<SmtpReply> {
+    // Lines starting with a dot are escaped by doubling it (RFC 5321 section 4.5.2)
+    const stuffed = data.replace(/\r\n\./g, '\r\n..').replace(/^\./, '..');
+    this.socket.write(`${stuffed}\r\n.\r\n`);
+    return this.read([250]);
+  }
+
+  // The server closes the connection after QUIT; the idle timeout covers one that doesn't
+  close(): void {
+    this.socket.end('QUIT\r\n');
+  }
+}
+
+/**
+ * Sends mail through an SMTP relay, upgrading with STARTTLS when the server
+ * offers it and authenticating with AUTH PLAIN when credentials are set.
+ * Opens a connection per message; digests go out in small numbers.
+ */
+export class SmtpMailTransport extends MailTransport {
+  constructor(config: MailTransportConfig) {
+    super(config);
+    if (!config.host) {
+      throw new Error('SMTP mail transport is not configured (SMTP_HOST)');
+    }
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const host = this.config.host!;
+    const secure = this.config.secure ?? this.config.port === 465;
+    const session = await SmtpSession.connect(host, this.config.port || (secure ? 465 : 587), secure);
+
+    try {
+      await session.read([220]);
+      const hello = await session.command(`EHLO ${os.hostname()}`, [250]);
+
+      if (!secure && hello.lines.some(line => line.toUpperCase().startsWith('STARTTLS'))) {
+        await session.command('STARTTLS', [220]);
+        await session.upgrade(host);
+        await session.command(`EHLO ${os.hostname()}`, [250]);
+      }
+
+      if (this.config.user) {
+        const credentials = Buffer.from(`\0${this.config.user}\0${this.config.password || ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await session.command(`MAIL FROM:<${addressOf(this.config.from)}>`, [250]);
+      await session.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+      await session.command('DATA', [354]);
+      await session.writeData(toMimeMessage(this.config.from, message));
+    } finally {
+      session.close();
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { MailTransport, MailTransportConfig, MailTransportDriver } from './types';
+import { SmtpMailTransport } from './drivers/smtp';
+import { FileMailTransport } from './drivers/file';
+import { ConsoleMailTransport } from './drivers/console';
+
+const DEFAULT_FROM = 'HomeSpec <no-reply@homespec.local>';
+
+export class MailTransportFactory {
+  private static instance: MailTransport | null = null;
+
+  /**
+   * Get the mail transport configured through the environment
+   */
+  static getTransport(): MailTransport {
+    if (!this.instance) {
+      this.instance = this.createTransport(this.getConfigFromEnv());
+    }
+    return this.instance;
+  }
+
+  /**
+   * Creates a new transport instance without caching
+   */
+  static createTransport(config: MailTransportConfig): MailTransport {
+    switch (config.driver) {
+      case 'smtp':
+        return new SmtpMailTransport(config);
+
+      case 'file':
+        return new FileMailTransport(config);
+
+      case 'console':
+        return new ConsoleMailTransport(config);
+
+      default:
+        throw new Error(`Unsupported mail transport driver: ${config.driver}`);
+    }
+  }
+
+  /**
+   * Read MAIL_TRANSPORT, defaulting to SMTP when SMTP_HOST is set and to the
+   * console otherwise
+   */
+  static getConfigFromEnv(): MailTransportConfig {
+    const driver = (process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console')) as MailTransportDriver;
+    const from = process.env.MAIL_FROM || DEFAULT_FROM;
+
+    switch (driver) {
+      case 'smtp':
+        return {
+          driver,
+          from,
+          host: process.env.SMTP_HOST,
+          port: process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT, 10) : undefined,
+          secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : undefined,
+          user: process.env.SMTP_USER,
+          password: process.env.SMTP_PASSWORD
+        };
+
+      case 'file':
+        return { driver, from, outputDir: process.env.MAIL_FILE_PATH };
+
+      default:
+        return { driver: 'console', from };
+    }
+  }
+
+  /**
+   * Clear the cached transport (e.g. after changing the environment)
+   */
+  static clearCache(): void {
+    this.instance = null;
+  }
+}
@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import os from 'os';
+
+// Mail Transport Types and Interfaces
+export type MailTransportDriver = 'smtp' | 'file' | 'console';
+
+export interface MailTransportConfig {
+  driver: MailTransportDriver;
+  from: string;
+  host?: string;
+  port?: number;
+  // Connect over TLS from the start (port 465) instead of upgrading with STARTTLS
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  outputDir?: string; // Directory the file driver writes .eml files to
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  // Extra headers, e.g. List-Unsubscribe
+  headers?: Record<string, string>;
+}
+
+export abstract class MailTransport {
+  protected config: MailTransportConfig;
+
+  constructor(config: MailTransportConfig) {
+    this.config = config;
+  }
+
+  abstract send(message: MailMessage): Promise<void>;
+}
+
+// Bare address from "Name <address>" or "address"
+export function addressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+// RFC 2047 encoded-word for header values that aren't plain ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Body(content: string): string {
+  return Buffer.from(content, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+/**
+ * Render a message as RFC 5322 text with CRLF line endings, as plain text or
+ * multipart/alternative when it has an HTML part
+ */
+export function toMimeMessage(from: string, message: MailMessage, date: Date = new Date()): string {
+  const domain = addressOf(from).split('@')[1] || os.hostname();
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    ...Object.entries(message.headers || {}).map(([name, value]) => `${name}: ${encodeHeader(value)}`)
+  ];
+
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Body(message.text)
+    ].join('\r\n');
+  }
+
+  const boundary = `----=_Part_${crypto.randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
@@ -0,0 +1,177 @@
+import { z } from "zod";
+import { insertMaintenanceTaskSchema, type MaintenanceTask, type Season } from "@shared/schema";
+import { storage } from "./storage";
+import { addDays, addMonths, formatDate, parseDate, today } from "./dates";
+
+// Tasks due within this many days are upcoming. A completion logged this
+// close before a seasonal due date counts for it.
+export const UPCOMING_DAYS = 30;
+
+// First month (1-12) of each season, as meteorological seasons in the
+// northern hemisphere
+export const SEASON_START_MONTH: Record<Season, number> = { spring: 3, summer: 6, autumn: 9, winter: 12 };
+
+export type MaintenanceStatus = "overdue" | "upcoming" | "scheduled" | "completed";
+
+// What a task is for, when it's linked to an item or finish
+export interface MaintenanceSubject {
+  type: "item" | "finish";
+  id: string;
+  name: string;
+}
+
+type ScheduleSubject = MaintenanceSubject & { installedOn: string | null };
+
+export interface ScheduledMaintenanceTask extends MaintenanceTask {
+  // null once a one-off task is done
+  next_due_date: string | null;
+  status: MaintenanceStatus;
+  last_completed_on: string | null;
+  subject: MaintenanceSubject | null;
+}
+
+// A task as sent by the client; the project and author come from the request
+export const maintenanceTaskInputSchema = insertMaintenanceTaskSchema
+  .omit({ project_id: true, created_by: true })
+  .superRefine((task, ctx) => {
+    if (task.recurrence === "interval" && !task.interval_months) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["interval_months"], message: "Choose how many months apart the task repeats" });
+    }
+    if (task.recurrence === "seasonal" && !task.seasons?.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["seasons"], message: "Choose at least one season" });
+    }
+    if (task.item_id && task.finish_id) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["finish_id"], message: "A task can be for an item or a finish, not both" });
+    }
+  })
+  // Drop settings that don't apply to the chosen recurrence
+  .transform(task => ({
+    ...task,
+    interval_months: task.recurrence === "interval" ? task.interval_months : null,
+    seasons: task.recurrence === "seasonal" ? task.seasons : null
+  }));
+export type MaintenanceTaskInput = z.infer<typeof maintenanceTaskInputSchema>;
+
+// The first start of one of the seasons on or after a date
+function nextSeasonStart(seasons: Season[], onOrAfter: string): string {
+  const from = parseDate(onOrAfter);
+  const starts = seasons.flatMap(season => {
+    const month = SEASON_START_MONTH[season] - 1;
+    return [0, 1].map(years => formatDate(new Date(Date.UTC(from.getUTCFullYear() + years, month, 1))));
+  });
+  return starts.filter(start => start >= onOrAfter).sort()[0];
+}
+
+function later(a: string, b: string): string {
+  return a > b ? a : b;
+}
+
+/**
+ * When a task is next due, or null for a one-off task that's been done.
+ * installedOn is the linked item's or finish's installation date.
+ */
+export function nextDueDate(task: MaintenanceTask, installedOn: string | null, lastCompletedOn: string | null): string | null {
+  const anchor = installedOn ?? formatDate(task.created_at);
+
+  let firstDue: string;
+  if (task.recurrence === "seasonal") {
+    firstDue = nextSeasonStart(task.seasons ?? [], task.first_due_date ?? anchor);
+  } else if (task.recurrence === "interval") {
+    firstDue = task.first_due_date ?? addMonths(anchor, task.interval_months ?? 12);
+  } else {
+    firstDue = task.first_due_date ?? anchor;
+  }
+
+  if (!lastCompletedOn) return firstDue;
+
+  switch (task.recurrence) {
+    case "once":
+      return null;
+    case "interval":
+      return later(firstDue, addMonths(lastCompletedOn, task.interval_months ?? 12));
+    case "seasonal":
+      return later(firstDue, nextSeasonStart(task.seasons ?? [], addDays(lastCompletedOn, UPCOMING_DAYS + 1)));
+  }
+}
+
+export function maintenanceStatus(nextDue: string | null, on: string = today()): MaintenanceStatus {
+  if (!nextDue) return "completed";
+  if (nextDue < on) return "overdue";
+  if (nextDue <= addDays(on, UPCOMING_DAYS)) return "upcoming";
+  return "scheduled";
+}
+
+// Tasks that have a due date come first, soonest first
+function byDueDate(a: ScheduledMaintenanceTask, b: ScheduledMaintenanceTask): number {
+  if (a.next_due_date === b.next_due_date) return a.title.localeCompare(b.title);
+  if (!a.next_due_date) return 1;
+  if (!b.next_due_date) return -1;
+  return a.next_due_date < b.next_due_date ? -1 : 1;
+}
+
+export class MaintenanceSchedule {
+  /**
+   * A project's maintenance tasks with their due dates, soonest first.
+   * publicOnly leaves out tasks that aren't shown to homeowners.
+   */
+  static async forProject(projectId: string, options: { publicOnly?: boolean } = {}): Promise<ScheduledMaintenanceTask[]> {
+    const tasks = (await storage.getMaintenanceTasksByProjectId(projectId))
+      .filter(task => !options.publicOnly || task.is_public);
+    if (tasks.length === 0) return [];
+
+    const subjects = new Map<string, ScheduleSubject>();
+    const rooms = await storage.getRoomsByProjectId(projectId);
+    for (const room of rooms) {
+      for (const item of await storage.getItemsByRoomId(room.id)) {
+        subjects.set(item.id, { type: "item", id: item.id, name: item.name, installedOn: item.installation_date });
+      }
+    }
+    for (const finish of await storage.getFinishesByProjectId(projectId)) {
+      subjects.set(finish.id, { type: "finish", id: finish.id, name: finish.name, installedOn: finish.installation_date });
+    }
+
+    // Completions come newest first, so the first one seen is the latest
+    const lastCompleted = new Map<string, string>();
+    for (const completion of await storage.getMaintenanceCompletionsByProjectId(projectId)) {
+      if (!lastCompleted.has(completion.task_id)) {
+        lastCompleted.set(completion.task_id, completion.completed_on);
+      }
+    }
+
+    const on = today();
+    return tasks
+      .map(task => this.schedule(task, subjects.get(task.item_id ?? task.finish_id ?? ""), lastCompleted.get(task.id), on))
+      .sort(byDueDate);
+  }
+
+  /**
+   * One task with its due date
+   */
+  static async forTask(task: MaintenanceTask): Promise<ScheduledMaintenanceTask> {
+    const [latest] = await storage.getMaintenanceCompletions(task.id);
+    return this.schedule(task, await this.subjectOf(task), latest?.completed_on, today());
+  }
+
+  private static schedule(task: MaintenanceTask, subject: ScheduleSubject | undefined, lastCompletedOn: string | undefined, on: string): ScheduledMaintenanceTask {
+    const nextDue = nextDueDate(task, subject?.installedOn ?? null, lastCompletedOn ?? null);
+    return {
+      ...task,
+      next_due_date: nextDue,
+      status: maintenanceStatus(nextDue, on),
+      last_completed_on: lastCompletedOn ?? null,
+      subject: subject ? { type: subject.type, id: subject.id, name: subject.name } : null
+    };
+  }
+
+  private static async subjectOf(task: MaintenanceTask): Promise<ScheduleSubject | undefined> {
+    if (task.item_id) {
+      const item = await storage.getItem(task.item_id);
+      return item && { type: "item", id: item.id, name: item.name, installedOn: item.installation_date };
+    }
+    if (task.finish_id) {
+      const finish = await storage.getFinish(task.finish_id);
+      return finish && { type: "finish", id: finish.id, name: finish.name, installedOn: finish.installation_date };
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,523 @@
+import crypto from "crypto";
+import type { DigestFrequency, InsertNotificationPreferences, NotificationPreferences, Project, ProjectRole } from "@shared/schema";
+import { storage } from "./storage";
+import { MailTransportFactory } from "./mail/factory";
+import type { MailMessage } from "./mail/types";
+import { MaintenanceSchedule, type ScheduledMaintenanceTask } from "./maintenance-schedule";
+import { WarrantyTracker, type TrackedWarranty } from "./warranties";
+import { formatDate } from "./dates";
+
+// How much time each digest covers
+const DIGEST_PERIOD_MS: Record<Exclude<DigestFrequency, "off">, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+const DEFAULT_CHECK_INTERVAL_MINUTES = 60;
+
+// Wait after the server starts before the first check, so restarts don't hold digests back a whole interval
+const FIRST_CHECK_DELAY_MS = 60 * 1000;
+
+// Least time between test digests and confirmation links a user asks for
+const REQUESTED_MAIL_INTERVAL_MS = 5 * 60 * 1000;
+
+export type NotificationSettings = Omit<InsertNotificationPreferences, "user_id">;
+
+// For users who haven't changed their settings; matches the column defaults
+export const DEFAULT_NOTIFICATION_SETTINGS: Required<NotificationSettings> = {
+  email: null,
+  digest_frequency: "weekly",
+  include_maintenance: true,
+  include_warranties: true,
+  include_item_status: true,
+  include_activity: true
+};
+
+const ROLE_NAMES: Record<ProjectRole, string> = {
+  owner: "an owner",
+  editor: "an editor",
+  contributor: "a contributor",
+  viewer: "a viewer"
+};
+
+export class NotificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotificationError";
+  }
+}
+
+export class NotificationRateLimitError extends NotificationError {
+  constructor(public retryAfterSeconds: number) {
+    super("You've asked for an email very recently; try again in a few minutes");
+    this.name = "NotificationRateLimitError";
+  }
+}
+
+export interface ItemStatusChange {
+  item_id: string;
+  name: string;
+  from: string | null;
+  to: string | null;
+}
+
+// What happened in one project since the last digest, and what's coming up
+export interface ProjectDigest {
+  project: Pick<Project, "id" | "name">;
+  maintenance: ScheduledMaintenanceTask[];
+  warranties: TrackedWarranty[];
+  statusChanges: ItemStatusChange[];
+  // Things other members did, e.g. "sam@example.com uploaded manual.pdf"
+  activity: string[];
+}
+
+// The app's address for links in emails, when APP_URL or FRONTEND_URL is set
+export function appUrl(): string {
+  return (process.env.APP_URL || process.env.FRONTEND_URL || "").replace(/\/$/, "");
+}
+
+// The preference email, once its owner has confirmed it
+function confirmedEmail(preferences: NotificationPreferences | undefined): string | null {
+  return preferences?.email && preferences.email_confirmed_at ? preferences.email : null;
+}
+
+function isEmpty(digest: ProjectDigest): boolean {
+  return digest.maintenance.length + digest.warranties.length + digest.statusChanges.length + digest.activity.length === 0;
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+}
+
+function plural(count: number, noun: string, nouns: string = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : nouns}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function describeTask(task: ScheduledMaintenanceTask): string {
+  const title = task.subject ? `${task.title} (${task.subject.name})` : task.title;
+  return task.status === "overdue"
+    ? `${title}: overdue since ${formatDay(task.next_due_date!)}`
+    : `${title}: due ${formatDay(task.next_due_date!)}`;
+}
+
+function describeWarranty(warranty: TrackedWarranty): string {
+  const name = [warranty.subject?.name || "Home", warranty.provider && `(${warranty.provider})`].filter(Boolean).join(" ");
+  return warranty.status === "expired"
+    ? `${name}: expired ${formatDay(warranty.expires_on!)}`
+    : `${name}: expires ${formatDay(warranty.expires_on!)} (${plural(warranty.days_left!, "day")} left)`;
+}
+
+function describeStatusChange(change: ItemStatusChange): string {
+  return `${change.name}: ${change.from || "no status"} → ${change.to || "no status"}`;
+}
+
+// Section headings and lines of one project's digest
+function sections(digest: ProjectDigest): [string, string[]][] {
+  const all: [string, string[]][] = [
+    ["Maintenance due", digest.maintenance.map(describeTask)],
+    ["Warranties expiring", digest.warranties.map(describeWarranty)],
+    ["Item status changes", digest.statusChanges.map(describeStatusChange)],
+    ["Activity", digest.activity]
+  ];
+  return all.filter(([, lines]) => lines.length > 0);
+}
+
+/**
+ * Summaries of the user's projects by email, sent daily or weekly. A digest
+ * covers upcoming and overdue maintenance, warranties about to expire, items
+ * whose status changed and what other members did since the last one.
+ */
+export class NotificationDigests {
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = false;
+
+  /**
+   * A user's settings, with the defaults filled in for anything they haven't set
+   */
+  static settingsOf(preferences: NotificationPreferences | undefined): Required<NotificationSettings> {
+    if (!preferences) return { ...DEFAULT_NOTIFICATION_SETTINGS };
+    const {
+      user_id, email_confirmed_at, email_confirmation_token, last_requested_mail_at, last_digest_at, created_at, updated_at,
+      ...settings
+    } = preferences;
+    return settings;
+  }
+
+  /**
+   * Where a user's digests go: the address they set once they've confirmed
+   * it, else the one they signed in with (when known), else the one they
+   * joined a project with
+   */
+  static async recipientEmail(userId: string, preferences?: NotificationPreferences, signedInEmail?: string): Promise<string | null> {
+    const confirmed = confirmedEmail(preferences);
+    if (confirmed) return confirmed;
+    if (signedInEmail) return signedInEmail;
+    const memberships = await storage.getProjectMembershipsByUserId(userId);
+    return memberships.find(member => member.email)?.email ?? null;
+  }
+
+  /**
+   * Digests for each of the user's projects with something to report
+   */
+  static async build(userId: string, settings: Required<NotificationSettings>, since: Date): Promise<ProjectDigest[]> {
+    const digests: ProjectDigest[] = [];
+    for (const membership of await storage.getProjectMembershipsByUserId(userId)) {
+      const project = await storage.getProject(membership.project_id);
+      if (!project) continue;
+      const digest = await this.buildForProject(project, userId, settings, since);
+      if (!isEmpty(digest)) digests.push(digest);
+    }
+    return digests;
+  }
+
+  private static async buildForProject(
+    project: Project,
+    userId: string,
+    settings: Required<NotificationSettings>,
+    since: Date
+  ): Promise<ProjectDigest> {
+    const digest: ProjectDigest = {
+      project: { id: project.id, name: project.name },
+      maintenance: [],
+      warranties: [],
+      statusChanges: [],
+      activity: []
+    };
+    const sinceDay = formatDate(since);
+
+    if (settings.include_maintenance) {
+      digest.maintenance = (await MaintenanceSchedule.forProject(project.id))
+        .filter(task => task.status === "overdue" || task.status === "upcoming");
+    }
+
+    if (settings.include_warranties) {
+      // Expired ones only once, in the first digest after they expire
+      digest.warranties = (await WarrantyTracker.forProject(project.id))
+        .filter(warranty => warranty.status === "expiring" || (warranty.status === "expired" && warranty.expires_on! >= sinceDay));
+    }
+
+    if (!settings.include_item_status && !settings.include_activity) return digest;
+
+    const members = await storage.getProjectMembers(project.id);
+    const nameOf = (id: string | null) =>
+      id === null ? "Someone with the edit PIN" : members.find(member => member.user_id === id)?.email || "A former member";
+
+    const items = new Map<string, { name: string; status: string | null; created_at: Date }>();
+    for (const room of await storage.getRoomsByProjectId(project.id)) {
+      for (const item of await storage.getItemsByRoomId(room.id)) {
+        items.set(item.id, item);
+      }
+    }
+
+    // Each history row is the version an edit replaced, oldest first
+    const history = await storage.getItemHistoryByProjectIdSince(project.id, since);
+
+    if (settings.include_item_status) {
+      const before = new Map<string, string | null>();
+      for (const version of history) {
+        if (!before.has(version.item_id)) before.set(version.item_id, version.status);
+      }
+      for (const [itemId, from] of Array.from(before.entries())) {
+        const item = items.get(itemId);
+        if (item && (item.status || null) !== (from || null)) {
+          digest.statusChanges.push({ item_id: itemId, name: item.name, from, to: item.status });
+        }
+      }
+    }
+
+    if (settings.include_activity) {
+      const byOthers = <T>(rows: T[], actorOf: (row: T) => string | null) => rows.filter(row => actorOf(row) !== userId);
+
+      const added = Array.from(items.values()).filter(item => item.created_at > since);
+      if (added.length > 0) {
+        digest.activity.push(`${plural(added.length, "item")} added: ${added.map(item => item.name).join(", ")}`);
+      }
+
+      // One line per person and item, however many edits they made
+      const edits = new Map<string, { actor: string | null; name: string; count: number }>();
+      for (const version of byOthers(history, version => version.changed_by)) {
+        const key = `${version.changed_by}:${version.item_id}`;
+        const edit = edits.get(key) ?? { actor: version.changed_by, name: items.get(version.item_id)?.name ?? version.name, count: 0 };
+        edit.count++;
+        edits.set(key, edit);
+      }
+      const finishes = new Map((await storage.getFinishesByProjectId(project.id)).map(finish => [finish.id, finish.name]));
+      for (const version of byOthers(await storage.getFinishHistoryByProjectIdSince(project.id, since), version => version.changed_by)) {
+        const key = `${version.changed_by}:${version.finish_id}`;
+        const edit = edits.get(key) ?? { actor: version.changed_by, name: finishes.get(version.finish_id) ?? "a finish", count: 0 };
+        edit.count++;
+        edits.set(key, edit);
+      }
+      for (const edit of Array.from(edits.values())) {
+        digest.activity.push(`${nameOf(edit.actor)} updated ${edit.name}${edit.count > 1 ? ` (${plural(edit.count, "change")})` : ""}`);
+      }
+
+      for (const member of byOthers(members, member => member.user_id)) {
+        if (member.created_at > since && member.user_id !== project.user_id) {
+          digest.activity.push(`${member.email || "Someone"} joined as ${ROLE_NAMES[member.role]}`);
+        }
+      }
+
+      const tasks = new Map((await storage.getMaintenanceTasksByProjectId(project.id)).map(task => [task.id, task.title]));
+      const completions = (await storage.getMaintenanceCompletionsByProjectId(project.id))
+        .filter(completion => completion.created_at > since);
+      for (const completion of byOthers(completions, completion => completion.completed_by)) {
+        digest.activity.push(`${nameOf(completion.completed_by)} did "${tasks.get(completion.task_id) ?? "a maintenance task"}" on ${formatDay(completion.completed_on)}`);
+      }
+
+      const documents = (await storage.getDocumentsByProjectId(project.id)).filter(document => document.created_at > since);
+      for (const document of byOthers(documents, document => document.uploaded_by)) {
+        digest.activity.push(`${nameOf(document.uploaded_by)} uploaded ${document.filename}`);
+      }
+    }
+
+    return digest;
+  }
+
+  /**
+   * The digest as an email, with links back to the app when APP_URL or
+   * FRONTEND_URL is set
+   */
+  static render(to: string, digests: ProjectDigest[]): MailMessage {
+    const settingsUrl = appUrl() && `${appUrl()}/notifications`;
+
+    const count = (key: "maintenance" | "warranties" | "statusChanges" | "activity") =>
+      digests.reduce((total, digest) => total + digest[key].length, 0);
+    const summary = [
+      count("maintenance") && plural(count("maintenance"), "maintenance task") + " due",
+      count("warranties") && plural(count("warranties"), "warranty", "warranties") + " expiring",
+      count("statusChanges") && plural(count("statusChanges"), "status change"),
+      count("activity") && plural(count("activity"), "update")
+    ].filter(Boolean).join(", ");
+    const subject = digests.length === 1
+      ? `${digests[0].project.name}: ${summary || "nothing new"}`
+      : `Your HomeSpec digest: ${summary || "nothing new"}`;
+
+    const text: string[] = [];
+    const html: string[] = [`<div style="font-family: sans-serif; line-height: 1.5; color: #111;">`];
+
+    if (digests.length === 0) {
+      text.push("Nothing new in your projects since your last digest.");
+      html.push("<p>Nothing new in your projects since your last digest.</p>");
+    }
+
+    for (const digest of digests) {
+      const projectUrl = appUrl() && `${appUrl()}/project/${digest.project.id}`;
+      text.push(digest.project.name, "=".repeat(digest.project.name.length));
+      html.push(`<h2 style="margin: 24px 0 8px;">${escapeHtml(digest.project.name)}</h2>`);
+      for (const [heading, lines] of sections(digest)) {
+        text.push("", `${heading}:`, ...lines.map(line => `- ${line}`));
+        html.push(
+          `<h3 style="margin: 16px 0 4px; font-size: 15px;">${escapeHtml(heading)}</h3>`,
+          `<ul style="margin: 0; padding-left: 20px;">${lines.map(line => `<li>${escapeHtml(line)}</li>`).join("")}</ul>`
+        );
+      }
+      if (projectUrl) {
+        text.push("", `View project: ${projectUrl}`);
+        html.push(`<p><a href="${escapeHtml(projectUrl)}">View project</a></p>`);
+      }
+      text.push("", "");
+    }
+
+    const footer = "You're getting this because you're a member of these projects.";
+    text.push(footer);
+    html.push(`<p style="margin-top: 32px; font-size: 12px; color: #666;">${footer}`);
+    if (settingsUrl) {
+      text.push(`Change how often you get these emails: ${settingsUrl}`);
+      html.push(` <a href="${escapeHtml(settingsUrl)}">Change how often you get these emails.</a>`);
+    }
+    html.push("</p></div>");
+
+    return {
+      to,
+      subject,
+      text: text.join("\n"),
+      html: html.join("\n"),
+      headers: settingsUrl ? { "List-Unsubscribe": `<${settingsUrl}>` } : undefined
+    };
+  }
+
+  /**
+   * The email asking the owner of a preference address to confirm it
+   */
+  static renderConfirmation(to: string, confirmUrl: string): MailMessage {
+    const text = [
+      "Someone asked for HomeSpec project digests to be sent to this address.",
+      "",
+      `If it was you, confirm it: ${confirmUrl}`,
+      "",
+      "If it wasn't, ignore this email and you won't get any digests."
+    ];
+    const html = [
+      `<div style="font-family: sans-serif; line-height: 1.5; color: #111;">`,
+      "<p>Someone asked for HomeSpec project digests to be sent to this address.</p>",
+      `<p>If it was you, <a href="${escapeHtml(confirmUrl)}">confirm it</a>.</p>`,
+      `<p style="font-size: 12px; color: #666;">If it wasn't, ignore this email and you won't get any digests.</p>`,
+      "</div>"
+    ];
+    return { to, subject: "Confirm your HomeSpec digest email", text: text.join("\n"), html: html.join("\n") };
+  }
+
+  // Count mail the user asked for, throwing when it's too soon after the last
+  private static async claimRequestedMail(userId: string): Promise<void> {
+    const now = new Date();
+    if (!await storage.claimRequestedMail(userId, new Date(now.getTime() - REQUESTED_MAIL_INTERVAL_MS), now)) {
+      throw new NotificationRateLimitError(REQUESTED_MAIL_INTERVAL_MS / 1000);
+    }
+  }
+
+  /**
+   * Save the user's settings. A new email isn't sent digests until its owner
+   * follows the link mailed to it, unless it's the one they signed in with.
+   * confirmUrl builds that link from the confirmation token.
+   */
+  static async savePreferences(
+    userId: string,
+    settings: NotificationSettings,
+    signedInEmail: string | undefined,
+    confirmUrl: (token: string) => string
+  ): Promise<NotificationPreferences> {
+    const previous = await storage.getNotificationPreferences(userId);
+    let preferences = await storage.saveNotificationPreferences({ ...settings, user_id: userId });
+    if ((preferences.email ?? null) === (previous?.email ?? null)) return preferences;
+
+    const email = preferences.email;
+    if (!email || email.toLowerCase() === signedInEmail?.toLowerCase()) {
+      await storage.resetNotificationEmailConfirmation(userId, null, email ? new Date() : null);
+    } else {
+      await storage.resetNotificationEmailConfirmation(userId, crypto.randomBytes(24).toString("base64url"), null);
+    }
+    preferences = (await storage.getNotificationPreferences(userId))!;
+    if (preferences.email_confirmation_token) {
+      // Saving still succeeds when it's too soon; the user can ask for the link again later
+      try {
+        await this.sendConfirmation(userId, preferences, confirmUrl);
+      } catch (error) {
+        if (!(error instanceof NotificationRateLimitError)) throw error;
+      }
+    }
+    return preferences;
+  }
+
+  /**
+   * Mail the link confirming the user's preference email again
+   */
+  static async resendConfirmation(userId: string, confirmUrl: (token: string) => string): Promise<string> {
+    const preferences = await storage.getNotificationPreferences(userId);
+    if (!preferences?.email || !preferences.email_confirmation_token) {
+      throw new NotificationError("There's no email waiting to be confirmed");
+    }
+    await this.sendConfirmation(userId, preferences, confirmUrl);
+    return preferences.email;
+  }
+
+  private static async sendConfirmation(
+    userId: string,
+    preferences: NotificationPreferences,
+    confirmUrl: (token: string) => string
+  ): Promise<void> {
+    await this.claimRequestedMail(userId);
+    const message = this.renderConfirmation(preferences.email!, confirmUrl(preferences.email_confirmation_token!));
+    await MailTransportFactory.getTransport().send(message);
+  }
+
+  /**
+   * Confirm the preference email whose link carried this token. Returns
+   * false when the link is stale, e.g. the email was changed since.
+   */
+  static async confirmEmail(token: string): Promise<boolean> {
+    return !!await storage.confirmNotificationEmail(token);
+  }
+
+  /**
+   * Send the user their digest now, covering the last period of their
+   * frequency, even when there's nothing to report. For checking mail setup;
+   * users can ask for one every few minutes.
+   */
+  static async sendTest(userId: string, signedInEmail?: string): Promise<string> {
+    const preferences = await storage.getNotificationPreferences(userId);
+    const settings = this.settingsOf(preferences);
+    const email = await this.recipientEmail(userId, preferences, signedInEmail);
+    if (!email) {
+      throw new NotificationError("Add an email address to send digests to");
+    }
+    await this.claimRequestedMail(userId);
+
+    const period = DIGEST_PERIOD_MS[settings.digest_frequency === "daily" ? "daily" : "weekly"];
+    const digests = await this.build(userId, settings, new Date(Date.now() - period));
+    await MailTransportFactory.getTransport().send(this.render(email, digests));
+    return email;
+  }
+
+  /**
+   * Send every digest that's due. Each is claimed before it's built, so
+   * server instances checking at the same time don't send it twice.
+   * Returns how many emails went out.
+   */
+  static async sendDue(now: Date = new Date(), checkIntervalMs: number = DEFAULT_CHECK_INTERVAL_MINUTES * 60 * 1000): Promise<number> {
+    let sent = 0;
+    for (const recipient of await storage.getNotificationRecipients()) {
+      const preferences = await storage.getNotificationPreferences(recipient.user_id);
+      const settings = this.settingsOf(preferences);
+      if (settings.digest_frequency === "off") continue;
+
+      const email = confirmedEmail(preferences) || recipient.email;
+      if (!email) continue;
+
+      // Due a check early, so the time digests go out doesn't drift later each period
+      const period = DIGEST_PERIOD_MS[settings.digest_frequency];
+      const dueBefore = new Date(now.getTime() - period + checkIntervalMs);
+      if (!await storage.claimDigest(recipient.user_id, dueBefore, now)) continue;
+
+      const previous = preferences?.last_digest_at ?? null;
+      try {
+        const digests = await this.build(recipient.user_id, settings, previous ?? new Date(now.getTime() - period));
+        if (digests.length === 0) continue;
+        await MailTransportFactory.getTransport().send(this.render(email, digests));
+        sent++;
+      } catch (error) {
+        console.error(`Failed to send digest to user ${recipient.user_id}:`, error);
+        // Put the claim back so the next check tries again with the same period
+        await storage.releaseDigest(recipient.user_id, now, previous);
+      }
+    }
+    return sent;
+  }
+
+  /**
+   * Check for due digests every DIGEST_CHECK_INTERVAL_MINUTES (60 by
+   * default; 0 turns digests off)
+   */
+  static start(): void {
+    const minutes = process.env.DIGEST_CHECK_INTERVAL_MINUTES
+      ? parseInt(process.env.DIGEST_CHECK_INTERVAL_MINUTES, 10)
+      : DEFAULT_CHECK_INTERVAL_MINUTES;
+    if (!(minutes > 0) || this.timer) return;
+
+    const intervalMs = minutes * 60 * 1000;
+    const check = async () => {
+      if (this.running) return;
+      this.running = true;
+      try {
+        const sent = await this.sendDue(new Date(), intervalMs);
+        if (sent > 0) console.log(`📧 Sent ${plural(sent, "notification digest")}`);
+      } catch (error) {
+        console.error("Notification digest check failed:", error);
+      } finally {
+        this.running = false;
+      }
+    };
+
+    setTimeout(check, FIRST_CHECK_DELAY_MS).unref();
+    this.timer = setInterval(check, intervalMs);
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,476 @@
+import JSZip from "jszip";
+import crypto from "crypto";
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import {
+  insertProjectSchema,
+  insertRoomSchema,
+  insertItemSchema,
+  insertItemHistorySchema,
+  insertFinishSchema,
+  insertImageSchema,
+  insertDocumentSchema,
+  insertConversationSchema,
+  insertMessageSchema
+} from "@shared/schema";
+import type { Project, PinAttempts, Room, Item, ItemHistory, Finish, Image, Document, Conversation, Message } from "@shared/schema";
+import { storage, type ProjectRecords } from "./storage";
+import { FileStoreFactory } from "./files/factory";
+import { IMAGE_BUCKET, DOCUMENT_BUCKET, FILE_BUCKETS, contentTypeFor, toSafeFileName, documentFolder, type FileBucket } from "./files/types";
+import { DocumentIngestion } from "./document-ingestion";
+import { KnowledgeIndexer } from "./knowledge-indexer";
+
+// Identifies our archives, and the manifest layout they use. Bump the version
+// when the layout changes and teach readManifest to upgrade the older one.
+export const ARCHIVE_FORMAT = "homespec-project";
+export const ARCHIVE_VERSION = 1;
+
+const MANIFEST_FILE = "manifest.json";
+
+// Caps on what an archive may expand to. Uploads are limited by their
+// compressed size, which says little about how large the contents inflate.
+const MAX_ARCHIVE_ENTRIES = 10_000;
+const MAX_UNCOMPRESSED_BYTES = 1024 * 1024 * 1024;
+
+function checkEntryCount(zip: JSZip): void {
+  const entries = Object.values(zip.files).filter(entry => !entry.dir);
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    throw new ProjectArchiveError(`Archive has more than ${MAX_ARCHIVE_ENTRIES} files`);
+  }
+}
+
+/**
+ * Bytes the archive may still inflate to. The sizes a zip declares can be
+ * forged, so the bytes are counted as they come out instead.
+ */
+class InflateBudget {
+  private remaining = MAX_UNCOMPRESSED_BYTES;
+
+  spend(bytes: number): boolean {
+    this.remaining -= bytes;
+    return this.remaining >= 0;
+  }
+}
+
+/**
+ * Inflate an entry, stopping as soon as the archive as a whole grows past the cap
+ */
+function readEntry(entry: JSZip.JSZipObject, budget: InflateBudget): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const stream = entry.nodeStream("nodebuffer");
+    stream.on("data", (chunk: Buffer) => {
+      if (!budget.spend(chunk.length)) {
+        stream.removeAllListeners("data");
+        (stream as NodeJS.ReadableStream & { destroy?: () => void }).destroy?.();
+        reject(new ProjectArchiveError(`Archive expands to more than ${MAX_UNCOMPRESSED_BYTES / (1024 * 1024)} MB`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+    stream.on("error", reject);
+  });
+}
+
+/**
+ * Everything in a project. Files are stored next to the manifest under
+ * files/<bucket>/<storage path>.
+ */
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exported_at: string;
+  // The edit PIN and access code stay with the original project
+  project: Omit<Project, "edit_pin" | "access_code" | keyof PinAttempts>;
+  rooms: Room[];
+  items: Item[];
+  item_history: ItemHistory[];
+  finishes: Finish[];
+  images: Image[];
+  documents: Document[];
+  // Only the exporting user's conversations, as conversations are private
+  conversations: (Conversation & { messages: Message[] })[];
+}
+
+/**
+ * Thrown when an uploaded archive can't be imported
+ */
+export class ProjectArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectArchiveError";
+  }
+}
+
+// Rows are checked against the insert schemas when imported; here we only
+// need enough structure to remap references
+const rowSchema = z.object({ id: z.string() }).passthrough();
+
+const manifestSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int(),
+  project: rowSchema,
+  rooms: z.array(rowSchema),
+  items: z.array(rowSchema),
+  item_history: z.array(rowSchema),
+  finishes: z.array(rowSchema),
+  images: z.array(rowSchema),
+  documents: z.array(rowSchema),
+  conversations: z.array(rowSchema.extend({ messages: z.array(rowSchema) }))
+});
+
+function archivePath(bucket: FileBucket, path: string): string {
+  return `files/${bucket}/${path}`;
+}
+
+function imagePaths(image: { storage_path: string; thumbnail_path?: string | null; medium_path?: string | null }): string[] {
+  return [image.storage_path, image.thumbnail_path, image.medium_path].filter((path): path is string => !!path);
+}
+
+/**
+ * Where an imported file goes: under the folder of the record it now belongs
+ * to, keeping only a cleaned-up file name from the archive. Paths in the
+ * archive are never written to, as they could point into another project.
+ */
+function importPath(folder: string, archivedPath: string): string {
+  const name = toSafeFileName(archivedPath.split("/").pop() || "file");
+  return `${folder}/${nanoid(8)}-${name}`;
+}
+
+function toDate(value: unknown): Date {
+  const date = typeof value === "string" ? new Date(value) : undefined;
+  return date && !isNaN(date.getTime()) ? date : new Date();
+}
+
+/**
+ * New IDs for the imported rows, and the references between them
+ */
+class IdMap {
+  private ids = new Map<string, string>();
+
+  assign(oldId: string): string {
+    const newId = crypto.randomUUID();
+    this.ids.set(oldId, newId);
+    return newId;
+  }
+
+  get(oldId: unknown): string | undefined {
+    return typeof oldId === "string" ? this.ids.get(oldId) : undefined;
+  }
+
+  // For references that must point inside the archive
+  require(oldId: unknown, what: string): string {
+    const newId = this.get(oldId);
+    if (!newId) {
+      throw new ProjectArchiveError(`Archive refers to a ${what} it does not contain`);
+    }
+    return newId;
+  }
+
+  // Message metadata (citations and the like) refers to rows by ID
+  deep(value: unknown): unknown {
+    if (typeof value === "string") return this.ids.get(value) ?? value;
+    if (Array.isArray(value)) return value.map(entry => this.deep(entry));
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, this.deep(entry)]));
+    }
+    return value;
+  }
+}
+
+export class ProjectArchive {
+  /**
+   * Build a zip of a project, its records and its files
+   */
+  static async exportProject(project: Project, userId: string): Promise<Buffer> {
+    const rooms = await storage.getRoomsByProjectId(project.id);
+    const items = (await Promise.all(rooms.map(room => storage.getItemsByRoomId(room.id)))).flat();
+    const itemHistory = (await Promise.all(items.map(item => storage.getItemHistory(item.id)))).flat();
+    const finishes = await storage.getFinishesByProjectId(project.id);
+    const images = await storage.getImagesByProjectId(project.id);
+    const documents = await storage.getDocumentsByProjectId(project.id);
+    const conversations = await storage.getConversationsByProjectId(project.id, userId);
+    const messages = await Promise.all(conversations.map(conversation => storage.getConversationMessages(conversation.id)));
+
+    const { edit_pin, access_code, pin_failed_attempts, pin_first_failed_at, pin_locked_until, ...projectData } = project;
+    const manifest: ArchiveManifest = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exported_at: new Date().toISOString(),
+      project: projectData,
+      rooms,
+      items,
+      item_history: itemHistory,
+      finishes,
+      images,
+      documents,
+      conversations: conversations.map((conversation, i) => ({ ...conversation, messages: messages[i] }))
+    };
+
+    const zip = new JSZip();
+    zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2), { compression: "DEFLATE" });
+
+    // Images and most documents are compressed already, so files are stored as they are
+    const fileStore = FileStoreFactory.getStore();
+    const files: [FileBucket, string][] = [
+      ...images.flatMap(imagePaths).map((path): [FileBucket, string] => [IMAGE_BUCKET, path]),
+      ...documents.map((document): [FileBucket, string] => [DOCUMENT_BUCKET, document.storage_path])
+    ];
+    for (const [bucket, path] of files) {
+      const file = await fileStore.get(bucket, path);
+      if (file) {
+        zip.file(archivePath(bucket, path), file.data);
+      } else {
+        console.warn(`File ${bucket}/${path} is missing and was left out of the export of project ${project.id}`);
+      }
+    }
+
+    return zip.generateAsync({ type: "nodebuffer" });
+  }
+
+  /**
+   * Recreate an exported project under a user. Every record gets a new ID, so
+   * an archive can be imported more than once or next to the original.
+   */
+  static async importProject(archive: Buffer, userId: string): Promise<Project> {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(archive);
+    } catch {
+      throw new ProjectArchiveError("File is not a zip archive");
+    }
+    checkEntryCount(zip);
+
+    const budget = new InflateBudget();
+    const manifest = await this.readManifest(zip, budget);
+    const ids = new IdMap();
+    const originalOwner = manifest.project.user_id;
+    // Authorship only carries over for the original owner
+    const mapUser = (id: unknown) => (id && id === originalOwner ? userId : null);
+
+    const fileExists = (bucket: FileBucket, path: unknown) =>
+      typeof path === "string" && zip.file(archivePath(bucket, path)) !== null;
+
+    const projectId = ids.assign(manifest.project.id);
+    const records: ProjectRecords = {
+      project: {
+        ...insertProjectSchema.parse({
+          ...manifest.project,
+          user_id: userId,
+          access_code: nanoid(10),
+          require_pin: false,
+          edit_pin: null
+        }),
+        id: projectId,
+        created_at: toDate(manifest.project.created_at)
+      },
+      rooms: [],
+      items: [],
+      itemHistory: [],
+      finishes: [],
+      images: [],
+      documents: [],
+      conversations: [],
+      messages: []
+    };
+
+    // IDs are assigned before rows are built so references between them resolve
+    for (const row of [...manifest.rooms, ...manifest.items, ...manifest.finishes, ...manifest.conversations]) {
+      ids.assign(row.id);
+    }
+
+    for (const room of manifest.rooms) {
+      records.rooms.push({
+        ...insertRoomSchema.parse({ ...room, project_id: projectId }),
+        id: ids.require(room.id, "room"),
+        created_at: toDate(room.created_at),
+        updated_at: toDate(room.updated_at)
+      });
+    }
+
+    for (const item of manifest.items) {
+      records.items.push({
+        ...insertItemSchema.parse({ ...item, room_id: ids.require(item.room_id, "room") }),
+        id: ids.require(item.id, "item"),
+        version: Number.isInteger(item.version) ? item.version as number : 1,
+        created_at: toDate(item.created_at),
+        updated_at: toDate(item.updated_at)
+      });
+    }
+
+    for (const entry of manifest.item_history) {
+      records.itemHistory.push({
+        ...insertItemHistorySchema.parse({
+          ...entry,
+          item_id: ids.require(entry.item_id, "item"),
+          // The item may have been in a room that no longer exists
+          room_id: ids.get(entry.room_id) ?? entry.room_id,
+          changed_by: mapUser(entry.changed_by)
+        }),
+        id: crypto.randomUUID(),
+        created_at: toDate(entry.created_at)
+      });
+    }
+
+    for (const finish of manifest.finishes) {
+      records.finishes.push({
+        ...insertFinishSchema.parse({
+          ...finish,
+          project_id: projectId,
+          room_id: finish.room_id ? ids.require(finish.room_id, "room") : null
+        }),
+        id: ids.require(finish.id, "finish"),
+        version: Number.isInteger(finish.version) ? finish.version as number : 1,
+        created_at: toDate(finish.created_at),
+        updated_at: toDate(finish.updated_at)
+      });
+    }
+
+    // Copy the files, skipping records whose file didn't make it into the archive
+    const uploads: [FileBucket, string, string][] = [];
+
+    for (const image of manifest.images) {
+      if (!fileExists(IMAGE_BUCKET, image.storage_path)) {
+        console.warn(`Skipping image ${image.id}: its file is not in the archive`);
+        continue;
+      }
+      const itemId = ids.require(image.item_id, "item");
+      // Missing renditions fall back to the original
+      const copy = (path: unknown) => {
+        if (!fileExists(IMAGE_BUCKET, path)) return null;
+        const to = importPath(itemId, path as string);
+        uploads.push([IMAGE_BUCKET, path as string, to]);
+        return to;
+      };
+      const parsed = insertImageSchema.parse({
+        ...image,
+        item_id: itemId,
+        storage_path: copy(image.storage_path),
+        thumbnail_path: copy(image.thumbnail_path),
+        medium_path: copy(image.medium_path)
+      });
+      records.images.push({ ...parsed, id: crypto.randomUUID(), created_at: toDate(image.created_at) });
+    }
+
+    for (const document of manifest.documents) {
+      if (!fileExists(DOCUMENT_BUCKET, document.storage_path)) {
+        console.warn(`Skipping document ${document.id}: its file is not in the archive`);
+        continue;
+      }
+      const target = {
+        project_id: projectId,
+        item_id: document.item_id ? ids.require(document.item_id, "item") : null,
+        room_id: document.room_id ? ids.require(document.room_id, "room") : null,
+        finish_id: document.finish_id ? ids.require(document.finish_id, "finish") : null
+      };
+      const parsed = insertDocumentSchema.parse({
+        ...document,
+        ...target,
+        storage_path: importPath(documentFolder(target), document.storage_path as string),
+        uploaded_by: mapUser(document.uploaded_by)
+      });
+      records.documents.push({
+        ...parsed,
+        id: crypto.randomUUID(),
+        created_at: toDate(document.created_at),
+        updated_at: toDate(document.updated_at)
+      });
+      uploads.push([DOCUMENT_BUCKET, document.storage_path as string, parsed.storage_path]);
+    }
+
+    for (const { messages, ...conversation } of manifest.conversations) {
+      const conversationId = ids.require(conversation.id, "conversation");
+      records.conversations.push({
+        ...insertConversationSchema.parse({ ...conversation, project_id: projectId, user_id: userId }),
+        id: conversationId,
+        created_at: toDate(conversation.created_at),
+        updated_at: toDate(conversation.updated_at)
+      });
+      for (const message of messages) {
+        records.messages.push({
+          ...insertMessageSchema.parse({
+            ...message,
+            conversation_id: conversationId,
+            metadata: ids.deep(message.metadata ?? null)
+          }),
+          id: crypto.randomUUID(),
+          created_at: toDate(message.created_at)
+        });
+      }
+    }
+
+    // Files go first, so the records never point at files that aren't there
+    const fileStore = FileStoreFactory.getStore();
+    const stored: [FileBucket, string][] = [];
+    try {
+      for (const [bucket, from, to] of uploads) {
+        const data = await readEntry(zip.file(archivePath(bucket, from))!, budget);
+        const document = bucket === DOCUMENT_BUCKET
+          ? records.documents.find(record => record.storage_path === to)
+          : undefined;
+        await fileStore.put(bucket, to, data, document?.mime_type ?? contentTypeFor(to));
+        stored.push([bucket, to]);
+      }
+      const project = await storage.importProject(records);
+
+      this.indexImportedProject(project, records);
+      console.log(`📦 Imported project ${project.id} from archive version ${manifest.version}: ${records.rooms.length} rooms, ${records.items.length} items, ${stored.length} files`);
+      return project;
+    } catch (error) {
+      await Promise.all(FILE_BUCKETS.map(bucket =>
+        fileStore.remove(bucket, stored.filter(([fileBucket]) => fileBucket === bucket).map(([, path]) => path))
+      )).catch(cleanupError => {
+        console.error('Error removing files of failed import:', cleanupError);
+      });
+      throw error;
+    }
+  }
+
+  private static async readManifest(zip: JSZip, budget: InflateBudget): Promise<z.infer<typeof manifestSchema>> {
+    const file = zip.file(MANIFEST_FILE);
+    if (!file) {
+      throw new ProjectArchiveError("Archive has no manifest");
+    }
+
+    const text = (await readEntry(file, budget)).toString("utf8");
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new ProjectArchiveError("Archive manifest is not valid JSON");
+    }
+
+    const header = data as { format?: unknown; version?: unknown };
+    if (header?.format !== ARCHIVE_FORMAT) {
+      throw new ProjectArchiveError("Archive is not a HomeSpec project export");
+    }
+    if (typeof header.version !== "number" || header.version > ARCHIVE_VERSION) {
+      throw new ProjectArchiveError("Archive was made by a newer version of HomeSpec");
+    }
+
+    const result = manifestSchema.safeParse(data);
+    if (!result.success) {
+      throw new ProjectArchiveError("Archive manifest is incomplete");
+    }
+    return result.data;
+  }
+
+  // The knowledge base isn't exported; rebuild it for the new project in the background
+  private static indexImportedProject(project: Project, records: ProjectRecords): void {
+    KnowledgeIndexer.scheduleSync(project.id);
+
+    const itemIds = new Set(records.documents.map(document => document.item_id).filter((id): id is string => !!id));
+    (async () => {
+      for (const itemId of Array.from(itemIds)) {
+        const item = await storage.getItem(itemId);
+        const room = item ? await storage.getRoom(item.room_id) : undefined;
+        if (item && room) {
+          await DocumentIngestion.syncItemDocuments(item, room);
+        }
+      }
+    })().catch(error => {
+      console.error('Error ingesting imported documents:', error);
+    });
+  }
+}
@@ -1,208 +1,1883 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
-import { getStorage, storageMode } from "./storage";
+import { getStorage, storageMode, VersionConflictError } from "./storage";
 import { db, connectionState } from "./db";
-import { insertRoomSchema, insertFinishSchema, insertProjectSchema, insertItemSchema, insertConversationSchema, insertMessageSchema, insertChatSettingsSchema } from "@shared/schema";
+import { insertRoomSchema, insertFinishSchema, insertProjectSchema, insertItemSchema, insertDocumentSchema, insertConversationSchema, insertMessageSchema, insertChatSettingsSchema, insertProjectMemberSchema, insertProjectInvitationSchema, insertProjectTransferSchema, insertMaintenanceCompletionSchema, insertNotificationPreferencesSchema, DOCUMENT_KINDS } from "@shared/schema";
 import { ZodError } from "zod";
 import { nanoid } from "nanoid";
+import crypto from "crypto";
 import { ChatService } from "./chat-service";
+import { KnowledgeIndexer } from "./knowledge-indexer";
+import { DocumentIngestion } from "./document-ingestion";
+import { ImageProcessor, InvalidImageError } from "./image-processing";
+import { ProjectArchive, ProjectArchiveError } from "./project-archive";
+import { SpreadsheetImport, SpreadsheetImportError, columnMappingSchema, convertExcelDateToISO } from "./spreadsheet-import";
+import { SpreadsheetExport, SpreadsheetExportError, exportOptionsSchema } from "./spreadsheet-export";
+import { MaintenanceSchedule, maintenanceTaskInputSchema, type ScheduledMaintenanceTask } from "./maintenance-schedule";
+import { ProjectCalendar } from "./calendar-feed";
+import { NotificationDigests, NotificationError, NotificationRateLimitError, appUrl } from "./notifications";
+import { WarrantyTracker, warrantyInputSchema, warrantyTextSchema, parseWarrantyText, resolveExpiry, type WarrantyInput } from "./warranties";
+import { requireAuth, requireProjectMember, requireProjectContributor, requireProjectEditor, requireProjectOwner, requireRoomMember, requireRoomContributor, requireRoomEditor, requireItemMember, requireItemContributor, requireItemEditor, requireFinishMember, requireFinishContributor, requireDocumentContributor, requireDocumentEditor, requireMaintenanceTaskMember, requireMaintenanceTaskContributor, requireMaintenanceTaskEditor, requireWarrantyContributor, requireWarrantyEditor, requireConversationOwner, hasProjectRole, getProjectRole, issueLocalToken, issueEditToken, issueFileToken, verifyFileToken, EDIT_TOKEN_TTL_SECONDS, EXPORT_FILE_TOKEN_TTL_SECONDS } from "./auth";
+import { hashPin, verifyPin, isValidPin, isHashedPin, reserveAttempt, clearFailedAttempts } from "./edit-pin";
+import { FileStoreFactory } from "./files/factory";
+import { IMAGE_BUCKET, DOCUMENT_BUCKET, isFileBucket, sniffInlineContentType, toSafeFileName, documentFolder, type FileBucket, type DocumentTarget } from "./files/types";
+import type { Project, ProjectInvitation, ProjectTransfer, Image, Document, DocumentKind, MaintenanceCompletion, MaintenancePhoto, InsertWarranty, CalendarFeed, NotificationPreferences } from "@shared/schema";
 
-// Excel dates start from 1900-01-01
-const EXCEL_EPOCH = new Date(1900, 0, 1);
+// Never send the edit PIN (or its hash) to the client
+function toProjectResponse(project: Project) {
+  const { edit_pin, pin_failed_attempts, pin_first_failed_at, pin_locked_until, ...rest } = project;
+  return { ...rest, has_edit_pin: !!edit_pin };
+}
+
+// Prepare an item payload from the client for schema validation
+function normalizeItemInput(body: Record<string, any>): Record<string, any> {
+  const data = { ...body };
+
+  // The item forms send cost as a number but the column is numeric (string in drizzle)
+  if (typeof data.cost === "number") {
+    data.cost = String(data.cost);
+  } else if (data.cost === "") {
+    data.cost = null;
+  }
+
+  // Accept both ISO dates and Excel serial dates
+  if ("installation_date" in data) {
+    const date = data.installation_date;
+    if (date === "" || date === null || date === undefined) {
+      data.installation_date = null;
+    } else if (!isNaN(Number(date))) {
+      data.installation_date = convertExcelDateToISO(date);
+    }
+  }
+
+  return data;
+}
+
+// Newest first, the order the project and room pages list rooms and items in
+function newestFirst<T extends { created_at: Date }>(records: T[]): T[] {
+  return [...records].sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+}
+
+// The version of a record the client last loaded, sent with updates so that
+// changes made by someone else in the meantime aren't silently overwritten
+function readExpectedVersion(body: Record<string, any>): number | undefined {
+  const version = typeof body.version === "string" ? Number(body.version) : body.version;
+  return Number.isInteger(version) ? version : undefined;
+}
+
+// Largest file accepted for upload, the same limit the storage buckets had
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+// Uploads are sent as the raw request body with the file name in the
+// X-File-Name header, so no multipart parser is needed
+const rawUpload = express.raw({ type: () => true, limit: MAX_UPLOAD_BYTES });
+
+// Project archives carry every image and document, so they get a larger limit
+const MAX_ARCHIVE_BYTES = 500 * 1024 * 1024;
+const archiveUpload = express.raw({ type: () => true, limit: MAX_ARCHIVE_BYTES });
+
+interface Upload {
+  data: Buffer;
+  fileName: string;
+  contentType: string;
+}
+
+function readUpload(req: Request): Upload | null {
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) return null;
+
+  let fileName = "upload";
+  const header = req.get("X-File-Name");
+  if (header) {
+    try {
+      fileName = decodeURIComponent(header);
+    } catch {
+      fileName = header;
+    }
+  }
+
+  return {
+    data: req.body,
+    fileName,
+    contentType: req.get("Content-Type") || "application/octet-stream"
+  };
+}
+
+// How long an invitation can be accepted for
+const INVITATION_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+const createInvitationSchema = insertProjectInvitationSchema.pick({ email: true, role: true });
+const updateMemberSchema = insertProjectMemberSchema.pick({ role: true });
+
+// Path of the page where an invitation is accepted, relative to the app's origin
+function withInviteUrl(invitation: ProjectInvitation): ProjectInvitation & { invite_url: string } {
+  return { ...invitation, invite_url: `/invite/${invitation.token}` };
+}
+
+const createTransferSchema = insertProjectTransferSchema.pick({ email: true, previous_owner_role: true });
+
+// Path of the page where a handover is accepted, relative to the app's origin
+function withTransferUrl(transfer: ProjectTransfer): ProjectTransfer & { transfer_url: string } {
+  return { ...transfer, transfer_url: `/transfer/${transfer.token}` };
+}
+
+// Path of a project's calendar feed, relative to the app's origin
+function withFeedUrl(feed: CalendarFeed): CalendarFeed & { feed_url: string } {
+  return { ...feed, feed_url: `/api/calendar/${feed.token}.ics` };
+}
+
+// Signed link to a stored file that works without an Authorization header
+function fileUrl(bucket: FileBucket, path: string, ttlSeconds?: number): string {
+  const encodedPath = path.split("/").map(encodeURIComponent).join("/");
+  return `/api/files/${bucket}/${encodedPath}?token=${issueFileToken(bucket, path, ttlSeconds)}`;
+}
+
+// Images older than the renditions fall back to the original at every size
+function withImageUrls(image: Image): Image & { url: string; thumbnail_url: string; medium_url: string } {
+  const url = fileUrl(IMAGE_BUCKET, image.storage_path);
+  return {
+    ...image,
+    url,
+    thumbnail_url: image.thumbnail_path ? fileUrl(IMAGE_BUCKET, image.thumbnail_path) : url,
+    medium_url: image.medium_path ? fileUrl(IMAGE_BUCKET, image.medium_path) : url
+  };
+}
+
+// Every stored file belonging to an image
+function imagePaths(image: Image): string[] {
+  return [image.storage_path, image.thumbnail_path, image.medium_path].filter((path): path is string => !!path);
+}
+
+function withDocumentUrl(document: Document): Document & { url: string } {
+  return { ...document, url: fileUrl(DOCUMENT_BUCKET, document.storage_path) };
+}
+
+// Documents are uploaded as the raw body, so their kind comes in the query string
+function readDocumentKind(value: unknown): DocumentKind | null {
+  if (value === undefined) return "other";
+  return DOCUMENT_KINDS.find(kind => kind === value) ?? null;
+}
+
+// Only the name and kind of a document can be changed after upload
+const updateDocumentSchema = insertDocumentSchema
+  .pick({ filename: true, kind: true })
+  .extend({ filename: insertDocumentSchema.shape.filename.trim().min(1, "Name is required") })
+  .partial();
+
+// Only the date and notes are sent when logging a completion; photos are uploaded after
+const completeMaintenanceSchema = insertMaintenanceCompletionSchema.pick({ completed_on: true, notes: true });
+
+function maintenancePhotoPaths(photo: MaintenancePhoto): string[] {
+  return [photo.storage_path, photo.thumbnail_path];
+}
+
+function withPhotoUrls(completion: MaintenanceCompletion) {
+  return {
+    ...completion,
+    photos: completion.photos.map(photo => ({
+      ...photo,
+      url: fileUrl(IMAGE_BUCKET, photo.storage_path),
+      thumbnail_url: fileUrl(IMAGE_BUCKET, photo.thumbnail_path)
+    }))
+  };
+}
+
+// What homeowners see of a task on the public project page
+function toPublicMaintenanceTask(task: ScheduledMaintenanceTask) {
+  const { id, title, description, recurrence, interval_months, seasons, next_due_date, status, last_completed_on, subject } = task;
+  return { id, title, description, recurrence, interval_months, seasons, next_due_date, status, last_completed_on, subject };
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Ensure storage is initialized
+  const storage = await getStorage();
+  
+  // Add a debug route for checking server and database status
+  app.get("/api/debug/status", async (req, res) => {
+    try {
+      const dbTestResult = await testDatabaseConnection();
+      
+      res.json({
+        status: "OK",
+        timestamp: new Date().toISOString(),
+        environment: process.env.NODE_ENV || "unknown",
+        storageMode,
+        database: {
+          connected: dbTestResult,
+          connectionState
+        },
+        version: process.env.npm_package_version || "unknown"
+      });
+    } catch (error) {
+      res.status(500).json({
+        status: "ERROR",
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString()
+      });
+    }
+  });
+
+  // Issue a locally signed token for development and API testing
+  if (process.env.NODE_ENV !== "production" && process.env.LOCAL_AUTH_SECRET) {
+    app.post("/api/auth/dev-token", (req, res) => {
+      const { user_id, email } = req.body;
+      if (!user_id || typeof user_id !== "string") {
+        return res.status(400).json({ message: "user_id is required" });
+      }
+      res.json({ token: issueLocalToken(user_id, email) });
+    });
+  }
+
+  // Project routes
+  app.get("/api/projects", requireAuth, async (req, res) => {
+    const userId = req.auth!.id;
+    const [projects, memberships] = await Promise.all([
+      storage.getProjectsByUserId(userId),
+      storage.getProjectMembershipsByUserId(userId)
+    ]);
+    const roles = new Map(memberships.map(member => [member.project_id, member.role]));
+    res.json(projects.map(project => ({
+      ...toProjectResponse(project),
+      role: project.user_id === userId ? "owner" : roles.get(project.id)
+    })));
+  });
+
+  app.get("/api/projects/:accessCode", async (req, res) => {
+    const project = await storage.getProjectByAccessCode(req.params.accessCode);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    res.json(toProjectResponse(project));
+  });
+
+  // The project page is public to anyone with its link. Browsers load the
+  // project here rather than from Supabase, which can't see edit_pin.
+  app.get("/api/public/projects/:projectId", async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(toProjectResponse(project));
+    } catch (error) {
+      console.error("Error fetching project:", error);
+      res.status(500).json({ message: "Failed to fetch project" });
+    }
+  });
+
+  app.get("/api/public/projects/:projectId/rooms", async (req, res) => {
+    try {
+      const rooms = await storage.getRoomsByProjectId(req.params.projectId);
+      res.json(newestFirst(rooms));
+    } catch (error) {
+      console.error("Error fetching rooms:", error);
+      res.status(500).json({ message: "Failed to fetch rooms" });
+    }
+  });
+
+  // Every item in the project, each with the name of its room
+  app.get("/api/public/projects/:projectId/items", async (req, res) => {
+    try {
+      const rooms = await storage.getRoomsByProjectId(req.params.projectId);
+      const items = (await Promise.all(rooms.map(async room =>
+        (await storage.getItemsByRoomId(room.id)).map(item => ({
+          ...item,
+          rooms: { name: room.name, project_id: room.project_id }
+        }))
+      ))).flat();
+      res.json(newestFirst(items));
+    } catch (error) {
+      console.error("Error fetching items:", error);
+      res.status(500).json({ message: "Failed to fetch items" });
+    }
+  });
+
+  app.post("/api/projects", requireAuth, async (req, res) => {
+    const userId = req.auth!.id;
+
+    try {
+      const requestData = {
+        ...req.body,
+        user_id: userId,
+        access_code: nanoid(10) // Generate a unique access code
+      };
+      
+      const projectData = insertProjectSchema.parse(requestData);
+      if (projectData.edit_pin) {
+        if (!isValidPin(projectData.edit_pin)) {
+          return res.status(400).json({ message: "Edit PIN must be 4 digits" });
+        }
+        projectData.edit_pin = await hashPin(projectData.edit_pin);
+      }
+
+      const project = await storage.createProject(projectData);
+      res.status(201).json(toProjectResponse(project));
+    } catch (error) {
+      console.error("Project creation error:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ message: "Invalid project data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create project" });
+      }
+    }
+  });
+
+  // Exchange the project edit PIN for a short-lived edit token
+  app.post("/api/projects/:projectId/unlock", async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      if (!project.require_pin || !project.edit_pin) {
+        return res.status(400).json({ message: "This project does not use an edit PIN" });
+      }
+
+      const { lockoutRemaining, attemptsRemaining } = await reserveAttempt(project.id);
+      if (lockoutRemaining > 0) {
+        res.set('Retry-After', String(Math.ceil(lockoutRemaining / 1000)));
+        return res.status(429).json({ message: "Too many incorrect attempts. Try again later." });
+      }
+
+      const { pin } = req.body;
+      if (!isValidPin(pin) || !(await verifyPin(pin, project.edit_pin))) {
+        return res.status(401).json({ message: "Incorrect PIN", attemptsRemaining });
+      }
+
+      await clearFailedAttempts(project.id);
+
+      // Upgrade PINs stored before hashing was introduced
+      if (!isHashedPin(project.edit_pin)) {
+        await storage.updateProject(project.id, { edit_pin: await hashPin(pin) });
+      }
+
+      res.json({
+        token: issueEditToken(project.id),
+        expiresAt: new Date(Date.now() + EDIT_TOKEN_TTL_SECONDS * 1000).toISOString()
+      });
+    } catch (error) {
+      console.error("Error unlocking project:", error);
+      res.status(500).json({ message: "Failed to unlock project" });
+    }
+  });
+
+  // Set or clear the edit PIN (owner only)
+  app.put("/api/projects/:projectId/pin", requireAuth, requireProjectOwner, async (req, res) => {
+    try {
+      const { require_pin, edit_pin } = req.body;
+      if (typeof require_pin !== "boolean") {
+        return res.status(400).json({ message: "require_pin must be a boolean" });
+      }
+
+      const updates: Partial<Project> = { require_pin };
+      if (require_pin) {
+        if (edit_pin !== undefined && edit_pin !== null && edit_pin !== "") {
+          if (!isValidPin(edit_pin)) {
+            return res.status(400).json({ message: "Edit PIN must be 4 digits" });
+          }
+          updates.edit_pin = await hashPin(edit_pin);
+        } else if (!req.project!.edit_pin) {
+          return res.status(400).json({ message: "An edit PIN is required" });
+        }
+      } else {
+        updates.edit_pin = null;
+      }
+
+      const project = await storage.updateProject(req.params.projectId, updates);
+      res.json(toProjectResponse(project));
+    } catch (error) {
+      console.error("Error updating edit PIN:", error);
+      res.status(500).json({ message: "Failed to update edit PIN" });
+    }
+  });
+
+  // Project members, and for owners the invitations still waiting to be accepted
+  app.get("/api/projects/:projectId/members", requireAuth, requireProjectMember, async (req, res) => {
+    try {
+      const project = req.project!;
+      const members = await storage.getProjectMembers(project.id);
+      const invitations = req.projectRole === "owner" ? await storage.getPendingProjectInvitations(project.id) : [];
+      res.json({
+        role: req.projectRole,
+        members: members.map(member => ({ ...member, is_primary_owner: member.user_id === project.user_id })),
+        invitations: invitations.map(withInviteUrl)
+      });
+    } catch (error) {
+      console.error("Error fetching project members:", error);
+      res.status(500).json({ message: "Failed to fetch project members" });
+    }
+  });
+
+  // Invite someone by email, or create an invite link when no email is given
+  app.post("/api/projects/:projectId/invitations", requireAuth, requireProjectOwner, async (req, res) => {
+    try {
+      const { email, role } = createInvitationSchema.parse(req.body);
+      const invitation = await storage.createProjectInvitation({
+        project_id: req.params.projectId,
+        email: email || null,
+        role,
+        token: crypto.randomBytes(24).toString("base64url"),
+        invited_by: req.auth!.id,
+        expires_at: new Date(Date.now() + INVITATION_TTL_MS)
+      });
+      res.status(201).json(withInviteUrl(invitation));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid invitation", errors: error.errors });
+      }
+      console.error("Error creating invitation:", error);
+      res.status(500).json({ message: "Failed to create invitation" });
+    }
+  });
+
+  app.delete("/api/projects/:projectId/invitations/:invitationId", requireAuth, requireProjectOwner, async (req, res) => {
+    try {
+      const invitation = await storage.getProjectInvitation(req.params.invitationId);
+      if (!invitation || invitation.project_id !== req.params.projectId) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      await storage.deleteProjectInvitation(invitation.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking invitation:", error);
+      res.status(500).json({ message: "Failed to revoke invitation" });
+    }
+  });
+
+  app.patch("/api/projects/:projectId/members/:memberId", requireAuth, requireProjectOwner, async (req, res) => {
+    try {
+      const project = req.project!;
+      const member = await storage.getProjectMemberById(req.params.memberId);
+      if (!member || member.project_id !== project.id) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (member.user_id === project.user_id) {
+        return res.status(400).json({ message: "The project's primary owner is always an owner; hand the project over instead" });
+      }
+
+      const { role } = updateMemberSchema.parse(req.body);
+      const updated = await storage.updateProjectMember(member.id, { role });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid role", errors: error.errors });
+      }
+      console.error("Error updating member:", error);
+      res.status(500).json({ message: "Failed to update member" });
+    }
+  });
+
+  // Owners can remove anyone but the primary owner; other members can only leave
+  app.delete("/api/projects/:projectId/members/:memberId", requireAuth, requireProjectMember, async (req, res) => {
+    try {
+      const project = req.project!;
+      const member = await storage.getProjectMemberById(req.params.memberId);
+      if (!member || member.project_id !== project.id) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (member.user_id === project.user_id) {
+        return res.status(400).json({ message: "The project's primary owner can't be removed" });
+      }
+      if (req.projectRole !== "owner" && member.user_id !== req.auth!.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      await storage.deleteProjectMember(member.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing member:", error);
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+
+  // Look up an invitation by its token, responding with an error when it can't be used
+  const loadInvitation = async (req: Request, res: Response) => {
+    const invitation = await storage.getProjectInvitationByToken(req.params.token);
+    const project = invitation && await storage.getProject(invitation.project_id);
+    if (!invitation || !project) {
+      res.status(404).json({ message: "Invitation not found" });
+      return null;
+    }
+    if (invitation.accepted_at) {
+      res.status(410).json({ message: "This invitation has already been used" });
+      return null;
+    }
+    if (invitation.expires_at < new Date()) {
+      res.status(410).json({ message: "This invitation has expired" });
+      return null;
+    }
+    return { invitation, project };
+  };
+
+  app.get("/api/invitations/:token", requireAuth, async (req, res) => {
+    try {
+      const found = await loadInvitation(req, res);
+      if (!found) return;
+      const { invitation, project } = found;
+      res.json({
+        project: { id: project.id, name: project.name, address: project.address },
+        role: invitation.role,
+        email: invitation.email,
+        current_role: await getProjectRole(project, req.auth!.id)
+      });
+    } catch (error) {
+      console.error("Error fetching invitation:", error);
+      res.status(500).json({ message: "Failed to fetch invitation" });
+    }
+  });
+
+  app.post("/api/invitations/:token/accept", requireAuth, async (req, res) => {
+    try {
+      const found = await loadInvitation(req, res);
+      if (!found) return;
+      const { invitation, project } = found;
+
+      const email = req.auth!.email?.toLowerCase() ?? null;
+      if (invitation.email && invitation.email !== email) {
+        return res.status(403).json({ message: "This invitation was sent to a different email address" });
+      }
+
+      const member = await storage.acceptProjectInvitation(invitation, req.auth!.id, email);
+      res.json({ project: toProjectResponse(project), role: member.role });
+    } catch (error) {
+      console.error("Error accepting invitation:", error);
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+
+  // The open handover of a project, if any. Only the primary owner can hand it over.
+  app.get("/api/projects/:projectId/transfer", requireAuth, requireProjectOwner, async (req, res) => {
+    try {
+      const project = req.project!;
+      const transfer = await storage.getPendingProjectTransfer(project.id);
+      res.json({
+        can_transfer: project.user_id === req.auth!.id,
+        transfer: transfer ? withTransferUrl(transfer) : null
+      });
+    } catch (error) {
+      console.error("Error fetching project transfer:", error);
+      res.status(500).json({ message: "Failed to fetch project transfer" });
+    }
+  });
+
+  app.post("/api/projects/:projectId/transfer", requireAuth, requireProjectOwner, async (req, res) => {
+    try {
+      const project = req.project!;
+      if (project.user_id !== req.auth!.id) {
+        return res.status(403).json({ message: "Only the project's primary owner can hand it over" });
+      }
+
+      const { email, previous_owner_role } = createTransferSchema.parse(req.body);
+      const transfer = await storage.createProjectTransfer({
+        project_id: project.id,
+        token: crypto.randomBytes(24).toString("base64url"),
+        from_user_id: req.auth!.id,
+        email: email || null,
+        previous_owner_role,
+        expires_at: new Date(Date.now() + INVITATION_TTL_MS)
+      });
+      res.status(201).json(withTransferUrl(transfer));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid transfer", errors: error.errors });
+      }
+      console.error("Error creating project transfer:", error);
+      res.status(500).json({ message: "Failed to create project transfer" });
+    }
+  });
+
+  app.delete("/api/projects/:projectId/transfer", requireAuth, requireProjectOwner, async (req, res) => {
+    try {
+      const transfer = await storage.getPendingProjectTransfer(req.params.projectId);
+      if (transfer) {
+        await storage.deleteProjectTransfer(transfer.id);
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error cancelling project transfer:", error);
+      res.status(500).json({ message: "Failed to cancel project transfer" });
+    }
+  });
+
+  // Look up a transfer by its token, responding with an error when it can't be used
+  const loadTransfer = async (req: Request, res: Response) => {
+    const transfer = await storage.getProjectTransferByToken(req.params.token);
+    const project = transfer && await storage.getProject(transfer.project_id);
+    if (!transfer || !project) {
+      res.status(404).json({ message: "Handover not found" });
+      return null;
+    }
+    if (transfer.accepted_at) {
+      res.status(410).json({ message: "This handover has already been accepted" });
+      return null;
+    }
+    if (transfer.expires_at < new Date()) {
+      res.status(410).json({ message: "This handover link has expired" });
+      return null;
+    }
+    return { transfer, project };
+  };
+
+  app.get("/api/transfers/:token", requireAuth, async (req, res) => {
+    try {
+      const found = await loadTransfer(req, res);
+      if (!found) return;
+      const { transfer, project } = found;
+      res.json({
+        project: { id: project.id, name: project.name, address: project.address, builder_name: project.builder_name },
+        email: transfer.email,
+        previous_owner_role: transfer.previous_owner_role,
+        is_current_owner: project.user_id === req.auth!.id
+      });
+    } catch (error) {
+      console.error("Error fetching project transfer:", error);
+      res.status(500).json({ message: "Failed to fetch project transfer" });
+    }
+  });
+
+  app.post("/api/transfers/:token/accept", requireAuth, async (req, res) => {
+    try {
+      const found = await loadTransfer(req, res);
+      if (!found) return;
+      const { transfer, project } = found;
+
+      if (project.user_id === req.auth!.id) {
+        return res.status(400).json({ message: "You already own this project" });
+      }
+      const email = req.auth!.email?.toLowerCase() ?? null;
+      if (transfer.email && transfer.email !== email) {
+        return res.status(403).json({ message: "This handover was sent to a different email address" });
+      }
+
+      const updated = await storage.completeProjectTransfer(transfer, req.auth!.id, email);
+      if (!updated) {
+        return res.status(409).json({ message: "This project has changed hands since the handover was created" });
+      }
+      KnowledgeIndexer.scheduleSync(updated.id);
+      res.json({ project: toProjectResponse(updated) });
+    } catch (error) {
+      console.error("Error accepting project transfer:", error);
+      res.status(500).json({ message: "Failed to accept project transfer" });
+    }
+  });
+
+  // Download the whole project, files included, as a zip archive
+  app.get("/api/projects/:projectId/export", requireAuth, requireProjectOwner, async (req, res) => {
+    try {
+      const project = req.project!;
+      const archive = await ProjectArchive.exportProject(project, req.auth!.id);
+      const fileName = `${toSafeFileName(project.name)}-${new Date().toISOString().split("T")[0]}.zip`;
+      res.set("Content-Type", "application/zip");
+      res.set("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.send(archive);
+    } catch (error) {
+      console.error("Error exporting project:", error);
+      res.status(500).json({ message: "Failed to export project" });
+    }
+  });
+
+  // Recreate a project from an exported archive, owned by the current user
+  app.post("/api/projects/import", requireAuth, archiveUpload, async (req, res) => {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const project = await ProjectArchive.importProject(req.body, req.auth!.id);
+      res.status(201).json(toProjectResponse(project));
+    } catch (error) {
+      if (error instanceof ProjectArchiveError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Archive contains invalid records", errors: error.errors });
+      }
+      console.error("Error importing project:", error);
+      res.status(500).json({ message: "Failed to import project" });
+    }
+  });
+
+  // Room routes
+  app.get("/api/projects/:projectId/rooms", requireAuth, requireProjectMember, async (req, res) => {
+    const rooms = await storage.getRoomsByProjectId(req.params.projectId);
+    res.json(rooms);
+  });
+
+  // A room with the project it belongs to, for the room page
+  app.get("/api/rooms/:roomId", requireAuth, requireRoomMember, async (req, res) => {
+    const room = await storage.getRoom(req.params.roomId);
+    if (!room) {
+      return res.status(404).json({ message: "Room not found" });
+    }
+    res.json({ ...room, projects: { id: req.project!.id, name: req.project!.name } });
+  });
+
+  app.post("/api/projects/:projectId/rooms", requireProjectEditor, async (req, res) => {
+    try {
+      const roomData = insertRoomSchema.parse({
+        ...req.body,
+        project_id: req.params.projectId
+      });
+      const room = await storage.createRoom(roomData);
+      KnowledgeIndexer.scheduleSync(req.project!.id);
+      res.status(201).json(room);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ message: "Invalid room data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create room" });
+      }
+    }
+  });
+
+  app.put("/api/rooms/:roomId", requireRoomEditor, async (req, res) => {
+    try {
+      // Rooms can't move between projects
+      const { project_id, ...updates } = insertRoomSchema.partial().parse(req.body);
+      const room = await storage.updateRoom(req.params.roomId, updates);
+      KnowledgeIndexer.scheduleSync(req.project!.id);
+      res.json(room);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ message: "Invalid room data", errors: error.errors });
+      } else {
+        console.error("Error updating room:", error);
+        res.status(500).json({ message: "Failed to update room" });
+      }
+    }
+  });
+
+  app.delete("/api/rooms/:roomId", requireRoomEditor, async (req, res) => {
+    try {
+      const roomItems = await storage.getItemsByRoomId(req.params.roomId);
+      const [images, documents] = await Promise.all([
+        Promise.all(roomItems.map(item => storage.getImagesByItemId(item.id))),
+        Promise.all([
+          storage.getDocumentsByRoomId(req.params.roomId),
+          ...roomItems.map(item => storage.getDocumentsByItemId(item.id))
+        ])
+      ]);
+
+      await storage.deleteRoom(req.params.roomId);
+      KnowledgeIndexer.scheduleSync(req.project!.id);
+      // The item, image and document rows cascade with the room; the files themselves are cleaned up here
+      const fileStore = FileStoreFactory.getStore();
+      Promise.all([
+        fileStore.remove(IMAGE_BUCKET, images.flat().flatMap(imagePaths)),
+        fileStore.remove(DOCUMENT_BUCKET, documents.flat().map(document => document.storage_path))
+      ]).catch(error => {
+        console.error('Error removing room files:', error);
+      });
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting room:", error);
+      res.status(500).json({ message: "Failed to delete room" });
+    }
+  });
+
+  // Import items from an XLSX, XLS or CSV file. Runs as a dry run unless
+  // ?dry_run=false, so the client can preview what each row will do first.
+  app.post("/api/projects/:projectId/items/import", requireProjectEditor, rawUpload, async (req, res) => {
+    try {
+      const upload = readUpload(req);
+      if (!upload) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      let mapping;
+      if (typeof req.query.mapping === "string") {
+        try {
+          mapping = columnMappingSchema.parse(JSON.parse(req.query.mapping));
+        } catch {
+          return res.status(400).json({ message: "Invalid column mapping" });
+        }
+      }
+
+      const result = await SpreadsheetImport.run(req.params.projectId, upload.data, {
+        mapping,
+        mode: req.query.mode === "upsert" ? "upsert" : "skip",
+        createRooms: req.query.create_rooms === "true",
+        dryRun: req.query.dry_run !== "false"
+      }, req.auth?.id ?? null);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof SpreadsheetImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error importing items:", error);
+      res.status(500).json({ message: "Failed to import items" });
+    }
+  });
+
+  // Download items, and optionally finishes, as XLSX, CSV or JSON
+  app.get("/api/projects/:projectId/items/export", requireAuth, requireProjectMember, async (req, res) => {
+    try {
+      const project = req.project!;
+      const options = exportOptionsSchema.parse(req.query);
+      // Spreadsheets are opened outside the app, so image links are absolute and long-lived
+      const origin = `${req.protocol}://${req.get("host")}`;
+      const file = await SpreadsheetExport.exportProject(project, options, (image) =>
+        origin + fileUrl(IMAGE_BUCKET, image.storage_path, EXPORT_FILE_TOKEN_TTL_SECONDS)
+      );
+      const fileName = `${toSafeFileName(project.name)}-items.${file.extension}`;
+      res.set("Content-Type", file.contentType);
+      res.set("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.send(file.data);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid export options", errors: error.errors });
+      }
+      if (error instanceof SpreadsheetExportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error exporting items:", error);
+      res.status(500).json({ message: "Failed to export items" });
+    }
+  });
+
+  // Item routes
+  app.get("/api/rooms/:roomId/items", requireAuth, requireRoomMember, async (req, res) => {
+    const items = await storage.getItemsByRoomId(req.params.roomId);
+    res.json(newestFirst(items));
+  });
+
+  app.post("/api/rooms/:roomId/items", requireRoomContributor, async (req, res) => {
+    try {
+      const itemData = insertItemSchema.parse({
+        ...normalizeItemInput(req.body),
+        room_id: req.params.roomId
+      });
+
+      const item = await storage.createItem(itemData);
+      KnowledgeIndexer.scheduleSync(req.project!.id);
+      res.status(201).json(item);
+    } catch (error) {
+      console.error('Error creating item:', error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ message: "Invalid item data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create item" });
+      }
+    }
+  });
+
+  app.get("/api/items/:id", requireAuth, requireItemMember, async (req, res) => {
+    const item = await storage.getItem(req.params.id);
+    if (!item) {
+      return res.status(404).json({ message: "Item not found" });
+    }
+    res.json(item);
+  });
+
+  // Replace an item, recording the previous version in item_history
+  app.put("/api/items/:id", requireItemContributor, async (req, res) => {
+    try {
+      const existing = await storage.getItem(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+
+      const expectedVersion = readExpectedVersion(req.body);
+      if (expectedVersion === undefined) {
+        return res.status(400).json({ message: "The version of the item being edited is required" });
+      }
+
+      const itemData = insertItemSchema.parse({
+        ...normalizeItemInput(req.body),
+        room_id: req.body.room_id || existing.room_id
+      });
+
+      // Items can move between rooms but not between projects
+      if (itemData.room_id !== existing.room_id) {
+        const room = await storage.getRoom(itemData.room_id);
+        if (!room || room.project_id !== req.project!.id) {
+          return res.status(400).json({ message: "Room does not belong to this project" });
+        }
+      }
+
+      const item = await storage.updateItem(req.params.id, itemData, {
+        changedBy: req.auth?.id ?? null,
+        expectedVersion
+      });
+      KnowledgeIndexer.scheduleSync(req.project!.id);
+      res.json(item);
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        return res.status(409).json({ message: "Item has been changed by someone else", current: error.current });
+      }
+      console.error('Error updating item:', error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ message: "Invalid item data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update item" });
+      }
+    }
+  });
+
+  // Update selected fields of an item, recording the previous version in item_history
+  app.patch("/api/items/:id", requireItemContributor, async (req, res) => {
+    try {
+      const existing = await storage.getItem(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+
+      const expectedVersion = readExpectedVersion(req.body);
+      if (expectedVersion === undefined) {
+        return res.status(400).json({ message: "The version of the item being edited is required" });
+      }
+
+      const itemData = insertItemSchema.partial().parse(normalizeItemInput(req.body));
+
+      if (itemData.room_id && itemData.room_id !== existing.room_id) {
+        const room = await storage.getRoom(itemData.room_id);
+        if (!room || room.project_id !== req.project!.id) {
+          return res.status(400).json({ message: "Room does not belong to this project" });
+        }
+      }
+
+      const item = await storage.updateItem(req.params.id, itemData, {
+        changedBy: req.auth?.id ?? null,
+        expectedVersion
+      });
+      KnowledgeIndexer.scheduleSync(req.project!.id);
+      res.json(item);
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        return res.status(409).json({ message: "Item has been changed by someone else", current: error.current });
+      }
+      console.error('Error updating item:', error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ message: "Invalid item data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update item" });
+      }
+    }
+  });
+
+  app.delete("/api/items/:id", requireItemEditor, async (req, res) => {
+    try {
+      const existing = await storage.getItem(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+
+      const fileStore = FileStoreFactory.getStore();
+      const [images, documents] = await Promise.all([
+        storage.getImagesByItemId(req.params.id),
+        storage.getDocumentsByItemId(req.params.id)
+      ]);
+
+      await storage.deleteItem(req.params.id);
+      KnowledgeIndexer.removeSource("item", req.params.id).catch(error => {
+        console.error('Error removing item from knowledge base:', error);
+      });
+      // The image and document rows cascade with the item; the files themselves are cleaned up here
+      Promise.all([
+        fileStore.remove(IMAGE_BUCKET, images.flatMap(imagePaths)),
+        fileStore.remove(DOCUMENT_BUCKET, documents.map(document => document.storage_path))
+      ]).catch(error => {
+        console.error('Error removing item files:', error);
+      });
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error deleting item:', error);
+      res.status(500).json({ message: "Failed to delete item" });
+    }
+  });
+
+  app.get("/api/items/:id/history", requireAuth, requireItemMember, async (req, res) => {
+    try {
+      const history = await storage.getItemHistory(req.params.id);
+      res.json(history);
+    } catch (error) {
+      console.error('Error fetching item history:', error);
+      res.status(500).json({ message: "Failed to fetch item history" });
+    }
+  });
+
+  // Restore an earlier version of an item; the restore is recorded as a new version
+  app.post("/api/items/:id/restore", requireItemContributor, async (req, res) => {
+    try {
+      const { version } = req.body;
+      if (!Number.isInteger(version)) {
+        return res.status(400).json({ message: "version must be an integer" });
+      }
+
+      const existing = await storage.getItem(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      if (version === existing.version) {
+        return res.status(400).json({ message: "This is already the current version" });
+      }
+
+      const item = await storage.restoreItemVersion(req.params.id, version, req.auth?.id ?? null);
+      if (!item) {
+        return res.status(404).json({ message: `Version ${version} not found` });
+      }
+
+      KnowledgeIndexer.scheduleSync(req.project!.id);
+      res.json(item);
+    } catch (error) {
+      console.error('Error restoring item version:', error);
+      res.status(500).json({ message: "Failed to restore item version" });
+    }
+  });
+
+  // Update the assistant's copy of an item's documents in the background;
+  // uploads and deletes succeed even if this fails
+  const syncItemDocuments = (itemId: string) => {
+    (async () => {
+      const item = await storage.getItem(itemId);
+      const room = item ? await storage.getRoom(item.room_id) : undefined;
+      if (item && room) {
+        await DocumentIngestion.syncItemDocuments(item, room);
+      }
+    })().catch(error => {
+      console.error('Error ingesting item documents:', error);
+    });
+  };
+
+  // Item images, kept in the configured file store
+  app.get("/api/items/:id/images", requireAuth, requireItemMember, async (req, res) => {
+    try {
+      const images = await storage.getImagesByItemId(req.params.id);
+      res.json(images.map(withImageUrls));
+    } catch (error) {
+      console.error('Error fetching item images:', error);
+      res.status(500).json({ message: "Failed to fetch images" });
+    }
+  });
+
+  // All images in a project, for the printable summary
+  app.get("/api/projects/:projectId/images", requireAuth, requireProjectMember, async (req, res) => {
+    try {
+      const images = await storage.getImagesByProjectId(req.params.projectId);
+      res.json(images.map(withImageUrls));
+    } catch (error) {
+      console.error('Error fetching project images:', error);
+      res.status(500).json({ message: "Failed to fetch images" });
+    }
+  });
+
+  app.post("/api/items/:id/images", requireItemContributor, rawUpload, async (req, res) => {
+    try {
+      const upload = readUpload(req);
+      if (!upload) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      // The file type comes from the file's contents, not its name or Content-Type
+      const processed = await ImageProcessor.process(upload.data);
+      const basePath = `${req.params.id}/${Date.now()}`;
+      const path = `${basePath}.${processed.original.extension}`;
+      const thumbnailPath = `${basePath}.thumb.${processed.thumbnail.extension}`;
+      const mediumPath = `${basePath}.medium.${processed.medium.extension}`;
+
+      const fileStore = FileStoreFactory.getStore();
+      await Promise.all([
+        fileStore.put(IMAGE_BUCKET, path, processed.original.data, processed.original.contentType),
+        fileStore.put(IMAGE_BUCKET, thumbnailPath, processed.thumbnail.data, processed.thumbnail.contentType),
+        fileStore.put(IMAGE_BUCKET, mediumPath, processed.medium.data, processed.medium.contentType)
+      ]);
+
+      const image = await storage.createImage({
+        item_id: req.params.id,
+        storage_path: path,
+        thumbnail_path: thumbnailPath,
+        medium_path: mediumPath,
+        filename: upload.fileName,
+        size: processed.original.data.length,
+        mime_type: processed.original.contentType,
+        width: processed.width,
+        height: processed.height
+      });
+      res.status(201).json(withImageUrls(image));
+    } catch (error) {
+      if (error instanceof InvalidImageError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error uploading image:', error);
+      res.status(500).json({ message: "Failed to upload image" });
+    }
+  });
+
+  app.delete("/api/items/:id/images/:imageId", requireItemEditor, async (req, res) => {
+    try {
+      const image = await storage.getImage(req.params.imageId);
+      if (!image || image.item_id !== req.params.id) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+
+      await FileStoreFactory.getStore().remove(IMAGE_BUCKET, imagePaths(image));
+      await storage.deleteImage(image.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error deleting image:', error);
+      res.status(500).json({ message: "Failed to delete image" });
+    }
+  });
+
+  // Documents, attached to an item, a room, a finish or the whole project
+  const uploadDocument = async (req: Request, res: Response, target: DocumentTarget) => {
+    const upload = readUpload(req);
+    if (!upload) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+    const kind = readDocumentKind(req.query.kind);
+    if (!kind) {
+      return res.status(400).json({ message: `Document kind must be one of ${DOCUMENT_KINDS.join(", ")}` });
+    }
+
+    // Keep the original name in the path too, so the file is recognisable in the bucket
+    const path = `${documentFolder(target)}/${Date.now()}-${toSafeFileName(upload.fileName)}`;
+    const file = await FileStoreFactory.getStore().put(DOCUMENT_BUCKET, path, upload.data, upload.contentType);
+
+    const document = await storage.createDocument({
+      ...target,
+      storage_path: file.path,
+      filename: upload.fileName,
+      size: file.size,
+      mime_type: file.contentType,
+      kind,
+      uploaded_by: req.auth?.id ?? null
+    });
+
+    if (document.item_id) {
+      syncItemDocuments(document.item_id);
+    }
+    res.status(201).json(withDocumentUrl(document));
+  };
+
+  app.get("/api/projects/:projectId/documents", requireAuth, requireProjectMember, async (req, res) => {
+    try {
+      const documents = await storage.getDocumentsByProjectId(req.params.projectId);
+      res.json(documents.map(withDocumentUrl));
+    } catch (error) {
+      console.error('Error fetching project documents:', error);
+      res.status(500).json({ message: "Failed to fetch documents" });
+    }
+  });
+
+  app.post("/api/projects/:projectId/documents", requireProjectContributor, rawUpload, async (req, res) => {
+    try {
+      await uploadDocument(req, res, { project_id: req.params.projectId });
+    } catch (error) {
+      console.error('Error uploading document:', error);
+      res.status(500).json({ message: "Failed to upload document" });
+    }
+  });
+
+  app.get("/api/rooms/:roomId/documents", requireAuth, requireRoomMember, async (req, res) => {
+    try {
+      const documents = await storage.getDocumentsByRoomId(req.params.roomId);
+      res.json(documents.map(withDocumentUrl));
+    } catch (error) {
+      console.error('Error fetching room documents:', error);
+      res.status(500).json({ message: "Failed to fetch documents" });
+    }
+  });
+
+  app.post("/api/rooms/:roomId/documents", requireRoomContributor, rawUpload, async (req, res) => {
+    try {
+      await uploadDocument(req, res, { project_id: req.project!.id, room_id: req.params.roomId });
+    } catch (error) {
+      console.error('Error uploading document:', error);
+      res.status(500).json({ message: "Failed to upload document" });
+    }
+  });
+
+  app.get("/api/items/:id/documents", requireAuth, requireItemMember, async (req, res) => {
+    try {
+      const documents = await storage.getDocumentsByItemId(req.params.id);
+      res.json(documents.map(withDocumentUrl));
+    } catch (error) {
+      console.error('Error fetching item documents:', error);
+      res.status(500).json({ message: "Failed to fetch documents" });
+    }
+  });
+
+  app.post("/api/items/:id/documents", requireItemContributor, rawUpload, async (req, res) => {
+    try {
+      const item = await storage.getItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      await uploadDocument(req, res, { project_id: req.project!.id, item_id: item.id, room_id: item.room_id });
+    } catch (error) {
+      console.error('Error uploading document:', error);
+      res.status(500).json({ message: "Failed to upload document" });
+    }
+  });
+
+  app.get("/api/finishes/:finishId/documents", requireAuth, requireFinishMember, async (req, res) => {
+    try {
+      const documents = await storage.getDocumentsByFinishId(req.params.finishId);
+      res.json(documents.map(withDocumentUrl));
+    } catch (error) {
+      console.error('Error fetching finish documents:', error);
+      res.status(500).json({ message: "Failed to fetch documents" });
+    }
+  });
+
+  app.post("/api/finishes/:finishId/documents", requireFinishContributor, rawUpload, async (req, res) => {
+    try {
+      const finish = await storage.getFinish(req.params.finishId);
+      if (!finish) {
+        return res.status(404).json({ message: "Finish not found" });
+      }
+      await uploadDocument(req, res, { project_id: finish.project_id, finish_id: finish.id, room_id: finish.room_id });
+    } catch (error) {
+      console.error('Error uploading document:', error);
+      res.status(500).json({ message: "Failed to upload document" });
+    }
+  });
+
+  // Rename or re-categorise a document; the stored file stays where it is
+  app.patch("/api/documents/:documentId", requireDocumentContributor, async (req, res) => {
+    try {
+      const updates = updateDocumentSchema.parse(req.body);
+      const document = await storage.updateDocument(req.params.documentId, updates);
+      if (document.item_id && updates.filename) {
+        syncItemDocuments(document.item_id);
+      }
+      res.json(withDocumentUrl(document));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid document data", errors: error.errors });
+      }
+      console.error('Error updating document:', error);
+      res.status(500).json({ message: "Failed to update document" });
+    }
+  });
+
+  app.delete("/api/documents/:documentId", requireDocumentEditor, async (req, res) => {
+    try {
+      const document = await storage.getDocument(req.params.documentId);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      await FileStoreFactory.getStore().remove(DOCUMENT_BUCKET, [document.storage_path]);
+      await storage.deleteDocument(document.id);
+      if (document.item_id) {
+        syncItemDocuments(document.item_id);
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error deleting document:', error);
+      res.status(500).json({ message: "Failed to delete document" });
+    }
+  });
+
+  // Serve a stored file from a signed link handed out by the routes above
+  app.get("/api/files/:bucket/*", async (req, res) => {
+    try {
+      const bucket = req.params.bucket;
+      // Express puts the part matched by the trailing * under "0"
+      const path = (req.params as Record<string, string>)["0"];
+      const token = typeof req.query.token === "string" ? req.query.token : "";
+      if (!isFileBucket(bucket) || !token || !verifyFileToken(token, bucket, path)) {
+        return res.status(403).json({ message: "Invalid or expired file link" });
+      }
+
+      const file = await FileStoreFactory.getStore().get(bucket, path);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      // Files come from users, so never let the browser treat one as a page
+      // of ours: only images and PDFs open inline, by the type their bytes show
+      const inlineType = sniffInlineContentType(file.data);
+      res.set("Content-Type", inlineType ?? "application/octet-stream");
+      res.set("X-Content-Type-Options", "nosniff");
+      res.set("Content-Security-Policy", "sandbox");
+      res.set("Cache-Control", "private, max-age=3600");
+      if (!inlineType || req.query.download) {
+        const fileName = path.split("/").pop() || "download";
+        res.set("Content-Disposition", `attachment; filename="${toSafeFileName(fileName)}"`);
+      }
+      res.send(file.data);
+    } catch (error) {
+      console.error('Error serving file:', error);
+      res.status(500).json({ message: "Failed to fetch file" });
+    }
+  });
+
+  // Ingest the item's uploaded documents into the chat knowledge base
+  app.post("/api/items/:id/documents/ingest", requireItemContributor, async (req, res) => {
+    try {
+      const item = await storage.getItem(req.params.id);
+      const room = item ? await storage.getRoom(item.room_id) : undefined;
+      if (!item || !room) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+
+      const result = await DocumentIngestion.syncItemDocuments(item, room);
+      res.json(result);
+    } catch (error) {
+      console.error('Error ingesting item documents:', error);
+      res.status(500).json({ message: "Failed to ingest documents" });
+    }
+  });
+
+  // Finish routes
+  app.get("/api/projects/:projectId/finishes", requireAuth, requireProjectMember, async (req, res) => {
+    const finishes = await storage.getFinishesByProjectId(req.params.projectId);
+    res.json(finishes);
+  });
+
+  app.get("/api/rooms/:roomId/finishes", requireAuth, requireRoomMember, async (req, res) => {
+    const finishes = await storage.getFinishesByRoomId(req.params.roomId);
+    res.json(finishes);
+  });
+
+  app.post("/api/projects/:projectId/finishes", requireProjectContributor, async (req, res) => {
+    try {
+      const finishData = insertFinishSchema.parse({
+        ...req.body,
+        project_id: req.params.projectId,
+      });
+
+      if (finishData.room_id) {
+        const room = await storage.getRoom(finishData.room_id);
+        if (!room || room.project_id !== req.project!.id) {
+          return res.status(400).json({ message: "Room does not belong to this project" });
+        }
+      }
+
+      const finish = await storage.createFinish(finishData);
+      KnowledgeIndexer.scheduleSync(req.project!.id);
+      res.status(201).json(finish);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ message: "Invalid finish data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create finish" });
+      }
+    }
+  });
+
+  app.put("/api/finishes/:finishId", requireFinishContributor, async (req, res) => {
+    try {
+      // Finishes can move between rooms but not between projects
+      const { project_id, ...updates } = insertFinishSchema.partial().parse(req.body);
+
+      if (updates.room_id) {
+        const room = await storage.getRoom(updates.room_id);
+        if (!room || room.project_id !== req.project!.id) {
+          return res.status(400).json({ message: "Room does not belong to this project" });
+        }
+      }
+
+      // Edits made with the PIN edit token are recorded against the project owner
+      const finish = await storage.updateFinish(req.params.finishId, updates, req.auth?.id || req.project!.user_id);
+      KnowledgeIndexer.scheduleSync(req.project!.id);
+      res.json(finish);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ message: "Invalid finish data", errors: error.errors });
+      } else {
+        console.error("Error updating finish:", error);
+        res.status(500).json({ message: "Failed to update finish" });
+      }
+    }
+  });
+
+  app.get("/api/finishes/:finishId/history", requireAuth, requireFinishMember, async (req, res) => {
+    try {
+      const history = await storage.getFinishHistory(req.params.finishId);
+      res.json(history);
+    } catch (error) {
+      console.error('Error fetching finish history:', error);
+      res.status(500).json({ message: "Failed to fetch finish history" });
+    }
+  });
+
+  // Restore an earlier version of a finish; the restore is recorded as a new version
+  app.post("/api/finishes/:finishId/restore", requireFinishContributor, async (req, res) => {
+    try {
+      const { version } = req.body;
+      if (!Number.isInteger(version)) {
+        return res.status(400).json({ message: "version must be an integer" });
+      }
+
+      const existing = await storage.getFinish(req.params.finishId);
+      if (!existing) {
+        return res.status(404).json({ message: "Finish not found" });
+      }
+      if (version === existing.version) {
+        return res.status(400).json({ message: "This is already the current version" });
+      }
+
+      const finish = await storage.restoreFinishVersion(req.params.finishId, version, req.auth?.id || req.project!.user_id);
+      if (!finish) {
+        return res.status(404).json({ message: `Version ${version} not found` });
+      }
+
+      KnowledgeIndexer.scheduleSync(req.project!.id);
+      res.json(finish);
+    } catch (error) {
+      console.error('Error restoring finish version:', error);
+      res.status(500).json({ message: "Failed to restore finish version" });
+    }
+  });
 
-function convertExcelDateToISO(excelDate: number | string): string | null {
-  if (!excelDate) return null;
+  // Maintenance schedule
+  // A task or warranty's item or finish has to be in its project
+  const checkSubject = async (record: { item_id?: string | null; finish_id?: string | null }, projectId: string): Promise<string | null> => {
+    if (record.item_id) {
+      const item = await storage.getItem(record.item_id);
+      const room = item && await storage.getRoom(item.room_id);
+      if (!room || room.project_id !== projectId) return "Item does not belong to this project";
+    }
+    if (record.finish_id) {
+      const finish = await storage.getFinish(record.finish_id);
+      if (!finish || finish.project_id !== projectId) return "Finish does not belong to this project";
+    }
+    return null;
+  };
 
-  const numericDate = Number(excelDate);
-  if (isNaN(numericDate)) return null;
+  // Look up a completion of the task in the route, responding with a 404 when it isn't one
+  const loadCompletion = async (req: Request, res: Response) => {
+    const completion = await storage.getMaintenanceCompletion(req.params.completionId);
+    if (!completion || completion.task_id !== req.params.taskId) {
+      res.status(404).json({ message: "Completion not found" });
+      return null;
+    }
+    return completion;
+  };
 
-  // Excel dates are number of days since 1900-01-01
-  const date = new Date(EXCEL_EPOCH);
-  date.setDate(date.getDate() + numericDate - 2); // Subtract 2 to account for Excel's date system quirks
+  app.get("/api/projects/:projectId/maintenance", requireAuth, requireProjectMember, async (req, res) => {
+    try {
+      res.json(await MaintenanceSchedule.forProject(req.params.projectId));
+    } catch (error) {
+      console.error("Error fetching maintenance tasks:", error);
+      res.status(500).json({ message: "Failed to fetch maintenance tasks" });
+    }
+  });
 
-  // Return in YYYY-MM-DD format
-  return date.toISOString().split('T')[0];
-}
+  // The homeowner-facing task list, for anyone with the project's access code
+  app.get("/api/public/projects/:accessCode/maintenance", async (req, res) => {
+    try {
+      const project = await storage.getProjectByAccessCode(req.params.accessCode);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const tasks = await MaintenanceSchedule.forProject(project.id, { publicOnly: true });
+      res.json(tasks.map(toPublicMaintenanceTask));
+    } catch (error) {
+      console.error("Error fetching public maintenance tasks:", error);
+      res.status(500).json({ message: "Failed to fetch maintenance tasks" });
+    }
+  });
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Ensure storage is initialized
-  const storage = await getStorage();
-  
-  // Add a debug route for checking server and database status
-  app.get("/api/debug/status", async (req, res) => {
+  app.post("/api/projects/:projectId/maintenance", requireProjectContributor, async (req, res) => {
     try {
-      const dbTestResult = await testDatabaseConnection();
-      
-      res.json({
-        status: "OK",
-        timestamp: new Date().toISOString(),
-        environment: process.env.NODE_ENV || "unknown",
-        storageMode,
-        database: {
-          connected: dbTestResult,
-          connectionState
-        },
-        version: process.env.npm_package_version || "unknown"
+      const input = maintenanceTaskInputSchema.parse(req.body);
+      const problem = await checkSubject(input, req.project!.id);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const task = await storage.createMaintenanceTask({
+        ...input,
+        project_id: req.project!.id,
+        created_by: req.auth?.id ?? null
       });
+      res.status(201).json(await MaintenanceSchedule.forTask(task));
     } catch (error) {
-      res.status(500).json({
-        status: "ERROR",
-        error: error instanceof Error ? error.message : String(error),
-        timestamp: new Date().toISOString()
-      });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid maintenance task", errors: error.errors });
+      }
+      console.error("Error creating maintenance task:", error);
+      res.status(500).json({ message: "Failed to create maintenance task" });
     }
   });
 
-  // Project routes
-  app.get("/api/projects", async (req, res) => {
-    const userId = req.headers["x-user-id"];
-    if (!userId || typeof userId !== "string") {
-      console.warn("Missing or invalid x-user-id header", {
-        headers: req.headers,
-        path: req.path
+  app.put("/api/maintenance/:taskId", requireMaintenanceTaskContributor, async (req, res) => {
+    try {
+      const input = maintenanceTaskInputSchema.parse(req.body);
+      const problem = await checkSubject(input, req.project!.id);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const task = await storage.updateMaintenanceTask(req.params.taskId, input);
+      res.json(await MaintenanceSchedule.forTask(task));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid maintenance task", errors: error.errors });
+      }
+      console.error("Error updating maintenance task:", error);
+      res.status(500).json({ message: "Failed to update maintenance task" });
+    }
+  });
+
+  app.delete("/api/maintenance/:taskId", requireMaintenanceTaskEditor, async (req, res) => {
+    try {
+      const completions = await storage.getMaintenanceCompletions(req.params.taskId);
+      const paths = completions.flatMap(completion => completion.photos.flatMap(maintenancePhotoPaths));
+      if (paths.length > 0) {
+        await FileStoreFactory.getStore().remove(IMAGE_BUCKET, paths);
+      }
+      await storage.deleteMaintenanceTask(req.params.taskId);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting maintenance task:", error);
+      res.status(500).json({ message: "Failed to delete maintenance task" });
+    }
+  });
+
+  app.get("/api/maintenance/:taskId/completions", requireAuth, requireMaintenanceTaskMember, async (req, res) => {
+    try {
+      const completions = await storage.getMaintenanceCompletions(req.params.taskId);
+      res.json(completions.map(withPhotoUrls));
+    } catch (error) {
+      console.error("Error fetching maintenance completions:", error);
+      res.status(500).json({ message: "Failed to fetch maintenance completions" });
+    }
+  });
+
+  // Log that a task was done; the task comes back with its next due date
+  app.post("/api/maintenance/:taskId/completions", requireMaintenanceTaskContributor, async (req, res) => {
+    try {
+      const { completed_on, notes } = completeMaintenanceSchema.parse(req.body);
+      const completion = await storage.createMaintenanceCompletion({
+        task_id: req.params.taskId,
+        completed_on,
+        notes,
+        completed_by: req.auth?.id ?? null
       });
-      return res.status(401).json({ 
-        message: "Unauthorized", 
-        details: "Missing or invalid user ID header",
-        help: "Check that the X-User-ID header is being properly set"
+      const task = await storage.getMaintenanceTask(req.params.taskId);
+      res.status(201).json({
+        completion: withPhotoUrls(completion),
+        task: await MaintenanceSchedule.forTask(task!)
       });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid completion", errors: error.errors });
+      }
+      console.error("Error logging maintenance completion:", error);
+      res.status(500).json({ message: "Failed to log maintenance completion" });
     }
+  });
+
+  app.post("/api/maintenance/:taskId/completions/:completionId/photos", requireMaintenanceTaskContributor, rawUpload, async (req, res) => {
+    try {
+      const completion = await loadCompletion(req, res);
+      if (!completion) return;
+
+      const upload = readUpload(req);
+      if (!upload) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
 
-    const projects = await storage.getProjectsByUserId(userId);
-    res.json(projects);
+      const processed = await ImageProcessor.process(upload.data);
+      const basePath = `maintenance/${completion.id}/${Date.now()}`;
+      const photo: MaintenancePhoto = {
+        storage_path: `${basePath}.${processed.original.extension}`,
+        thumbnail_path: `${basePath}.thumb.${processed.thumbnail.extension}`,
+        filename: upload.fileName
+      };
+
+      const fileStore = FileStoreFactory.getStore();
+      await Promise.all([
+        fileStore.put(IMAGE_BUCKET, photo.storage_path, processed.original.data, processed.original.contentType),
+        fileStore.put(IMAGE_BUCKET, photo.thumbnail_path, processed.thumbnail.data, processed.thumbnail.contentType)
+      ]);
+
+      const updated = await storage.updateMaintenanceCompletion(completion.id, {
+        photos: [...completion.photos, photo]
+      });
+      res.status(201).json(withPhotoUrls(updated));
+    } catch (error) {
+      if (error instanceof InvalidImageError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error uploading maintenance photo:", error);
+      res.status(500).json({ message: "Failed to upload photo" });
+    }
   });
 
-  app.get("/api/projects/:accessCode", async (req, res) => {
-    const project = await storage.getProjectByAccessCode(req.params.accessCode);
-    if (!project) {
-      return res.status(404).json({ message: "Project not found" });
+  app.delete("/api/maintenance/:taskId/completions/:completionId", requireMaintenanceTaskEditor, async (req, res) => {
+    try {
+      const completion = await loadCompletion(req, res);
+      if (!completion) return;
+
+      const paths = completion.photos.flatMap(maintenancePhotoPaths);
+      if (paths.length > 0) {
+        await FileStoreFactory.getStore().remove(IMAGE_BUCKET, paths);
+      }
+      await storage.deleteMaintenanceCompletion(completion.id);
+
+      const task = await storage.getMaintenanceTask(req.params.taskId);
+      res.json(await MaintenanceSchedule.forTask(task!));
+    } catch (error) {
+      console.error("Error deleting maintenance completion:", error);
+      res.status(500).json({ message: "Failed to delete maintenance completion" });
     }
-    res.json(project);
   });
 
-  app.post("/api/projects", async (req, res) => {
-    const userId = req.headers["x-user-id"];
-    if (!userId || typeof userId !== "string") {
-      return res.status(401).json({ message: "Unauthorized" });
+  // Warranties
+  // Fill in the start date from the installation date and work out the expiry
+  const toWarrantyRecord = async (input: WarrantyInput, projectId: string): Promise<string | InsertWarranty> => {
+    const problem = await checkSubject(input, projectId);
+    if (problem) return problem;
+    if (input.document_id) {
+      const document = await storage.getDocument(input.document_id);
+      if (!document || document.project_id !== projectId) return "Document does not belong to this project";
     }
 
+    const start_date = input.start_date ?? await WarrantyTracker.installationDateOf(input);
+    const expires_on = input.coverage_type === "lifetime"
+      ? input.expires_on ?? null
+      : resolveExpiry({ ...input, start_date });
+    return { ...input, project_id: projectId, start_date, expires_on };
+  };
+
+  app.get("/api/projects/:projectId/warranties", requireAuth, requireProjectMember, async (req, res) => {
     try {
-      const requestData = {
-        ...req.body,
-        user_id: userId,
-        access_code: nanoid(10) // Generate a unique access code
-      };
-      
-      const projectData = insertProjectSchema.parse(requestData);
-      const project = await storage.createProject(projectData);
-      res.status(201).json(project);
+      res.json(await WarrantyTracker.forProject(req.params.projectId));
+    } catch (error) {
+      console.error("Error fetching warranties:", error);
+      res.status(500).json({ message: "Failed to fetch warranties" });
+    }
+  });
+
+  // Warranty records suggested by the warranty text on items and finishes without one
+  app.get("/api/projects/:projectId/warranties/suggestions", requireAuth, requireProjectMember, async (req, res) => {
+    try {
+      res.json(await WarrantyTracker.suggestionsForProject(req.params.projectId));
+    } catch (error) {
+      console.error("Error fetching warranty suggestions:", error);
+      res.status(500).json({ message: "Failed to fetch warranty suggestions" });
+    }
+  });
+
+  // Suggest warranty records for pasted text, defaulting from the item or finish it's for
+  app.post("/api/projects/:projectId/warranties/parse", requireProjectContributor, async (req, res) => {
+    try {
+      const { text, item_id, finish_id } = warrantyTextSchema.parse(req.body);
+      const problem = await checkSubject({ item_id, finish_id }, req.project!.id);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const item = item_id ? await storage.getItem(item_id) : undefined;
+      const finish = finish_id ? await storage.getFinish(finish_id) : undefined;
+      res.json(parseWarrantyText(text, {
+        provider: item?.brand ?? finish?.manufacturer,
+        start_date: item?.installation_date ?? finish?.installation_date
+      }));
     } catch (error) {
-      console.error("Project creation error:", error);
       if (error instanceof ZodError) {
-        res.status(400).json({ message: "Invalid project data", errors: error.errors });
-      } else {
-        res.status(500).json({ message: "Failed to create project" });
+        return res.status(400).json({ message: "Invalid warranty text", errors: error.errors });
       }
+      console.error("Error parsing warranty text:", error);
+      res.status(500).json({ message: "Failed to parse warranty text" });
     }
   });
 
-  // Room routes
-  app.get("/api/projects/:projectId/rooms", async (req, res) => {
-    const rooms = await storage.getRoomsByProjectId(req.params.projectId);
-    res.json(rooms);
+  app.post("/api/projects/:projectId/warranties", requireProjectContributor, async (req, res) => {
+    try {
+      const record = await toWarrantyRecord(warrantyInputSchema.parse(req.body), req.project!.id);
+      if (typeof record === "string") {
+        return res.status(400).json({ message: record });
+      }
+      const warranty = await storage.createWarranty(record);
+      res.status(201).json(await WarrantyTracker.forWarranty(warranty));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid warranty", errors: error.errors });
+      }
+      console.error("Error creating warranty:", error);
+      res.status(500).json({ message: "Failed to create warranty" });
+    }
   });
 
-  app.post("/api/projects/:projectId/rooms", async (req, res) => {
+  app.put("/api/warranties/:warrantyId", requireWarrantyContributor, async (req, res) => {
     try {
-      const roomData = insertRoomSchema.parse({
-        ...req.body,
-        project_id: req.params.projectId
-      });
-      const room = await storage.createRoom(roomData);
-      res.status(201).json(room);
+      const record = await toWarrantyRecord(warrantyInputSchema.parse(req.body), req.project!.id);
+      if (typeof record === "string") {
+        return res.status(400).json({ message: record });
+      }
+      const warranty = await storage.updateWarranty(req.params.warrantyId, record);
+      res.json(await WarrantyTracker.forWarranty(warranty));
     } catch (error) {
       if (error instanceof ZodError) {
-        res.status(400).json({ message: "Invalid room data", errors: error.errors });
-      } else {
-        res.status(500).json({ message: "Failed to create room" });
+        return res.status(400).json({ message: "Invalid warranty", errors: error.errors });
       }
+      console.error("Error updating warranty:", error);
+      res.status(500).json({ message: "Failed to update warranty" });
     }
   });
 
-  // Item routes
-  app.get("/api/rooms/:roomId/items", async (req, res) => {
-    const items = await storage.getItemsByRoomId(req.params.roomId);
-    res.json(items);
+  app.delete("/api/warranties/:warrantyId", requireWarrantyEditor, async (req, res) => {
+    try {
+      await storage.deleteWarranty(req.params.warrantyId);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting warranty:", error);
+      res.status(500).json({ message: "Failed to delete warranty" });
+    }
   });
 
-  app.post("/api/rooms/:roomId/items", async (req, res) => {
+  // Calendar feed
+  app.get("/api/projects/:projectId/calendar-feed", requireAuth, requireProjectOwner, async (req, res) => {
     try {
-      // Convert Excel date to ISO format before validation
-      const { installation_date, ...restData } = req.body;
-      const convertedDate = convertExcelDateToISO(installation_date);
+      const feed = await storage.getCalendarFeed(req.params.projectId);
+      res.json({ feed: feed ? withFeedUrl(feed) : null });
+    } catch (error) {
+      console.error("Error fetching calendar feed:", error);
+      res.status(500).json({ message: "Failed to fetch calendar feed" });
+    }
+  });
 
-      const itemData = insertItemSchema.parse({
-        ...restData,
-        installation_date: convertedDate,
-        room_id: req.params.roomId
+  // Create the feed, or give it a new link so the old one stops working
+  app.post("/api/projects/:projectId/calendar-feed", requireAuth, requireProjectOwner, async (req, res) => {
+    try {
+      const feed = await storage.setCalendarFeed({
+        project_id: req.params.projectId,
+        token: crypto.randomBytes(24).toString("base64url"),
+        created_by: req.auth!.id
       });
+      res.status(201).json(withFeedUrl(feed));
+    } catch (error) {
+      console.error("Error creating calendar feed:", error);
+      res.status(500).json({ message: "Failed to create calendar feed" });
+    }
+  });
 
-      const item = await storage.createItem(itemData);
-      res.status(201).json(item);
+  app.delete("/api/projects/:projectId/calendar-feed", requireAuth, requireProjectOwner, async (req, res) => {
+    try {
+      await storage.deleteCalendarFeed(req.params.projectId);
+      res.status(204).send();
     } catch (error) {
-      console.error('Error creating item:', error);
-      if (error instanceof ZodError) {
-        res.status(400).json({ message: "Invalid item data", errors: error.errors });
-      } else {
-        res.status(500).json({ message: "Failed to create item" });
+      console.error("Error revoking calendar feed:", error);
+      res.status(500).json({ message: "Failed to revoke calendar feed" });
+    }
+  });
+
+  // Calendar apps can't send credentials, so the token in the link is the only check
+  app.get("/api/calendar/:token.ics", async (req, res) => {
+    try {
+      const feed = await storage.getCalendarFeedByToken(req.params.token);
+      const project = feed && await storage.getProject(feed.project_id);
+      if (!feed || !project) {
+        return res.status(404).json({ message: "Calendar not found" });
       }
+
+      const calendar = await ProjectCalendar.toICalendar(project, req.hostname);
+      await storage.recordCalendarFeedFetch(feed.id);
+      res.set({
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `inline; filename="${toSafeFileName(project.name)}.ics"`,
+        "Cache-Control": "private, max-age=900"
+      });
+      res.send(calendar);
+    } catch (error) {
+      console.error("Error generating calendar feed:", error);
+      res.status(500).json({ message: "Failed to generate calendar" });
     }
   });
 
-  // Finish routes
-  app.get("/api/projects/:projectId/finishes", async (req, res) => {
-    const finishes = await storage.getFinishesByProjectId(req.params.projectId);
-    res.json(finishes);
+  // Notification digests
+  // Settings with defaults filled in, plus where digests go when no email is set or it isn't confirmed yet
+  const toPreferencesResponse = async (req: Request, preferences: NotificationPreferences | undefined) => ({
+    ...NotificationDigests.settingsOf(preferences),
+    email_confirmed: !!preferences?.email && !!preferences.email_confirmed_at,
+    default_email: await NotificationDigests.recipientEmail(req.auth!.id, undefined, req.auth!.email),
+    last_digest_at: preferences?.last_digest_at ?? null
   });
 
-  app.get("/api/rooms/:roomId/finishes", async (req, res) => {
-    const finishes = await storage.getFinishesByRoomId(req.params.roomId);
-    res.json(finishes);
+  // The link in the confirmation email comes back to this server
+  const confirmEmailUrl = (req: Request) => (token: string) =>
+    `${req.protocol}://${req.get("host")}/api/notifications/email/confirm?token=${encodeURIComponent(token)}`;
+
+  const sendNotificationError = (res: Response, error: NotificationError) => {
+    if (error instanceof NotificationRateLimitError) {
+      res.set("Retry-After", String(error.retryAfterSeconds));
+      return res.status(429).json({ message: error.message });
+    }
+    return res.status(400).json({ message: error.message });
+  };
+
+  app.get("/api/notifications/preferences", requireAuth, async (req, res) => {
+    try {
+      const preferences = await storage.getNotificationPreferences(req.auth!.id);
+      res.json(await toPreferencesResponse(req, preferences));
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
   });
 
-  app.post("/api/projects/:projectId/finishes", async (req, res) => {
+  app.put("/api/notifications/preferences", requireAuth, async (req, res) => {
     try {
-      const finishData = insertFinishSchema.parse({
-        ...req.body,
-        project_id: req.params.projectId,
-      });
-      const finish = await storage.createFinish(finishData);
-      res.status(201).json(finish);
+      const settings = insertNotificationPreferencesSchema.omit({ user_id: true }).parse(req.body);
+      const preferences = await NotificationDigests.savePreferences(req.auth!.id, settings, req.auth!.email, confirmEmailUrl(req));
+      res.json(await toPreferencesResponse(req, preferences));
     } catch (error) {
       if (error instanceof ZodError) {
-        res.status(400).json({ message: "Invalid finish data", errors: error.errors });
-      } else {
-        res.status(500).json({ message: "Failed to create finish" });
+        return res.status(400).json({ message: "Invalid notification preferences", errors: error.errors });
+      }
+      console.error("Error saving notification preferences:", error);
+      res.status(500).json({ message: "Failed to save notification preferences" });
+    }
+  });
+
+  // Mail the confirmation link for the digest email again
+  app.post("/api/notifications/email/resend", requireAuth, async (req, res) => {
+    try {
+      const email = await NotificationDigests.resendConfirmation(req.auth!.id, confirmEmailUrl(req));
+      res.json({ email });
+    } catch (error) {
+      if (error instanceof NotificationError) {
+        return sendNotificationError(res, error);
+      }
+      console.error("Error resending email confirmation:", error);
+      res.status(500).json({ message: "Failed to send confirmation email" });
+    }
+  });
+
+  // Where the confirmation link lands; no sign-in, the token is the proof
+  app.get("/api/notifications/email/confirm", async (req, res) => {
+    try {
+      const token = typeof req.query.token === "string" ? req.query.token : "";
+      const confirmed = token !== "" && await NotificationDigests.confirmEmail(token);
+      if (appUrl()) {
+        return res.redirect(`${appUrl()}/notifications?email_confirmed=${confirmed ? "1" : "0"}`);
+      }
+      res.status(confirmed ? 200 : 400).type("text/plain").send(confirmed
+        ? "Email confirmed. Digests will be sent to it from now on."
+        : "This confirmation link has expired. Ask for a new one from your notification settings.");
+    } catch (error) {
+      console.error("Error confirming notification email:", error);
+      res.status(500).json({ message: "Failed to confirm email" });
+    }
+  });
+
+  // Send the digest now, whatever the schedule, to check it arrives
+  app.post("/api/notifications/digest/test", requireAuth, async (req, res) => {
+    try {
+      const email = await NotificationDigests.sendTest(req.auth!.id, req.auth!.email);
+      res.json({ email });
+    } catch (error) {
+      if (error instanceof NotificationError) {
+        return sendNotificationError(res, error);
       }
+      console.error("Error sending test digest:", error);
+      res.status(500).json({ message: "Failed to send test digest" });
     }
   });
 
   // Chat routes
   
   // Get conversations for a project
-  app.get("/api/projects/:projectId/conversations", async (req, res) => {
-    const userId = req.headers["x-user-id"];
-    if (!userId || typeof userId !== "string") {
-      console.warn("Missing or invalid x-user-id header", {
-        headers: req.headers,
-        path: req.path
-      });
-      return res.status(401).json({ 
-        message: "Unauthorized", 
-        details: "Missing or invalid user ID header",
-        help: "Check that the X-User-ID header is being properly set"
-      });
-    }
+  app.get("/api/projects/:projectId/conversations", requireAuth, requireProjectMember, async (req, res) => {
+    const userId = req.auth!.id;
 
     try {
       // Use unified storage for consistency
@@ -222,29 +1897,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create a new conversation
-  app.post("/api/projects/:projectId/conversations", async (req, res) => {
-    const userId = req.headers["x-user-id"];
+  app.post("/api/projects/:projectId/conversations", requireAuth, requireProjectMember, async (req, res) => {
+    const userId = req.auth!.id;
     console.log("Create conversation request:", {
       projectId: req.params.projectId,
       userId: userId,
-      body: req.body,
-      headers: {
-        ...req.headers,
-        authorization: req.headers.authorization ? "[REDACTED]" : undefined
-      }
+      body: req.body
     });
-    
-    if (!userId || typeof userId !== "string") {
-      console.warn("Missing or invalid x-user-id header in conversation creation", {
-        headers: req.headers,
-        path: req.path
-      });
-      return res.status(401).json({ 
-        message: "Unauthorized", 
-        details: "Missing or invalid user ID header",
-        help: "Check that the X-User-ID header is being properly set"
-      });
-    }
 
     try {
       const conversationData = insertConversationSchema.parse({
@@ -280,21 +1939,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get messages for a conversation
-  app.get("/api/conversations/:conversationId/messages", async (req, res) => {
-    const userId = req.headers["x-user-id"];
-    if (!userId || typeof userId !== "string") {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-
+  app.get("/api/conversations/:conversationId/messages", requireAuth, requireConversationOwner, async (req, res) => {
     try {
-      // Verify user owns this conversation
-      const conversation = await storage.getConversation(req.params.conversationId);
-      
-      if (!conversation || conversation.user_id !== userId) {
-        console.log(`Access denied for conversation ${req.params.conversationId}: conversation user ${conversation?.user_id} != request user ${userId}`);
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       // Always use the unified storage for consistency
       const messages = await storage.getConversationMessages(req.params.conversationId);
       
@@ -312,21 +1958,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Send a message (chat with AI)
-  app.post("/api/conversations/:conversationId/messages", async (req, res) => {
-    const userId = req.headers["x-user-id"];
-    if (!userId || typeof userId !== "string") {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
+  app.post("/api/conversations/:conversationId/messages", requireAuth, requireConversationOwner, async (req, res) => {
+    const userId = req.auth!.id;
+    const conversation = req.conversation!;
 
     try {
-      // Verify user owns this conversation
-      const conversation = await storage.getConversation(req.params.conversationId);
-      
-      if (!conversation || conversation.user_id !== userId) {
-        console.log(`Access denied for conversation ${req.params.conversationId}: conversation user ${conversation?.user_id} != request user ${userId}`);
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const { content } = req.body;
       if (!content || typeof content !== "string") {
         return res.status(400).json({ message: "Message content is required" });
@@ -337,7 +1973,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         req.params.conversationId,
         content,
         userId,
-        conversation.project_id
+        conversation.project_id,
+        req.projectRole!
       );
 
       res.json(result);
@@ -347,12 +1984,99 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get chat settings for a project
-  app.get("/api/projects/:projectId/chat-settings", async (req, res) => {
-    const userId = req.headers["x-user-id"];
-    if (!userId || typeof userId !== "string") {
-      return res.status(401).json({ message: "Unauthorized" });
+  // Send a message and stream the AI response as Server-Sent Events
+  app.post("/api/conversations/:conversationId/messages/stream", requireAuth, requireConversationOwner, async (req, res) => {
+    const userId = req.auth!.id;
+    const conversation = req.conversation!;
+
+    const { content } = req.body;
+    if (!content || typeof content !== "string") {
+      return res.status(400).json({ message: "Message content is required" });
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    const sendEvent = (event: string, data: unknown) => {
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
+    // Stop generating when the client disconnects; the partial reply is still saved
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+
+    try {
+      const result = await ChatService.streamMessage(
+        req.params.conversationId,
+        content,
+        userId,
+        conversation.project_id,
+        req.projectRole!,
+        (delta) => sendEvent('delta', { content: delta }),
+        abortController.signal
+      );
+
+      sendEvent('done', result);
+    } catch (error) {
+      console.error("Chat stream error:", error);
+      sendEvent('error', { message: error instanceof Error ? error.message : "Failed to process message" });
+    } finally {
+      res.end();
+    }
+  });
+
+  // Confirm or reject a change the assistant proposed in a message
+  app.post("/api/conversations/:conversationId/messages/:messageId/tool-calls/:toolCallId", requireAuth, requireConversationOwner, async (req, res) => {
+    const userId = req.auth!.id;
+    const conversation = req.conversation!;
+
+    try {
+      const { approved } = req.body;
+      if (typeof approved !== "boolean") {
+        return res.status(400).json({ message: "approved must be true or false" });
+      }
+      if (approved && !hasProjectRole(req.projectRole, "contributor")) {
+        return res.status(403).json({ message: "Viewers can't make changes to the project" });
+      }
+
+      const result = await ChatService.resolveToolCall(
+        req.params.conversationId,
+        req.params.messageId,
+        req.params.toolCallId,
+        approved,
+        userId,
+        conversation.project_id,
+        req.projectRole!
+      );
+
+      if (!result) {
+        return res.status(404).json({ message: "Tool call not found" });
+      }
+      if (result.alreadyResolved) {
+        return res.status(409).json({ message: "This change has already been confirmed or dismissed", data: result.message });
+      }
+
+      res.json({ message: result.message, followUp: result.followUp });
+    } catch (error) {
+      console.error("Tool call error:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to resolve tool call" });
     }
+  });
+
+  // Get chat settings for a project
+  app.get("/api/projects/:projectId/chat-settings", requireAuth, requireProjectMember, async (req, res) => {
+    const userId = req.auth!.id;
 
     try {
       const settings = await storage.getChatSettings(req.params.projectId, userId);
@@ -376,11 +2100,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update chat settings for a project
-  app.put("/api/projects/:projectId/chat-settings", async (req, res) => {
-    const userId = req.headers["x-user-id"];
-    if (!userId || typeof userId !== "string") {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
+  app.put("/api/projects/:projectId/chat-settings", requireAuth, requireProjectMember, async (req, res) => {
+    const userId = req.auth!.id;
 
     try {
       const settingsData = insertChatSettingsSchema.parse({
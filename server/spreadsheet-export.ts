@@ -0,0 +1,259 @@
+import * as XLSX from "xlsx";
+import { z } from "zod";
+import type { Finish, Image, Item, Project, Room } from "@shared/schema";
+import { storage } from "./storage";
+import { IMPORT_FIELDS } from "./spreadsheet-import";
+
+export const EXPORT_FORMATS = ["xlsx", "csv", "json"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Item columns, in spreadsheet order. They match the import fields, so an
+// export can be edited and imported again.
+export const ITEM_EXPORT_COLUMNS = [...IMPORT_FIELDS, "images"] as const;
+export type ItemExportColumn = typeof ITEM_EXPORT_COLUMNS[number];
+
+const FINISH_EXPORT_COLUMNS = [
+  "room", "name", "category", "manufacturer", "supplier", "color", "material", "dimensions", "model_number",
+  "specifications", "warranty_info", "maintenance_instructions", "installation_date", "cost", "images"
+] as const;
+type FinishExportColumn = typeof FINISH_EXPORT_COLUMNS[number];
+
+const COLUMN_LABELS: Record<ItemExportColumn | FinishExportColumn, string> = {
+  room: "Room",
+  name: "Name",
+  category: "Category",
+  brand: "Brand",
+  manufacturer: "Manufacturer",
+  supplier: "Supplier",
+  color: "Color",
+  material: "Material",
+  dimensions: "Dimensions",
+  model_number: "Model Number",
+  specifications: "Specifications",
+  cost: "Cost",
+  warranty_info: "Warranty Info",
+  installation_date: "Installation Date",
+  maintenance_notes: "Maintenance Notes",
+  maintenance_instructions: "Maintenance Instructions",
+  status: "Status",
+  link: "Link",
+  notes: "Notes",
+  images: "Images"
+};
+
+// Comma separated query parameter, e.g. ?status=ordered,installed
+const listParam = z.string()
+  .transform(value => value.split(",").map(part => part.trim()).filter(Boolean))
+  .optional();
+
+const flagParam = z.enum(["true", "false"]).transform(value => value === "true").optional();
+
+const dateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD").optional();
+
+// Export options as they come in the query string
+export const exportOptionsSchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default("xlsx"),
+  // Item columns to include; all of them when not given
+  columns: listParam.pipe(z.array(z.enum(ITEM_EXPORT_COLUMNS)).optional()),
+  room_id: listParam,
+  category: listParam,
+  status: listParam,
+  // Items installed between these dates, inclusive
+  installed_from: dateParam,
+  installed_to: dateParam,
+  sheet_per_room: flagParam,
+  include_finishes: flagParam,
+  include_images: flagParam
+});
+export type ExportOptions = z.infer<typeof exportOptionsSchema>;
+
+export interface ExportFile {
+  data: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+/**
+ * Thrown when the chosen options can't be exported in the chosen format
+ */
+export class SpreadsheetExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpreadsheetExportError";
+  }
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  csv: "text/csv; charset=utf-8",
+  json: "application/json"
+};
+
+// Excel limits sheet names to 31 characters and forbids a few others
+const MAX_SHEET_NAME_LENGTH = 31;
+
+type Row = Record<string, string | number | null>;
+
+interface RoomRows {
+  room: Room;
+  items: Row[];
+  finishes: Row[];
+}
+
+function matchesAny(value: string | null, wanted: string[] | undefined): boolean {
+  if (!wanted || wanted.length === 0) return true;
+  return !!value && wanted.some(option => option.toLowerCase() === value.toLowerCase());
+}
+
+// Finishes are filtered like items, except they have no status
+function isIncluded(record: Item | Finish, options: ExportOptions): boolean {
+  if (!matchesAny(record.category, options.category)) return false;
+  if ("status" in record && !matchesAny(record.status, options.status)) return false;
+  if (options.installed_from || options.installed_to) {
+    const installed = record.installation_date;
+    if (!installed) return false;
+    if (options.installed_from && installed < options.installed_from) return false;
+    if (options.installed_to && installed > options.installed_to) return false;
+  }
+  return true;
+}
+
+function toRow<C extends string>(columns: readonly C[], value: (column: C) => string | number | null): Row {
+  return Object.fromEntries(columns.map(column => [column, value(column)]));
+}
+
+function uniqueSheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[\\/?*[\]:]/g, " ").trim().slice(0, MAX_SHEET_NAME_LENGTH) || "Room";
+  let sheetName = base;
+  for (let n = 2; used.has(sheetName.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    sheetName = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+  }
+  used.add(sheetName.toLowerCase());
+  return sheetName;
+}
+
+// Spreadsheet rows use readable headers; JSON keeps the field names
+function labelled(rows: Row[]): Row[] {
+  return rows.map(row => Object.fromEntries(
+    Object.entries(row).map(([column, value]) => [COLUMN_LABELS[column as ItemExportColumn] ?? column, value])
+  ));
+}
+
+export class SpreadsheetExport {
+  /**
+   * Export a project's items (and optionally finishes) as XLSX, CSV or JSON.
+   * imageUrl turns a stored image path into a link for the images column.
+   */
+  static async exportProject(project: Project, options: ExportOptions, imageUrl: (image: Image) => string): Promise<ExportFile> {
+    if (options.format === "csv" && (options.sheet_per_room || options.include_finishes)) {
+      throw new SpreadsheetExportError("CSV exports hold a single table; use XLSX or JSON to split by room or include finishes");
+    }
+
+    // The images column comes with include_images, whichever columns are chosen
+    const itemColumns = ITEM_EXPORT_COLUMNS.filter(column => column === "images"
+      ? options.include_images
+      : !options.columns?.length || options.columns.includes(column));
+    const finishColumns = FINISH_EXPORT_COLUMNS.filter(column => column !== "images" || options.include_images);
+
+    const rooms = (await storage.getRoomsByProjectId(project.id))
+      .filter(room => !options.room_id?.length || options.room_id.includes(room.id));
+
+    const imagesByItem = new Map<string, Image[]>();
+    if (itemColumns.includes("images")) {
+      for (const image of await storage.getImagesByProjectId(project.id)) {
+        imagesByItem.set(image.item_id, [...(imagesByItem.get(image.item_id) || []), image]);
+      }
+    }
+
+    const finishesByRoom = new Map<string, Finish[]>();
+    if (options.include_finishes) {
+      for (const finish of await storage.getFinishesByProjectId(project.id)) {
+        if (finish.room_id) {
+          finishesByRoom.set(finish.room_id, [...(finishesByRoom.get(finish.room_id) || []), finish]);
+        }
+      }
+    }
+
+    const roomRows: RoomRows[] = [];
+    for (const room of rooms) {
+      const items = (await storage.getItemsByRoomId(room.id)).filter(item => isIncluded(item, options));
+      const finishes = (finishesByRoom.get(room.id) || []).filter(finish => isIncluded(finish, options));
+
+      roomRows.push({
+        room,
+        items: items.map(item => toRow(itemColumns, column => {
+          if (column === "room") return room.name;
+          if (column === "images") return (imagesByItem.get(item.id) || []).map(imageUrl).join("\n") || null;
+          if (column === "cost") return item.cost === null ? null : Number(item.cost);
+          return item[column] ?? null;
+        })),
+        finishes: finishes.map(finish => toRow(finishColumns, column => {
+          if (column === "room") return room.name;
+          if (column === "images") return finish.image_url;
+          if (column === "cost") return finish.cost === null ? null : Number(finish.cost);
+          return finish[column] ?? null;
+        }))
+      });
+    }
+
+    if (options.format === "json") {
+      return {
+        data: Buffer.from(JSON.stringify(this.toJson(project, roomRows, options), null, 2)),
+        contentType: CONTENT_TYPES.json,
+        extension: "json"
+      };
+    }
+
+    const workbook = XLSX.utils.book_new();
+    const appendSheet = (name: string, rows: Row[], columns: readonly string[]) => {
+      const sheet = XLSX.utils.json_to_sheet(labelled(rows), {
+        header: columns.map(column => COLUMN_LABELS[column as ItemExportColumn])
+      });
+      XLSX.utils.book_append_sheet(workbook, sheet, name);
+    };
+
+    if (options.sheet_per_room) {
+      const used = new Set<string>(options.include_finishes ? ["finishes"] : []);
+      for (const { room, items } of roomRows) {
+        appendSheet(uniqueSheetName(room.name, used), items, itemColumns);
+      }
+      // Keep the workbook valid for projects without rooms
+      if (roomRows.length === 0) appendSheet("Items", [], itemColumns);
+    } else {
+      appendSheet("Items", roomRows.flatMap(({ items }) => items), itemColumns);
+    }
+    if (options.include_finishes) {
+      appendSheet("Finishes", roomRows.flatMap(({ finishes }) => finishes), finishColumns);
+    }
+
+    return {
+      data: XLSX.write(workbook, { type: "buffer", bookType: options.format }) as Buffer,
+      contentType: CONTENT_TYPES[options.format],
+      extension: options.format
+    };
+  }
+
+  private static toJson(project: Project, roomRows: RoomRows[], options: ExportOptions) {
+    const base = {
+      project: { id: project.id, name: project.name, address: project.address },
+      exported_at: new Date().toISOString()
+    };
+    if (options.sheet_per_room) {
+      return {
+        ...base,
+        rooms: roomRows.map(({ room, items, finishes }) => ({
+          id: room.id,
+          name: room.name,
+          items,
+          ...(options.include_finishes ? { finishes } : {})
+        }))
+      };
+    }
+    return {
+      ...base,
+      items: roomRows.flatMap(({ items }) => items),
+      ...(options.include_finishes ? { finishes: roomRows.flatMap(({ finishes }) => finishes) } : {})
+    };
+  }
+}
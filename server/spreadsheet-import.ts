@@ -0,0 +1,382 @@
+import * as XLSX from "xlsx";
+import { z } from "zod";
+import { insertItemSchema, insertRoomSchema } from "@shared/schema";
+import type { Item, InsertItem, Room } from "@shared/schema";
+import { storage, VersionConflictError } from "./storage";
+import { KnowledgeIndexer } from "./knowledge-indexer";
+
+// Item fields a spreadsheet column can be imported into
+export const IMPORT_FIELDS = [
+  "room", "name", "category", "brand", "supplier", "specifications", "cost", "warranty_info",
+  "installation_date", "maintenance_notes", "status", "link", "notes"
+] as const;
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+// Which column (by header) goes into each field; unmapped fields aren't imported
+export const columnMappingSchema = z.record(z.enum(IMPORT_FIELDS), z.string());
+export type ColumnMapping = z.infer<typeof columnMappingSchema>;
+
+// What to do with rows matching an item already in the room
+export type ImportMode = "skip" | "upsert";
+
+export interface ImportOptions {
+  // Suggested from the headers when not given
+  mapping?: ColumnMapping;
+  mode: ImportMode;
+  createRooms: boolean;
+  // Work out what would happen without changing anything
+  dryRun: boolean;
+}
+
+export type ImportAction = "create" | "update" | "skip" | "error";
+
+export interface ImportRowResult {
+  // Row number as shown in the spreadsheet, counting the header as row 1
+  row: number;
+  action: ImportAction;
+  room: string | null;
+  name: string | null;
+  message?: string;
+  // Fields an update changes
+  changes?: ImportField[];
+}
+
+export interface ImportResult {
+  headers: string[];
+  mapping: ColumnMapping;
+  rows: ImportRowResult[];
+  summary: Record<ImportAction, number>;
+  // Rooms that are (or would be) created for the import
+  new_rooms: string[];
+  applied: boolean;
+}
+
+/**
+ * Thrown when a spreadsheet can't be imported at all, as opposed to
+ * individual rows being rejected
+ */
+export class SpreadsheetImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpreadsheetImportError";
+  }
+}
+
+// Keep imports to a size that can be previewed and applied in one request
+const MAX_IMPORT_ROWS = 5000;
+
+const DEFAULT_CATEGORY = "Uncategorized";
+
+// Header spellings recognised for each field, compared without case, spaces or punctuation
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  room: ["room", "area", "room name", "area name", "location", "space"],
+  name: ["name", "item", "item name", "product", "product name", "description"],
+  category: ["category", "type", "item type"],
+  brand: ["brand", "manufacturer", "make"],
+  supplier: ["supplier", "vendor", "store", "retailer"],
+  specifications: ["specifications", "specs", "model", "model number", "details"],
+  cost: ["cost", "price", "amount", "total"],
+  warranty_info: ["warranty", "warranty info", "warranty information"],
+  installation_date: ["installation date", "installed", "install date", "date installed", "date"],
+  maintenance_notes: ["maintenance", "maintenance notes"],
+  status: ["status"],
+  link: ["link", "links", "url", "website"],
+  notes: ["notes", "comments", "remarks"]
+};
+
+// Excel dates start from 1900-01-01
+const EXCEL_EPOCH = new Date(1900, 0, 1);
+
+export function convertExcelDateToISO(excelDate: number | string): string | null {
+  if (!excelDate) return null;
+
+  const numericDate = Number(excelDate);
+  if (isNaN(numericDate)) return null;
+
+  // Excel dates are number of days since 1900-01-01
+  const date = new Date(EXCEL_EPOCH);
+  date.setDate(date.getDate() + numericDate - 2); // Subtract 2 to account for Excel's date system quirks
+
+  // Return in YYYY-MM-DD format
+  return date.toISOString().split('T')[0];
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Guess which column holds each field from the header row
+ */
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  for (const field of IMPORT_FIELDS) {
+    const aliases = FIELD_ALIASES[field].map(normalizeHeader);
+    const header = headers.find(h => !used.has(h) && aliases.includes(normalizeHeader(h)));
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  }
+  return mapping;
+}
+
+interface Sheet {
+  headers: string[];
+  // Data rows keyed by header, with their spreadsheet row number
+  rows: { row: number; cells: Record<string, unknown> }[];
+}
+
+function readSheet(file: Buffer): Sheet {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(file, { type: "buffer", cellDates: true });
+  } catch {
+    throw new SpreadsheetImportError("File is not a spreadsheet XLSX, XLS or CSV file");
+  }
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new SpreadsheetImportError("Spreadsheet is empty");
+  }
+
+  const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: "" });
+  const headers = (table[0] || []).map(cell => String(cell).trim());
+  if (headers.every(header => !header)) {
+    throw new SpreadsheetImportError("The first row of the spreadsheet must hold the column headers");
+  }
+
+  const rows: Sheet["rows"] = [];
+  table.slice(1).forEach((values, index) => {
+    if (values.every(value => value === "" || value === null)) return;
+    const cells: Record<string, unknown> = {};
+    headers.forEach((header, column) => {
+      if (header) cells[header] = values[column];
+    });
+    rows.push({ row: index + 2, cells });
+  });
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new SpreadsheetImportError(`Spreadsheets can have at most ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  return { headers: headers.filter(Boolean), rows };
+}
+
+function readText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = (value instanceof Date ? value.toISOString().split("T")[0] : String(value)).trim();
+  return text || null;
+}
+
+function readCost(value: unknown): string | null {
+  if (typeof value === "number") return String(value);
+  const text = readText(value);
+  if (!text) return null;
+  const cost = Number(text.replace(/[$£€,\s]/g, ""));
+  if (isNaN(cost)) {
+    throw new Error(`Cost "${text}" is not a number`);
+  }
+  return String(cost);
+}
+
+function readDate(value: unknown): string | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString().split("T")[0];
+  }
+  if (typeof value === "number") return convertExcelDateToISO(value);
+  const text = readText(value);
+  if (!text) return null;
+  const date = new Date(text);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Installation date "${text}" is not a date`);
+  }
+  return date.toISOString().split("T")[0];
+}
+
+// Values for the item fields, from the mapped columns. Empty cells give no value.
+function readItemValues(cells: Record<string, unknown>, mapping: ColumnMapping): Partial<InsertItem> {
+  const cell = (field: ImportField) => (mapping[field] ? cells[mapping[field]!] : undefined);
+  const values: Partial<InsertItem> = {};
+  for (const field of IMPORT_FIELDS) {
+    if (field === "room" || !mapping[field]) continue;
+    const value = field === "cost"
+      ? readCost(cell(field))
+      : field === "installation_date"
+        ? readDate(cell(field))
+        : readText(cell(field));
+    if (value !== null) {
+      (values as Record<string, unknown>)[field] = value;
+    }
+  }
+  return values;
+}
+
+function sameValue(field: ImportField, current: unknown, next: unknown): boolean {
+  if (field === "cost") return current !== null && Number(current) === Number(next);
+  return String(current ?? "") === String(next ?? "");
+}
+
+interface PlannedRow {
+  result: ImportRowResult;
+  roomKey: string;
+  values: Partial<InsertItem>;
+  existing?: Item;
+}
+
+export class SpreadsheetImport {
+  /**
+   * Work out what importing a spreadsheet into a project does to each row,
+   * and (unless it's a dry run) do it
+   */
+  static async run(projectId: string, file: Buffer, options: ImportOptions, userId: string | null): Promise<ImportResult> {
+    const sheet = readSheet(file);
+    const mapping = options.mapping ?? suggestMapping(sheet.headers);
+
+    const unknownHeaders = Object.values(mapping).filter(header => !sheet.headers.includes(header));
+    if (unknownHeaders.length > 0) {
+      throw new SpreadsheetImportError(`The spreadsheet has no column "${unknownHeaders[0]}"`);
+    }
+    if (!mapping.room || !mapping.name) {
+      throw new SpreadsheetImportError("Choose the columns holding the room and the item name");
+    }
+
+    // Rooms and items are matched by name, ignoring case
+    const rooms = await storage.getRoomsByProjectId(projectId);
+    const roomsByName = new Map(rooms.map(room => [room.name.trim().toLowerCase(), room]));
+    const itemsByKey = new Map<string, Item>();
+    for (const room of rooms) {
+      for (const item of await storage.getItemsByRoomId(room.id)) {
+        itemsByKey.set(`${room.id}:${item.name.trim().toLowerCase()}`, item);
+      }
+    }
+
+    const newRooms = new Map<string, string>();
+    const seenRows = new Map<string, number>();
+    const planned: PlannedRow[] = [];
+
+    for (const { row, cells } of sheet.rows) {
+      const roomName = readText(cells[mapping.room]);
+      const name = readText(cells[mapping.name]);
+      const result: ImportRowResult = { row, action: "error", room: roomName, name };
+
+      if (!roomName || !name) {
+        result.message = !roomName ? "Room is missing" : "Item name is missing";
+        planned.push({ result, roomKey: "", values: {} });
+        continue;
+      }
+
+      let values: Partial<InsertItem>;
+      try {
+        values = readItemValues(cells, mapping);
+      } catch (error) {
+        result.message = error instanceof Error ? error.message : String(error);
+        planned.push({ result, roomKey: "", values: {} });
+        continue;
+      }
+
+      const room = roomsByName.get(roomName.toLowerCase());
+      if (!room && !options.createRooms) {
+        result.message = `Room "${roomName}" does not exist`;
+        planned.push({ result, roomKey: "", values });
+        continue;
+      }
+      if (!room && !newRooms.has(roomName.toLowerCase())) {
+        newRooms.set(roomName.toLowerCase(), roomName);
+      }
+
+      const roomKey = room ? room.id : `new:${roomName.toLowerCase()}`;
+      const itemKey = `${roomKey}:${name.toLowerCase()}`;
+      const duplicateOf = seenRows.get(itemKey);
+      if (duplicateOf) {
+        planned.push({ result: { ...result, action: "skip", message: `Same item as row ${duplicateOf}` }, roomKey, values });
+        continue;
+      }
+      seenRows.set(itemKey, row);
+
+      const existing = room ? itemsByKey.get(itemKey) : undefined;
+      if (existing) {
+        if (options.mode === "skip") {
+          planned.push({ result: { ...result, action: "skip", message: "Item already exists" }, roomKey, values, existing });
+          continue;
+        }
+        const changes = (Object.keys(values) as ImportField[])
+          .filter(field => !sameValue(field, existing[field as keyof Item], values[field as keyof InsertItem]));
+        planned.push({
+          result: changes.length > 0
+            ? { ...result, action: "update", changes }
+            : { ...result, action: "skip", message: "No changes" },
+          roomKey,
+          values,
+          existing
+        });
+        continue;
+      }
+
+      // Check the new item against the same schema the item routes use
+      const check = insertItemSchema.safeParse({ category: DEFAULT_CATEGORY, ...values, room_id: roomKey, name });
+      planned.push({
+        result: check.success
+          ? { ...result, action: "create" }
+          : { ...result, action: "error", message: check.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ") },
+        roomKey,
+        values: { category: DEFAULT_CATEGORY, ...values, name }
+      });
+    }
+
+    if (!options.dryRun) {
+      await this.apply(projectId, planned, newRooms, roomsByName, userId);
+    }
+
+    const summary: Record<ImportAction, number> = { create: 0, update: 0, skip: 0, error: 0 };
+    for (const { result } of planned) {
+      summary[result.action]++;
+    }
+
+    return {
+      headers: sheet.headers,
+      mapping,
+      rows: planned.map(({ result }) => result),
+      summary,
+      new_rooms: Array.from(newRooms.values()),
+      applied: !options.dryRun
+    };
+  }
+
+  private static async apply(
+    projectId: string,
+    planned: PlannedRow[],
+    newRooms: Map<string, string>,
+    roomsByName: Map<string, Room>,
+    userId: string | null
+  ): Promise<void> {
+    // Only create rooms that end up with at least one item
+    const roomIds = new Map<string, string>(Array.from(roomsByName.values()).map(room => [room.id, room.id]));
+    for (const [key, name] of Array.from(newRooms.entries())) {
+      if (!planned.some(row => row.roomKey === `new:${key}` && row.result.action === "create")) continue;
+      const room = await storage.createRoom(insertRoomSchema.parse({ project_id: projectId, name }));
+      roomIds.set(`new:${key}`, room.id);
+    }
+
+    // Rows are applied one at a time, so one failure doesn't stop the rest
+    for (const row of planned) {
+      try {
+        if (row.result.action === "create") {
+          await storage.createItem(insertItemSchema.parse({ ...row.values, room_id: roomIds.get(row.roomKey) }));
+        } else if (row.result.action === "update" && row.existing) {
+          const updates = Object.fromEntries(row.result.changes!.map(field => [field, row.values[field as keyof InsertItem]]));
+          await storage.updateItem(row.existing.id, updates, { changedBy: userId, expectedVersion: row.existing.version });
+        }
+      } catch (error) {
+        console.error(`Error importing row ${row.result.row}:`, error);
+        row.result.action = "error";
+        row.result.message = error instanceof VersionConflictError
+          ? "Item was changed by someone else during the import"
+          : "Failed to save this row";
+      }
+    }
+
+    KnowledgeIndexer.scheduleSync(projectId);
+  }
+}
@@ -1,8 +1,8 @@
 import { db, initializeDatabase, testDatabaseConnection, connectionState } from "./db";
-import { eq, and, sql } from "drizzle-orm";
+import { eq, and, or, gt, lt, sql, desc, isNull, isNotNull, inArray } from "drizzle-orm";
 import crypto from "crypto";
-import { projects, rooms, finishes, finishHistory, items, conversations, messages, chatSettings, knowledgeBase } from "@shared/schema";
-import type { Project, InsertProject, Room, InsertRoom, Finish, InsertFinish, FinishHistory, Item, InsertItem, Conversation, InsertConversation, Message, InsertMessage, ChatSettings, InsertChatSettings, KnowledgeBase, InsertKnowledgeBase } from "@shared/schema";
+import { projects, projectMembers, projectInvitations, projectTransfers, rooms, finishes, finishHistory, items, itemHistory, images, documents, conversations, messages, chatSettings, knowledgeBase, maintenanceTasks, maintenanceCompletions, warranties, calendarFeeds, notificationPreferences, PROJECT_ROLES } from "@shared/schema";
+import type { Project, InsertProject, PinAttempts, ProjectMember, InsertProjectMember, ProjectInvitation, InsertProjectInvitation, ProjectTransfer, InsertProjectTransfer, Room, InsertRoom, Finish, InsertFinish, FinishHistory, Item, InsertItem, ItemHistory, InsertItemHistory, Image, InsertImage, Document, InsertDocument, Conversation, InsertConversation, Message, InsertMessage, ChatSettings, InsertChatSettings, KnowledgeBase, InsertKnowledgeBase, MaintenanceTask, InsertMaintenanceTask, MaintenanceCompletion, InsertMaintenanceCompletion, Warranty, InsertWarranty, CalendarFeed, InsertCalendarFeed, NotificationPreferences, InsertNotificationPreferences } from "@shared/schema";
 
 // Storage mode - force database only
 export const storageMode: 'database' = 'database';
@@ -11,28 +11,132 @@ export const storageMode: 'database' = 'database';
 export interface IStorage {
   // Project operations
   getProject(id: string): Promise<Project | undefined>;
+  // Projects the user created or is a member of
   getProjectsByUserId(userId: string): Promise<Project[]>;
   getProjectByAccessCode(accessCode: string): Promise<Project | undefined>;
   createProject(project: InsertProject): Promise<Project>;
+  updateProject(id: string, updates: Partial<InsertProject>): Promise<Project>;
+  // Read and replace a project's wrong PIN count with the row locked, so parallel attempts all count
+  updatePinAttempts(projectId: string, update: (current: PinAttempts) => PinAttempts): Promise<PinAttempts>;
+  importProject(records: ProjectRecords): Promise<Project>;
+
+  // Project member operations
+  getProjectMember(projectId: string, userId: string): Promise<ProjectMember | undefined>;
+  getProjectMemberById(id: string): Promise<ProjectMember | undefined>;
+  getProjectMembers(projectId: string): Promise<ProjectMember[]>;
+  getProjectMembershipsByUserId(userId: string): Promise<ProjectMember[]>;
+  updateProjectMember(id: string, updates: Partial<InsertProjectMember>): Promise<ProjectMember>;
+  deleteProjectMember(id: string): Promise<void>;
+
+  // Project invitation operations
+  getProjectInvitation(id: string): Promise<ProjectInvitation | undefined>;
+  getProjectInvitationByToken(token: string): Promise<ProjectInvitation | undefined>;
+  getPendingProjectInvitations(projectId: string): Promise<ProjectInvitation[]>;
+  createProjectInvitation(invitation: InsertProjectInvitation): Promise<ProjectInvitation>;
+  deleteProjectInvitation(id: string): Promise<void>;
+  acceptProjectInvitation(invitation: ProjectInvitation, userId: string, email: string | null): Promise<ProjectMember>;
+
+  // Project transfer operations
+  getPendingProjectTransfer(projectId: string): Promise<ProjectTransfer | undefined>;
+  getProjectTransferByToken(token: string): Promise<ProjectTransfer | undefined>;
+  createProjectTransfer(transfer: InsertProjectTransfer): Promise<ProjectTransfer>;
+  deleteProjectTransfer(id: string): Promise<void>;
+  completeProjectTransfer(transfer: ProjectTransfer, userId: string, email: string | null): Promise<Project | undefined>;
 
   // Room operations
   getRoom(id: string): Promise<Room | undefined>;
   getRoomsByProjectId(projectId: string): Promise<Room[]>;
   createRoom(room: InsertRoom): Promise<Room>;
+  updateRoom(id: string, updates: Partial<InsertRoom>): Promise<Room>;
+  // Deletes the room's items with it; its finishes stay in the project without a room
+  deleteRoom(id: string): Promise<void>;
 
   // Item operations
+  getItem(id: string): Promise<Item | undefined>;
   getItemsByRoomId(roomId: string): Promise<Item[]>;
   createItem(item: InsertItem): Promise<Item>;
+  updateItem(id: string, updates: Partial<InsertItem>, change?: VersionChange): Promise<Item>;
+  deleteItem(id: string): Promise<void>;
+
+  // Item History operations
+  getItemHistory(itemId: string): Promise<ItemHistory[]>;
+  restoreItemVersion(id: string, version: number, changedBy: string | null): Promise<Item | undefined>;
+
+  // Image operations
+  getImage(id: string): Promise<Image | undefined>;
+  getImagesByItemId(itemId: string): Promise<Image[]>;
+  getImagesByProjectId(projectId: string): Promise<Image[]>;
+  createImage(image: InsertImage): Promise<Image>;
+  deleteImage(id: string): Promise<void>;
+
+  // Document operations
+  getDocument(id: string): Promise<Document | undefined>;
+  getDocumentsByProjectId(projectId: string): Promise<Document[]>;
+  getDocumentsByItemId(itemId: string): Promise<Document[]>;
+  getDocumentsByRoomId(roomId: string): Promise<Document[]>;
+  getDocumentsByFinishId(finishId: string): Promise<Document[]>;
+  createDocument(document: InsertDocument): Promise<Document>;
+  updateDocument(id: string, updates: Partial<InsertDocument>): Promise<Document>;
+  deleteDocument(id: string): Promise<void>;
 
   // Finish operations
   getFinish(id: string): Promise<Finish | undefined>;
   getFinishesByProjectId(projectId: string): Promise<Finish[]>;
   getFinishesByRoomId(roomId: string): Promise<Finish[]>;
   createFinish(finish: InsertFinish): Promise<Finish>;
-  updateFinish(id: string, finish: Partial<InsertFinish>, userId: string): Promise<Finish>;
+  updateFinish(id: string, finish: Partial<InsertFinish>, userId: string, change?: VersionChange): Promise<Finish>;
 
   // Finish History operations
   getFinishHistory(finishId: string): Promise<FinishHistory[]>;
+  restoreFinishVersion(id: string, version: number, userId: string): Promise<Finish | undefined>;
+
+  // Maintenance operations
+  getMaintenanceTask(id: string): Promise<MaintenanceTask | undefined>;
+  getMaintenanceTasksByProjectId(projectId: string): Promise<MaintenanceTask[]>;
+  createMaintenanceTask(task: InsertMaintenanceTask): Promise<MaintenanceTask>;
+  updateMaintenanceTask(id: string, updates: Partial<InsertMaintenanceTask>): Promise<MaintenanceTask>;
+  deleteMaintenanceTask(id: string): Promise<void>;
+  getMaintenanceCompletion(id: string): Promise<MaintenanceCompletion | undefined>;
+  // Newest first
+  getMaintenanceCompletions(taskId: string): Promise<MaintenanceCompletion[]>;
+  getMaintenanceCompletionsByProjectId(projectId: string): Promise<MaintenanceCompletion[]>;
+  createMaintenanceCompletion(completion: InsertMaintenanceCompletion): Promise<MaintenanceCompletion>;
+  updateMaintenanceCompletion(id: string, updates: Partial<MaintenanceCompletion>): Promise<MaintenanceCompletion>;
+  deleteMaintenanceCompletion(id: string): Promise<void>;
+
+  // Warranty operations
+  getWarranty(id: string): Promise<Warranty | undefined>;
+  // Soonest expiry first, open-ended warranties last
+  getWarrantiesByProjectId(projectId: string): Promise<Warranty[]>;
+  createWarranty(warranty: InsertWarranty): Promise<Warranty>;
+  updateWarranty(id: string, updates: Partial<InsertWarranty>): Promise<Warranty>;
+  deleteWarranty(id: string): Promise<void>;
+
+  // Calendar feed operations
+  getCalendarFeed(projectId: string): Promise<CalendarFeed | undefined>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  // Creates the project's feed, or replaces its token so the old link stops working
+  setCalendarFeed(feed: InsertCalendarFeed): Promise<CalendarFeed>;
+  recordCalendarFeedFetch(id: string): Promise<void>;
+  deleteCalendarFeed(projectId: string): Promise<void>;
+
+  // Notification operations
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined>;
+  saveNotificationPreferences(preferences: InsertNotificationPreferences): Promise<NotificationPreferences>;
+  // Every project member, with the email they most recently joined a project with
+  getNotificationRecipients(): Promise<{ user_id: string; email: string | null }[]>;
+  // Mark a digest as sent unless one already went out after dueBefore; false when another server got there first
+  claimDigest(userId: string, dueBefore: Date, sentAt: Date): Promise<boolean>;
+  // Undo a claim whose digest couldn't be sent, unless a later one was claimed since
+  releaseDigest(userId: string, sentAt: Date, previous: Date | null): Promise<void>;
+  // Start over confirming the preference email: token is what the link carries, confirmedAt is set when there's nothing to confirm
+  resetNotificationEmailConfirmation(userId: string, token: string | null, confirmedAt: Date | null): Promise<void>;
+  // Mark the preference email carrying this token as confirmed; undefined when no pending confirmation has it
+  confirmNotificationEmail(token: string): Promise<NotificationPreferences | undefined>;
+  // Record mail the user asked for unless some went out after sentBefore; false when it's too soon
+  claimRequestedMail(userId: string, sentBefore: Date, sentAt: Date): Promise<boolean>;
+  getItemHistoryByProjectIdSince(projectId: string, since: Date): Promise<ItemHistory[]>;
+  getFinishHistoryByProjectIdSince(projectId: string, since: Date): Promise<FinishHistory[]>;
 
   // Chat operations
   createConversation(conversation: InsertConversation): Promise<Conversation>;
@@ -43,7 +147,9 @@ export interface IStorage {
 
   // Message operations
   createMessage(message: InsertMessage): Promise<Message>;
+  getMessage(id: string): Promise<Message | undefined>;
   getConversationMessages(conversationId: string): Promise<Message[]>;
+  updateMessage(id: string, updates: Partial<InsertMessage>): Promise<Message>;
   deleteMessage(id: string): Promise<void>;
 
   // Chat settings operations
@@ -54,10 +160,83 @@ export interface IStorage {
   // Knowledge base operations
   createKnowledgeBaseEntry(entry: InsertKnowledgeBase): Promise<KnowledgeBase>;
   getKnowledgeBaseByProjectId(projectId: string): Promise<KnowledgeBase[]>;
+  getKnowledgeBaseEntriesBySource(sourceType: string, sourceId: string): Promise<KnowledgeBase[]>;
   updateKnowledgeBaseEntry(id: string, updates: Partial<InsertKnowledgeBase>): Promise<KnowledgeBase>;
   deleteKnowledgeBaseEntry(id: string): Promise<void>;
 }
 
+// How a record was changed, recorded with the version it replaced
+export interface VersionChange {
+  changedBy?: string | null;
+  changeType?: "update" | "restore";
+  restoredVersion?: number;
+  // When set, the change only applies if the record is still at this version
+  expectedVersion?: number;
+}
+
+/**
+ * Every row of a project, with IDs already assigned, for importProject
+ */
+export interface ProjectRecords {
+  project: typeof projects.$inferInsert;
+  rooms: typeof rooms.$inferInsert[];
+  items: typeof items.$inferInsert[];
+  itemHistory: typeof itemHistory.$inferInsert[];
+  finishes: typeof finishes.$inferInsert[];
+  images: typeof images.$inferInsert[];
+  documents: typeof documents.$inferInsert[];
+  conversations: typeof conversations.$inferInsert[];
+  messages: typeof messages.$inferInsert[];
+}
+
+/**
+ * Thrown when a record was changed by someone else since the caller read it
+ */
+export class VersionConflictError<T = unknown> extends Error {
+  constructor(public current: T) {
+    super("Record has been modified since it was loaded");
+    this.name = "VersionConflictError";
+  }
+}
+
+// Fields put back when restoring an earlier version. Attachments are managed
+// separately and are left as they are.
+const ITEM_RESTORE_FIELDS = [
+  "room_id", "name", "brand", "supplier", "specifications", "cost", "warranty_info",
+  "installation_date", "maintenance_notes", "category", "status", "link", "notes"
+] as const;
+
+const FINISH_RESTORE_FIELDS = [
+  "room_id", "name", "category", "manufacturer", "supplier", "color", "material", "dimensions",
+  "model_number", "specifications", "warranty_info", "maintenance_instructions", "installation_date", "cost"
+] as const;
+
+// Snapshot of an item as it is stored in item_history before being changed
+function toItemHistory(item: Item, change: VersionChange = {}): InsertItemHistory {
+  return {
+    item_id: item.id,
+    room_id: item.room_id,
+    name: item.name,
+    brand: item.brand,
+    supplier: item.supplier,
+    specifications: item.specifications,
+    cost: item.cost,
+    warranty_info: item.warranty_info,
+    installation_date: item.installation_date,
+    maintenance_notes: item.maintenance_notes,
+    category: item.category,
+    status: item.status,
+    image_url: null,
+    document_urls: null,
+    link: item.link,
+    notes: item.notes,
+    version: item.version,
+    change_type: change.changeType || "update",
+    changed_by: change.changedBy ?? null,
+    restored_version: change.restoredVersion ?? null
+  };
+}
+
 // Database implementation - the only storage we use
 export class DatabaseStorage implements IStorage {
   async getProject(id: string): Promise<Project | undefined> {
@@ -93,7 +272,11 @@ export class DatabaseStorage implements IStorage {
 
   async getProjectsByUserId(userId: string): Promise<Project[]> {
     try {
-      return await db.select().from(projects).where(eq(projects.user_id, userId));
+      const memberships = db.select({ project_id: projectMembers.project_id })
+        .from(projectMembers)
+        .where(eq(projectMembers.user_id, userId));
+      return await db.select().from(projects)
+        .where(or(eq(projects.user_id, userId), inArray(projects.id, memberships)));
     } catch (error: any) {
       // Handle case where columns don't exist in the database yet
       if (error.message && error.message.includes('column "require_pin" does not exist')) {
@@ -194,6 +377,233 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async updateProject(id: string, updates: Partial<InsertProject>): Promise<Project> {
+    const [updated] = await db.update(projects).set(updates).where(eq(projects.id, id)).returning();
+    return updated;
+  }
+
+  async updatePinAttempts(projectId: string, update: (current: PinAttempts) => PinAttempts): Promise<PinAttempts> {
+    return await db.transaction(async (tx: any) => {
+      const [current] = await tx.select({
+        pin_failed_attempts: projects.pin_failed_attempts,
+        pin_first_failed_at: projects.pin_first_failed_at,
+        pin_locked_until: projects.pin_locked_until
+      }).from(projects).where(eq(projects.id, projectId)).for("update");
+      const next = update(current);
+      await tx.update(projects).set(next).where(eq(projects.id, projectId));
+      return next;
+    });
+  }
+
+
+  // Insert a whole project at once, so a failed import leaves nothing behind
+  async importProject(records: ProjectRecords): Promise<Project> {
+    return await db.transaction(async (tx: any) => {
+      const [project] = await tx.insert(projects).values(records.project).returning();
+      const tables = [
+        [rooms, records.rooms],
+        [items, records.items],
+        [itemHistory, records.itemHistory],
+        [finishes, records.finishes],
+        [images, records.images],
+        [documents, records.documents],
+        [conversations, records.conversations],
+        [messages, records.messages]
+      ] as const;
+      // In dependency order; empty inserts are not allowed
+      for (const [table, rows] of tables) {
+        if (rows.length > 0) {
+          await tx.insert(table).values(rows);
+        }
+      }
+      return project;
+    });
+  }
+
+  async getProjectMember(projectId: string, userId: string): Promise<ProjectMember | undefined> {
+    const [member] = await db.select().from(projectMembers)
+      .where(and(eq(projectMembers.project_id, projectId), eq(projectMembers.user_id, userId)));
+    return member;
+  }
+
+  async getProjectMemberById(id: string): Promise<ProjectMember | undefined> {
+    const [member] = await db.select().from(projectMembers).where(eq(projectMembers.id, id));
+    return member;
+  }
+
+  async getProjectMembers(projectId: string): Promise<ProjectMember[]> {
+    return await db.select().from(projectMembers)
+      .where(eq(projectMembers.project_id, projectId))
+      .orderBy(projectMembers.created_at);
+  }
+
+  async getProjectMembershipsByUserId(userId: string): Promise<ProjectMember[]> {
+    return await db.select().from(projectMembers).where(eq(projectMembers.user_id, userId));
+  }
+
+  async updateProjectMember(id: string, updates: Partial<InsertProjectMember>): Promise<ProjectMember> {
+    const [updated] = await db.update(projectMembers)
+      .set({ ...updates, updated_at: new Date() })
+      .where(eq(projectMembers.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteProjectMember(id: string): Promise<void> {
+    await db.delete(projectMembers).where(eq(projectMembers.id, id));
+  }
+
+  async getProjectInvitation(id: string): Promise<ProjectInvitation | undefined> {
+    const [invitation] = await db.select().from(projectInvitations).where(eq(projectInvitations.id, id));
+    return invitation;
+  }
+
+  async getProjectInvitationByToken(token: string): Promise<ProjectInvitation | undefined> {
+    const [invitation] = await db.select().from(projectInvitations).where(eq(projectInvitations.token, token));
+    return invitation;
+  }
+
+  // Invitations that haven't been accepted and haven't expired
+  async getPendingProjectInvitations(projectId: string): Promise<ProjectInvitation[]> {
+    return await db.select().from(projectInvitations)
+      .where(and(
+        eq(projectInvitations.project_id, projectId),
+        isNull(projectInvitations.accepted_at),
+        gt(projectInvitations.expires_at, new Date())
+      ))
+      .orderBy(projectInvitations.created_at);
+  }
+
+  async createProjectInvitation(invitation: InsertProjectInvitation): Promise<ProjectInvitation> {
+    const [created] = await db.insert(projectInvitations).values(invitation).returning();
+    return created;
+  }
+
+  async deleteProjectInvitation(id: string): Promise<void> {
+    await db.delete(projectInvitations).where(eq(projectInvitations.id, id));
+  }
+
+  /**
+   * Add the user to the invitation's project. Existing members keep their
+   * role unless the invitation gives them a higher one. Email invitations
+   * are used up; invite links stay valid.
+   */
+  async acceptProjectInvitation(invitation: ProjectInvitation, userId: string, email: string | null): Promise<ProjectMember> {
+    return await db.transaction(async (tx: any) => {
+      const [existing] = await tx.select().from(projectMembers)
+        .where(and(eq(projectMembers.project_id, invitation.project_id), eq(projectMembers.user_id, userId)));
+
+      let member: ProjectMember = existing;
+      if (!existing) {
+        [member] = await tx.insert(projectMembers).values({
+          project_id: invitation.project_id,
+          user_id: userId,
+          email,
+          role: invitation.role,
+          invited_by: invitation.invited_by
+        }).returning();
+      } else if (PROJECT_ROLES.indexOf(invitation.role) < PROJECT_ROLES.indexOf(existing.role)) {
+        [member] = await tx.update(projectMembers)
+          .set({ role: invitation.role, email: existing.email ?? email, updated_at: new Date() })
+          .where(eq(projectMembers.id, existing.id))
+          .returning();
+      }
+
+      if (invitation.email) {
+        await tx.update(projectInvitations)
+          .set({ accepted_at: new Date(), accepted_by: userId })
+          .where(eq(projectInvitations.id, invitation.id));
+      }
+      return member;
+    });
+  }
+
+  async getPendingProjectTransfer(projectId: string): Promise<ProjectTransfer | undefined> {
+    const [transfer] = await db.select().from(projectTransfers)
+      .where(and(
+        eq(projectTransfers.project_id, projectId),
+        isNull(projectTransfers.accepted_at),
+        gt(projectTransfers.expires_at, new Date())
+      ))
+      .orderBy(desc(projectTransfers.created_at))
+      .limit(1);
+    return transfer;
+  }
+
+  async getProjectTransferByToken(token: string): Promise<ProjectTransfer | undefined> {
+    const [transfer] = await db.select().from(projectTransfers).where(eq(projectTransfers.token, token));
+    return transfer;
+  }
+
+  // A project has at most one open transfer; starting another cancels it
+  async createProjectTransfer(transfer: InsertProjectTransfer): Promise<ProjectTransfer> {
+    return await db.transaction(async (tx: any) => {
+      await tx.delete(projectTransfers)
+        .where(and(eq(projectTransfers.project_id, transfer.project_id), isNull(projectTransfers.accepted_at)));
+      const [created] = await tx.insert(projectTransfers).values(transfer).returning();
+      return created;
+    });
+  }
+
+  async deleteProjectTransfer(id: string): Promise<void> {
+    await db.delete(projectTransfers).where(eq(projectTransfers.id, id));
+  }
+
+  /**
+   * Make the user the project's primary owner, all or nothing:
+   * - the edit PIN is cleared, since the previous owner knows it
+   * - the previous owner keeps the role the transfer names, or loses access
+   *   along with their conversations and chat settings for the project
+   * - pending invitations are cancelled so the new owner decides who joins
+   * - the calendar feed is revoked, as its link was shared by the previous owner
+   * Other members keep their roles. Returns undefined when the project has
+   * changed hands since the transfer was created.
+   */
+  async completeProjectTransfer(transfer: ProjectTransfer, userId: string, email: string | null): Promise<Project | undefined> {
+    return await db.transaction(async (tx: any) => {
+      const [current] = await tx.select().from(projects)
+        .where(eq(projects.id, transfer.project_id))
+        .for("update");
+      if (!current || current.user_id !== transfer.from_user_id) {
+        return undefined;
+      }
+
+      const [project] = await tx.update(projects)
+        .set({ user_id: userId, require_pin: false, edit_pin: null })
+        .where(eq(projects.id, transfer.project_id))
+        .returning();
+
+      await tx.insert(projectMembers)
+        .values({ project_id: project.id, user_id: userId, email, role: "owner", invited_by: transfer.from_user_id })
+        .onConflictDoUpdate({
+          target: [projectMembers.project_id, projectMembers.user_id],
+          set: { role: "owner", updated_at: new Date() }
+        });
+
+      const previousOwner = and(eq(projectMembers.project_id, project.id), eq(projectMembers.user_id, transfer.from_user_id));
+      if (transfer.previous_owner_role) {
+        await tx.update(projectMembers)
+          .set({ role: transfer.previous_owner_role, updated_at: new Date() })
+          .where(previousOwner);
+      } else {
+        await tx.delete(projectMembers).where(previousOwner);
+        await tx.delete(conversations)
+          .where(and(eq(conversations.project_id, project.id), eq(conversations.user_id, transfer.from_user_id)));
+        await tx.delete(chatSettings)
+          .where(and(eq(chatSettings.project_id, project.id), eq(chatSettings.user_id, transfer.from_user_id)));
+      }
+
+      await tx.delete(projectInvitations)
+        .where(and(eq(projectInvitations.project_id, project.id), isNull(projectInvitations.accepted_at)));
+      await tx.delete(calendarFeeds).where(eq(calendarFeeds.project_id, project.id));
+      await tx.update(projectTransfers)
+        .set({ accepted_at: new Date(), accepted_by: userId })
+        .where(eq(projectTransfers.id, transfer.id));
+
+      return project;
+    });
+  }
+
   async getRoom(id: string): Promise<Room | undefined> {
     const [room] = await db.select().from(rooms).where(eq(rooms.id, id));
     return room;
@@ -231,6 +641,32 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async updateRoom(id: string, updates: Partial<InsertRoom>): Promise<Room> {
+    const [updated] = await db.update(rooms)
+      .set({ ...updates, updated_at: new Date() })
+      .where(eq(rooms.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteRoom(id: string): Promise<void> {
+    await db.transaction(async (tx: any) => {
+      // item_history does not cascade with its items
+      const roomItems = tx.select({ id: items.id }).from(items).where(eq(items.room_id, id));
+      await tx.delete(itemHistory).where(inArray(itemHistory.item_id, roomItems));
+      // Finish documents carry the room too, and would otherwise cascade with it
+      await tx.update(documents).set({ room_id: null })
+        .where(and(eq(documents.room_id, id), isNotNull(documents.finish_id)));
+      await tx.update(finishes).set({ room_id: null }).where(eq(finishes.room_id, id));
+      await tx.delete(rooms).where(eq(rooms.id, id));
+    });
+  }
+
+  async getItem(id: string): Promise<Item | undefined> {
+    const [item] = await db.select().from(items).where(eq(items.id, id));
+    return item;
+  }
+
   async getItemsByRoomId(roomId: string): Promise<Item[]> {
     return await db.select().from(items).where(eq(items.room_id, roomId));
   }
@@ -240,316 +676,451 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async getFinish(id: string): Promise<Finish | undefined> {
-    try {
-      // Look up item by ID
-      const [item] = await db.select().from(items).where(eq(items.id, id));
-      
-      if (!item) {
-        return undefined;
+  async updateItem(id: string, updates: Partial<InsertItem>, change: VersionChange = {}): Promise<Item> {
+    // Snapshot and update in one transaction so history never drifts from the item
+    return await db.transaction(async (tx: any) => {
+      // Lock the row so a concurrent update can't slip in between the version check and the write
+      const [currentItem] = await tx
+        .select()
+        .from(items)
+        .where(eq(items.id, id))
+        .for("update");
+
+      if (!currentItem) {
+        throw new Error("Item not found");
+      }
+      if (change.expectedVersion !== undefined && change.expectedVersion !== currentItem.version) {
+        throw new VersionConflictError<Item>(currentItem);
       }
-      
-      // Convert item to finish format
-      const finish: Finish = {
-        id: item.id,
-        room_id: item.room_id,
-        project_id: "", // No direct mapping
-        name: item.name,
-        category: item.category || "Unknown",
-        manufacturer: item.brand || null,
-        supplier: item.supplier || null,
-        color: null,
-        material: null,
-        dimensions: null,
-        model_number: null,
-        specifications: item.specifications || null,
-        warranty_info: item.warranty_info || null,
-        maintenance_instructions: item.maintenance_notes || null,
-        installation_date: item.installation_date || null,
-        cost: item.cost || null,
-        image_url: null,
-        document_urls: item.document_urls || [],
-        version: item.version || 1,
-        created_at: item.created_at,
-        updated_at: item.updated_at
-      };
-      
-      return finish;
-    } catch (error) {
-      console.error('Error in getFinish:', error);
-      return undefined;
+
+      await tx.insert(itemHistory).values(toItemHistory(currentItem, change));
+
+      const [updatedItem] = await tx
+        .update(items)
+        .set({
+          ...updates,
+          version: currentItem.version + 1,
+          updated_at: new Date(),
+        })
+        .where(eq(items.id, id))
+        .returning();
+
+      return updatedItem;
+    });
+  }
+
+  async deleteItem(id: string): Promise<void> {
+    // item_history does not cascade, so clear it before removing the item
+    await db.transaction(async (tx: any) => {
+      await tx.delete(itemHistory).where(eq(itemHistory.item_id, id));
+      await tx.delete(items).where(eq(items.id, id));
+    });
+  }
+
+  async getItemHistory(itemId: string): Promise<ItemHistory[]> {
+    return await db.select().from(itemHistory)
+      .where(eq(itemHistory.item_id, itemId))
+      .orderBy(desc(itemHistory.version), desc(itemHistory.created_at));
+  }
+
+  async restoreItemVersion(id: string, version: number, changedBy: string | null): Promise<Item | undefined> {
+    const [snapshot] = await db.select().from(itemHistory)
+      .where(and(eq(itemHistory.item_id, id), eq(itemHistory.version, version)))
+      .orderBy(desc(itemHistory.created_at))
+      .limit(1);
+    const current = await this.getItem(id);
+    if (!snapshot || !current) return undefined;
+
+    const updates: Record<string, unknown> = {};
+    for (const field of ITEM_RESTORE_FIELDS) {
+      updates[field] = snapshot[field];
     }
+
+    // Stay in the current room if the earlier one has gone or belongs to another project
+    const [previousRoom, currentRoom] = await Promise.all([this.getRoom(snapshot.room_id), this.getRoom(current.room_id)]);
+    if (!previousRoom || previousRoom.project_id !== currentRoom?.project_id) {
+      updates.room_id = current.room_id;
+    }
+
+    return await this.updateItem(id, updates as Partial<InsertItem>, {
+      changedBy,
+      changeType: "restore",
+      restoredVersion: version
+    });
+  }
+
+  async getImage(id: string): Promise<Image | undefined> {
+    const [image] = await db.select().from(images).where(eq(images.id, id));
+    return image;
+  }
+
+  async getImagesByItemId(itemId: string): Promise<Image[]> {
+    return await db.select().from(images)
+      .where(eq(images.item_id, itemId))
+      .orderBy(images.created_at);
+  }
+
+  async getImagesByProjectId(projectId: string): Promise<Image[]> {
+    const rows = await db.select({ image: images }).from(images)
+      .innerJoin(items, eq(images.item_id, items.id))
+      .innerJoin(rooms, eq(items.room_id, rooms.id))
+      .where(eq(rooms.project_id, projectId))
+      .orderBy(images.created_at);
+    return rows.map((row: { image: Image }) => row.image);
+  }
+
+  async createImage(image: InsertImage): Promise<Image> {
+    const [created] = await db.insert(images).values(image).returning();
+    return created;
+  }
+
+  async deleteImage(id: string): Promise<void> {
+    await db.delete(images).where(eq(images.id, id));
+  }
+
+  async getDocument(id: string): Promise<Document | undefined> {
+    const [document] = await db.select().from(documents).where(eq(documents.id, id));
+    return document;
+  }
+
+  async getDocumentsByProjectId(projectId: string): Promise<Document[]> {
+    return await db.select().from(documents)
+      .where(eq(documents.project_id, projectId))
+      .orderBy(documents.created_at);
+  }
+
+  async getDocumentsByItemId(itemId: string): Promise<Document[]> {
+    return await db.select().from(documents)
+      .where(eq(documents.item_id, itemId))
+      .orderBy(documents.created_at);
+  }
+
+  // Documents attached to the room itself rather than to one of its items
+  async getDocumentsByRoomId(roomId: string): Promise<Document[]> {
+    return await db.select().from(documents)
+      .where(and(eq(documents.room_id, roomId), isNull(documents.item_id)))
+      .orderBy(documents.created_at);
+  }
+
+  async getDocumentsByFinishId(finishId: string): Promise<Document[]> {
+    return await db.select().from(documents)
+      .where(eq(documents.finish_id, finishId))
+      .orderBy(documents.created_at);
+  }
+
+  async createDocument(document: InsertDocument): Promise<Document> {
+    const [created] = await db.insert(documents).values(document).returning();
+    return created;
+  }
+
+  async updateDocument(id: string, updates: Partial<InsertDocument>): Promise<Document> {
+    const [updated] = await db.update(documents)
+      .set({ ...updates, updated_at: new Date() })
+      .where(eq(documents.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    await db.delete(documents).where(eq(documents.id, id));
+  }
+
+  async getFinish(id: string): Promise<Finish | undefined> {
+    const [finish] = await db.select().from(finishes).where(eq(finishes.id, id));
+    return finish;
   }
 
   async getFinishesByProjectId(projectId: string): Promise<Finish[]> {
-    try {
-      // First, get all rooms for this project
-      const projectRooms = await this.getRoomsByProjectId(projectId);
-      
-      // Then get all items for these rooms and convert them to Finish objects
-      const allFinishes: Finish[] = [];
-      
-      for (const room of projectRooms) {
-        const roomFinishes = await this.getFinishesByRoomId(room.id);
-        // Add project ID to each finish object
-        roomFinishes.forEach(finish => {
-          finish.project_id = projectId;
-        });
-        allFinishes.push(...roomFinishes);
-      }
-      
-      return allFinishes;
-    } catch (error) {
-      console.error('Error in getFinishesByProjectId:', error);
-      return [];
-    }
+    return await db.select().from(finishes)
+      .where(eq(finishes.project_id, projectId))
+      .orderBy(finishes.category, finishes.name);
   }
 
   async getFinishesByRoomId(roomId: string): Promise<Finish[]> {
-    try {
-      // We will use items instead of finishes, mapping the fields as needed
-      const roomItems = await db.select().from(items).where(eq(items.room_id, roomId));
-      
-      // Map items to finishes interface with proper type handling
-      return roomItems.map((item: Item) => {
-        // Create a finish object from item data
-        const finish: Finish = {
-          id: item.id,
-          room_id: item.room_id,
-          project_id: "", // No direct mapping, use empty string
-          name: item.name,
-          category: item.category || "Unknown",
-          manufacturer: item.brand || null,
-          supplier: item.supplier || null,
-          color: null, // No direct mapping
-          material: null, // No direct mapping
-          dimensions: null, // No direct mapping
-          model_number: null, // No direct mapping
-          specifications: item.specifications || null,
-          warranty_info: item.warranty_info || null,
-          maintenance_instructions: item.maintenance_notes || null,
-          installation_date: item.installation_date || null,
-          cost: item.cost || null,
-          image_url: null, // No direct mapping
-          document_urls: item.document_urls || [],
-          version: item.version || 1,
-          created_at: item.created_at,
-          updated_at: item.updated_at
-        };
-        return finish;
-      });
-    } catch (error) {
-      console.error('Error in getFinishesByRoomId:', error);
-      // Fallback to empty array on error
-      return [];
-    }
+    return await db.select().from(finishes)
+      .where(eq(finishes.room_id, roomId))
+      .orderBy(finishes.category, finishes.name);
   }
 
   async createFinish(finish: InsertFinish): Promise<Finish> {
-    try {
-      // Convert finish to item format
-      const item: InsertItem = {
-        room_id: finish.room_id || '',
-        name: finish.name,
-        brand: finish.manufacturer,
-        supplier: finish.supplier,
-        specifications: finish.specifications,
-        cost: finish.cost,
-        warranty_info: finish.warranty_info,
-        installation_date: finish.installation_date,
-        maintenance_notes: finish.maintenance_instructions,
-        category: finish.category || 'Unknown',
-        status: 'active',
-        document_urls: finish.document_urls,
-        notes: `Material: ${finish.material || 'Unknown'}, Color: ${finish.color || 'Unknown'}`
-      };
-      
-      // Create item record
-      const [created] = await db.insert(items).values(item).returning();
-      
-      // Convert back to finish format
-      const createdFinish: Finish = {
-        id: created.id,
-        room_id: created.room_id,
-        project_id: finish.project_id,
-        name: created.name,
-        category: created.category,
-        manufacturer: created.brand,
-        supplier: created.supplier,
-        color: null,
-        material: null,
-        dimensions: null,
-        model_number: null,
-        specifications: created.specifications,
-        warranty_info: created.warranty_info,
-        maintenance_instructions: created.maintenance_notes,
-        installation_date: created.installation_date,
-        cost: created.cost,
-        image_url: null,
-        document_urls: created.document_urls,
-        version: created.version,
-        created_at: created.created_at,
-        updated_at: created.updated_at
-      };
-      
-      return createdFinish;
-    } catch (error) {
-      console.error('Error in createFinish:', error);
-      throw error;
-    }
+    const [created] = await db.insert(finishes).values(finish).returning();
+    return created;
   }
 
-  async updateFinish(id: string, finish: Partial<InsertFinish>, userId: string): Promise<Finish> {
-    // Start a transaction
+  async updateFinish(id: string, finish: Partial<InsertFinish>, userId: string, change: VersionChange = {}): Promise<Finish> {
     return await db.transaction(async (tx: any) => {
-      try {
-        // Get the current item
-        const [currentItem] = await tx
-          .select()
-          .from(items)
-          .where(eq(items.id, id));
-
-        if (!currentItem) {
-          throw new Error("Item not found");
-        }
+      const [currentFinish] = await tx
+        .select()
+        .from(finishes)
+        .where(eq(finishes.id, id));
 
-        // Create an item history record
-        await tx.insert(itemHistory).values({
-          item_id: id,
-          room_id: currentItem.room_id,
-          name: currentItem.name,
-          brand: currentItem.brand,
-          supplier: currentItem.supplier,
-          specifications: currentItem.specifications,
-          cost: currentItem.cost,
-          warranty_info: currentItem.warranty_info,
-          installation_date: currentItem.installation_date,
-          maintenance_notes: currentItem.maintenance_notes,
-          category: currentItem.category,
-          status: currentItem.status,
-          image_url: null,
-          document_urls: currentItem.document_urls,
-          link: currentItem.link,
-          notes: currentItem.notes,
-          version: currentItem.version,
-        });
+      if (!currentFinish) {
+        throw new Error("Finish not found");
+      }
 
-        // Map finish fields to item fields
-        const itemUpdates: Partial<InsertItem> = {
-          name: finish.name,
-          brand: finish.manufacturer,
-          supplier: finish.supplier,
-          specifications: finish.specifications,
-          cost: finish.cost,
-          warranty_info: finish.warranty_info,
-          installation_date: finish.installation_date,
-          maintenance_notes: finish.maintenance_instructions,
-          category: finish.category,
-          notes: currentItem.notes
-        };
+      // Keep the version being replaced so it can be viewed or restored later
+      await tx.insert(finishHistory).values({
+        finish_id: currentFinish.id,
+        version: currentFinish.version,
+        change_type: change.changeType || "update",
+        previous_data: JSON.stringify(currentFinish),
+        changed_by: userId,
+        restored_version: change.restoredVersion ?? null
+      });
 
-        // If finish has material or color, add to notes
-        if (finish.material || finish.color) {
-          const materialNote = `Material: ${finish.material || 'Unknown'}`;
-          const colorNote = `Color: ${finish.color || 'Unknown'}`;
-          itemUpdates.notes = `${materialNote}, ${colorNote}`;
-        }
+      const [updatedFinish] = await tx
+        .update(finishes)
+        .set({
+          ...finish,
+          version: currentFinish.version + 1,
+          updated_at: new Date(),
+        })
+        .where(eq(finishes.id, id))
+        .returning();
 
-        // Update the item with new version
-        const [updatedItem] = await tx
-          .update(items)
-          .set({
-            ...itemUpdates,
-            version: currentItem.version + 1,
-            updated_at: new Date(),
-          })
-          .where(eq(items.id, id))
-          .returning();
+      return updatedFinish;
+    });
+  }
 
-        // Convert to finish object
-        const updatedFinish: Finish = {
-          id: updatedItem.id,
-          room_id: updatedItem.room_id,
-          project_id: "", // No direct mapping
-          name: updatedItem.name,
-          category: updatedItem.category || "Unknown",
-          manufacturer: updatedItem.brand,
-          supplier: updatedItem.supplier,
-          color: null, // Stored in notes
-          material: null, // Stored in notes
-          dimensions: null,
-          model_number: null,
-          specifications: updatedItem.specifications,
-          warranty_info: updatedItem.warranty_info,
-          maintenance_instructions: updatedItem.maintenance_notes,
-          installation_date: updatedItem.installation_date,
-          cost: updatedItem.cost,
-          image_url: null,
-          document_urls: updatedItem.document_urls,
-          version: updatedItem.version,
-          created_at: updatedItem.created_at,
-          updated_at: updatedItem.updated_at
-        };
+  async getFinishHistory(finishId: string): Promise<FinishHistory[]> {
+    return await db.select().from(finishHistory)
+      .where(eq(finishHistory.finish_id, finishId))
+      .orderBy(desc(finishHistory.version), desc(finishHistory.created_at));
+  }
 
-        return updatedFinish;
-      } catch (error) {
-        console.error('Error in updateFinish:', error);
-        throw error;
+  async restoreFinishVersion(id: string, version: number, userId: string): Promise<Finish | undefined> {
+    const [snapshot] = await db.select().from(finishHistory)
+      .where(and(eq(finishHistory.finish_id, id), eq(finishHistory.version, version)))
+      .orderBy(desc(finishHistory.created_at))
+      .limit(1);
+    const current = await this.getFinish(id);
+    if (!snapshot || !current) return undefined;
+
+    const previous = JSON.parse(snapshot.previous_data) as Record<string, unknown>;
+    const updates: Record<string, unknown> = {};
+    for (const field of FINISH_RESTORE_FIELDS) {
+      updates[field] = previous[field] ?? null;
+    }
+
+    // Stay in the current room if the earlier one has gone or belongs to another project
+    if (updates.room_id) {
+      const previousRoom = await this.getRoom(updates.room_id as string);
+      if (!previousRoom || previousRoom.project_id !== current.project_id) {
+        updates.room_id = current.room_id;
       }
+    }
+
+    return await this.updateFinish(id, updates as Partial<InsertFinish>, userId, {
+      changeType: "restore",
+      restoredVersion: version
     });
   }
 
-  async getFinishHistory(finishId: string): Promise<FinishHistory[]> {
-    try {
-      // Get item history records for this item ID
-      const query = `
-        SELECT * FROM item_history
-        WHERE item_id = $1
-        ORDER BY version
-      `;
-      
-      const result = await db.execute(query, [finishId]);
-      const historyRecords = result.rows || [];
-      
-      // Convert item history to finish history
-      const finishHistoryRecords: FinishHistory[] = historyRecords.map((record: any) => {
-        return {
-          id: record.id,
-          finish_id: record.item_id,
-          version: record.version,
-          change_type: 'edit', // Default value
-          previous_data: JSON.stringify({
-            id: record.id,
-            room_id: record.room_id,
-            project_id: "", // No direct mapping
-            name: record.name,
-            category: record.category,
-            manufacturer: record.brand,
-            supplier: record.supplier,
-            color: null, 
-            material: null,
-            dimensions: null,
-            model_number: null,
-            specifications: record.specifications,
-            warranty_info: record.warranty_info,
-            maintenance_instructions: record.maintenance_notes,
-            installation_date: record.installation_date,
-            cost: record.cost,
-            image_url: record.image_url,
-            document_urls: record.document_urls,
-            version: record.version
-          }),
-          changed_by: "", // No direct mapping
-          changed_at: record.created_at,
-          created_at: record.created_at
-        };
-      });
-      
-      return finishHistoryRecords;
-    } catch (error) {
-      console.error('Error in getFinishHistory:', error);
-      return [];
-    }
+  async getMaintenanceTask(id: string): Promise<MaintenanceTask | undefined> {
+    const [task] = await db.select().from(maintenanceTasks).where(eq(maintenanceTasks.id, id));
+    return task;
+  }
+
+  async getMaintenanceTasksByProjectId(projectId: string): Promise<MaintenanceTask[]> {
+    return await db.select().from(maintenanceTasks)
+      .where(eq(maintenanceTasks.project_id, projectId))
+      .orderBy(maintenanceTasks.created_at);
+  }
+
+  async createMaintenanceTask(task: InsertMaintenanceTask): Promise<MaintenanceTask> {
+    const [created] = await db.insert(maintenanceTasks).values(task).returning();
+    return created;
+  }
+
+  async updateMaintenanceTask(id: string, updates: Partial<InsertMaintenanceTask>): Promise<MaintenanceTask> {
+    const [updated] = await db.update(maintenanceTasks)
+      .set({ ...updates, updated_at: new Date() })
+      .where(eq(maintenanceTasks.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteMaintenanceTask(id: string): Promise<void> {
+    await db.delete(maintenanceTasks).where(eq(maintenanceTasks.id, id));
+  }
+
+  async getMaintenanceCompletion(id: string): Promise<MaintenanceCompletion | undefined> {
+    const [completion] = await db.select().from(maintenanceCompletions).where(eq(maintenanceCompletions.id, id));
+    return completion;
+  }
+
+  async getMaintenanceCompletions(taskId: string): Promise<MaintenanceCompletion[]> {
+    return await db.select().from(maintenanceCompletions)
+      .where(eq(maintenanceCompletions.task_id, taskId))
+      .orderBy(desc(maintenanceCompletions.completed_on), desc(maintenanceCompletions.created_at));
+  }
+
+  async getMaintenanceCompletionsByProjectId(projectId: string): Promise<MaintenanceCompletion[]> {
+    const tasks = db.select({ id: maintenanceTasks.id })
+      .from(maintenanceTasks)
+      .where(eq(maintenanceTasks.project_id, projectId));
+    return await db.select().from(maintenanceCompletions)
+      .where(inArray(maintenanceCompletions.task_id, tasks))
+      .orderBy(desc(maintenanceCompletions.completed_on), desc(maintenanceCompletions.created_at));
+  }
+
+  async createMaintenanceCompletion(completion: InsertMaintenanceCompletion): Promise<MaintenanceCompletion> {
+    const [created] = await db.insert(maintenanceCompletions).values(completion).returning();
+    return created;
+  }
+
+  async updateMaintenanceCompletion(id: string, updates: Partial<MaintenanceCompletion>): Promise<MaintenanceCompletion> {
+    const [updated] = await db.update(maintenanceCompletions)
+      .set(updates)
+      .where(eq(maintenanceCompletions.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteMaintenanceCompletion(id: string): Promise<void> {
+    await db.delete(maintenanceCompletions).where(eq(maintenanceCompletions.id, id));
+  }
+
+  async getWarranty(id: string): Promise<Warranty | undefined> {
+    const [warranty] = await db.select().from(warranties).where(eq(warranties.id, id));
+    return warranty;
+  }
+
+  async getWarrantiesByProjectId(projectId: string): Promise<Warranty[]> {
+    return await db.select().from(warranties)
+      .where(eq(warranties.project_id, projectId))
+      .orderBy(sql`${warranties.expires_on} asc nulls last`, warranties.created_at);
+  }
+
+  async createWarranty(warranty: InsertWarranty): Promise<Warranty> {
+    const [created] = await db.insert(warranties).values(warranty).returning();
+    return created;
+  }
+
+  async updateWarranty(id: string, updates: Partial<InsertWarranty>): Promise<Warranty> {
+    const [updated] = await db.update(warranties)
+      .set({ ...updates, updated_at: new Date() })
+      .where(eq(warranties.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteWarranty(id: string): Promise<void> {
+    await db.delete(warranties).where(eq(warranties.id, id));
+  }
+
+  async getCalendarFeed(projectId: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.project_id, projectId));
+    return feed;
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed;
+  }
+
+  async setCalendarFeed(feed: InsertCalendarFeed): Promise<CalendarFeed> {
+    const [saved] = await db.insert(calendarFeeds)
+      .values(feed)
+      .onConflictDoUpdate({
+        target: calendarFeeds.project_id,
+        set: { token: feed.token, created_by: feed.created_by, last_fetched_at: null, created_at: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async recordCalendarFeedFetch(id: string): Promise<void> {
+    await db.update(calendarFeeds).set({ last_fetched_at: new Date() }).where(eq(calendarFeeds.id, id));
+  }
+
+  async deleteCalendarFeed(projectId: string): Promise<void> {
+    await db.delete(calendarFeeds).where(eq(calendarFeeds.project_id, projectId));
+  }
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined> {
+    const [preferences] = await db.select().from(notificationPreferences).where(eq(notificationPreferences.user_id, userId));
+    return preferences;
+  }
+
+  async saveNotificationPreferences(preferences: InsertNotificationPreferences): Promise<NotificationPreferences> {
+    const { user_id, ...settings } = preferences;
+    const [saved] = await db.insert(notificationPreferences)
+      .values(preferences)
+      .onConflictDoUpdate({
+        target: notificationPreferences.user_id,
+        set: { ...settings, updated_at: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async getNotificationRecipients(): Promise<{ user_id: string; email: string | null }[]> {
+    return await db.selectDistinctOn([projectMembers.user_id], { user_id: projectMembers.user_id, email: projectMembers.email })
+      .from(projectMembers)
+      .orderBy(projectMembers.user_id, sql`${projectMembers.email} is null`, desc(projectMembers.created_at));
+  }
+
+  async claimDigest(userId: string, dueBefore: Date, sentAt: Date): Promise<boolean> {
+    const claimed = await db.insert(notificationPreferences)
+      .values({ user_id: userId, last_digest_at: sentAt })
+      .onConflictDoUpdate({
+        target: notificationPreferences.user_id,
+        set: { last_digest_at: sentAt },
+        setWhere: or(isNull(notificationPreferences.last_digest_at), lt(notificationPreferences.last_digest_at, dueBefore))
+      })
+      .returning({ user_id: notificationPreferences.user_id });
+    return claimed.length > 0;
+  }
+
+  async releaseDigest(userId: string, sentAt: Date, previous: Date | null): Promise<void> {
+    await db.update(notificationPreferences)
+      .set({ last_digest_at: previous })
+      .where(and(eq(notificationPreferences.user_id, userId), eq(notificationPreferences.last_digest_at, sentAt)));
+  }
+
+  async resetNotificationEmailConfirmation(userId: string, token: string | null, confirmedAt: Date | null): Promise<void> {
+    await db.update(notificationPreferences)
+      .set({ email_confirmation_token: token, email_confirmed_at: confirmedAt, updated_at: new Date() })
+      .where(eq(notificationPreferences.user_id, userId));
+  }
+
+  async confirmNotificationEmail(token: string): Promise<NotificationPreferences | undefined> {
+    const [confirmed] = await db.update(notificationPreferences)
+      .set({ email_confirmation_token: null, email_confirmed_at: new Date(), updated_at: new Date() })
+      .where(eq(notificationPreferences.email_confirmation_token, token))
+      .returning();
+    return confirmed;
+  }
+
+  async claimRequestedMail(userId: string, sentBefore: Date, sentAt: Date): Promise<boolean> {
+    const claimed = await db.insert(notificationPreferences)
+      .values({ user_id: userId, last_requested_mail_at: sentAt })
+      .onConflictDoUpdate({
+        target: notificationPreferences.user_id,
+        set: { last_requested_mail_at: sentAt },
+        setWhere: or(isNull(notificationPreferences.last_requested_mail_at), lt(notificationPreferences.last_requested_mail_at, sentBefore))
+      })
+      .returning({ user_id: notificationPreferences.user_id });
+    return claimed.length > 0;
+  }
+
+  async getItemHistoryByProjectIdSince(projectId: string, since: Date): Promise<ItemHistory[]> {
+    const rows = await db.select({ history: itemHistory })
+      .from(itemHistory)
+      .innerJoin(rooms, eq(itemHistory.room_id, rooms.id))
+      .where(and(eq(rooms.project_id, projectId), gt(itemHistory.created_at, since)))
+      .orderBy(itemHistory.created_at);
+    return rows.map((row: { history: ItemHistory }) => row.history);
+  }
+
+  async getFinishHistoryByProjectIdSince(projectId: string, since: Date): Promise<FinishHistory[]> {
+    const rows = await db.select({ history: finishHistory })
+      .from(finishHistory)
+      .innerJoin(finishes, eq(finishHistory.finish_id, finishes.id))
+      .where(and(eq(finishes.project_id, projectId), gt(finishHistory.changed_at, since)))
+      .orderBy(finishHistory.changed_at);
+    return rows.map((row: { history: FinishHistory }) => row.history);
   }
 
   async createConversation(conversation: InsertConversation): Promise<Conversation> {
@@ -580,12 +1151,22 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async getMessage(id: string): Promise<Message | undefined> {
+    const [message] = await db.select().from(messages).where(eq(messages.id, id));
+    return message;
+  }
+
   async getConversationMessages(conversationId: string): Promise<Message[]> {
     return await db.select().from(messages)
       .where(eq(messages.conversation_id, conversationId))
       .orderBy(messages.created_at);
   }
 
+  async updateMessage(id: string, updates: Partial<InsertMessage>): Promise<Message> {
+    const [updated] = await db.update(messages).set(updates).where(eq(messages.id, id)).returning();
+    return updated;
+  }
+
   async deleteMessage(id: string): Promise<void> {
     await db.delete(messages).where(eq(messages.id, id));
   }
@@ -614,6 +1195,14 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(knowledgeBase).where(eq(knowledgeBase.project_id, projectId));
   }
 
+  async getKnowledgeBaseEntriesBySource(sourceType: string, sourceId: string): Promise<KnowledgeBase[]> {
+    // Entries indexed from project records point back at them through metadata
+    return await db.select().from(knowledgeBase).where(and(
+      sql`${knowledgeBase.metadata}->>'source_type' = ${sourceType}`,
+      sql`${knowledgeBase.metadata}->>'source_id' = ${sourceId}`
+    ));
+  }
+
   async updateKnowledgeBaseEntry(id: string, updates: Partial<InsertKnowledgeBase>): Promise<KnowledgeBase> {
     const [updated] = await db.update(knowledgeBase).set(updates).where(eq(knowledgeBase.id, id)).returning();
     return updated;
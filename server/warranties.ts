@@ -0,0 +1,277 @@
+import { z } from "zod";
+import { insertWarrantySchema, type Warranty, type WarrantyCoverage } from "@shared/schema";
+import { storage } from "./storage";
+import { addDays, addMonths, today } from "./dates";
+
+// Warranties expiring within this many days are flagged as expiring
+export const EXPIRING_SOON_DAYS = 90;
+
+export type WarrantyStatus = "expired" | "expiring" | "active" | "no_expiry";
+
+// What a warranty is for, when it's on an item or finish
+export interface WarrantySubject {
+  type: "item" | "finish";
+  id: string;
+  name: string;
+  room_id: string | null;
+}
+
+export interface TrackedWarranty extends Warranty {
+  status: WarrantyStatus;
+  // Negative once expired; null without an expiry date
+  days_left: number | null;
+  subject: WarrantySubject | null;
+}
+
+/**
+ * Structure suggested for free-text warranty information. Every field is a
+ * suggestion for the user to check, so any of them can be null.
+ */
+export interface WarrantySuggestion {
+  provider: string | null;
+  coverage_type: WarrantyCoverage;
+  start_date: string | null;
+  duration_months: number | null;
+  expires_on: string | null;
+  registration_number: string | null;
+  claim_contact: string | null;
+  // The part of the text the suggestion was read from
+  source_text: string;
+}
+
+// Free text on an item or finish that has no warranty record yet
+export interface WarrantyTextSuggestions {
+  subject: WarrantySubject;
+  warranty_info: string;
+  suggestions: WarrantySuggestion[];
+}
+
+// A warranty as sent by the client; the project comes from the route
+export const warrantyInputSchema = insertWarrantySchema
+  .omit({ project_id: true })
+  .superRefine((warranty, ctx) => {
+    if (warranty.item_id && warranty.finish_id) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["finish_id"], message: "A warranty can be for an item or a finish, not both" });
+    }
+    if (warranty.start_date && warranty.expires_on && warranty.expires_on < warranty.start_date) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["expires_on"], message: "Expiry can't be before the start date" });
+    }
+  });
+export type WarrantyInput = z.infer<typeof warrantyInputSchema>;
+
+// Text to parse, and the item or finish it's for
+export const warrantyTextSchema = z.object({
+  text: z.string().trim().min(1, "Enter the warranty text").max(2000),
+  item_id: z.string().uuid().nullish(),
+  finish_id: z.string().uuid().nullish()
+});
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, eighteen: 18, twenty: 20, thirty: 30, fifty: 50
+};
+
+// "10 year", "10-yr", "ten years", "18 months", "2.5 yrs"
+const DURATION_PATTERN = new RegExp(
+  `\\b(\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).join("|")})[\\s-]*(years?|yrs?|months?|mos?)\\b`,
+  "i"
+);
+
+// Checked in order; the first match wins
+const COVERAGE_PATTERNS: [WarrantyCoverage, RegExp][] = [
+  ["parts_and_labor", /\bparts\s*(?:and|&|\+)\s*lab(?:o|ou)r\b/i],
+  ["lifetime", /\blife\s*-?time\b/i],
+  ["labor", /\blab(?:o|ou)r\b|\bworkmanship\b/i],
+  ["parts", /\bparts?\b|\bcomponents?\b|\bcompressor\b/i],
+  ["extended", /\bextended\b/i],
+  ["limited", /\blimited\b/i],
+  ["full", /\bfull\b|\bcomprehensive\b/i]
+];
+
+const REGISTRATION_PATTERN = /\b(?:reg(?:istration)?|serial|policy|cert(?:ificate)?|warranty|claim)\s*(?:no\.?|number|num|#|id)\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{3,})/i;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s,;]+/i;
+const PHONE_PATTERN = /(?:\+?\d[\d\s().-]{7,}\d)/;
+
+// "expires 2031-05-01", "until 5/1/2031"
+const EXPIRY_PATTERN = /\b(?:exp(?:ires|iry|\.)?|until|through|thru|ends?|valid to)\s*(?:on\s*)?[:\-]?\s*(\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{4})/i;
+
+function readDuration(text: string): number | null {
+  const match = text.match(DURATION_PATTERN);
+  if (!match) return null;
+  const amount = NUMBER_WORDS[match[1].toLowerCase()] ?? Number(match[1]);
+  const months = match[2].toLowerCase().startsWith("y") ? amount * 12 : amount;
+  return months >= 1 ? Math.round(months) : null;
+}
+
+function readCoverage(text: string): WarrantyCoverage | null {
+  return COVERAGE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
+
+function readExpiry(text: string): string | null {
+  const match = text.match(EXPIRY_PATTERN);
+  if (!match) return null;
+  if (match[1].includes("-")) return match[1];
+  const [month, day, year] = match[1].split("/").map(Number);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function readContact(text: string): string | null {
+  // Numbers in dates and registration numbers aren't phone numbers
+  const withoutNumbers = text
+    .replace(REGISTRATION_PATTERN, "")
+    .replace(/\b\d{4}-\d{2}-\d{2}\b|\b\d{1,2}\/\d{1,2}\/\d{4}\b/g, "");
+  return text.match(EMAIL_PATTERN)?.[0]
+    ?? text.match(URL_PATTERN)?.[0]
+    ?? withoutNumbers.match(PHONE_PATTERN)?.[0].trim()
+    ?? null;
+}
+
+/**
+ * Suggest warranty records from free text such as "10 year limited" or
+ * "Lifetime on compressor, 5 yrs parts, 1 yr labour". Each part of the text
+ * with its own term becomes a separate suggestion. defaults fills in what the
+ * text can't say, such as the installation date.
+ */
+export function parseWarrantyText(
+  text: string,
+  defaults: { provider?: string | null; start_date?: string | null } = {}
+): WarrantySuggestion[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  const shared = {
+    provider: defaults.provider || null,
+    start_date: defaults.start_date || null,
+    registration_number: trimmed.match(REGISTRATION_PATTERN)?.[1] ?? null,
+    claim_contact: readContact(trimmed)
+  };
+
+  const toSuggestion = (part: string): WarrantySuggestion | null => {
+    const coverage = readCoverage(part);
+    const expiresOn = readExpiry(part);
+    const duration = coverage === "lifetime" ? null : readDuration(part);
+    if (!coverage && !duration && !expiresOn) return null;
+    return {
+      ...shared,
+      coverage_type: coverage ?? "other",
+      duration_months: duration,
+      expires_on: expiresOn ?? (duration && shared.start_date ? addMonths(shared.start_date, duration) : null),
+      source_text: part
+    };
+  };
+
+  // Split into separate terms only when more than one part has a term of its own
+  const parts = trimmed.split(/[;\n]|,(?![^(]*\))/).map(part => part.trim()).filter(Boolean);
+  const termParts = parts.filter(part => readDuration(part) || /\blife\s*-?time\b/i.test(part));
+  if (termParts.length > 1) {
+    return termParts.map(toSuggestion).filter((suggestion): suggestion is WarrantySuggestion => !!suggestion);
+  }
+
+  const suggestion = toSuggestion(trimmed);
+  return suggestion ? [suggestion] : [];
+}
+
+/**
+ * When a warranty ends: the date given, or its start plus its duration
+ */
+export function resolveExpiry(warranty: Pick<WarrantyInput, "start_date" | "duration_months" | "expires_on">): string | null {
+  if (warranty.expires_on) return warranty.expires_on;
+  if (warranty.start_date && warranty.duration_months) return addMonths(warranty.start_date, warranty.duration_months);
+  return null;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000));
+}
+
+export function warrantyStatus(expiresOn: string | null, on: string = today()): WarrantyStatus {
+  if (!expiresOn) return "no_expiry";
+  if (expiresOn < on) return "expired";
+  if (expiresOn <= addDays(on, EXPIRING_SOON_DAYS)) return "expiring";
+  return "active";
+}
+
+type SubjectDetails = WarrantySubject & { installedOn: string | null; provider: string | null; warrantyInfo: string | null };
+
+export class WarrantyTracker {
+  /**
+   * A project's warranties with their status, soonest expiry first
+   */
+  static async forProject(projectId: string): Promise<TrackedWarranty[]> {
+    const warranties = await storage.getWarrantiesByProjectId(projectId);
+    if (warranties.length === 0) return [];
+
+    const subjects = await this.subjects(projectId);
+    const on = today();
+    return warranties.map(warranty => this.track(warranty, subjects.get(warranty.item_id ?? warranty.finish_id ?? ""), on));
+  }
+
+  static async forWarranty(warranty: Warranty): Promise<TrackedWarranty> {
+    const subjects = await this.subjects(warranty.project_id);
+    return this.track(warranty, subjects.get(warranty.item_id ?? warranty.finish_id ?? ""), today());
+  }
+
+  /**
+   * Items and finishes with warranty text but no warranty record, with the
+   * records their text suggests
+   */
+  static async suggestionsForProject(projectId: string): Promise<WarrantyTextSuggestions[]> {
+    const covered = new Set((await storage.getWarrantiesByProjectId(projectId))
+      .map(warranty => warranty.item_id ?? warranty.finish_id)
+      .filter(Boolean));
+
+    const results: WarrantyTextSuggestions[] = [];
+    for (const subject of Array.from((await this.subjects(projectId)).values())) {
+      if (!subject.warrantyInfo?.trim() || covered.has(subject.id)) continue;
+      results.push({
+        subject: { type: subject.type, id: subject.id, name: subject.name, room_id: subject.room_id },
+        warranty_info: subject.warrantyInfo,
+        suggestions: parseWarrantyText(subject.warrantyInfo, { provider: subject.provider, start_date: subject.installedOn })
+      });
+    }
+    return results;
+  }
+
+  /**
+   * The installation date of a warranty's item or finish, used as its start
+   * date when none is given
+   */
+  static async installationDateOf(warranty: Pick<WarrantyInput, "item_id" | "finish_id">): Promise<string | null> {
+    if (warranty.item_id) {
+      return (await storage.getItem(warranty.item_id))?.installation_date ?? null;
+    }
+    if (warranty.finish_id) {
+      return (await storage.getFinish(warranty.finish_id))?.installation_date ?? null;
+    }
+    return null;
+  }
+
+  private static track(warranty: Warranty, subject: SubjectDetails | undefined, on: string): TrackedWarranty {
+    return {
+      ...warranty,
+      status: warrantyStatus(warranty.expires_on, on),
+      days_left: warranty.expires_on ? daysBetween(on, warranty.expires_on) : null,
+      subject: subject ? { type: subject.type, id: subject.id, name: subject.name, room_id: subject.room_id } : null
+    };
+  }
+
+  private static async subjects(projectId: string): Promise<Map<string, SubjectDetails>> {
+    const subjects = new Map<string, SubjectDetails>();
+    for (const room of await storage.getRoomsByProjectId(projectId)) {
+      for (const item of await storage.getItemsByRoomId(room.id)) {
+        subjects.set(item.id, {
+          type: "item", id: item.id, name: item.name, room_id: room.id,
+          installedOn: item.installation_date, provider: item.brand, warrantyInfo: item.warranty_info
+        });
+      }
+    }
+    for (const finish of await storage.getFinishesByProjectId(projectId)) {
+      subjects.set(finish.id, {
+        type: "finish", id: finish.id, name: finish.name, room_id: finish.room_id,
+        installedOn: finish.installation_date, provider: finish.manufacturer, warrantyInfo: finish.warranty_info
+      });
+    }
+    return subjects;
+  }
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, uuid, timestamp, integer, numeric, date, boolean, pgEnum, json, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, uuid, timestamp, integer, numeric, date, boolean, pgEnum, json, decimal, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -12,6 +12,10 @@ export const projects = pgTable("projects", {
   access_code: text("access_code").notNull().unique(),
   require_pin: boolean("require_pin").default(false).notNull(),
   edit_pin: text("edit_pin"),
+  // Wrong PIN unlock attempts, kept here so restarts and new IP addresses don't reset them
+  pin_failed_attempts: integer("pin_failed_attempts").default(0).notNull(),
+  pin_first_failed_at: timestamp("pin_first_failed_at"),
+  pin_locked_until: timestamp("pin_locked_until"),
   completion_date: date("completion_date"),
   created_at: timestamp("created_at").defaultNow().notNull()
 });
@@ -37,6 +41,9 @@ export const images = pgTable("images", {
     .notNull()
     .references(() => items.id, { onDelete: "cascade" }),
   storage_path: text("storage_path").notNull(),
+  // Resized copies; null for images uploaded before renditions were generated
+  thumbnail_path: text("thumbnail_path"),
+  medium_path: text("medium_path"),
   filename: text("filename").notNull(),
   size: integer("size").notNull(),
   mime_type: text("mime_type").notNull(),
@@ -62,7 +69,6 @@ export const items = pgTable("items", {
   maintenance_notes: text("maintenance_notes"),
   category: text("category").notNull(),
   status: text("status"),
-  document_urls: text("document_urls").array(),
   link: text("link"),
   notes: text("notes"),
   version: integer("version").notNull().default(1),
@@ -90,13 +96,17 @@ export const itemHistory = pgTable("item_history", {
   link: text("link"),
   notes: text("notes"),
   version: integer("version").notNull(),
+  // How this version was replaced, and by whom (null for edits made with the edit PIN)
+  change_type: text("change_type").default("update").notNull(),
+  changed_by: uuid("changed_by"),
+  restored_version: integer("restored_version"),
   created_at: timestamp("created_at").defaultNow().notNull()
 });
 
 // Chat related enums and tables
 export const llmProviderEnum = pgEnum("llm_provider", ["openai", "anthropic", "gemini", "ollama"]);
 export const messageRoleEnum = pgEnum("message_role", ["user", "assistant", "system"]);
-export const contentTypeEnum = pgEnum("content_type", ["document", "image", "webpage", "note"]);
+export const contentTypeEnum = pgEnum("content_type", ["document", "image", "webpage", "note", "item", "room", "finish"]);
 
 // Conversations table
 export const conversations = pgTable("conversations", {
@@ -106,6 +116,11 @@ export const conversations = pgTable("conversations", {
     .references(() => projects.id, { onDelete: "cascade" }),
   user_id: uuid("user_id").notNull(),
   title: text("title").notNull(),
+  // Set once the title has been generated from the first exchange
+  title_generated: boolean("title_generated").default(false).notNull(),
+  // Rolling summary of the oldest messages, which are no longer sent to the model
+  summary: text("summary"),
+  summary_message_count: integer("summary_message_count").default(0).notNull(),
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull(),
   archived: boolean("archived").default(false).notNull()
@@ -153,7 +168,7 @@ export const knowledgeBase = pgTable("knowledge_base", {
   title: text("title").notNull(),
   content: text("content").notNull(),
   metadata: json("metadata"),
-  embedding: text("embedding"), // Will store vector as text until drizzle supports vector type
+  embedding: text("embedding"), // JSON array of numbers; dimensions depend on the embedding provider
   indexed_at: timestamp("indexed_at"),
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull()
@@ -184,6 +199,92 @@ export const finishes = pgTable("finishes", {
   updated_at: timestamp("updated_at").defaultNow().notNull()
 });
 
+// What a document is, so they can be grouped and found again
+export const DOCUMENT_KINDS = ["manual", "warranty", "receipt", "permit", "invoice", "drawing", "other"] as const;
+export type DocumentKind = typeof DOCUMENT_KINDS[number];
+
+// Uploaded documents, attached to an item, a room, a finish or (with none of
+// those set) the project as a whole
+export const documents = pgTable("documents", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  project_id: uuid("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  item_id: uuid("item_id").references(() => items.id, { onDelete: "cascade" }),
+  room_id: uuid("room_id").references(() => rooms.id, { onDelete: "cascade" }),
+  finish_id: uuid("finish_id").references(() => finishes.id, { onDelete: "cascade" }),
+  storage_path: text("storage_path").notNull(),
+  filename: text("filename").notNull(),
+  size: integer("size").notNull(),
+  mime_type: text("mime_type").notNull(),
+  kind: text("kind").$type<DocumentKind>().default("other").notNull(),
+  // null for uploads made with the edit PIN
+  uploaded_by: uuid("uploaded_by"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull()
+});
+
+// What a project member can do, from most to least. Owners manage the project
+// and its members, editors can change and delete anything, contributors can
+// add and edit but not delete, and viewers can only look.
+export const PROJECT_ROLES = ["owner", "editor", "contributor", "viewer"] as const;
+export type ProjectRole = typeof PROJECT_ROLES[number];
+
+// People with access to a project. The primary owner (projects.user_id, the
+// creator until the project is handed over) is always an owner member.
+export const projectMembers = pgTable("project_members", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  project_id: uuid("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  user_id: uuid("user_id").notNull(),
+  // As given when the member joined, for showing who they are
+  email: text("email"),
+  role: text("role").$type<ProjectRole>().notNull(),
+  invited_by: uuid("invited_by"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull()
+}, (table) => [unique().on(table.project_id, table.user_id)]);
+
+// Invitations to join a project. With an email, only that person can accept
+// and only once; without one it's a link anyone can use until it expires.
+export const projectInvitations = pgTable("project_invitations", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  project_id: uuid("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  email: text("email"),
+  role: text("role").$type<ProjectRole>().notNull(),
+  token: text("token").notNull().unique(),
+  invited_by: uuid("invited_by").notNull(),
+  expires_at: timestamp("expires_at").notNull(),
+  accepted_at: timestamp("accepted_at"),
+  accepted_by: uuid("accepted_by"),
+  created_at: timestamp("created_at").defaultNow().notNull()
+});
+
+// Access the previous owner can keep after handing a project over
+export const TRANSFER_KEEP_ROLES = ["contributor", "viewer"] as const;
+export type TransferKeepRole = typeof TRANSFER_KEEP_ROLES[number];
+
+// Handing a project over to a new primary owner, e.g. from the builder to the
+// homeowner. With an email only that person can accept.
+export const projectTransfers = pgTable("project_transfers", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  project_id: uuid("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  from_user_id: uuid("from_user_id").notNull(),
+  email: text("email"),
+  // null when the previous owner loses access altogether
+  previous_owner_role: text("previous_owner_role").$type<TransferKeepRole>(),
+  expires_at: timestamp("expires_at").notNull(),
+  accepted_at: timestamp("accepted_at"),
+  accepted_by: uuid("accepted_by"),
+  created_at: timestamp("created_at").defaultNow().notNull()
+});
+
 // Track history of finish changes
 export const finishHistory = pgTable("finish_history", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -192,13 +293,141 @@ export const finishHistory = pgTable("finish_history", {
   change_type: text("change_type").notNull(), 
   previous_data: text("previous_data").notNull(), 
   changed_by: uuid("changed_by").notNull(), 
+  // Set when the change restored an earlier version
+  restored_version: integer("restored_version"),
   changed_at: timestamp("changed_at").defaultNow().notNull(),
   created_at: timestamp("created_at").defaultNow().notNull()
 });
 
+// How a maintenance task repeats: once, every N months, or at the start of
+// chosen seasons
+export const MAINTENANCE_RECURRENCES = ["once", "interval", "seasonal"] as const;
+export type MaintenanceRecurrence = typeof MAINTENANCE_RECURRENCES[number];
+
+export const SEASONS = ["spring", "summer", "autumn", "winter"] as const;
+export type Season = typeof SEASONS[number];
+
+// Upkeep for the home, optionally for one item or finish. Without a
+// first_due_date the schedule counts from the item's or finish's installation
+// date, or from when the task was added.
+export const maintenanceTasks = pgTable("maintenance_tasks", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  project_id: uuid("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  item_id: uuid("item_id").references(() => items.id, { onDelete: "cascade" }),
+  finish_id: uuid("finish_id").references(() => finishes.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  description: text("description"),
+  recurrence: text("recurrence").$type<MaintenanceRecurrence>().notNull(),
+  // Set for interval tasks
+  interval_months: integer("interval_months"),
+  // Set for seasonal tasks
+  seasons: text("seasons").array().$type<Season[]>(),
+  first_due_date: date("first_due_date"),
+  // Shown to homeowners on the public project page
+  is_public: boolean("is_public").default(true).notNull(),
+  // null for tasks added with the edit PIN
+  created_by: uuid("created_by"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull()
+});
+
+// A photo taken when a maintenance task was done, kept in the image bucket
+export interface MaintenancePhoto {
+  storage_path: string;
+  thumbnail_path: string;
+  filename: string;
+}
+
+// Each time a maintenance task was done
+export const maintenanceCompletions = pgTable("maintenance_completions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  task_id: uuid("task_id")
+    .notNull()
+    .references(() => maintenanceTasks.id, { onDelete: "cascade" }),
+  completed_on: date("completed_on").notNull(),
+  notes: text("notes"),
+  photos: json("photos").$type<MaintenancePhoto[]>().default([]).notNull(),
+  // null for completions logged with the edit PIN
+  completed_by: uuid("completed_by"),
+  created_at: timestamp("created_at").defaultNow().notNull()
+});
+
+// What a warranty covers
+export const WARRANTY_COVERAGE_TYPES = ["full", "limited", "lifetime", "parts", "labor", "parts_and_labor", "extended", "other"] as const;
+export type WarrantyCoverage = typeof WARRANTY_COVERAGE_TYPES[number];
+
+// A warranty on an item, a finish or (with neither set) the home as a whole.
+// expires_on is worked out from start_date and duration_months unless given;
+// it stays null for lifetime and open-ended cover.
+export const warranties = pgTable("warranties", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  project_id: uuid("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  item_id: uuid("item_id").references(() => items.id, { onDelete: "cascade" }),
+  finish_id: uuid("finish_id").references(() => finishes.id, { onDelete: "cascade" }),
+  provider: text("provider"),
+  coverage_type: text("coverage_type").$type<WarrantyCoverage>().default("other").notNull(),
+  start_date: date("start_date"),
+  duration_months: integer("duration_months"),
+  expires_on: date("expires_on"),
+  registration_number: text("registration_number"),
+  // Phone number, email or website for making a claim
+  claim_contact: text("claim_contact"),
+  document_id: uuid("document_id").references(() => documents.id, { onDelete: "set null" }),
+  notes: text("notes"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull()
+});
+
+// A secret link to a project's dates as an iCalendar feed, for subscribing
+// from a calendar app. One per project; revoking it deletes the row.
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  project_id: uuid("project_id")
+    .notNull()
+    .unique()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  created_by: uuid("created_by").notNull(),
+  last_fetched_at: timestamp("last_fetched_at"),
+  created_at: timestamp("created_at").defaultNow().notNull()
+});
+
+// How often a user gets a digest email about their projects
+export const DIGEST_FREQUENCIES = ["off", "daily", "weekly"] as const;
+export type DigestFrequency = typeof DIGEST_FREQUENCIES[number];
+
+// A user's email notification settings. Users without a row get the column
+// defaults, sent to the email they joined their projects with.
+export const notificationPreferences = pgTable("notification_preferences", {
+  user_id: uuid("user_id").primaryKey(),
+  // Where digests go, when it isn't the email the user joined with
+  email: text("email"),
+  digest_frequency: text("digest_frequency").$type<DigestFrequency>().default("weekly").notNull(),
+  include_maintenance: boolean("include_maintenance").default(true).notNull(),
+  include_warranties: boolean("include_warranties").default(true).notNull(),
+  include_item_status: boolean("include_item_status").default(true).notNull(),
+  include_activity: boolean("include_activity").default(true).notNull(),
+  // Digests only go to email once its owner follows the link mailed to it
+  email_confirmed_at: timestamp("email_confirmed_at"),
+  email_confirmation_token: text("email_confirmation_token").unique(),
+  // When the user last had a test digest or confirmation link sent, to space them out
+  last_requested_mail_at: timestamp("last_requested_mail_at"),
+  // When the last digest went out; the next one covers what happened since
+  last_digest_at: timestamp("last_digest_at"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull()
+});
+
 // Zod schemas for input validation
 export const insertProjectSchema = createInsertSchema(projects).omit({ 
   id: true,
+  pin_failed_attempts: true,
+  pin_first_failed_at: true,
+  pin_locked_until: true,
   created_at: true 
 });
 
@@ -225,6 +454,42 @@ export const insertImageSchema = createInsertSchema(images).omit({
   created_at: true
 });
 
+export const insertDocumentSchema = createInsertSchema(documents, {
+  kind: z.enum(DOCUMENT_KINDS)
+}).omit({
+  id: true,
+  created_at: true,
+  updated_at: true
+});
+
+export const insertProjectMemberSchema = createInsertSchema(projectMembers, {
+  role: z.enum(PROJECT_ROLES)
+}).omit({
+  id: true,
+  created_at: true,
+  updated_at: true
+});
+
+export const insertProjectInvitationSchema = createInsertSchema(projectInvitations, {
+  role: z.enum(PROJECT_ROLES),
+  email: z.string().trim().toLowerCase().email().nullable().optional()
+}).omit({
+  id: true,
+  accepted_at: true,
+  accepted_by: true,
+  created_at: true
+});
+
+export const insertProjectTransferSchema = createInsertSchema(projectTransfers, {
+  previous_owner_role: z.enum(TRANSFER_KEEP_ROLES).nullable(),
+  email: z.string().trim().toLowerCase().email().nullable().optional()
+}).omit({
+  id: true,
+  accepted_at: true,
+  accepted_by: true,
+  created_at: true
+});
+
 export const insertFinishSchema = createInsertSchema(finishes).omit({ 
   id: true,
   version: true,
@@ -237,6 +502,55 @@ export const insertFinishHistorySchema = createInsertSchema(finishHistory).omit(
   created_at: true
 });
 
+export const insertMaintenanceTaskSchema = createInsertSchema(maintenanceTasks, {
+  title: z.string().trim().min(1, "Title is required"),
+  recurrence: z.enum(MAINTENANCE_RECURRENCES),
+  interval_months: z.number().int().min(1).max(120).nullable().optional(),
+  seasons: z.array(z.enum(SEASONS)).nullable().optional(),
+  first_due_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD").nullable().optional()
+}).omit({
+  id: true,
+  created_at: true,
+  updated_at: true
+});
+
+export const insertMaintenanceCompletionSchema = createInsertSchema(maintenanceCompletions, {
+  completed_on: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD")
+}).omit({
+  id: true,
+  photos: true,
+  created_at: true
+});
+
+export const insertWarrantySchema = createInsertSchema(warranties, {
+  coverage_type: z.enum(WARRANTY_COVERAGE_TYPES),
+  duration_months: z.number().int().min(1).max(1200).nullable().optional(),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD").nullable().optional(),
+  expires_on: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD").nullable().optional()
+}).omit({
+  id: true,
+  created_at: true,
+  updated_at: true
+});
+
+export const insertCalendarFeedSchema = createInsertSchema(calendarFeeds).omit({
+  id: true,
+  last_fetched_at: true,
+  created_at: true
+});
+
+export const insertNotificationPreferencesSchema = createInsertSchema(notificationPreferences, {
+  email: z.string().trim().email().nullable().optional(),
+  digest_frequency: z.enum(DIGEST_FREQUENCIES)
+}).omit({
+  email_confirmed_at: true,
+  email_confirmation_token: true,
+  last_requested_mail_at: true,
+  last_digest_at: true,
+  created_at: true,
+  updated_at: true
+});
+
 // Chat-related Zod schemas
 export const insertConversationSchema = createInsertSchema(conversations).omit({
   id: true,
@@ -264,6 +578,8 @@ export const insertKnowledgeBaseSchema = createInsertSchema(knowledgeBase).omit(
 // TypeScript types
 export type Project = typeof projects.$inferSelect;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
+// Wrong PIN attempts counted against a project
+export type PinAttempts = Pick<Project, "pin_failed_attempts" | "pin_first_failed_at" | "pin_locked_until">;
 
 export type Room = typeof rooms.$inferSelect & {
   projects?: {
@@ -281,11 +597,33 @@ export type InsertItemHistory = z.infer<typeof insertItemHistorySchema>;
 export type Image = typeof images.$inferSelect;
 export type InsertImage = z.infer<typeof insertImageSchema>;
 
+export type Document = typeof documents.$inferSelect;
+export type InsertDocument = z.infer<typeof insertDocumentSchema>;
+
+export type ProjectMember = typeof projectMembers.$inferSelect;
+export type InsertProjectMember = z.infer<typeof insertProjectMemberSchema>;
+export type ProjectInvitation = typeof projectInvitations.$inferSelect;
+export type InsertProjectInvitation = z.infer<typeof insertProjectInvitationSchema>;
+export type ProjectTransfer = typeof projectTransfers.$inferSelect;
+export type InsertProjectTransfer = z.infer<typeof insertProjectTransferSchema>;
+
 export type Finish = typeof finishes.$inferSelect;
 export type InsertFinish = z.infer<typeof insertFinishSchema>;
 export type FinishHistory = typeof finishHistory.$inferSelect;
 export type InsertFinishHistory = z.infer<typeof insertFinishHistorySchema>;
 
+export type MaintenanceTask = typeof maintenanceTasks.$inferSelect;
+export type InsertMaintenanceTask = z.infer<typeof insertMaintenanceTaskSchema>;
+export type MaintenanceCompletion = typeof maintenanceCompletions.$inferSelect;
+export type InsertMaintenanceCompletion = z.infer<typeof insertMaintenanceCompletionSchema>;
+
+export type Warranty = typeof warranties.$inferSelect;
+export type InsertWarranty = z.infer<typeof insertWarrantySchema>;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type InsertCalendarFeed = z.infer<typeof insertCalendarFeedSchema>;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type InsertNotificationPreferences = z.infer<typeof insertNotificationPreferencesSchema>;
+
 // Chat-related TypeScript types
 export type Conversation = typeof conversations.$inferSelect;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
@@ -294,4 +632,28 @@ export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type ChatSettings = typeof chatSettings.$inferSelect;
 export type InsertChatSettings = z.infer<typeof insertChatSettingsSchema>;
 export type KnowledgeBase = typeof knowledgeBase.$inferSelect;
-export type InsertKnowledgeBase = z.infer<typeof insertKnowledgeBaseSchema>;
\ No newline at end of file
+export type InsertKnowledgeBase = z.infer<typeof insertKnowledgeBaseSchema>;
+
+// A project record the assistant cited, stored in messages.metadata.citations.
+// `ref` is the tag (e.g. "S3") the record carried in the prompt context.
+export interface MessageCitation {
+  ref: string;
+  type: "item" | "room" | "finish" | "document" | "note";
+  id: string;
+  title: string;
+  room_id?: string;
+  item_id?: string;
+  page?: number | null;
+}
+
+// A change the assistant proposed, stored in messages.metadata.tool_calls.
+// Changes only run after the user confirms them in the chat.
+export interface MessageToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+  summary: string;
+  status: "pending" | "executed" | "rejected" | "failed" | "cancelled";
+  result?: string;
+  error?: string;
+}
\ No newline at end of file